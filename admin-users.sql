@@ -0,0 +1,23 @@
+-- Admin accounts for the Elternbeirat dashboard
+-- Run this in Supabase SQL editor
+
+-- Passwords are stored as scrypt hashes (see src/lib/auth/passwords.ts)
+CREATE TABLE IF NOT EXISTS admin_users (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  email VARCHAR(254) NOT NULL UNIQUE,
+  name VARCHAR(100) NOT NULL,
+  role VARCHAR(20) NOT NULL
+    CHECK (role IN ('viewer', 'treasurer', 'distributor', 'privacy_officer')),
+  password_hash TEXT NOT NULL,
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  last_login_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- No policies: only the service role (server-side API) can read or write
+ALTER TABLE admin_users ENABLE ROW LEVEL SECURITY;
+
+-- The privacy officer looks up everything a single admin did
+CREATE INDEX IF NOT EXISTS idx_data_processing_activity_processor_id
+ON data_processing_activity(processor_id);
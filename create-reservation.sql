@@ -0,0 +1,111 @@
+-- Creates a reservation with its children in one transaction
+-- Run this in Supabase SQL editor (after reservation-children.sql)
+
+-- Checks the per-family limit, takes the copies out of stock, or the
+-- copies held by a waitlist offer, inserts the reservation and then its
+-- children. The booking trigger of pickup-slots.sql checks the pickup slot
+-- and the claim trigger of reservation-children.sql takes the free
+-- pictures. Any error rolls all of it back, so no stock, offer or claim
+-- outlives a failed reservation and nothing has to be put back afterwards.
+CREATE OR REPLACE FUNCTION create_reservation(
+  p_reservation JSONB,
+  p_children JSONB DEFAULT '[]'::JSONB,
+  p_waitlist_entry_id UUID DEFAULT NULL,
+  p_default_copies_per_family INTEGER DEFAULT 1
+) RETURNS UUID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_row reservations%ROWTYPE;
+  v_reservation_id UUID;
+  v_limit INTEGER;
+  v_reserved INTEGER;
+BEGIN
+  v_row := jsonb_populate_record(NULL::reservations, p_reservation);
+
+  -- The lock on the issue serialises the reservations of it, so two
+  -- requests of one family cannot both pass the limit
+  SELECT m.copies_per_family INTO v_limit
+  FROM magazines m
+  WHERE m.id = v_row.magazine_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'magazine_not_found' USING ERRCODE = 'P0002';
+  END IF;
+
+  -- An exception for the family replaces the limit of the issue, which
+  -- falls back to the site default (family-reservation-limit.sql)
+  SELECT COALESCE(
+    (SELECT l.copies_per_family
+     FROM family_reservation_limits l
+     JOIN users u ON LOWER(u.email) = l.family_email
+     WHERE l.magazine_id = v_row.magazine_id AND u.id = v_row.user_id),
+    v_limit,
+    p_default_copies_per_family
+  ) INTO v_limit;
+
+  -- Copies the family holds or has already received
+  SELECT COALESCE(SUM(r.quantity), 0) INTO v_reserved
+  FROM reservations r
+  WHERE r.magazine_id = v_row.magazine_id
+    AND r.user_id = v_row.user_id
+    AND r.status IN ('pending', 'confirmed', 'completed');
+
+  -- DETAIL carries the limit and HINT the copies left, for the answer
+  IF v_reserved + v_row.quantity > v_limit THEN
+    RAISE EXCEPTION 'family_limit_exceeded'
+      USING ERRCODE = 'P0001',
+            DETAIL = v_limit::TEXT,
+            HINT = GREATEST(v_limit - v_reserved, 0)::TEXT;
+  END IF;
+
+  IF p_waitlist_entry_id IS NOT NULL THEN
+    UPDATE waitlist_entries
+    SET status = 'claimed',
+        updated_at = NOW()
+    WHERE id = p_waitlist_entry_id
+      AND status = 'offered'
+      AND offer_expires_at > NOW();
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'waitlist_offer_expired' USING ERRCODE = 'P0001';
+    END IF;
+  ELSE
+    -- Raises insufficient_copies or magazine_not_found
+    PERFORM reserve_magazine_copies(v_row.magazine_id, v_row.quantity);
+  END IF;
+
+  INSERT INTO reservations (
+    user_id, magazine_id, quantity, delivery_method, pickup_location,
+    pickup_date, pickup_slot_id, payment_method, street, house_number,
+    address_line2, postal_code, city, country, notes, expires_at
+  ) VALUES (
+    v_row.user_id, v_row.magazine_id, v_row.quantity, v_row.delivery_method,
+    v_row.pickup_location, v_row.pickup_date, v_row.pickup_slot_id,
+    v_row.payment_method, v_row.street, v_row.house_number,
+    v_row.address_line2, v_row.postal_code, v_row.city, v_row.country,
+    v_row.notes, v_row.expires_at
+  )
+  RETURNING id INTO v_reservation_id;
+
+  INSERT INTO reservation_children (
+    reservation_id, child_name, group_name, is_vorschueler,
+    order_group_picture, order_vorschul_picture
+  )
+  SELECT
+    v_reservation_id, child.child_name, child.group_name,
+    child.is_vorschueler, child.order_group_picture,
+    child.order_vorschul_picture
+  FROM jsonb_populate_recordset(NULL::reservation_children, p_children)
+    AS child;
+
+  RETURN v_reservation_id;
+END;
+$$;
+
+-- Only the service role (server-side API) may create reservations this way
+REVOKE ALL ON FUNCTION create_reservation(JSONB, JSONB, UUID, INTEGER)
+FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION create_reservation(JSONB, JSONB, UUID, INTEGER)
+TO service_role;
@@ -0,0 +1,26 @@
+-- Per-family reservation limit
+-- Run this in Supabase SQL editor
+
+-- Copies one family may reserve of an issue. NULL uses the default from the
+-- site configuration; the Elternbeirat can raise or lower it per issue.
+ALTER TABLE magazines
+ADD COLUMN IF NOT EXISTS copies_per_family INTEGER
+  CHECK (copies_per_family BETWEEN 1 AND 5);
+
+-- Exceptions for single families, e.g. for twins in different classes. The
+-- limit of the exception replaces the one of the issue for that family.
+CREATE TABLE IF NOT EXISTS family_reservation_limits (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  magazine_id UUID NOT NULL REFERENCES magazines(id) ON DELETE CASCADE,
+  family_email VARCHAR(255) NOT NULL, -- Stored lowercase
+  copies_per_family INTEGER NOT NULL
+    CHECK (copies_per_family BETWEEN 1 AND 20),
+  reason VARCHAR(500),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CONSTRAINT family_reservation_limits_once_per_family
+    UNIQUE (magazine_id, family_email)
+);
+
+-- No policies: only the service role (server-side API) can read or write
+ALTER TABLE family_reservation_limits ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,31 @@
+-- Kindergarten groups and children for the free picture orders
+-- Run this in Supabase SQL editor
+
+-- Groups per kindergarten year; families pick from the groups of the
+-- latest year when they order pictures
+CREATE TABLE IF NOT EXISTS kindergarten_groups (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  name VARCHAR(100) NOT NULL,
+  year VARCHAR(9) NOT NULL CHECK (year ~ '^\d{4}/\d{4}$'), -- e.g. 2024/2025
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CONSTRAINT kindergarten_groups_name_year UNIQUE (name, year)
+);
+
+-- Optional: the children of a group. When a group lists its children, only
+-- the ones marked as Vorschüler can order the Vorschüler picture.
+CREATE TABLE IF NOT EXISTS kindergarten_children (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  group_id UUID NOT NULL REFERENCES kindergarten_groups(id) ON DELETE CASCADE,
+  name VARCHAR(200) NOT NULL,
+  is_vorschueler BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- No policies: only the service role (server-side API) can read or write
+ALTER TABLE kindergarten_groups ENABLE ROW LEVEL SECURITY;
+ALTER TABLE kindergarten_children ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_kindergarten_children_group_id
+ON kindergarten_children(group_id);
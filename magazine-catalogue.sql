@@ -0,0 +1,70 @@
+-- Magazine issues managed from the dashboard
+-- Run this in Supabase SQL editor
+
+ALTER TABLE magazines
+ADD COLUMN IF NOT EXISTS is_active BOOLEAN NOT NULL DEFAULT TRUE,
+ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ DEFAULT NOW(),
+-- Reservation window; open on either side when NULL
+ADD COLUMN IF NOT EXISTS reservations_open_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS reservations_close_at TIMESTAMPTZ,
+-- Issue details shown on the homepage
+ADD COLUMN IF NOT EXISTS contents JSONB NOT NULL DEFAULT '[]'::JSONB,
+ADD COLUMN IF NOT EXISTS page_count INTEGER,
+ADD COLUMN IF NOT EXISTS format VARCHAR(50),
+ADD COLUMN IF NOT EXISTS paper_weight VARCHAR(50);
+
+ALTER TABLE magazines
+DROP CONSTRAINT IF EXISTS magazines_reservation_window;
+ALTER TABLE magazines
+ADD CONSTRAINT magazines_reservation_window
+CHECK (reservations_close_at IS NULL
+  OR reservations_open_at IS NULL
+  OR reservations_close_at > reservations_open_at);
+
+-- Changes the print run of an issue. Copies already reserved stay taken, so
+-- available_copies moves by the same amount and the total can never drop
+-- below what families already hold.
+CREATE OR REPLACE FUNCTION set_magazine_total_copies(
+  p_magazine_id UUID,
+  p_total_copies INTEGER
+) RETURNS INTEGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_magazine magazines%ROWTYPE;
+  v_reserved INTEGER;
+BEGIN
+  SELECT * INTO v_magazine
+  FROM magazines
+  WHERE id = p_magazine_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'magazine_not_found' USING ERRCODE = 'P0002';
+  END IF;
+
+  v_reserved := v_magazine.total_copies - v_magazine.available_copies;
+
+  -- DETAIL carries the reserved copies so the API can report them
+  IF p_total_copies < v_reserved THEN
+    RAISE EXCEPTION 'copies_reserved'
+      USING ERRCODE = 'P0001', DETAIL = v_reserved::TEXT;
+  END IF;
+
+  UPDATE magazines
+  SET total_copies = p_total_copies,
+      available_copies = p_total_copies - v_reserved,
+      updated_at = NOW()
+  WHERE id = p_magazine_id;
+
+  RETURN p_total_copies - v_reserved;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION set_magazine_total_copies(UUID, INTEGER) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION set_magazine_total_copies(UUID, INTEGER) TO service_role;
+
+-- Public bucket for the cover images; uploads go through the admin API
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('magazine-covers', 'magazine-covers', true)
+ON CONFLICT (id) DO NOTHING;
@@ -0,0 +1,25 @@
+// Netlify scheduled function - expires unpaid reservations every hour.
+// The work happens in the Astro endpoint /api/jobs/expire-reservations,
+// which has access to the site's environment and services.
+
+export default async () => {
+  const siteUrl = process.env.URL || process.env.SITE_URL;
+
+  const response = await fetch(`${siteUrl}/api/jobs/expire-reservations`, {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${process.env.CRON_SECRET}` },
+  });
+
+  const body = await response.text();
+  if (!response.ok) {
+    console.error(`Reservation expiry job failed (${response.status}):`, body);
+  } else {
+    console.log('Reservation expiry job finished:', body);
+  }
+
+  return new Response(body, { status: response.status });
+};
+
+export const config = {
+  schedule: '@hourly',
+};
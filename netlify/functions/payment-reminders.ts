@@ -0,0 +1,26 @@
+// Netlify scheduled function - reminds families of unpaid reservations once
+// a day. The work happens in the Astro endpoint /api/jobs/payment-reminders,
+// which has access to the site's environment and services.
+
+export default async () => {
+  const siteUrl = process.env.URL || process.env.SITE_URL;
+
+  const response = await fetch(`${siteUrl}/api/jobs/payment-reminders`, {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${process.env.CRON_SECRET}` },
+  });
+
+  const body = await response.text();
+  if (!response.ok) {
+    console.error(`Payment reminder job failed (${response.status}):`, body);
+  } else {
+    console.log('Payment reminder job finished:', body);
+  }
+
+  return new Response(body, { status: response.status });
+};
+
+// 08:00 UTC - reminders arrive in the morning rather than at night
+export const config = {
+  schedule: '0 8 * * *',
+};
@@ -0,0 +1,26 @@
+// Netlify scheduled function - reminds families of tomorrow's pickup once a
+// day. The work happens in the Astro endpoint /api/jobs/pickup-reminders,
+// which has access to the site's environment and services.
+
+export default async () => {
+  const siteUrl = process.env.URL || process.env.SITE_URL;
+
+  const response = await fetch(`${siteUrl}/api/jobs/pickup-reminders`, {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${process.env.CRON_SECRET}` },
+  });
+
+  const body = await response.text();
+  if (!response.ok) {
+    console.error(`Pickup reminder job failed (${response.status}):`, body);
+  } else {
+    console.log('Pickup reminder job finished:', body);
+  }
+
+  return new Response(body, { status: response.status });
+};
+
+// 16:00 UTC - the reminder arrives the afternoon before the pickup
+export const config = {
+  schedule: '0 16 * * *',
+};
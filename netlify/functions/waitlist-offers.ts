@@ -0,0 +1,26 @@
+// Netlify scheduled function - passes unclaimed waitlist offers on to the
+// next families every 15 minutes. The work happens in the Astro endpoint
+// /api/jobs/waitlist-offers, which has access to the site's environment and
+// services.
+
+export default async () => {
+  const siteUrl = process.env.URL || process.env.SITE_URL;
+
+  const response = await fetch(`${siteUrl}/api/jobs/waitlist-offers`, {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${process.env.CRON_SECRET}` },
+  });
+
+  const body = await response.text();
+  if (!response.ok) {
+    console.error(`Waitlist offers job failed (${response.status}):`, body);
+  } else {
+    console.log('Waitlist offers job finished:', body);
+  }
+
+  return new Response(body, { status: response.status });
+};
+
+export const config = {
+  schedule: '*/15 * * * *',
+};
@@ -0,0 +1,11 @@
+-- Payment reminders for unpaid shipping reservations
+-- Run this in Supabase SQL editor
+
+-- Set when the reminder email was sent, so every family gets one reminder
+ALTER TABLE reservations
+ADD COLUMN IF NOT EXISTS payment_reminder_sent_at TIMESTAMPTZ;
+
+-- The daily reminder job looks up unreminded pending reservations by deadline
+CREATE INDEX IF NOT EXISTS idx_reservations_payment_reminder_due
+ON reservations(expires_at)
+WHERE status = 'pending' AND payment_reminder_sent_at IS NULL;
@@ -0,0 +1,57 @@
+-- Payment tracking and bank/PayPal statement reconciliation
+-- Run this in Supabase SQL editor
+
+-- One payment record per reservation: what the family owes and what arrived
+CREATE TABLE IF NOT EXISTS payments (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  reservation_id UUID NOT NULL UNIQUE REFERENCES reservations(id) ON DELETE CASCADE,
+  amount_due NUMERIC(10, 2) NOT NULL,
+  amount_received NUMERIC(10, 2) NOT NULL DEFAULT 0,
+  method VARCHAR(20) NOT NULL
+    CHECK (method IN ('paypal', 'bank_transfer', 'cash')),
+  paid_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Every uploaded statement file
+CREATE TABLE IF NOT EXISTS payment_imports (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  source VARCHAR(20) NOT NULL
+    CHECK (source IN ('camt053', 'bank_csv', 'paypal_csv')),
+  filename VARCHAR(255),
+  imported_by VARCHAR(100) NOT NULL,
+  line_count INTEGER NOT NULL DEFAULT 0,
+  matched_count INTEGER NOT NULL DEFAULT 0,
+  imported_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Incoming payments from the statements. Lines that could not be matched
+-- automatically stay 'unmatched' and form the review list.
+CREATE TABLE IF NOT EXISTS payment_import_lines (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  import_id UUID NOT NULL REFERENCES payment_imports(id) ON DELETE CASCADE,
+  source VARCHAR(20) NOT NULL,
+  external_id VARCHAR(255) NOT NULL,
+  booking_date DATE NOT NULL,
+  amount NUMERIC(10, 2) NOT NULL,
+  currency CHAR(3) NOT NULL DEFAULT 'EUR',
+  payer_name VARCHAR(255),
+  reference TEXT,
+  status VARCHAR(20) NOT NULL DEFAULT 'unmatched'
+    CHECK (status IN ('matched', 'unmatched', 'resolved', 'ignored')),
+  reservation_id UUID REFERENCES reservations(id) ON DELETE SET NULL,
+  review_note TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  -- Importing the same statement twice must not confirm anything twice
+  UNIQUE (source, external_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_payment_import_lines_unmatched
+ON payment_import_lines(booking_date)
+WHERE status = 'unmatched';
+
+-- No policies: only the service role (server-side API) can read or write
+ALTER TABLE payments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE payment_imports ENABLE ROW LEVEL SECURITY;
+ALTER TABLE payment_import_lines ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,13 @@
+-- Pickup reminders the day before collection
+-- Run this in Supabase SQL editor
+
+-- Set when the reminder email was sent, so every family gets one reminder
+ALTER TABLE reservations
+ADD COLUMN IF NOT EXISTS pickup_reminder_sent_at TIMESTAMPTZ;
+
+-- The daily reminder job looks up unreminded pickups by date
+CREATE INDEX IF NOT EXISTS idx_reservations_pickup_reminder_due
+ON reservations(pickup_date)
+WHERE delivery_method = 'pickup'
+  AND status IN ('pending', 'confirmed')
+  AND pickup_reminder_sent_at IS NULL;
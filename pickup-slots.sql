@@ -0,0 +1,91 @@
+-- Pickup windows with a limited number of families each
+-- Run this in Supabase SQL editor
+
+CREATE TABLE IF NOT EXISTS pickup_slots (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  location VARCHAR(200) NOT NULL,
+  starts_at TIMESTAMPTZ NOT NULL,
+  ends_at TIMESTAMPTZ NOT NULL,
+  capacity INTEGER NOT NULL CHECK (capacity > 0), -- Families, not copies
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CONSTRAINT pickup_slots_time_range CHECK (ends_at > starts_at)
+);
+
+-- No policies: only the service role (server-side API) can read or write
+ALTER TABLE pickup_slots ENABLE ROW LEVEL SECURITY;
+
+ALTER TABLE reservations
+ADD COLUMN IF NOT EXISTS pickup_slot_id UUID REFERENCES pickup_slots(id);
+
+CREATE INDEX IF NOT EXISTS idx_reservations_pickup_slot_id
+ON reservations(pickup_slot_id);
+
+-- Slots with the number of families that booked them. Cancelled and expired
+-- reservations free their place again.
+CREATE OR REPLACE VIEW pickup_slot_availability AS
+SELECT
+  s.*,
+  COUNT(DISTINCT r.user_id) FILTER (
+    WHERE r.status IN ('pending', 'confirmed', 'completed')
+  )::INTEGER AS booked_families
+FROM pickup_slots s
+LEFT JOIN reservations r ON r.pickup_slot_id = s.id
+GROUP BY s.id;
+
+-- Books the slot of a new or changed reservation. The row lock on the slot
+-- serialises concurrent bookings, so a slot never takes more families than
+-- its capacity. The slot also decides pickup location and date.
+CREATE OR REPLACE FUNCTION book_pickup_slot() RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_slot pickup_slots%ROWTYPE;
+  v_booked INTEGER;
+BEGIN
+  IF NEW.pickup_slot_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE'
+    AND NEW.pickup_slot_id IS NOT DISTINCT FROM OLD.pickup_slot_id THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_slot
+  FROM pickup_slots
+  WHERE id = NEW.pickup_slot_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR NOT v_slot.is_active OR v_slot.starts_at <= NOW() THEN
+    RAISE EXCEPTION 'pickup_slot_closed' USING ERRCODE = 'P0001';
+  END IF;
+
+  -- A family with several reservations in the same slot counts once
+  IF NOT EXISTS (
+    SELECT 1 FROM reservations
+    WHERE pickup_slot_id = NEW.pickup_slot_id
+      AND user_id = NEW.user_id
+      AND status IN ('pending', 'confirmed', 'completed')
+  ) THEN
+    SELECT COUNT(DISTINCT user_id) INTO v_booked
+    FROM reservations
+    WHERE pickup_slot_id = NEW.pickup_slot_id
+      AND status IN ('pending', 'confirmed', 'completed');
+
+    IF v_booked >= v_slot.capacity THEN
+      RAISE EXCEPTION 'pickup_slot_full' USING ERRCODE = 'P0001';
+    END IF;
+  END IF;
+
+  NEW.pickup_location := v_slot.location;
+  NEW.pickup_date := (v_slot.starts_at AT TIME ZONE 'Europe/Berlin')::DATE;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS reservations_book_pickup_slot ON reservations;
+CREATE TRIGGER reservations_book_pickup_slot
+BEFORE INSERT OR UPDATE OF pickup_slot_id ON reservations
+FOR EACH ROW EXECUTE FUNCTION book_pickup_slot();
@@ -0,0 +1,102 @@
+-- Free pictures per child instead of per family and group
+-- Run this in Supabase SQL editor (after reservation-children.sql)
+
+-- Siblings and twins in the same group each get their own group picture
+-- and, as Vorschüler, their own Vorschüler picture. Children are told apart
+-- by their name, ignoring case and spacing, like the roster check does.
+ALTER TABLE picture_claims
+DROP CONSTRAINT IF EXISTS picture_claims_once_per_family;
+
+CREATE UNIQUE INDEX IF NOT EXISTS picture_claims_once_per_child
+ON picture_claims (
+  family_email,
+  group_name,
+  picture_type,
+  LOWER(REGEXP_REPLACE(BTRIM(child_name), '\s+', ' ', 'g'))
+);
+
+-- Replaces the claim trigger function of reservation-children.sql. A name
+-- typed in by the family only counts as a child of its own when the group
+-- of the current year lists it; Vorschüler pictures also need the child
+-- marked as Vorschüler there. Groups without a list of children keep one
+-- picture of each kind per family, as their names cannot be checked.
+CREATE OR REPLACE FUNCTION claim_child_pictures() RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_email VARCHAR(255);
+  v_type VARCHAR(20);
+  v_group_id UUID;
+  v_has_roster BOOLEAN;
+  v_listed BOOLEAN;
+  v_vorschueler BOOLEAN;
+BEGIN
+  IF NOT NEW.order_group_picture AND NOT NEW.order_vorschul_picture THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT LOWER(u.email) INTO v_email
+  FROM reservations r
+  JOIN users u ON u.id = r.user_id
+  WHERE r.id = NEW.reservation_id;
+
+  -- Serialises the claims of one family, so two reservations at once
+  -- cannot both take the last picture of a group without a roster
+  PERFORM pg_advisory_xact_lock(hashtext('picture_claims:' || v_email));
+
+  SELECT g.id INTO v_group_id
+  FROM kindergarten_groups g
+  WHERE g.name = NEW.group_name
+    AND g.year = (SELECT MAX(year) FROM kindergarten_groups);
+
+  SELECT EXISTS (
+    SELECT 1 FROM kindergarten_children c WHERE c.group_id = v_group_id
+  ) INTO v_has_roster;
+
+  IF v_has_roster THEN
+    SELECT COUNT(*) > 0, COALESCE(BOOL_OR(c.is_vorschueler), FALSE)
+    INTO v_listed, v_vorschueler
+    FROM kindergarten_children c
+    WHERE c.group_id = v_group_id
+      AND LOWER(REGEXP_REPLACE(BTRIM(c.name), '\s+', ' ', 'g')) =
+          LOWER(REGEXP_REPLACE(BTRIM(NEW.child_name), '\s+', ' ', 'g'));
+  END IF;
+
+  FOREACH v_type IN ARRAY ARRAY['group', 'vorschul'] LOOP
+    CONTINUE WHEN v_type = 'group' AND NOT NEW.order_group_picture;
+    CONTINUE WHEN v_type = 'vorschul' AND NOT NEW.order_vorschul_picture;
+
+    IF v_has_roster AND (
+      NOT v_listed OR (v_type = 'vorschul' AND NOT v_vorschueler)
+    ) THEN
+      RAISE EXCEPTION 'picture_child_not_listed'
+        USING ERRCODE = 'P0001', DETAIL = v_type, HINT = NEW.group_name;
+    END IF;
+
+    IF NOT v_has_roster AND EXISTS (
+      SELECT 1 FROM picture_claims pc
+      WHERE pc.family_email = v_email
+        AND pc.group_name = NEW.group_name
+        AND pc.picture_type = v_type
+    ) THEN
+      RAISE EXCEPTION 'picture_already_claimed'
+        USING ERRCODE = 'P0001', DETAIL = v_type, HINT = NEW.group_name;
+    END IF;
+
+    BEGIN
+      INSERT INTO picture_claims (
+        family_email, group_name, picture_type, child_name, reservation_id,
+        child_id
+      ) VALUES (
+        v_email, NEW.group_name, v_type, NEW.child_name, NEW.reservation_id,
+        NEW.id
+      );
+    EXCEPTION WHEN unique_violation THEN
+      RAISE EXCEPTION 'picture_already_claimed'
+        USING ERRCODE = 'P0001', DETAIL = v_type, HINT = NEW.group_name;
+    END;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,80 @@
+-- Free group and Vorschüler pictures, one of each per family and group
+-- Run this in Supabase SQL editor
+
+CREATE TABLE IF NOT EXISTS picture_claims (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  family_email VARCHAR(255) NOT NULL, -- Stored lowercase
+  group_name VARCHAR(100) NOT NULL,
+  picture_type VARCHAR(20) NOT NULL
+    CHECK (picture_type IN ('group', 'vorschul')),
+  child_name VARCHAR(200) NOT NULL,
+  reservation_id UUID NOT NULL REFERENCES reservations(id) ON DELETE CASCADE,
+  claimed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT picture_claims_once_per_family
+    UNIQUE (family_email, group_name, picture_type)
+);
+
+-- No policies: only the service role (server-side API) can read or write
+ALTER TABLE picture_claims ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_picture_claims_reservation_id
+ON picture_claims(reservation_id);
+
+-- Claims the pictures ordered with a new reservation. It runs inside the
+-- INSERT, so a picture the family already claimed rolls the reservation
+-- back as well.
+CREATE OR REPLACE FUNCTION claim_reservation_pictures() RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_email VARCHAR(255);
+  v_type VARCHAR(20);
+BEGIN
+  IF NEW.child_group_name IS NULL OR NEW.child_name IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT LOWER(email) INTO v_email FROM users WHERE id = NEW.user_id;
+
+  FOREACH v_type IN ARRAY ARRAY['group', 'vorschul'] LOOP
+    CONTINUE WHEN v_type = 'group' AND NOT NEW.order_group_picture;
+    CONTINUE WHEN v_type = 'vorschul' AND NOT NEW.order_vorschul_picture;
+
+    BEGIN
+      INSERT INTO picture_claims (
+        family_email, group_name, picture_type, child_name, reservation_id
+      ) VALUES (
+        v_email, NEW.child_group_name, v_type, NEW.child_name, NEW.id
+      );
+    EXCEPTION WHEN unique_violation THEN
+      RAISE EXCEPTION 'picture_already_claimed'
+        USING ERRCODE = 'P0001', DETAIL = v_type;
+    END;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS reservations_claim_pictures ON reservations;
+CREATE TRIGGER reservations_claim_pictures
+AFTER INSERT ON reservations
+FOR EACH ROW EXECUTE FUNCTION claim_reservation_pictures();
+
+-- Cancelled and expired reservations free their pictures, so the family
+-- can order them again with a new reservation
+CREATE OR REPLACE FUNCTION release_reservation_pictures() RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  DELETE FROM picture_claims WHERE reservation_id = NEW.id;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS reservations_release_pictures ON reservations;
+CREATE TRIGGER reservations_release_pictures
+AFTER UPDATE OF status ON reservations
+FOR EACH ROW
+WHEN (NEW.status IN ('cancelled', 'expired'))
+EXECUTE FUNCTION release_reservation_pictures();
@@ -0,0 +1,73 @@
+-- Children of a reservation, each with the free pictures ordered for them
+-- Run this in Supabase SQL editor
+
+-- One row per child, so families with children in different groups can
+-- order the pictures of every group with one reservation. The child_* and
+-- order_* columns of reservations remain for older reservations.
+CREATE TABLE IF NOT EXISTS reservation_children (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  reservation_id UUID NOT NULL REFERENCES reservations(id) ON DELETE CASCADE,
+  child_name VARCHAR(200) NOT NULL,
+  group_name VARCHAR(100) NOT NULL,
+  is_vorschueler BOOLEAN NOT NULL DEFAULT FALSE,
+  order_group_picture BOOLEAN NOT NULL DEFAULT FALSE,
+  order_vorschul_picture BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- No policies: only the service role (server-side API) can read or write
+ALTER TABLE reservation_children ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_reservation_children_reservation_id
+ON reservation_children(reservation_id);
+
+-- Claims point at the child they were ordered for
+ALTER TABLE picture_claims
+ADD COLUMN IF NOT EXISTS child_id UUID
+REFERENCES reservation_children(id) ON DELETE CASCADE;
+
+-- The pictures are claimed per child now, see below
+DROP TRIGGER IF EXISTS reservations_claim_pictures ON reservations;
+
+-- Claims the pictures ordered for a child. The reservation and all its
+-- children are inserted in one transaction (create-reservation.sql), so a
+-- picture the family already claimed rolls back the whole reservation.
+CREATE OR REPLACE FUNCTION claim_child_pictures() RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_email VARCHAR(255);
+  v_type VARCHAR(20);
+BEGIN
+  SELECT LOWER(u.email) INTO v_email
+  FROM reservations r
+  JOIN users u ON u.id = r.user_id
+  WHERE r.id = NEW.reservation_id;
+
+  FOREACH v_type IN ARRAY ARRAY['group', 'vorschul'] LOOP
+    CONTINUE WHEN v_type = 'group' AND NOT NEW.order_group_picture;
+    CONTINUE WHEN v_type = 'vorschul' AND NOT NEW.order_vorschul_picture;
+
+    BEGIN
+      INSERT INTO picture_claims (
+        family_email, group_name, picture_type, child_name, reservation_id,
+        child_id
+      ) VALUES (
+        v_email, NEW.group_name, v_type, NEW.child_name, NEW.reservation_id,
+        NEW.id
+      );
+    EXCEPTION WHEN unique_violation THEN
+      RAISE EXCEPTION 'picture_already_claimed'
+        USING ERRCODE = 'P0001', DETAIL = v_type, HINT = NEW.group_name;
+    END;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS reservation_children_claim_pictures
+ON reservation_children;
+CREATE TRIGGER reservation_children_claim_pictures
+AFTER INSERT ON reservation_children
+FOR EACH ROW EXECUTE FUNCTION claim_child_pictures();
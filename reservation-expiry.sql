@@ -0,0 +1,19 @@
+-- Payment deadline for reservations
+-- Run this in Supabase SQL editor
+
+-- Shipping reservations are paid in advance and lapse after the deadline.
+-- Pickup reservations are paid on collection and keep expires_at NULL.
+ALTER TABLE reservations
+ADD COLUMN IF NOT EXISTS expires_at TIMESTAMPTZ;
+
+-- Give open shipping reservations created before this migration a deadline
+UPDATE reservations
+SET expires_at = created_at + INTERVAL '7 days'
+WHERE expires_at IS NULL
+  AND status = 'pending'
+  AND delivery_method = 'shipping';
+
+-- The hourly expiry job looks up pending reservations by deadline
+CREATE INDEX IF NOT EXISTS idx_reservations_pending_expires_at
+ON reservations(expires_at)
+WHERE status = 'pending';
@@ -0,0 +1,17 @@
+-- Track who moved a reservation to its current status and when
+-- Run this in Supabase SQL editor
+
+ALTER TABLE reservations
+ADD COLUMN IF NOT EXISTS status_changed_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS status_changed_by VARCHAR(100);
+
+-- Only the statuses known to the application are allowed
+ALTER TABLE reservations
+DROP CONSTRAINT IF EXISTS reservations_status_check;
+ALTER TABLE reservations
+ADD CONSTRAINT reservations_status_check
+CHECK (status IN ('pending', 'confirmed', 'cancelled', 'completed', 'expired'));
+
+-- Status filters are used by the admin list and the scheduled jobs
+CREATE INDEX IF NOT EXISTS idx_reservations_status
+ON reservations(status);
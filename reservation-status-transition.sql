@@ -0,0 +1,48 @@
+-- Status changes of reservations, together with the stock they give back
+-- Run this in Supabase SQL editor (after reserve-magazine-copies.sql and
+-- reservation-status-tracking.sql)
+
+-- The application decides whether a transition is allowed and whether it
+-- returns the copies (src/lib/reservation-status.ts). The status changes
+-- only if nobody changed it in the meantime, and the copies go back to
+-- stock in the same transaction, so a failed release rolls the status
+-- change back instead of losing the copies.
+CREATE OR REPLACE FUNCTION transition_reservation_status(
+  p_reservation_id UUID,
+  p_from VARCHAR,
+  p_to VARCHAR,
+  p_changed_by VARCHAR,
+  p_release_copies BOOLEAN DEFAULT FALSE
+) RETURNS reservations
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_row reservations%ROWTYPE;
+BEGIN
+  UPDATE reservations
+  SET status = p_to,
+      status_changed_at = NOW(),
+      status_changed_by = p_changed_by
+  WHERE id = p_reservation_id
+    AND status = p_from
+  RETURNING * INTO v_row;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'reservation_status_changed' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF p_release_copies THEN
+    PERFORM release_magazine_copies(v_row.magazine_id, v_row.quantity);
+  END IF;
+
+  RETURN v_row;
+END;
+$$;
+
+-- Only the service role (server-side API) may change statuses this way
+REVOKE ALL ON FUNCTION transition_reservation_status(
+  UUID, VARCHAR, VARCHAR, VARCHAR, BOOLEAN
+) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION transition_reservation_status(
+  UUID, VARCHAR, VARCHAR, VARCHAR, BOOLEAN
+) TO service_role;
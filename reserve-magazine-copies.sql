@@ -0,0 +1,78 @@
+-- Atomic stock handling for magazine reservations
+-- Run this in Supabase SQL editor
+
+-- Reserve copies: checks and decrements available_copies in one statement.
+-- The row lock taken by UPDATE serialises concurrent reservations for the
+-- same magazine, so two requests can never both take the last copies.
+CREATE OR REPLACE FUNCTION reserve_magazine_copies(
+  p_magazine_id UUID,
+  p_quantity INTEGER
+) RETURNS INTEGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_remaining INTEGER;
+  v_available INTEGER;
+BEGIN
+  IF p_quantity IS NULL OR p_quantity < 1 THEN
+    RAISE EXCEPTION 'invalid_quantity' USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE magazines
+  SET available_copies = available_copies - p_quantity,
+      updated_at = NOW()
+  WHERE id = p_magazine_id
+    AND available_copies >= p_quantity
+  RETURNING available_copies INTO v_remaining;
+
+  IF NOT FOUND THEN
+    SELECT available_copies INTO v_available
+    FROM magazines
+    WHERE id = p_magazine_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'magazine_not_found' USING ERRCODE = 'P0002';
+    END IF;
+
+    -- DETAIL carries the current stock so the API can report it
+    RAISE EXCEPTION 'insufficient_copies'
+      USING ERRCODE = 'P0001', DETAIL = v_available::TEXT;
+  END IF;
+
+  RETURN v_remaining;
+END;
+$$;
+
+-- Release copies: returns stock after a cancellation, expiry or failed insert.
+-- Never raises available_copies above total_copies.
+CREATE OR REPLACE FUNCTION release_magazine_copies(
+  p_magazine_id UUID,
+  p_quantity INTEGER
+) RETURNS INTEGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_remaining INTEGER;
+BEGIN
+  UPDATE magazines
+  SET available_copies = LEAST(total_copies, available_copies + p_quantity),
+      updated_at = NOW()
+  WHERE id = p_magazine_id
+  RETURNING available_copies INTO v_remaining;
+
+  RETURN v_remaining;
+END;
+$$;
+
+-- Only the service role (server-side API) may move stock
+REVOKE ALL ON FUNCTION reserve_magazine_copies(UUID, INTEGER) FROM PUBLIC;
+REVOKE ALL ON FUNCTION release_magazine_copies(UUID, INTEGER) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION reserve_magazine_copies(UUID, INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION release_magazine_copies(UUID, INTEGER) TO service_role;
+
+-- Stock can never go negative, even through manual edits
+ALTER TABLE magazines
+DROP CONSTRAINT IF EXISTS magazines_available_copies_non_negative;
+ALTER TABLE magazines
+ADD CONSTRAINT magazines_available_copies_non_negative
+CHECK (available_copies >= 0);
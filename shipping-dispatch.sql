@@ -0,0 +1,7 @@
+-- Dispatch date and tracking number for shipped reservations
+-- Run this in Supabase SQL editor
+
+-- Set by the admin dispatch action, which also completes the reservation
+ALTER TABLE reservations
+ADD COLUMN IF NOT EXISTS dispatched_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS tracking_number VARCHAR(40);
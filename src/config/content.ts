@@ -24,39 +24,30 @@ export const websiteContent = {
         country: 'Deutschland',
       },
     },
+
+    // Labels for the group ids reservations stored before the roster;
+    // families now choose from the groups maintained in the dashboard
+    // (see kindergarten-roster.sql)
+    groups: [
+      { id: 'seesterne', name: 'Seesterne' },
+      { id: 'seepferdchen', name: 'Seepferdchen' },
+      { id: 'seeigel', name: 'Seeigel' },
+      { id: 'schatzsucher', name: 'Schatzsucher' },
+      { id: 'lachmoewen', name: 'Lachmöwen' },
+    ],
   },
 
   // ============================================
   // MAGAZINE INFORMATION
   // ============================================
   magazine: {
-    // TODO: Update with actual magazine details
     title: 'Flaschenpost',
-    currentIssue: {
-      issueNumber: '2024 / 2025',
-      theme: 'Kindergartenjahr 2024/2025',
-      publicationDate: 'August 2024',
-      description:
-        'Die Flaschenpost ist unser liebevoll gestaltetes Kindergarten-Magazin im handlichen A5-Format. Es erscheint regelmäßig und bietet allen Familien einen Einblick in das bunte Leben im BRK Haus für Kinder – Leuchtturm.',
-
-      // Magazine content preview
-      contents: [
-        'Ein maritimes Titelbild im Stil unseres Leuchtturm-Namens',
-        'Begrüßung und Einleitung mit persönlichen Worten unseres Teams',
-        'Jede Gruppe stellt sich vor – mit: einem großen Gruppenfoto, Monatsrückblicken (Januar bis Juni) in kurzen Texten, passenden Fotos & Zitate',
-        'Fotocollagen mit besonderen Momenten aus dem Kita-Alltag',
-        'Jahresrückblick mit den Highlights des Kindergartenjahres',
-        'Unsere Vorschulkinder – Vorstellung der Kinder, die nun in die Schule kommen',
-        'Abschiedsseite vom Elternbeirat',
-      ],
-
-      // Number of pages
-      pageCount: 44,
+    // The current issue (contents, format, publication date) comes from the
+    // magazines table and is managed in the dashboard
 
-      // Physical specifications
-      format: 'DIN A5',
-      paperWeight: '130g',
-    },
+    // Copies one family may reserve of an issue, unless the issue sets its
+    // own limit in the dashboard
+    copiesPerFamily: 1,
   },
 
   // ============================================
@@ -70,6 +61,9 @@ export const websiteContent = {
     // Shipping details
     shippingMethod: 'Deutsche Post Grossbrief',
     estimatedDeliveryDays: '3-5 Werktage nach Zahlungseingang',
+    // Deutsche Post Sendungsverfolgung, the tracking number is appended
+    trackingUrl:
+      'https://www.deutschepost.de/de/s/sendungsverfolgung.html?piececode=',
   },
 
   // ============================================
@@ -182,6 +176,7 @@ export const websiteContent = {
       reservation: 'Ihre Flaschenpost Magazin Reservierung',
       paymentReminder: 'Zahlungserinnerung - Flaschenpost Magazin',
       shippingConfirmation: 'Ihr Magazin wurde versandt',
+      waitlistOffer: 'Ihr Exemplar von der Warteliste ist da',
     },
   },
 
@@ -244,6 +239,14 @@ export const websiteContent = {
       errorTitle: 'Fehler bei der Reservierung',
       errorMessage:
         'Bitte überprüfen Sie Ihre Eingaben und versuchen Sie es erneut.',
+
+      // Sold-out issues
+      waitlistTitle: 'Diese Ausgabe ist vergriffen',
+      waitlistMessage:
+        'Tragen Sie sich in die Warteliste ein. Sobald wieder Exemplare frei werden, bieten wir sie in der Reihenfolge der Anmeldung per E-Mail an.',
+      waitlistButton: 'Auf die Warteliste',
+      waitlistOfferMessage:
+        'Für Sie wird ein Exemplar von der Warteliste bereitgehalten. Bitte schließen Sie die Reservierung bis zum Ablauf des Angebots ab.',
     },
   },
 
@@ -28,6 +28,10 @@ export const paymentConfig = {
   // Payment deadline (days after reservation)
   paymentDeadlineDays: 7,
 
+  // Unpaid shipping reservations get one reminder this many days before
+  // the deadline
+  paymentReminderDaysBefore: 2,
+
   // Email templates
   emailTemplates: {
     paypal: {
@@ -98,8 +102,11 @@ export function formatCurrency(amount: number): string {
 }
 
 // Helper function to calculate total cost
-export function calculateTotalCost(includeShipping: boolean = false): number {
-  let total = paymentConfig.magazinePrice;
+export function calculateTotalCost(
+  includeShipping: boolean = false,
+  quantity: number = 1,
+): number {
+  let total = paymentConfig.magazinePrice * quantity;
   if (includeShipping) {
     total += paymentConfig.shippingCost;
   }
@@ -0,0 +1,90 @@
+/**
+ * Authorization for admin endpoints
+ *
+ * Members of the Elternbeirat log into the dashboard under /admin with their
+ * own account (see admin-users.sql) and get a signed session cookie; what an
+ * account may do depends on its role (see roles.ts). Scripts send
+ * `Authorization: Bearer <ADMIN_API_KEY>` instead, which grants every
+ * permission. Without a session or configured key every request is rejected.
+ */
+
+import type { AstroCookies } from 'astro';
+import { DatabaseService } from '@/lib/database';
+import type { AdminActor, AdminUser } from '@/types';
+import { hasBearerToken } from './bearer';
+import { createToken, verifyToken, TOKEN_TTL } from './tokens';
+import { hasPermission, type AdminPermission } from './roles';
+
+// Recorded as `changedBy` for changes made with the admin API key
+export const ADMIN_API_ACTOR = 'admin:api-key';
+
+export const ADMIN_SESSION_COOKIE = 'admin_session';
+
+export type AdminAuthorization =
+  | { authorized: true; actor: AdminActor }
+  | {
+      authorized: false;
+      status: 401 | 403;
+      error: 'Unauthorized' | 'Forbidden';
+    };
+
+export function adminActor(adminUser: AdminUser): AdminActor {
+  return { changedBy: `admin:${adminUser.id}`, processorId: adminUser.id };
+}
+
+export function startAdminSession(
+  cookies: AstroCookies,
+  adminUserId: string,
+): void {
+  // Strict, so the cookie never rides along on requests from other sites
+  cookies.set(ADMIN_SESSION_COOKIE, createToken('admin', adminUserId), {
+    path: '/',
+    httpOnly: true,
+    secure: import.meta.env.PROD,
+    sameSite: 'strict',
+    maxAge: TOKEN_TTL.admin,
+  });
+}
+
+/**
+ * Account of the current dashboard session, or null if there is none.
+ * Deactivated accounts lose access with their next request.
+ */
+export async function getSessionAdminUser(
+  cookies: AstroCookies | undefined,
+): Promise<AdminUser | null> {
+  const token = cookies?.get(ADMIN_SESSION_COOKIE)?.value;
+  const adminUserId = verifyToken(token, 'admin')?.sub;
+  if (!adminUserId) return null;
+
+  const adminUser = await new DatabaseService().getAdminUserById(adminUserId);
+  return adminUser?.isActive ? adminUser : null;
+}
+
+export function endAdminSession(cookies: AstroCookies): void {
+  cookies.delete(ADMIN_SESSION_COOKIE, { path: '/' });
+}
+
+/**
+ * Check that a request comes from the API key or from a dashboard session
+ * whose role has the given permission, and return who is acting
+ */
+export async function authorizeAdminRequest(
+  request: Request,
+  cookies: AstroCookies | undefined,
+  permission: AdminPermission,
+): Promise<AdminAuthorization> {
+  if (hasBearerToken(request, import.meta.env.ADMIN_API_KEY)) {
+    return { authorized: true, actor: { changedBy: ADMIN_API_ACTOR } };
+  }
+
+  const adminUser = await getSessionAdminUser(cookies);
+  if (!adminUser) {
+    return { authorized: false, status: 401, error: 'Unauthorized' };
+  }
+  if (!hasPermission(adminUser.role, permission)) {
+    return { authorized: false, status: 403, error: 'Forbidden' };
+  }
+
+  return { authorized: true, actor: adminActor(adminUser) };
+}
@@ -0,0 +1,26 @@
+// Constant-time check of an `Authorization: Bearer <secret>` header
+
+import { timingSafeEqual } from 'node:crypto';
+
+export function matchesSecret(
+  value: string | null | undefined,
+  secret: string | undefined,
+): boolean {
+  if (!secret) return false;
+
+  const expected = Buffer.from(secret);
+  const received = Buffer.from(value || '');
+  return (
+    expected.length === received.length && timingSafeEqual(expected, received)
+  );
+}
+
+export function hasBearerToken(
+  request: Request,
+  secret: string | undefined,
+): boolean {
+  const header = request.headers.get('Authorization') || '';
+  const token = header.startsWith('Bearer ') ? header.slice(7) : '';
+
+  return matchesSecret(token, secret);
+}
@@ -0,0 +1,13 @@
+/**
+ * Authorization for scheduled job endpoints
+ *
+ * Job endpoints under /api/jobs are called by Netlify scheduled functions
+ * with `Authorization: Bearer <CRON_SECRET>`. Without a configured secret
+ * every request is rejected.
+ */
+
+import { hasBearerToken } from './bearer';
+
+export function isAuthorizedCronRequest(request: Request): boolean {
+  return hasBearerToken(request, import.meta.env.CRON_SECRET);
+}
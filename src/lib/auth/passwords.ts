@@ -0,0 +1,55 @@
+/**
+ * Password hashing for admin accounts
+ *
+ * Hashes are `scrypt$<salt>$<key>` with base64url salt and key, derived with
+ * Node's scrypt defaults (N=16384, r=8, p=1).
+ */
+
+import { randomBytes, scrypt, timingSafeEqual } from 'node:crypto';
+import { promisify } from 'node:util';
+
+const scryptAsync = promisify(scrypt) as (
+  password: string,
+  salt: Buffer,
+  keyLength: number,
+) => Promise<Buffer>;
+
+const KEY_LENGTH = 64;
+
+export const MIN_PASSWORD_LENGTH = 12;
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const key = await scryptAsync(password, salt, KEY_LENGTH);
+  return `scrypt$${salt.toString('base64url')}$${key.toString('base64url')}`;
+}
+
+/**
+ * Check a password against a stored hash. Malformed hashes never match.
+ */
+export async function verifyPassword(
+  password: string,
+  passwordHash: string,
+): Promise<boolean> {
+  const [scheme, salt, key] = passwordHash.split('$');
+  if (scheme !== 'scrypt' || !salt || !key) return false;
+
+  const expected = Buffer.from(key, 'base64url');
+  if (expected.length !== KEY_LENGTH) return false;
+
+  const received = await scryptAsync(
+    password,
+    Buffer.from(salt, 'base64url'),
+    KEY_LENGTH,
+  );
+  return timingSafeEqual(expected, received);
+}
+
+// Compared against for unknown accounts, so a failed login takes as long
+// whether or not the email address has an account
+let dummyHash: Promise<string> | undefined;
+
+export function getDummyPasswordHash(): Promise<string> {
+  dummyHash ??= hashPassword(randomBytes(16).toString('hex'));
+  return dummyHash;
+}
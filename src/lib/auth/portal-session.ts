@@ -0,0 +1,46 @@
+/**
+ * Parent portal session
+ *
+ * After following a magic link, parents get a signed session token in an
+ * HttpOnly cookie. The same token authorizes the portal's API calls
+ * (listing, cancelling, GDPR export and deletion).
+ */
+
+import type { AstroCookies } from 'astro';
+import { createToken, verifyToken, TOKEN_TTL } from './tokens';
+
+export const PORTAL_SESSION_COOKIE = 'portal_session';
+
+/**
+ * Exchange a magic-link token for a session cookie.
+ * Returns the user ID, or null if the link is invalid or expired.
+ */
+export function startPortalSession(
+  cookies: AstroCookies,
+  loginToken: string | null,
+): string | null {
+  const payload = verifyToken(loginToken, 'login');
+  if (!payload) return null;
+
+  cookies.set(PORTAL_SESSION_COOKIE, createToken('session', payload.sub), {
+    path: '/',
+    httpOnly: true,
+    secure: import.meta.env.PROD,
+    sameSite: 'lax',
+    maxAge: TOKEN_TTL.session,
+  });
+
+  return payload.sub;
+}
+
+/**
+ * User ID of the current portal session, or null if there is none
+ */
+export function getPortalUserId(cookies: AstroCookies): string | null {
+  const token = cookies.get(PORTAL_SESSION_COOKIE)?.value;
+  return verifyToken(token, 'session')?.sub ?? null;
+}
+
+export function endPortalSession(cookies: AstroCookies): void {
+  cookies.delete(PORTAL_SESSION_COOKIE, { path: '/' });
+}
@@ -0,0 +1,53 @@
+/**
+ * Admin roles and permissions
+ *
+ * Every dashboard account has exactly one role. The admin API key used by
+ * scripts has every permission, including managing the accounts themselves.
+ */
+
+import type { AdminRole } from '@/types';
+
+export type AdminPermission =
+  | 'reservations:read'
+  | 'reservations:cancel'
+  | 'reservations:fulfil' // Mark picked up or shipped
+  | 'pickup-slots:manage'
+  | 'magazines:manage' // Issues, print run, covers and reservation window
+  | 'groups:manage' // Kindergarten groups and children for picture orders
+  | 'payments:manage'
+  | 'processing-log:read'
+  | 'admin-users:manage';
+
+export const ADMIN_ROLES = [
+  'viewer',
+  'treasurer',
+  'distributor',
+  'privacy_officer',
+] as const satisfies readonly AdminRole[];
+
+export const ROLE_PERMISSIONS: Record<AdminRole, readonly AdminPermission[]> = {
+  viewer: ['reservations:read'],
+  treasurer: ['reservations:read', 'reservations:cancel', 'payments:manage'],
+  distributor: [
+    'reservations:read',
+    'reservations:fulfil',
+    'pickup-slots:manage',
+    'magazines:manage',
+    'groups:manage',
+  ],
+  privacy_officer: ['reservations:read', 'processing-log:read'],
+};
+
+export const ROLE_LABELS: Record<AdminRole, string> = {
+  viewer: 'Lesezugriff',
+  treasurer: 'Kasse',
+  distributor: 'Ausgabe & Versand',
+  privacy_officer: 'Datenschutz',
+};
+
+export function hasPermission(
+  role: AdminRole,
+  permission: AdminPermission,
+): boolean {
+  return ROLE_PERMISSIONS[role]?.includes(permission) ?? false;
+}
@@ -0,0 +1,106 @@
+/**
+ * Signed, time-limited tokens
+ *
+ * Tokens are `<payload>.<signature>` where the payload is base64url JSON and
+ * the signature an HMAC-SHA256 over it keyed with JWT_SECRET, or SESSION_SECRET
+ * for admin sessions. Every token carries a purpose so a login link can never
+ * be replayed as a session.
+ */
+
+import { createHmac, timingSafeEqual } from 'node:crypto';
+
+export type TokenPurpose =
+  | 'login'
+  | 'session'
+  | 'reservation'
+  | 'admin'
+  | 'checkin'
+  | 'waitlist';
+
+export interface TokenPayload {
+  purpose: TokenPurpose;
+  sub: string; // User, reservation, admin account or waitlist entry ID
+  exp: number; // Expiry, seconds since epoch
+}
+
+// Lifetime of each token type in seconds
+export const TOKEN_TTL: Record<TokenPurpose, number> = {
+  login: 30 * 60, // Magic link: 30 minutes
+  session: 24 * 60 * 60, // Portal session: 1 day
+  reservation: 90 * 24 * 60 * 60, // Cancel link in the confirmation: 90 days
+  admin: 8 * 60 * 60, // Admin dashboard session: 8 hours
+  checkin: 180 * 24 * 60 * 60, // Pickup QR code, valid until distribution day
+  waitlist: 48 * 60 * 60, // Waitlist offer: copies are held for 2 days
+};
+
+// Admin sessions get their own key, so a leaked parent link secret does not
+// open the dashboard
+function getSecret(purpose: TokenPurpose): string {
+  const name = purpose === 'admin' ? 'SESSION_SECRET' : 'JWT_SECRET';
+  const secret = import.meta.env[name];
+  if (!secret) {
+    throw new Error(`${name} is not configured`);
+  }
+  return secret;
+}
+
+function sign(purpose: TokenPurpose, data: string): string {
+  return createHmac('sha256', getSecret(purpose))
+    .update(data)
+    .digest('base64url');
+}
+
+/**
+ * Create a token for the given purpose and user
+ */
+export function createToken(
+  purpose: TokenPurpose,
+  sub: string,
+  now: Date = new Date(),
+): string {
+  const payload: TokenPayload = {
+    purpose,
+    sub,
+    exp: Math.floor(now.getTime() / 1000) + TOKEN_TTL[purpose],
+  };
+  const data = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  return `${data}.${sign(purpose, data)}`;
+}
+
+/**
+ * Verify a token and return its payload, or null if it is malformed,
+ * tampered with, expired or issued for another purpose
+ */
+export function verifyToken(
+  token: string | null | undefined,
+  purpose: TokenPurpose,
+  now: Date = new Date(),
+): TokenPayload | null {
+  if (!token) return null;
+
+  const [data, signature] = token.split('.');
+  if (!data || !signature) return null;
+
+  const expected = Buffer.from(sign(purpose, data));
+  const received = Buffer.from(signature);
+  if (
+    expected.length !== received.length ||
+    !timingSafeEqual(expected, received)
+  ) {
+    return null;
+  }
+
+  let payload: TokenPayload;
+  try {
+    payload = JSON.parse(Buffer.from(data, 'base64url').toString('utf-8'));
+  } catch {
+    return null;
+  }
+
+  if (payload.purpose !== purpose || typeof payload.sub !== 'string') {
+    return null;
+  }
+  if (payload.exp * 1000 <= now.getTime()) return null;
+
+  return payload;
+}
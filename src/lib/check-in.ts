@@ -0,0 +1,49 @@
+/**
+ * Pickup check-in
+ *
+ * Pickup confirmations carry a QR code with a signed check-in token, so the
+ * volunteer at the counter can scan it and hand over exactly what was
+ * reserved. Families without the email give their reservation number (the
+ * first 8 characters of the ID, also part of the payment reference) instead.
+ */
+
+import QRCode from 'qrcode';
+import { createToken, verifyToken } from '@/lib/auth/tokens';
+
+export type CheckInCode = { id: string } | { number: string };
+
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export function createCheckInToken(reservationId: string): string {
+  return createToken('checkin', reservationId);
+}
+
+/**
+ * Read a scanned token, a full reservation ID or a typed reservation number
+ * ("1A2B3C4D" or the payment reference "FP-1A2B3C4D"). Returns null for
+ * anything else, including expired or forged tokens.
+ */
+export function parseCheckInCode(code: string): CheckInCode | null {
+  const value = code.trim();
+
+  if (value.includes('.')) {
+    const payload = verifyToken(value, 'checkin');
+    return payload ? { id: payload.sub } : null;
+  }
+  if (UUID_PATTERN.test(value)) return { id: value.toLowerCase() };
+
+  const number = value.replace(/^FP-/i, '');
+  return /^[0-9a-f]{8}$/i.test(number)
+    ? { number: number.toLowerCase() }
+    : null;
+}
+
+// Server only - the browser build of qrcode has no buffer output
+export function renderCheckInQrPng(reservationId: string): Promise<Buffer> {
+  return QRCode.toBuffer(createCheckInToken(reservationId), {
+    errorCorrectionLevel: 'M',
+    margin: 2,
+    width: 240,
+  });
+}
@@ -26,6 +26,8 @@ const ServerEnvSchema = z.object({
   SESSION_SECRET: z.string().min(32),
   ENCRYPTION_KEY: z.string().length(32),
   CSRF_SECRET: z.string().min(32),
+  CRON_SECRET: z.string().min(32).optional(), // Scheduled jobs (/api/jobs)
+  ADMIN_API_KEY: z.string().min(32).optional(), // Admin API (/api/admin)
 
   // Email configuration
   SMTP_HOST: z.string().optional(),
@@ -424,6 +426,13 @@ export function validateRequiredEnvVars() {
       }
     }
 
+    // Links in emails carry signed tokens, so they must point to this site
+    // over HTTPS and are never built from the Host header of a request
+    const siteUrl = process.env.SITE_URL || import.meta.env?.SITE_URL;
+    if (!siteUrl?.startsWith('https://')) {
+      throw new Error('SITE_URL must be the HTTPS address of the site');
+    }
+
     // Validate URLs format
     const urls = ['PUBLIC_SUPABASE_URL', 'SITE_URL'];
     for (const urlName of urls) {
@@ -3,12 +3,298 @@ import { createServerSupabaseClient } from './supabase';
 import type {
   User,
   Magazine,
+  FamilyReservationLimit,
+  MagazineInput,
+  MagazineUpdate,
   Reservation,
   ConsentRecord,
   DataProcessingLog,
   ReservationFormData,
+  ReservationStatus,
   ConsentData,
+  StatusChange,
+  ReservationDetails,
+  ReservationDeliveryUpdate,
+  AdminReservationFilters,
+  AdminActor,
+  AdminRole,
+  AdminUser,
+  Payment,
+  PaymentMethod,
+  PickupSlot,
+  PaymentImportSource,
+  PaymentImportLine,
+  PaymentImportLineStatus,
+  StatementLine,
+  WaitlistEntry,
+  PictureClaim,
+  ReservationChild,
+  KindergartenGroup,
+  KindergartenChild,
 } from '@/types';
+import type { CheckInCode } from './check-in';
+import { COVER_CONTENT_TYPES, MAGAZINE_COVER_BUCKET } from './magazines';
+import { magazine as magazineConfig } from '@/config/content';
+import { toPickupDate } from './pickup-slots';
+import { reservationChildren } from './reservation-children';
+import { assertTransition, releasesCopies } from './reservation-status';
+import {
+  paymentConfig,
+  calculatePaymentDeadline,
+  calculateTotalCost,
+} from '@/config/payment';
+
+// Raised when a magazine does not have enough copies left for a reservation
+export class InsufficientCopiesError extends Error {
+  availableCopies: number;
+
+  constructor(availableCopies: number) {
+    super(`Insufficient copies: only ${availableCopies} available`);
+    this.name = 'InsufficientCopiesError';
+    this.availableCopies = availableCopies;
+  }
+}
+
+// Raised when a family would reserve more copies of an issue than it may
+export class FamilyLimitExceededError extends Error {
+  copiesPerFamily: number;
+  remainingCopies: number;
+
+  constructor(copiesPerFamily: number, remainingCopies: number) {
+    super(
+      `Family limit exceeded: ${remainingCopies} of ${copiesPerFamily} copies left`,
+    );
+    this.name = 'FamilyLimitExceededError';
+    this.copiesPerFamily = copiesPerFamily;
+    this.remainingCopies = remainingCopies;
+  }
+}
+
+// Raised when the magazine of a reservation does not exist (any more)
+export class MagazineNotFoundError extends Error {
+  constructor(magazineId: string) {
+    super(`Magazine not found: ${magazineId}`);
+    this.name = 'MagazineNotFoundError';
+  }
+}
+
+// Raised when the print run of an issue would drop below the copies
+// families already reserved
+export class MagazineCopiesReservedError extends Error {
+  reservedCopies: number;
+
+  constructor(reservedCopies: number) {
+    super(`Cannot reduce copies: ${reservedCopies} already reserved`);
+    this.name = 'MagazineCopiesReservedError';
+    this.reservedCopies = reservedCopies;
+  }
+}
+
+// Raised when a reservation does not exist or belongs to another user
+export class ReservationNotFoundError extends Error {
+  constructor(reservationId: string) {
+    super(`Reservation not found: ${reservationId}`);
+    this.name = 'ReservationNotFoundError';
+  }
+}
+
+// Raised when a reservation can no longer be edited (only pending ones can)
+export class ReservationNotEditableError extends Error {
+  status: ReservationStatus;
+
+  constructor(status: ReservationStatus) {
+    super(`Reservation cannot be edited in status ${status}`);
+    this.name = 'ReservationNotEditableError';
+    this.status = status;
+  }
+}
+
+// Raised when a reservation cannot be marked as dispatched (pickup only)
+export class ReservationNotDispatchableError extends Error {
+  constructor(reservationId: string) {
+    super(`Reservation ${reservationId} is not a shipping reservation`);
+    this.name = 'ReservationNotDispatchableError';
+  }
+}
+
+// Raised when a reservation cannot be marked as picked up (shipping only)
+export class ReservationNotPickupError extends Error {
+  constructor(reservationId: string) {
+    super(`Reservation ${reservationId} is not a pickup reservation`);
+    this.name = 'ReservationNotPickupError';
+  }
+}
+
+// Raised when the chosen pickup slot is full, inactive or already over
+export class PickupSlotUnavailableError extends Error {
+  reason: 'full' | 'closed';
+
+  constructor(slotId: string, reason: 'full' | 'closed') {
+    super(`Pickup slot ${slotId} is ${reason}`);
+    this.name = 'PickupSlotUnavailableError';
+    this.reason = reason;
+  }
+}
+
+// Raised when a family is already waiting for copies of the issue
+export class AlreadyOnWaitlistError extends Error {
+  constructor(magazineId: string) {
+    super(`Already on the waitlist for magazine ${magazineId}`);
+    this.name = 'AlreadyOnWaitlistError';
+  }
+}
+
+// Raised when a waitlist offer is claimed after it lapsed or a second time
+export class WaitlistOfferExpiredError extends Error {
+  constructor(entryId: string) {
+    super(`Waitlist offer ${entryId} is no longer open`);
+    this.name = 'WaitlistOfferExpiredError';
+  }
+}
+
+// Raised when the family already claimed the free picture it ordered
+export class PictureAlreadyClaimedError extends Error {
+  pictureType: PictureClaim['pictureType'];
+  groupName?: string;
+
+  constructor(pictureType: PictureClaim['pictureType'], groupName?: string) {
+    super(`Picture already claimed: ${pictureType}`);
+    this.name = 'PictureAlreadyClaimedError';
+    this.pictureType = pictureType;
+    this.groupName = groupName;
+  }
+}
+
+// Raised when the group's roster does not list the child a picture is for
+export class PictureChildNotListedError extends Error {
+  pictureType: PictureClaim['pictureType'];
+  groupName: string;
+
+  constructor(pictureType: PictureClaim['pictureType'], groupName: string) {
+    super(`Child not listed in group ${groupName}`);
+    this.name = 'PictureChildNotListedError';
+    this.pictureType = pictureType;
+    this.groupName = groupName;
+  }
+}
+
+// Maps the limit, stock and waitlist errors raised by create-reservation.sql
+function reservationError(
+  error: { message: string; details?: string; hint?: string },
+  formData: ReservationFormData,
+  waitlistEntryId?: string,
+): Error | null {
+  if (error.message === 'family_limit_exceeded') {
+    return new FamilyLimitExceededError(
+      parseInt(error.details || '0', 10),
+      parseInt(error.hint || '0', 10),
+    );
+  }
+  if (error.message === 'insufficient_copies') {
+    return new InsufficientCopiesError(parseInt(error.details || '0', 10));
+  }
+  if (error.message === 'magazine_not_found') {
+    return new MagazineNotFoundError(formData.magazineId);
+  }
+  if (error.message === 'waitlist_offer_expired' && waitlistEntryId) {
+    return new WaitlistOfferExpiredError(waitlistEntryId);
+  }
+  return null;
+}
+
+// Maps the errors raised by the booking trigger in pickup-slots.sql
+function pickupSlotError(
+  error: { message: string },
+  slotId?: string,
+): PickupSlotUnavailableError | null {
+  if (!slotId) return null;
+  if (error.message === 'pickup_slot_full') {
+    return new PickupSlotUnavailableError(slotId, 'full');
+  }
+  if (error.message === 'pickup_slot_closed') {
+    return new PickupSlotUnavailableError(slotId, 'closed');
+  }
+  return null;
+}
+
+// Maps the errors raised by the claim trigger in picture-claims-per-child.sql
+function pictureClaimError(error: {
+  message: string;
+  details?: string;
+  hint?: string;
+}): PictureAlreadyClaimedError | PictureChildNotListedError | null {
+  const pictureType = error.details === 'vorschul' ? 'vorschul' : 'group';
+  if (error.message === 'picture_already_claimed') {
+    return new PictureAlreadyClaimedError(pictureType, error.hint || undefined);
+  }
+  if (error.message === 'picture_child_not_listed') {
+    return new PictureChildNotListedError(pictureType, error.hint || '');
+  }
+  return null;
+}
+
+// Rows of kindergarten-roster.sql; groups embed their children on request
+interface KindergartenGroupRow {
+  id: string;
+  name: string;
+  year: string;
+  created_at: string;
+  updated_at: string;
+  kindergarten_children?: KindergartenChildRow[];
+}
+
+interface KindergartenChildRow {
+  id: string;
+  group_id: string;
+  name: string;
+  is_vorschueler: boolean | null;
+  created_at: string;
+  updated_at: string;
+}
+
+const MAGAZINE_COLUMNS = {
+  title: 'title',
+  issueNumber: 'issue_number',
+  publishDate: 'publish_date',
+  description: 'description',
+  coverImageUrl: 'cover_image_url',
+  isActive: 'is_active',
+  reservationsOpenAt: 'reservations_open_at',
+  reservationsCloseAt: 'reservations_close_at',
+  copiesPerFamily: 'copies_per_family',
+  contents: 'contents',
+  pageCount: 'page_count',
+  format: 'format',
+  paperWeight: 'paper_weight',
+} as const satisfies Record<keyof MagazineUpdate, string>;
+
+// Columns for the fields that are set; undefined ones stay untouched
+function magazineColumns(update: MagazineUpdate): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(update)
+      .filter(([key, value]) => key in MAGAZINE_COLUMNS && value !== undefined)
+      .map(([key, value]) => [
+        MAGAZINE_COLUMNS[key as keyof MagazineUpdate],
+        value,
+      ]),
+  );
+}
+
+// Raised when an admin account with the same email address already exists
+export class AdminUserExistsError extends Error {
+  constructor(email: string) {
+    super(`Admin user already exists: ${email}`);
+    this.name = 'AdminUserExistsError';
+  }
+}
+
+// Raised when a group of the same name exists for the kindergarten year
+export class KindergartenGroupExistsError extends Error {
+  constructor(name: string, year: string) {
+    super(`Kindergarten group already exists: ${name} (${year})`);
+    this.name = 'KindergartenGroupExistsError';
+  }
+}
 
 // Server-side database operations
 export class DatabaseService {
@@ -59,219 +345,1881 @@ export class DatabaseService {
     return this.mapUserFromDB(data);
   }
 
-  async getUserByEmail(email: string): Promise<User | null> {
+  async getUserByEmail(email: string): Promise<User | null> {
+    const { data, error } = await this.supabase
+      .from('users')
+      .select('*')
+      .eq('email', email)
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') return null; // No rows returned
+      throw new Error(`Failed to get user: ${error.message}`);
+    }
+
+    return this.mapUserFromDB(data);
+  }
+
+  async getUserById(id: string): Promise<User | null> {
+    const { data, error } = await this.supabase
+      .from('users')
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') return null;
+      throw new Error(`Failed to get user: ${error.message}`);
+    }
+
+    return this.mapUserFromDB(data);
+  }
+
+  async updateUserActivity(_userId: string): Promise<void> {
+    // Skip updating last_activity as column doesn't exist
+    // This method is kept for compatibility but does nothing
+    return;
+
+    /* Original code - commented out as last_activity column doesn't exist
+    const { error } = await this.supabase
+      .from('users')
+      .update({ last_activity: new Date().toISOString() })
+      .eq('id', userId);
+
+    if (error) {
+      console.error('Failed to update user activity:', error);
+    }
+    */
+  }
+
+  // Magazine operations
+
+  // Issues families can reserve now: active and inside their reservation
+  // window. Sold-out ones stay listed for the waitlist. Newest first.
+  async getActiveMagazines(now: Date = new Date()): Promise<Magazine[]> {
+    const timestamp = now.toISOString();
+    const { data, error } = await this.supabase
+      .from('magazines')
+      .select('*')
+      .eq('is_active', true)
+      .or(`reservations_open_at.is.null,reservations_open_at.lte.${timestamp}`)
+      .or(`reservations_close_at.is.null,reservations_close_at.gt.${timestamp}`)
+      .order('publish_date', { ascending: false });
+
+    if (error) throw new Error(`Failed to get magazines: ${error.message}`);
+    return data.map(this.mapMagazineFromDB);
+  }
+
+  // Every issue including sold out and inactive ones, for the admin
+  async getMagazines(): Promise<Magazine[]> {
+    const { data, error } = await this.supabase
+      .from('magazines')
+      .select('*')
+      .order('publish_date', { ascending: false });
+
+    if (error) throw new Error(`Failed to get magazines: ${error.message}`);
+    return data.map(this.mapMagazineFromDB);
+  }
+
+  async getMagazineById(id: string): Promise<Magazine | null> {
+    const { data, error } = await this.supabase
+      .from('magazines')
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') return null;
+      throw new Error(`Failed to get magazine: ${error.message}`);
+    }
+
+    return this.mapMagazineFromDB(data);
+  }
+
+  async createMagazine(magazine: MagazineInput): Promise<Magazine> {
+    const { data, error } = await this.supabase
+      .from('magazines')
+      .insert({
+        ...magazineColumns(magazine),
+        total_copies: magazine.totalCopies,
+        available_copies: magazine.totalCopies,
+      })
+      .select()
+      .single();
+
+    if (error) throw new Error(`Failed to create magazine: ${error.message}`);
+    return this.mapMagazineFromDB(data);
+  }
+
+  // Returns null for an unknown issue. The print run changes through
+  // setMagazineTotalCopies, which keeps the stock consistent.
+  async updateMagazine(
+    id: string,
+    update: MagazineUpdate,
+  ): Promise<Magazine | null> {
+    const { data, error } = await this.supabase
+      .from('magazines')
+      .update({
+        ...magazineColumns(update),
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') return null;
+      throw new Error(`Failed to update magazine: ${error.message}`);
+    }
+    return this.mapMagazineFromDB(data);
+  }
+
+  // Changes the print run; available copies move by the same amount.
+  // Returns the copies now available, or null for an unknown issue.
+  async setMagazineTotalCopies(
+    id: string,
+    totalCopies: number,
+  ): Promise<number | null> {
+    const { data, error } = await this.supabase.rpc(
+      'set_magazine_total_copies',
+      { p_magazine_id: id, p_total_copies: totalCopies },
+    );
+
+    if (error) {
+      if (error.message === 'magazine_not_found') return null;
+      if (error.message === 'copies_reserved') {
+        throw new MagazineCopiesReservedError(
+          parseInt(error.details || '0', 10),
+        );
+      }
+      throw new Error(`Failed to set magazine copies: ${error.message}`);
+    }
+
+    return data as number;
+  }
+
+  // Stores a new cover image in the public bucket and links it. Every upload
+  // gets its own file name, so browsers never show a cached old cover.
+  async uploadMagazineCover(
+    id: string,
+    cover: { data: ArrayBuffer; contentType: string },
+  ): Promise<Magazine | null> {
+    const bucket = this.supabase.storage.from(MAGAZINE_COVER_BUCKET);
+    const path = `${id}/${Date.now()}.${COVER_CONTENT_TYPES[cover.contentType]}`;
+
+    const { error } = await bucket.upload(path, cover.data, {
+      contentType: cover.contentType,
+    });
+
+    if (error) throw new Error(`Failed to upload cover: ${error.message}`);
+
+    return this.updateMagazine(id, {
+      coverImageUrl: bucket.getPublicUrl(path).data.publicUrl,
+    });
+  }
+
+  // Waitlist operations - offers and expiries move stock inside Postgres
+  // (see waitlist.sql), like create_reservation and
+  // transition_reservation_status
+  async joinWaitlist(
+    entry: {
+      magazineId: string;
+      email: string;
+      firstName: string;
+      lastName: string;
+      quantity: number;
+    },
+    consent: { consents: ConsentData; ipAddress?: string },
+  ): Promise<WaitlistEntry> {
+    const { data, error } = await this.supabase
+      .from('waitlist_entries')
+      .insert({
+        magazine_id: entry.magazineId,
+        email: entry.email,
+        first_name: entry.firstName,
+        last_name: entry.lastName,
+        quantity: entry.quantity,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === '23505') {
+        throw new AlreadyOnWaitlistError(entry.magazineId);
+      }
+      throw new Error(`Failed to join waitlist: ${error.message}`);
+    }
+
+    await this.logDataProcessing({
+      action: 'created',
+      dataType: 'waitlist_entry',
+      legalBasis: 'consent',
+      ipAddress: consent.ipAddress,
+      details: JSON.stringify({
+        waitlistEntryId: data.id,
+        magazineId: entry.magazineId,
+        quantity: entry.quantity,
+      }),
+    });
+
+    // Waiting families have no account yet, so their consent is kept with
+    // the entry in the processing log rather than in user_consents
+    await this.logDataProcessing({
+      action: 'consent_given',
+      dataType: 'consent',
+      legalBasis: 'consent',
+      ipAddress: consent.ipAddress,
+      details: JSON.stringify({
+        waitlistEntryId: data.id,
+        ...consent.consents,
+      }),
+    });
+
+    return this.mapWaitlistEntryFromDB(data);
+  }
+
+  async getWaitlistEntryById(id: string): Promise<WaitlistEntry | null> {
+    const { data, error } = await this.supabase
+      .from('waitlist_entries')
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') return null;
+      throw new Error(`Failed to get waitlist entry: ${error.message}`);
+    }
+
+    return this.mapWaitlistEntryFromDB(data);
+  }
+
+  // Issues with families still waiting for copies
+  async getWaitlistedMagazineIds(): Promise<string[]> {
+    const { data, error } = await this.supabase
+      .from('waitlist_entries')
+      .select('magazine_id')
+      .eq('status', 'waiting');
+
+    if (error) {
+      throw new Error(`Failed to get waitlisted magazines: ${error.message}`);
+    }
+    return [...new Set(data.map((row) => row.magazine_id as string))];
+  }
+
+  // Holds the available copies for the oldest waiting families until
+  // offerExpiresAt and returns the entries that got an offer
+  async offerWaitlistCopies(
+    magazineId: string,
+    offerExpiresAt: Date,
+  ): Promise<WaitlistEntry[]> {
+    const { data, error } = await this.supabase.rpc('offer_waitlist_copies', {
+      p_magazine_id: magazineId,
+      p_offer_expires_at: offerExpiresAt.toISOString(),
+    });
+
+    if (error) {
+      throw new Error(`Failed to offer waitlist copies: ${error.message}`);
+    }
+    return (data || []).map(this.mapWaitlistEntryFromDB);
+  }
+
+  // Lapses the offers nobody claimed in time; their copies return to stock
+  async expireWaitlistOffers(): Promise<WaitlistEntry[]> {
+    const { data, error } = await this.supabase.rpc('expire_waitlist_offers');
+
+    if (error) {
+      throw new Error(`Failed to expire waitlist offers: ${error.message}`);
+    }
+    return (data || []).map(this.mapWaitlistEntryFromDB);
+  }
+
+  // Per-family limit exceptions (see family-reservation-limit.sql). Families
+  // are identified by their email address, stored lowercase.
+
+  // The limit set for the family, or null when the one of the issue applies
+  async getFamilyReservationLimit(
+    magazineId: string,
+    email: string,
+  ): Promise<number | null> {
+    const { data, error } = await this.supabase
+      .from('family_reservation_limits')
+      .select('copies_per_family')
+      .eq('magazine_id', magazineId)
+      .eq('family_email', email.toLowerCase())
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') return null;
+      throw new Error(`Failed to get family limit: ${error.message}`);
+    }
+    return data.copies_per_family;
+  }
+
+  async getFamilyReservationLimits(
+    magazineId: string,
+    accessedBy: AdminActor,
+  ): Promise<FamilyReservationLimit[]> {
+    const { data, error } = await this.supabase
+      .from('family_reservation_limits')
+      .select('*')
+      .eq('magazine_id', magazineId)
+      .order('family_email', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to get family limits: ${error.message}`);
+    }
+
+    await this.logDataProcessing({
+      action: 'accessed',
+      dataType: 'reservation',
+      legalBasis: 'legitimate_interest',
+      processorId: accessedBy.processorId,
+      details: JSON.stringify({
+        magazineId,
+        familyLimits: data.length,
+        accessedBy: accessedBy.changedBy,
+      }),
+    });
+
+    return data.map((row) => this.mapFamilyReservationLimitFromDB(row));
+  }
+
+  // Creates or replaces the exception of the family; null for an unknown
+  // issue
+  async setFamilyReservationLimit(
+    magazineId: string,
+    limit: { familyEmail: string; copiesPerFamily: number; reason?: string },
+    changedBy: AdminActor,
+  ): Promise<FamilyReservationLimit | null> {
+    const { data, error } = await this.supabase
+      .from('family_reservation_limits')
+      .upsert(
+        {
+          magazine_id: magazineId,
+          family_email: limit.familyEmail.toLowerCase(),
+          copies_per_family: limit.copiesPerFamily,
+          reason: limit.reason || null,
+          updated_at: new Date().toISOString(),
+        },
+        { onConflict: 'magazine_id,family_email' },
+      )
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === '23503') return null;
+      throw new Error(`Failed to set family limit: ${error.message}`);
+    }
+
+    await this.logDataProcessing({
+      action: 'updated',
+      dataType: 'reservation',
+      legalBasis: 'legitimate_interest',
+      processorId: changedBy.processorId,
+      details: JSON.stringify({
+        magazineId,
+        familyLimitId: data.id,
+        copiesPerFamily: limit.copiesPerFamily,
+        changedBy: changedBy.changedBy,
+      }),
+    });
+
+    return this.mapFamilyReservationLimitFromDB(data);
+  }
+
+  // Returns false when the family had no exception
+  async deleteFamilyReservationLimit(
+    magazineId: string,
+    email: string,
+    changedBy: AdminActor,
+  ): Promise<boolean> {
+    const { data, error } = await this.supabase
+      .from('family_reservation_limits')
+      .delete()
+      .eq('magazine_id', magazineId)
+      .eq('family_email', email.toLowerCase())
+      .select('id');
+
+    if (error) {
+      throw new Error(`Failed to delete family limit: ${error.message}`);
+    }
+    if (data.length === 0) return false;
+
+    await this.logDataProcessing({
+      action: 'deleted',
+      dataType: 'reservation',
+      legalBasis: 'legitimate_interest',
+      processorId: changedBy.processorId,
+      details: JSON.stringify({
+        magazineId,
+        familyLimitId: data[0].id,
+        changedBy: changedBy.changedBy,
+      }),
+    });
+
+    return true;
+  }
+
+  // Reservation operations
+
+  // A reservation from a waitlist offer takes the copies held for the entry
+  // instead of the stock; throws WaitlistOfferExpiredError when it lapsed
+  async createReservation(
+    formData: ReservationFormData,
+    options: { waitlistEntryId?: string } = {},
+  ): Promise<Reservation> {
+    const { waitlistEntryId } = options;
+
+    // Get or create user
+    let user = await this.getUserByEmail(formData.email);
+
+    if (!user) {
+      // Create user if they don't exist
+      user = await this.createUser({
+        email: formData.email,
+        firstName: formData.firstName,
+        lastName: formData.lastName,
+        // phone: formData.phone, // phone column doesn't exist
+        address:
+          formData.deliveryMethod === 'shipping' ? formData.address : undefined,
+        consentVersion: '1.0',
+      });
+    }
+
+    // consent_reference column doesn't exist
+    // const consentReference = `consent-${user.id}-${Date.now()}`;
+
+    // Shipping is paid in advance and lapses after the payment deadline;
+    // pickup is paid in cash on collection and never expires
+    const expiresAt =
+      formData.deliveryMethod === 'shipping'
+        ? calculatePaymentDeadline(new Date()).toISOString()
+        : null;
+
+    // Stock, reservation, children and their picture claims are written in
+    // one transaction (see create-reservation.sql). When any part fails the
+    // database rolls all of it back, so nothing has to be put back here.
+    const { data: reservationId, error: createError } = await this.supabase.rpc(
+      'create_reservation',
+      {
+        p_reservation: {
+          user_id: user.id,
+          magazine_id: formData.magazineId,
+          quantity: formData.quantity,
+          delivery_method: formData.deliveryMethod,
+          pickup_location:
+            formData.deliveryMethod === 'pickup'
+              ? formData.pickupLocation
+              : null,
+          pickup_date: formData.pickupDate || null,
+          // The booking trigger checks the capacity and fills location and date
+          pickup_slot_id:
+            formData.deliveryMethod === 'pickup'
+              ? formData.pickupSlotId || null
+              : null,
+          // Set payment_method only for shipping, null for pickup (cash)
+          payment_method:
+            formData.deliveryMethod === 'shipping'
+              ? formData.paymentMethod || 'paypal'
+              : null,
+          // Shipping address fields (only for shipping)
+          street:
+            formData.deliveryMethod === 'shipping'
+              ? formData.address?.street
+              : null,
+          house_number:
+            formData.deliveryMethod === 'shipping'
+              ? formData.address?.houseNumber
+              : null,
+          address_line2:
+            formData.deliveryMethod === 'shipping'
+              ? formData.address?.addressLine2
+              : null,
+          postal_code:
+            formData.deliveryMethod === 'shipping'
+              ? formData.address?.postalCode
+              : null,
+          city:
+            formData.deliveryMethod === 'shipping'
+              ? formData.address?.city
+              : null,
+          country:
+            formData.deliveryMethod === 'shipping'
+              ? formData.address?.country
+              : null,
+          // Notes field
+          notes: formData.notes || null,
+          // consent_reference column doesn't exist
+          // consent_reference: consentReference,
+          expires_at: expiresAt,
+        },
+        p_children: (formData.children || []).map((child) => ({
+          child_name: child.name,
+          group_name: child.groupName,
+          is_vorschueler: child.isVorschueler,
+          order_group_picture: child.orderGroupPicture,
+          order_vorschul_picture: child.orderVorschulPicture,
+        })),
+        p_waitlist_entry_id: waitlistEntryId || null,
+        p_default_copies_per_family: magazineConfig.copiesPerFamily,
+      },
+    );
+
+    if (createError) {
+      throw (
+        reservationError(createError, formData, waitlistEntryId) ||
+        pickupSlotError(createError, formData.pickupSlotId) ||
+        pictureClaimError(createError) ||
+        new Error(`Failed to create reservation: ${createError.message}`)
+      );
+    }
+
+    // The reservation exists from here on, whatever happens below
+    const { data, error } = await this.supabase
+      .from('reservations')
+      .select(
+        `
+        *,
+        users (
+          id,
+          email,
+          first_name,
+          last_name
+        ),
+        magazines (
+          id,
+          title,
+          issue_number,
+          publish_date
+        ),
+        pickup_slots (*),
+        reservation_children (*)
+      `,
+      )
+      .eq('id', reservationId)
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to load created reservation: ${error.message}`);
+    }
+
+    await this.setPaymentDue(
+      data.id,
+      calculateTotalCost(
+        formData.deliveryMethod === 'shipping',
+        formData.quantity,
+      ),
+      formData.deliveryMethod === 'shipping'
+        ? formData.paymentMethod || 'paypal'
+        : 'cash',
+    ).catch((paymentError) => {
+      console.error('Failed to record payment due:', paymentError);
+    });
+
+    // Log the data processing action
+    await this.logDataProcessing({
+      userId: user.id,
+      action: 'reservation_created',
+      dataType: 'reservation',
+      legalBasis: 'consent',
+      details: JSON.stringify({
+        reservationId: data.id,
+        magazineId: formData.magazineId,
+        quantity: formData.quantity,
+      }),
+    });
+
+    return this.mapReservationFromDB(data);
+  }
+
+  async getUserReservations(userId: string): Promise<Reservation[]> {
+    const { data, error } = await this.supabase
+      .from('reservations')
+      .select(
+        `
+        *,
+        magazines (
+          id,
+          title,
+          issue_number,
+          publish_date,
+          cover_image_url
+        )
+      `,
+      )
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false });
+
+    if (error) throw new Error(`Failed to get reservations: ${error.message}`);
+    return data.map((row) => this.mapReservationFromDB(row));
+  }
+
+  async getReservationDetails(
+    reservationId: string,
+  ): Promise<ReservationDetails | null> {
+    const { data, error } = await this.supabase
+      .from('reservations')
+      .select(
+        `
+        *,
+        users (*),
+        magazines (*),
+        pickup_slots (*),
+        reservation_children (*)
+      `,
+      )
+      .eq('id', reservationId)
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') return null;
+      throw new Error(`Failed to get reservation: ${error.message}`);
+    }
+
+    return this.mapReservationDetailsFromDB(data);
+  }
+
+  // Reservations of a user together with their magazines, for the portal
+  async getUserReservationDetails(
+    userId: string,
+  ): Promise<ReservationDetails[]> {
+    const { data, error } = await this.supabase
+      .from('reservations')
+      .select(
+        `
+        *,
+        users (*),
+        magazines (*),
+        pickup_slots (*),
+        reservation_children (*)
+      `,
+      )
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false });
+
+    if (error) throw new Error(`Failed to get reservations: ${error.message}`);
+    return data.map((row) => this.mapReservationDetailsFromDB(row));
+  }
+
+  // All reservations with family, magazine and payment for the admin
+  // dashboard, newest first
+  async getAdminReservations(
+    filters: AdminReservationFilters,
+    accessedBy: AdminActor,
+  ): Promise<ReservationDetails[]> {
+    let query = this.supabase.from('reservations').select(
+      `
+        *,
+        users (*),
+        magazines (*),
+        payments (*),
+        pickup_slots (*),
+        reservation_children (*)
+      `,
+    );
+
+    if (filters.magazineId) query = query.eq('magazine_id', filters.magazineId);
+    if (filters.status) query = query.eq('status', filters.status);
+    if (filters.deliveryMethod) {
+      query = query.eq('delivery_method', filters.deliveryMethod);
+    }
+
+    const { data, error } = await query.order('created_at', {
+      ascending: false,
+    });
+
+    if (error) throw new Error(`Failed to get reservations: ${error.message}`);
+    const details = data.map((row) => this.mapReservationDetailsFromDB(row));
+
+    await this.logDataProcessing({
+      action: 'accessed',
+      dataType: 'reservation',
+      legalBasis: 'contract',
+      processorId: accessedBy.processorId,
+      details: JSON.stringify({
+        accessedBy: accessedBy.changedBy,
+        filters,
+        count: details.length,
+      }),
+    });
+
+    // Filtered here: reservations without a payment row count as unpaid,
+    // which a filter on the joined table cannot express. Groups are looked
+    // up in the children and the columns of older reservations alike.
+    return details.filter(
+      ({ reservation, payment }) =>
+        (!filters.paymentState ||
+          !!payment?.paidAt === (filters.paymentState === 'paid')) &&
+        (!filters.group ||
+          reservationChildren(reservation).some(
+            (child) => child.groupName === filters.group,
+          )),
+    );
+  }
+
+  async cancelReservation(
+    reservationId: string,
+    userId: string,
+  ): Promise<void> {
+    await this.transitionReservationStatus(reservationId, 'cancelled', {
+      changedBy: `user:${userId}`,
+      legalBasis: 'user_request',
+      userId,
+    });
+  }
+
+  // Switches a pending reservation between pickup and shipping or corrects
+  // its address. The caller validates the update with
+  // createReservationUpdateSchema.
+  async updateReservationDelivery(
+    reservationId: string,
+    update: ReservationDeliveryUpdate,
+    userId?: string,
+  ): Promise<Reservation> {
+    const { data: current, error: fetchError } = await this.supabase
+      .from('reservations')
+      .select(
+        'id, user_id, status, delivery_method, payment_method, expires_at, pickup_date, pickup_slot_id',
+      )
+      .eq('id', reservationId)
+      .single();
+
+    if (fetchError) {
+      if (fetchError.code === 'PGRST116') {
+        throw new ReservationNotFoundError(reservationId);
+      }
+      throw new Error(`Failed to get reservation: ${fetchError.message}`);
+    }
+
+    if (userId && current.user_id !== userId) {
+      throw new ReservationNotFoundError(reservationId);
+    }
+
+    if (current.status !== 'pending') {
+      throw new ReservationNotEditableError(current.status);
+    }
+
+    const isShipping = update.deliveryMethod === 'shipping';
+    // Shipping reservations keep the payment method chosen at reservation
+    const paymentMethod = isShipping
+      ? current.payment_method || 'paypal'
+      : null;
+
+    // Switching to shipping starts a fresh payment deadline; a shipping
+    // reservation that only fixes its address keeps the one it has
+    let expiresAt: string | null = null;
+    if (isShipping) {
+      expiresAt =
+        current.delivery_method === 'shipping' && current.expires_at
+          ? current.expires_at
+          : calculatePaymentDeadline(new Date()).toISOString();
+    }
+
+    // A slot decides the pickup date itself (see pickup-slots.sql)
+    const pickupSlotId = isShipping ? null : update.pickupSlotId || null;
+    const pickupDate = isShipping ? null : update.pickupDate || null;
+    const pickupChanged =
+      pickupSlotId !== current.pickup_slot_id ||
+      (!pickupSlotId && pickupDate !== current.pickup_date);
+
+    // Only update if the reservation is still pending
+    const { data, error } = await this.supabase
+      .from('reservations')
+      .update({
+        delivery_method: update.deliveryMethod,
+        pickup_location: isShipping ? null : update.pickupLocation,
+        pickup_date: pickupDate,
+        pickup_slot_id: pickupSlotId,
+        payment_method: paymentMethod,
+        street: isShipping ? update.address?.street : null,
+        house_number: isShipping ? update.address?.houseNumber : null,
+        address_line2: isShipping ? update.address?.addressLine2 : null,
+        postal_code: isShipping ? update.address?.postalCode : null,
+        city: isShipping ? update.address?.city : null,
+        country: isShipping ? update.address?.country : null,
+        notes: update.notes || null,
+        expires_at: expiresAt,
+        // A new deadline deserves a new reminder
+        ...(expiresAt !== current.expires_at && {
+          payment_reminder_sent_at: null,
+        }),
+        // Likewise a new pickup date
+        ...(pickupChanged && { pickup_reminder_sent_at: null }),
+      })
+      .eq('id', reservationId)
+      .eq('status', 'pending')
+      .select('*, pickup_slots (*)')
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') {
+        throw new Error(
+          `Failed to update reservation: status of ${reservationId} changed concurrently`,
+        );
+      }
+      throw (
+        pickupSlotError(error, update.pickupSlotId) ||
+        new Error(`Failed to update reservation: ${error.message}`)
+      );
+    }
+
+    await this.setPaymentDue(
+      reservationId,
+      calculateTotalCost(isShipping, data.quantity),
+      paymentMethod || 'cash',
+    ).catch((paymentError) => {
+      console.error('Failed to update payment due:', paymentError);
+    });
+
+    await this.logDataProcessing({
+      userId: current.user_id,
+      action: 'reservation_updated',
+      dataType: 'reservation',
+      legalBasis: 'contract',
+      details: JSON.stringify({
+        reservationId,
+        deliveryMethod: update.deliveryMethod,
+        previousDeliveryMethod: current.delivery_method,
+      }),
+    });
+
+    return this.mapReservationFromDB(data);
+  }
+
+  // Records that a paid shipping reservation was posted and completes it.
+  // The dispatch details are stored first, so a failed status change can
+  // simply be retried.
+  async markReservationDispatched(
+    reservationId: string,
+    dispatch: { trackingNumber?: string },
+    dispatchedBy: AdminActor,
+    dispatchedAt: Date = new Date(),
+  ): Promise<Reservation> {
+    const { data: current, error: fetchError } = await this.supabase
+      .from('reservations')
+      .select('id, status, delivery_method')
+      .eq('id', reservationId)
+      .single();
+
+    if (fetchError) {
+      if (fetchError.code === 'PGRST116') {
+        throw new ReservationNotFoundError(reservationId);
+      }
+      throw new Error(`Failed to get reservation: ${fetchError.message}`);
+    }
+
+    if (current.delivery_method !== 'shipping') {
+      throw new ReservationNotDispatchableError(reservationId);
+    }
+    assertTransition(current.status, 'completed');
+
+    const { error } = await this.supabase
+      .from('reservations')
+      .update({
+        dispatched_at: dispatchedAt.toISOString(),
+        tracking_number: dispatch.trackingNumber || null,
+      })
+      .eq('id', reservationId)
+      .eq('status', current.status);
+
+    if (error) {
+      throw new Error(`Failed to record dispatch: ${error.message}`);
+    }
+
+    return this.transitionReservationStatus(reservationId, 'completed', {
+      ...dispatchedBy,
+      reason: 'dispatched',
+    });
+  }
+
+  // Pickup reservation for the check-in, by ID or by reservation number.
+  async getCheckInReservation(
+    code: CheckInCode,
+    accessedBy: AdminActor,
+  ): Promise<ReservationDetails | null> {
+    let query = this.supabase.from('reservations').select(
+      `
+        *,
+        users (*),
+        magazines (*),
+        payments (*),
+        pickup_slots (*),
+        reservation_children (*)
+      `,
+    );
+
+    // The number is the first 8 hex digits of the ID. UUIDs sort by their
+    // hex digits, so a number covers a range of IDs; an ambiguous or unknown
+    // number gives null.
+    query =
+      'id' in code
+        ? query.eq('id', code.id)
+        : query
+            .gte('id', `${code.number}-0000-0000-0000-000000000000`)
+            .lte('id', `${code.number}-ffff-ffff-ffff-ffffffffffff`);
+
+    const { data, error } = await query.limit(2);
+
+    if (error) {
+      throw new Error(`Failed to get reservation: ${error.message}`);
+    }
+    if (data.length !== 1) {
+      return null;
+    }
+
+    const details = this.mapReservationDetailsFromDB(data[0]);
+
+    await this.logDataProcessing({
+      userId: details.user.id,
+      action: 'accessed',
+      dataType: 'reservation',
+      legalBasis: 'contract',
+      processorId: accessedBy.processorId,
+      details: JSON.stringify({
+        accessedBy: accessedBy.changedBy,
+        reservationId: details.reservation.id,
+        purpose: 'check_in',
+      }),
+    });
+
+    return details;
+  }
+
+  // Hands a pickup reservation over to the family. Pickup is paid in cash on
+  // collection, so a reservation that is still pending gets its payment
+  // confirmed on the way.
+  async markReservationPickedUp(
+    reservationId: string,
+    pickedUpBy: AdminActor,
+    pickedUpAt: Date = new Date(),
+  ): Promise<Reservation> {
+    const { data: current, error: fetchError } = await this.supabase
+      .from('reservations')
+      .select('id, status, delivery_method')
+      .eq('id', reservationId)
+      .single();
+
+    if (fetchError) {
+      if (fetchError.code === 'PGRST116') {
+        throw new ReservationNotFoundError(reservationId);
+      }
+      throw new Error(`Failed to get reservation: ${fetchError.message}`);
+    }
+
+    if (current.delivery_method === 'shipping') {
+      throw new ReservationNotPickupError(reservationId);
+    }
+    if (current.status === 'pending') {
+      await this.confirmReservationPayment(
+        reservationId,
+        pickedUpBy,
+        pickedUpAt,
+      );
+    }
+
+    return this.transitionReservationStatus(reservationId, 'completed', {
+      ...pickedUpBy,
+      reason: 'picked_up',
+    });
+  }
+
+  // Confirms a payment the statement import could not see, e.g. cash handed
+  // to the Elternbeirat. Records the full amount due as received.
+  async confirmReservationPayment(
+    reservationId: string,
+    confirmedBy: AdminActor,
+    paidAt: Date = new Date(),
+  ): Promise<Reservation> {
+    const reservation = await this.transitionReservationStatus(
+      reservationId,
+      'confirmed',
+      { ...confirmedBy, reason: 'payment_confirmed' },
+    );
+
+    const amountDue = calculateTotalCost(
+      reservation.deliveryMethod === 'shipping',
+      reservation.quantity,
+    );
+    await this.recordPayment(reservationId, {
+      amountDue,
+      amountReceived: amountDue,
+      method: (reservation.paymentMethod as PaymentMethod) || 'cash',
+      paidAt: paidAt.toISOString(),
+    });
+
+    return reservation;
+  }
+
+  async cancelReservationAsAdmin(
+    reservationId: string,
+    cancelledBy: AdminActor,
+  ): Promise<Reservation> {
+    return this.transitionReservationStatus(reservationId, 'cancelled', {
+      ...cancelledBy,
+      reason: 'cancelled_by_admin',
+    });
+  }
+
+  // Moves a reservation to a new status following the rules in
+  // reservation-status.ts, stamps the change and writes it to the audit log
+  async transitionReservationStatus(
+    reservationId: string,
+    to: ReservationStatus,
+    change: StatusChange,
+  ): Promise<Reservation> {
+    const { data: current, error: fetchError } = await this.supabase
+      .from('reservations')
+      .select('id, user_id, status')
+      .eq('id', reservationId)
+      .single();
+
+    if (fetchError) {
+      if (fetchError.code === 'PGRST116') {
+        throw new ReservationNotFoundError(reservationId);
+      }
+      throw new Error(`Failed to get reservation: ${fetchError.message}`);
+    }
+
+    if (change.userId && current.user_id !== change.userId) {
+      throw new ReservationNotFoundError(reservationId);
+    }
+
+    const from = current.status as ReservationStatus;
+    assertTransition(from, to);
+
+    // Only updates if nobody changed the status in the meantime, and
+    // returns the copies in the same transaction
+    // (see reservation-status-transition.sql)
+    const { data, error } = await this.supabase.rpc(
+      'transition_reservation_status',
+      {
+        p_reservation_id: reservationId,
+        p_from: from,
+        p_to: to,
+        p_changed_by: change.changedBy,
+        p_release_copies: releasesCopies(from, to),
+      },
+    );
+
+    if (error) {
+      if (error.message === 'reservation_status_changed') {
+        throw new Error(
+          `Failed to update reservation status: status of ${reservationId} changed concurrently`,
+        );
+      }
+      throw new Error(`Failed to update reservation status: ${error.message}`);
+    }
+
+    await this.logDataProcessing({
+      userId: current.user_id,
+      action: 'reservation_updated',
+      dataType: 'reservation',
+      legalBasis: change.legalBasis || 'contract',
+      processorId: change.processorId,
+      ipAddress: change.ipAddress,
+      details: JSON.stringify({
+        reservationId,
+        from,
+        to,
+        changedBy: change.changedBy,
+        ...(change.reason && { reason: change.reason }),
+      }),
+    });
+
+    return this.mapReservationFromDB(data);
+  }
+
+  // Pending reservations whose payment deadline has passed
+  async getOverdueReservations(
+    now: Date = new Date(),
+  ): Promise<ReservationDetails[]> {
+    const { data, error } = await this.supabase
+      .from('reservations')
+      .select(
+        `
+        *,
+        users (*),
+        magazines (*)
+      `,
+      )
+      .eq('status', 'pending')
+      .lt('expires_at', now.toISOString())
+      .order('expires_at', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to get overdue reservations: ${error.message}`);
+    }
+    return data.map((row) => this.mapReservationDetailsFromDB(row));
+  }
+
+  // Expires every overdue reservation, returning its copies to stock.
+  // Reservations that fail (e.g. paid in the meantime) are skipped.
+  async expireOverdueReservations(
+    now: Date = new Date(),
+  ): Promise<ReservationDetails[]> {
+    const overdue = await this.getOverdueReservations(now);
+    const expired: ReservationDetails[] = [];
+
+    for (const details of overdue) {
+      try {
+        const reservation = await this.transitionReservationStatus(
+          details.reservation.id,
+          'expired',
+          { changedBy: 'system', reason: 'payment_deadline_passed' },
+        );
+        expired.push({ ...details, reservation });
+      } catch (error) {
+        console.error(
+          `Failed to expire reservation ${details.reservation.id}:`,
+          error,
+        );
+      }
+    }
+
+    return expired;
+  }
+
+  // Pending shipping reservations whose deadline is at most
+  // paymentReminderDaysBefore days away and that were not reminded yet
+  async getReservationsDueForPaymentReminder(
+    now: Date = new Date(),
+  ): Promise<ReservationDetails[]> {
+    const remindFrom = new Date(now);
+    remindFrom.setDate(
+      remindFrom.getDate() + paymentConfig.paymentReminderDaysBefore,
+    );
+
+    const { data, error } = await this.supabase
+      .from('reservations')
+      .select(
+        `
+        *,
+        users (*),
+        magazines (*)
+      `,
+      )
+      .eq('status', 'pending')
+      .eq('delivery_method', 'shipping')
+      .is('payment_reminder_sent_at', null)
+      .gt('expires_at', now.toISOString())
+      .lte('expires_at', remindFrom.toISOString())
+      .order('expires_at', { ascending: true });
+
+    if (error) {
+      throw new Error(
+        `Failed to get reservations due for payment reminder: ${error.message}`,
+      );
+    }
+    return data.map((row) => this.mapReservationDetailsFromDB(row));
+  }
+
+  // Stamps the reminder before the email goes out. Returns false when another
+  // run got there first, so a family never receives two reminders.
+  async claimPaymentReminder(
+    reservationId: string,
+    sentAt: Date = new Date(),
+  ): Promise<boolean> {
+    const { data, error } = await this.supabase
+      .from('reservations')
+      .update({ payment_reminder_sent_at: sentAt.toISOString() })
+      .eq('id', reservationId)
+      .is('payment_reminder_sent_at', null)
+      .select('id');
+
+    if (error) {
+      throw new Error(`Failed to claim payment reminder: ${error.message}`);
+    }
+    return data.length > 0;
+  }
+
+  // Lets the next run retry a reminder whose email could not be sent
+  async releasePaymentReminder(reservationId: string): Promise<void> {
+    const { error } = await this.supabase
+      .from('reservations')
+      .update({ payment_reminder_sent_at: null })
+      .eq('id', reservationId);
+
+    if (error) {
+      throw new Error(`Failed to release payment reminder: ${error.message}`);
+    }
+  }
+
+  // Pickup reservations to be collected tomorrow (Kita calendar) that were
+  // not reminded yet
+  async getReservationsDueForPickupReminder(
+    now: Date = new Date(),
+  ): Promise<ReservationDetails[]> {
+    const tomorrow = new Date(now);
+    tomorrow.setDate(tomorrow.getDate() + 1);
+
+    const { data, error } = await this.supabase
+      .from('reservations')
+      .select(
+        `
+        *,
+        users (*),
+        magazines (*),
+        pickup_slots (*),
+        reservation_children (*)
+      `,
+      )
+      .in('status', ['pending', 'confirmed'])
+      .eq('delivery_method', 'pickup')
+      .is('pickup_reminder_sent_at', null)
+      .eq('pickup_date', toPickupDate(tomorrow))
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      throw new Error(
+        `Failed to get reservations due for pickup reminder: ${error.message}`,
+      );
+    }
+    return data.map((row) => this.mapReservationDetailsFromDB(row));
+  }
+
+  // Stamps the reminder before the email goes out. Returns false when another
+  // run got there first or the reservation was cancelled in the meantime.
+  async claimPickupReminder(
+    reservationId: string,
+    sentAt: Date = new Date(),
+  ): Promise<boolean> {
+    const { data, error } = await this.supabase
+      .from('reservations')
+      .update({ pickup_reminder_sent_at: sentAt.toISOString() })
+      .eq('id', reservationId)
+      .in('status', ['pending', 'confirmed'])
+      .is('pickup_reminder_sent_at', null)
+      .select('id');
+
+    if (error) {
+      throw new Error(`Failed to claim pickup reminder: ${error.message}`);
+    }
+    return data.length > 0;
+  }
+
+  // Lets the next run retry a reminder whose email could not be sent
+  async releasePickupReminder(reservationId: string): Promise<void> {
+    const { error } = await this.supabase
+      .from('reservations')
+      .update({ pickup_reminder_sent_at: null })
+      .eq('id', reservationId);
+
+    if (error) {
+      throw new Error(`Failed to release pickup reminder: ${error.message}`);
+    }
+  }
+
+  // Payment operations
+
+  // Stores what a reservation costs. Called when it is created and when its
+  // delivery method changes; the amount received stays untouched.
+  async setPaymentDue(
+    reservationId: string,
+    amountDue: number,
+    method: PaymentMethod,
+  ): Promise<void> {
+    const { error } = await this.supabase.from('payments').upsert(
+      {
+        reservation_id: reservationId,
+        amount_due: amountDue,
+        method,
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: 'reservation_id' },
+    );
+
+    if (error) throw new Error(`Failed to set payment due: ${error.message}`);
+  }
+
+  async recordPayment(
+    reservationId: string,
+    payment: {
+      amountDue: number;
+      amountReceived: number;
+      method: PaymentMethod;
+      paidAt: string;
+    },
+  ): Promise<Payment> {
+    const { data, error } = await this.supabase
+      .from('payments')
+      .upsert(
+        {
+          reservation_id: reservationId,
+          amount_due: payment.amountDue,
+          amount_received: payment.amountReceived,
+          method: payment.method,
+          paid_at: payment.paidAt,
+          updated_at: new Date().toISOString(),
+        },
+        { onConflict: 'reservation_id' },
+      )
+      .select()
+      .single();
+
+    if (error) throw new Error(`Failed to record payment: ${error.message}`);
+    return this.mapPaymentFromDB(data);
+  }
+
+  // Reservations still waiting for their payment, for statement matching
+  async getPendingReservations(): Promise<Reservation[]> {
+    const { data, error } = await this.supabase
+      .from('reservations')
+      .select('*')
+      .eq('status', 'pending');
+
+    if (error) throw new Error(`Failed to get reservations: ${error.message}`);
+    return data.map((row) => this.mapReservationFromDB(row));
+  }
+
+  async createPaymentImport(paymentImport: {
+    source: PaymentImportSource;
+    filename?: string;
+    importedBy: string;
+  }): Promise<string> {
+    const { data, error } = await this.supabase
+      .from('payment_imports')
+      .insert({
+        source: paymentImport.source,
+        filename: paymentImport.filename || null,
+        imported_by: paymentImport.importedBy,
+      })
+      .select('id')
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to create payment import: ${error.message}`);
+    }
+    return data.id;
+  }
+
+  async completePaymentImport(
+    importId: string,
+    counts: { lineCount: number; matchedCount: number },
+  ): Promise<void> {
+    const { error } = await this.supabase
+      .from('payment_imports')
+      .update({
+        line_count: counts.lineCount,
+        matched_count: counts.matchedCount,
+      })
+      .eq('id', importId);
+
+    if (error) {
+      throw new Error(`Failed to update payment import: ${error.message}`);
+    }
+  }
+
+  // Stores statement lines as unmatched. Lines imported before (same source
+  // and transaction id) are skipped and not returned.
+  async savePaymentImportLines(
+    importId: string,
+    source: PaymentImportSource,
+    lines: StatementLine[],
+  ): Promise<PaymentImportLine[]> {
+    if (lines.length === 0) return [];
+
+    const { data, error } = await this.supabase
+      .from('payment_import_lines')
+      .upsert(
+        lines.map((line) => ({
+          import_id: importId,
+          source,
+          external_id: line.externalId,
+          booking_date: line.bookingDate,
+          amount: line.amount,
+          currency: line.currency,
+          payer_name: line.payerName || null,
+          reference: line.reference,
+        })),
+        { onConflict: 'source,external_id', ignoreDuplicates: true },
+      )
+      .select();
+
+    if (error) {
+      throw new Error(`Failed to save payment import lines: ${error.message}`);
+    }
+    return data.map((row) => this.mapPaymentImportLineFromDB(row));
+  }
+
+  async getPaymentImportLine(id: string): Promise<PaymentImportLine | null> {
+    const { data, error } = await this.supabase
+      .from('payment_import_lines')
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') return null;
+      throw new Error(`Failed to get payment import line: ${error.message}`);
+    }
+    return this.mapPaymentImportLineFromDB(data);
+  }
+
+  // Review list: incoming payments no reservation could be found for
+  async getUnmatchedPaymentImportLines(
+    accessedBy: AdminActor,
+  ): Promise<PaymentImportLine[]> {
+    const { data, error } = await this.supabase
+      .from('payment_import_lines')
+      .select('*')
+      .eq('status', 'unmatched')
+      .order('booking_date', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to get payment import lines: ${error.message}`);
+    }
+
+    // The lines carry payer names from the bank statements
+    await this.logDataProcessing({
+      action: 'accessed',
+      dataType: 'payment',
+      legalBasis: 'contract',
+      processorId: accessedBy.processorId,
+      details: JSON.stringify({
+        accessedBy: accessedBy.changedBy,
+        count: data.length,
+      }),
+    });
+
+    return data.map((row) => this.mapPaymentImportLineFromDB(row));
+  }
+
+  async updatePaymentImportLine(
+    id: string,
+    update: {
+      status: PaymentImportLineStatus;
+      reservationId?: string;
+      reviewNote?: string;
+    },
+  ): Promise<void> {
+    const { error } = await this.supabase
+      .from('payment_import_lines')
+      .update({
+        status: update.status,
+        ...(update.reservationId && { reservation_id: update.reservationId }),
+        ...(update.reviewNote && { review_note: update.reviewNote }),
+      })
+      .eq('id', id)
+      // Lines that were matched or reviewed are final
+      .eq('status', 'unmatched');
+
+    if (error) {
+      throw new Error(`Failed to update payment import line: ${error.message}`);
+    }
+  }
+
+  // Pickup slot operations
+
+  // Slots with their bookings, in chronological order. `openOnly` leaves out
+  // inactive slots and those that have already started.
+  async getPickupSlots(
+    options: { openOnly?: boolean; now?: Date } = {},
+  ): Promise<PickupSlot[]> {
+    let query = this.supabase.from('pickup_slot_availability').select('*');
+
+    if (options.openOnly) {
+      query = query
+        .eq('is_active', true)
+        .gt('starts_at', (options.now || new Date()).toISOString());
+    }
+
+    const { data, error } = await query.order('starts_at', {
+      ascending: true,
+    });
+
+    if (error) throw new Error(`Failed to get pickup slots: ${error.message}`);
+    return data.map((row) => this.mapPickupSlotFromDB(row));
+  }
+
+  async getPickupSlotById(id: string): Promise<PickupSlot | null> {
+    const { data, error } = await this.supabase
+      .from('pickup_slot_availability')
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') return null;
+      throw new Error(`Failed to get pickup slot: ${error.message}`);
+    }
+    return this.mapPickupSlotFromDB(data);
+  }
+
+  async createPickupSlot(slot: {
+    location: string;
+    startsAt: string;
+    endsAt: string;
+    capacity: number;
+  }): Promise<PickupSlot> {
+    const { data, error } = await this.supabase
+      .from('pickup_slots')
+      .insert({
+        location: slot.location,
+        starts_at: slot.startsAt,
+        ends_at: slot.endsAt,
+        capacity: slot.capacity,
+      })
+      .select()
+      .single();
+
+    if (error)
+      throw new Error(`Failed to create pickup slot: ${error.message}`);
+    return this.mapPickupSlotFromDB(data);
+  }
+
+  // Moves, resizes or (de)activates a slot. Existing bookings stay, even if
+  // the capacity drops below them. Returns null for an unknown slot.
+  async updatePickupSlot(
+    id: string,
+    update: {
+      location?: string;
+      startsAt?: string;
+      endsAt?: string;
+      capacity?: number;
+      isActive?: boolean;
+    },
+  ): Promise<PickupSlot | null> {
+    const { data, error } = await this.supabase
+      .from('pickup_slots')
+      .update({
+        ...(update.location !== undefined && { location: update.location }),
+        ...(update.startsAt !== undefined && { starts_at: update.startsAt }),
+        ...(update.endsAt !== undefined && { ends_at: update.endsAt }),
+        ...(update.capacity !== undefined && { capacity: update.capacity }),
+        ...(update.isActive !== undefined && { is_active: update.isActive }),
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') return null;
+      throw new Error(`Failed to update pickup slot: ${error.message}`);
+    }
+    return this.mapPickupSlotFromDB(data);
+  }
+
+  // Kindergarten roster operations (see kindergarten-roster.sql). The
+  // roster holds the names of the children, so every access and change from
+  // the dashboard is logged with the admin account.
+  async getKindergartenGroups(
+    accessedBy: AdminActor,
+  ): Promise<KindergartenGroup[]> {
+    const { data, error } = await this.supabase
+      .from('kindergarten_groups')
+      .select('*, kindergarten_children (*)')
+      .order('year', { ascending: false })
+      .order('name', { ascending: true });
+
+    if (error)
+      throw new Error(`Failed to get kindergarten groups: ${error.message}`);
+
+    await this.logDataProcessing({
+      action: 'accessed',
+      dataType: 'kindergarten_roster',
+      legalBasis: 'legitimate_interest',
+      processorId: accessedBy.processorId,
+      details: JSON.stringify({
+        accessedBy: accessedBy.changedBy,
+        count: data.length,
+      }),
+    });
+
+    return data.map((row) => this.mapKindergartenGroupFromDB(row));
+  }
+
+  // Groups of the latest kindergarten year, the ones families choose from
+  async getCurrentKindergartenGroups(
+    options: { withChildren?: boolean } = {},
+  ): Promise<KindergartenGroup[]> {
+    const { data, error } = await this.supabase
+      .from('kindergarten_groups')
+      .select(options.withChildren ? '*, kindergarten_children (*)' : '*')
+      .order('year', { ascending: false })
+      .order('name', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to get kindergarten groups: ${error.message}`);
+    }
+    // The select is chosen at runtime, so its row type cannot be inferred
+    const rows = data as unknown as KindergartenGroupRow[];
+    return rows
+      .filter((row) => row.year === rows[0].year)
+      .map((row) => this.mapKindergartenGroupFromDB(row));
+  }
+
+  async createKindergartenGroup(
+    group: { name: string; year: string },
+    changedBy: AdminActor,
+  ): Promise<KindergartenGroup> {
+    const { data, error } = await this.supabase
+      .from('kindergarten_groups')
+      .insert({ name: group.name, year: group.year })
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === '23505') {
+        throw new KindergartenGroupExistsError(group.name, group.year);
+      }
+      throw new Error(`Failed to create kindergarten group: ${error.message}`);
+    }
+
+    await this.logDataProcessing({
+      action: 'created',
+      dataType: 'kindergarten_roster',
+      legalBasis: 'legitimate_interest',
+      processorId: changedBy.processorId,
+      details: JSON.stringify({
+        groupId: data.id,
+        changedBy: changedBy.changedBy,
+      }),
+    });
+
+    return { ...this.mapKindergartenGroupFromDB(data), children: [] };
+  }
+
+  // Removes a group with its children. Reservations and picture claims keep
+  // the group name they were made with.
+  async deleteKindergartenGroup(
+    id: string,
+    changedBy: AdminActor,
+  ): Promise<boolean> {
+    const { data, error } = await this.supabase
+      .from('kindergarten_groups')
+      .delete()
+      .eq('id', id)
+      .select('id');
+
+    if (error) {
+      throw new Error(`Failed to delete kindergarten group: ${error.message}`);
+    }
+    if (data.length === 0) return false;
+
+    await this.logDataProcessing({
+      action: 'deleted',
+      dataType: 'kindergarten_roster',
+      legalBasis: 'legitimate_interest',
+      processorId: changedBy.processorId,
+      details: JSON.stringify({ groupId: id, changedBy: changedBy.changedBy }),
+    });
+
+    return true;
+  }
+
+  // Returns null for an unknown group
+  async addKindergartenChild(
+    groupId: string,
+    child: { name: string; isVorschueler: boolean },
+    changedBy: AdminActor,
+  ): Promise<KindergartenChild | null> {
+    const { data, error } = await this.supabase
+      .from('kindergarten_children')
+      .insert({
+        group_id: groupId,
+        name: child.name,
+        is_vorschueler: child.isVorschueler,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === '23503') return null;
+      throw new Error(`Failed to add kindergarten child: ${error.message}`);
+    }
+
+    await this.logDataProcessing({
+      action: 'created',
+      dataType: 'kindergarten_roster',
+      legalBasis: 'legitimate_interest',
+      processorId: changedBy.processorId,
+      details: JSON.stringify({
+        groupId,
+        childId: data.id,
+        changedBy: changedBy.changedBy,
+      }),
+    });
+
+    return this.mapKindergartenChildFromDB(data);
+  }
+
+  // Returns null for an unknown child
+  async updateKindergartenChild(
+    id: string,
+    update: { name?: string; isVorschueler?: boolean },
+    changedBy: AdminActor,
+  ): Promise<KindergartenChild | null> {
     const { data, error } = await this.supabase
-      .from('users')
-      .select('*')
-      .eq('email', email)
+      .from('kindergarten_children')
+      .update({
+        ...(update.name !== undefined && { name: update.name }),
+        ...(update.isVorschueler !== undefined && {
+          is_vorschueler: update.isVorschueler,
+        }),
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', id)
+      .select()
       .single();
 
     if (error) {
-      if (error.code === 'PGRST116') return null; // No rows returned
-      throw new Error(`Failed to get user: ${error.message}`);
+      if (error.code === 'PGRST116') return null;
+      throw new Error(`Failed to update kindergarten child: ${error.message}`);
     }
 
-    return this.mapUserFromDB(data);
-  }
+    await this.logDataProcessing({
+      action: 'updated',
+      dataType: 'kindergarten_roster',
+      legalBasis: 'legitimate_interest',
+      processorId: changedBy.processorId,
+      details: JSON.stringify({
+        childId: id,
+        fields: Object.keys(update),
+        changedBy: changedBy.changedBy,
+      }),
+    });
 
-  async updateUserActivity(_userId: string): Promise<void> {
-    // Skip updating last_activity as column doesn't exist
-    // This method is kept for compatibility but does nothing
-    return;
+    return this.mapKindergartenChildFromDB(data);
+  }
 
-    /* Original code - commented out as last_activity column doesn't exist
-    const { error } = await this.supabase
-      .from('users')
-      .update({ last_activity: new Date().toISOString() })
-      .eq('id', userId);
+  async deleteKindergartenChild(
+    id: string,
+    changedBy: AdminActor,
+  ): Promise<boolean> {
+    const { data, error } = await this.supabase
+      .from('kindergarten_children')
+      .delete()
+      .eq('id', id)
+      .select('id');
 
     if (error) {
-      console.error('Failed to update user activity:', error);
+      throw new Error(`Failed to delete kindergarten child: ${error.message}`);
     }
-    */
+    if (data.length === 0) return false;
+
+    await this.logDataProcessing({
+      action: 'deleted',
+      dataType: 'kindergarten_roster',
+      legalBasis: 'legitimate_interest',
+      processorId: changedBy.processorId,
+      details: JSON.stringify({ childId: id, changedBy: changedBy.changedBy }),
+    });
+
+    return true;
   }
 
-  // Magazine operations
-  async getActiveMagazines(): Promise<Magazine[]> {
+  // Admin account operations
+  async getAdminUsers(): Promise<AdminUser[]> {
     const { data, error } = await this.supabase
-      .from('magazines')
+      .from('admin_users')
       .select('*')
-      .gt('available_copies', 0)
-      .order('publish_date', { ascending: false });
+      .order('name', { ascending: true });
 
-    if (error) throw new Error(`Failed to get magazines: ${error.message}`);
-    return data.map(this.mapMagazineFromDB);
+    if (error) throw new Error(`Failed to get admin users: ${error.message}`);
+    return data.map((row) => this.mapAdminUserFromDB(row));
   }
 
-  async getMagazineById(id: string): Promise<Magazine | null> {
+  async getAdminUserById(id: string): Promise<AdminUser | null> {
     const { data, error } = await this.supabase
-      .from('magazines')
+      .from('admin_users')
       .select('*')
       .eq('id', id)
       .single();
 
     if (error) {
       if (error.code === 'PGRST116') return null;
-      throw new Error(`Failed to get magazine: ${error.message}`);
+      throw new Error(`Failed to get admin user: ${error.message}`);
     }
-
-    return this.mapMagazineFromDB(data);
+    return this.mapAdminUserFromDB(data);
   }
 
-  // Reservation operations
-  async createReservation(formData: ReservationFormData): Promise<Reservation> {
-    // Get or create user
-    let user = await this.getUserByEmail(formData.email);
+  // The only lookup that returns the password hash, for the login
+  async getAdminLogin(
+    email: string,
+  ): Promise<{ adminUser: AdminUser; passwordHash: string } | null> {
+    const { data, error } = await this.supabase
+      .from('admin_users')
+      .select('*')
+      .eq('email', email.toLowerCase())
+      .single();
 
-    if (!user) {
-      // Create user if they don't exist
-      user = await this.createUser({
-        email: formData.email,
-        firstName: formData.firstName,
-        lastName: formData.lastName,
-        // phone: formData.phone, // phone column doesn't exist
-        address:
-          formData.deliveryMethod === 'shipping' ? formData.address : undefined,
-        consentVersion: '1.0',
-      });
+    if (error) {
+      if (error.code === 'PGRST116') return null;
+      throw new Error(`Failed to get admin user: ${error.message}`);
     }
+    return {
+      adminUser: this.mapAdminUserFromDB(data),
+      passwordHash: data.password_hash,
+    };
+  }
 
-    // consent_reference and expires_at columns don't exist
-    // const consentReference = `consent-${user.id}-${Date.now()}`;
-    // const expiresAt = new Date();
-    // expiresAt.setDate(expiresAt.getDate() + 7); // 7 days from now
-
+  async createAdminUser(adminUser: {
+    email: string;
+    name: string;
+    role: AdminRole;
+    passwordHash: string;
+  }): Promise<AdminUser> {
     const { data, error } = await this.supabase
-      .from('reservations')
+      .from('admin_users')
       .insert({
-        user_id: user.id,
-        magazine_id: formData.magazineId,
-        quantity: formData.quantity,
-        delivery_method: formData.deliveryMethod,
-        pickup_location:
-          formData.deliveryMethod === 'pickup' ? formData.pickupLocation : null,
-        pickup_date: formData.pickupDate || null,
-        // Set payment_method only for shipping (PayPal), null for pickup
-        payment_method:
-          formData.deliveryMethod === 'shipping' ? 'paypal' : null,
-        // Shipping address fields (only for shipping)
-        street:
-          formData.deliveryMethod === 'shipping'
-            ? formData.address?.street
-            : null,
-        house_number:
-          formData.deliveryMethod === 'shipping'
-            ? formData.address?.houseNumber
-            : null,
-        address_line2:
-          formData.deliveryMethod === 'shipping'
-            ? formData.address?.addressLine2
-            : null,
-        postal_code:
-          formData.deliveryMethod === 'shipping'
-            ? formData.address?.postalCode
-            : null,
-        city:
-          formData.deliveryMethod === 'shipping'
-            ? formData.address?.city
-            : null,
-        country:
-          formData.deliveryMethod === 'shipping'
-            ? formData.address?.country
-            : null,
-        // Notes field
-        notes: formData.notes || null,
-        // consent_reference column doesn't exist
-        // consent_reference: consentReference,
-        // Picture order fields - let's try to save them
-        order_group_picture: formData.orderGroupPicture || false,
-        child_group_name: formData.childGroupName || null,
-        order_vorschul_picture: formData.orderVorschulPicture || false,
-        child_is_vorschueler: formData.childIsVorschueler || false,
-        child_name: formData.childName || null,
-        // expires_at column doesn't exist
-        // expires_at: expiresAt.toISOString(),
+        email: adminUser.email.toLowerCase(),
+        name: adminUser.name,
+        role: adminUser.role,
+        password_hash: adminUser.passwordHash,
       })
-      .select(
-        `
-        *,
-        users (
-          id,
-          email,
-          first_name,
-          last_name
-        ),
-        magazines (
-          id,
-          title,
-          issue_number,
-          publish_date
-        )
-      `,
-      )
+      .select()
       .single();
 
-    if (error)
-      throw new Error(`Failed to create reservation: ${error.message}`);
-
-    // Log the data processing action
-    await this.logDataProcessing({
-      userId: user.id,
-      action: 'reservation_created',
-      dataType: 'reservation',
-      legalBasis: 'consent',
-      details: JSON.stringify({
-        reservationId: data.id,
-        magazineId: formData.magazineId,
-        quantity: formData.quantity,
-      }),
-    });
-
-    return this.mapReservationFromDB(data);
+    if (error) {
+      if (error.code === '23505')
+        throw new AdminUserExistsError(adminUser.email);
+      throw new Error(`Failed to create admin user: ${error.message}`);
+    }
+    return this.mapAdminUserFromDB(data);
   }
 
-  async getUserReservations(userId: string): Promise<Reservation[]> {
+  // Changes role, name or password, or (de)activates an account. Returns
+  // null for an unknown account.
+  async updateAdminUser(
+    id: string,
+    update: {
+      name?: string;
+      role?: AdminRole;
+      isActive?: boolean;
+      passwordHash?: string;
+    },
+  ): Promise<AdminUser | null> {
     const { data, error } = await this.supabase
-      .from('reservations')
-      .select(
-        `
-        *,
-        magazines (
-          id,
-          title,
-          issue_number,
-          publish_date,
-          cover_image_url
-        )
-      `,
-      )
-      .eq('user_id', userId)
-      .order('created_at', { ascending: false });
+      .from('admin_users')
+      .update({
+        ...(update.name !== undefined && { name: update.name }),
+        ...(update.role !== undefined && { role: update.role }),
+        ...(update.isActive !== undefined && { is_active: update.isActive }),
+        ...(update.passwordHash !== undefined && {
+          password_hash: update.passwordHash,
+        }),
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', id)
+      .select()
+      .single();
 
-    if (error) throw new Error(`Failed to get reservations: ${error.message}`);
-    return data.map(this.mapReservationFromDB);
+    if (error) {
+      if (error.code === 'PGRST116') return null;
+      throw new Error(`Failed to update admin user: ${error.message}`);
+    }
+    return this.mapAdminUserFromDB(data);
   }
 
-  async cancelReservation(
-    reservationId: string,
-    userId: string,
-  ): Promise<void> {
+  async recordAdminLogin(id: string, at: Date = new Date()): Promise<void> {
     const { error } = await this.supabase
-      .from('reservations')
-      .update({ status: 'cancelled' })
-      .eq('id', reservationId)
-      .eq('user_id', userId);
+      .from('admin_users')
+      .update({ last_login_at: at.toISOString() })
+      .eq('id', id);
 
     if (error)
-      throw new Error(`Failed to cancel reservation: ${error.message}`);
-
-    await this.logDataProcessing({
-      userId,
-      action: 'reservation_cancelled',
-      dataType: 'reservation',
-      legalBasis: 'user_request',
-      details: JSON.stringify({ reservationId }),
-    });
+      throw new Error(`Failed to record admin login: ${error.message}`);
   }
 
   // GDPR Consent operations
@@ -370,11 +2318,21 @@ export class DatabaseService {
       .select('*')
       .eq('user_id', userId);
 
+    // Waitlist entries are kept by email address, not by user
+    const { data: waitlistEntries } = userData
+      ? await this.supabase
+          .from('waitlist_entries')
+          .select('*')
+          .eq('email', userData.email)
+      : { data: [] };
+
     const exportData = {
       exportDate: new Date().toISOString(),
       userData: userData ? this.mapUserFromDB(userData) : null,
-      reservations: reservations?.map(this.mapReservationFromDB) || [],
+      reservations:
+        reservations?.map((row) => this.mapReservationFromDB(row)) || [],
       consents: consents?.map(this.mapConsentFromDB) || [],
+      waitlistEntries: waitlistEntries?.map(this.mapWaitlistEntryFromDB) || [],
     };
 
     // Log the data export
@@ -396,11 +2354,18 @@ export class DatabaseService {
     reason: string = 'user_request',
   ): Promise<void> {
     // Export data before deletion for compliance records
-    await this.exportUserData(userId);
+    const exportData = await this.exportUserData(userId);
+    const user = exportData.userData as User | null;
 
     // Delete in correct order due to foreign key constraints
     await this.supabase.from('user_consents').delete().eq('user_id', userId);
     await this.supabase.from('reservations').delete().eq('user_id', userId);
+    if (user) {
+      await this.supabase
+        .from('waitlist_entries')
+        .delete()
+        .eq('email', user.email);
+    }
 
     // Anonymize processing logs (keep for legal compliance)
     await this.supabase
@@ -473,6 +2438,43 @@ export class DatabaseService {
     }
   }
 
+  // Entries of the data processing log for the privacy officer, newest
+  // first. Reading the log is logged as well.
+  async getDataProcessingLogs(
+    filters: { userId?: string; processorId?: string; limit?: number },
+    accessedBy: AdminActor,
+  ): Promise<DataProcessingLog[]> {
+    let query = this.supabase.from('data_processing_activity').select('*');
+
+    if (filters.userId) query = query.eq('user_id', filters.userId);
+    if (filters.processorId) {
+      query = query.eq('processor_id', filters.processorId);
+    }
+
+    const { data, error } = await query
+      .order('timestamp', { ascending: false })
+      .limit(filters.limit ?? 200);
+
+    if (error) {
+      throw new Error(`Failed to get data processing logs: ${error.message}`);
+    }
+
+    await this.logDataProcessing({
+      userId: filters.userId,
+      action: 'accessed',
+      dataType: 'processing_log',
+      legalBasis: 'legitimate_interest',
+      processorId: accessedBy.processorId,
+      details: JSON.stringify({
+        accessedBy: accessedBy.changedBy,
+        filters,
+        count: data.length,
+      }),
+    });
+
+    return data.map((row) => this.mapDataProcessingLogFromDB(row));
+  }
+
   // Utility functions
   private calculateRetentionDate(): string {
     const retentionDate = new Date();
@@ -505,8 +2507,15 @@ export class DatabaseService {
       description: data.description,
       totalCopies: data.total_copies,
       availableCopies: data.available_copies,
-      coverImageUrl: data.cover_image_url,
-      isActive: true, // Default to true since column doesn't exist
+      coverImageUrl: data.cover_image_url || undefined,
+      isActive: data.is_active ?? true,
+      reservationsOpenAt: data.reservations_open_at || undefined,
+      reservationsCloseAt: data.reservations_close_at || undefined,
+      copiesPerFamily: data.copies_per_family ?? undefined,
+      contents: data.contents || [],
+      pageCount: data.page_count ?? undefined,
+      format: data.format || undefined,
+      paperWeight: data.paper_weight || undefined,
       createdAt: data.created_at,
       updatedAt: data.updated_at,
     };
@@ -537,15 +2546,188 @@ export class DatabaseService {
         : undefined,
       notes: data.notes, // notes column now exists
       consentReference: 'legacy', // Column doesn't exist
-      // Picture order fields - now exist in database
+      ...(data.reservation_children && {
+        children: data.reservation_children.map((row: any) =>
+          this.mapReservationChildFromDB(row),
+        ),
+      }),
+      // Picture order of reservations made before reservation_children
       orderGroupPicture: data.order_group_picture || false,
       childGroupName: data.child_group_name,
       orderVorschulPicture: data.order_vorschul_picture || false,
       childIsVorschueler: data.child_is_vorschueler || false,
       childName: data.child_name,
+      statusChangedAt: data.status_changed_at,
+      statusChangedBy: data.status_changed_by,
+      createdAt: data.created_at,
+      updatedAt: data.updated_at,
+      expiresAt: data.expires_at || undefined,
+      paymentReminderSentAt: data.payment_reminder_sent_at || undefined,
+      pickupReminderSentAt: data.pickup_reminder_sent_at || undefined,
+      dispatchedAt: data.dispatched_at || undefined,
+      trackingNumber: data.tracking_number || undefined,
+      pickupSlotId: data.pickup_slot_id || undefined,
+      ...(data.pickup_slots && {
+        pickupSlot: this.mapPickupSlotFromDB(data.pickup_slots),
+      }),
+    };
+  }
+
+  private mapReservationChildFromDB(data: any): ReservationChild {
+    return {
+      id: data.id,
+      reservationId: data.reservation_id,
+      name: data.child_name,
+      groupName: data.group_name,
+      isVorschueler: data.is_vorschueler || false,
+      orderGroupPicture: data.order_group_picture || false,
+      orderVorschulPicture: data.order_vorschul_picture || false,
+    };
+  }
+
+  private mapPickupSlotFromDB(data: any): PickupSlot {
+    return {
+      id: data.id,
+      location: data.location,
+      startsAt: data.starts_at,
+      endsAt: data.ends_at,
+      capacity: data.capacity,
+      ...(data.booked_families !== undefined && {
+        bookedFamilies: Number(data.booked_families),
+      }),
+      isActive: data.is_active,
+      createdAt: data.created_at,
+      updatedAt: data.updated_at,
+    };
+  }
+
+  private mapWaitlistEntryFromDB(data: any): WaitlistEntry {
+    return {
+      id: data.id,
+      magazineId: data.magazine_id,
+      email: data.email,
+      firstName: data.first_name,
+      lastName: data.last_name,
+      quantity: data.quantity,
+      status: data.status,
+      offeredAt: data.offered_at || undefined,
+      offerExpiresAt: data.offer_expires_at || undefined,
+      createdAt: data.created_at,
+      updatedAt: data.updated_at,
+    };
+  }
+
+  private mapKindergartenGroupFromDB(
+    data: KindergartenGroupRow,
+  ): KindergartenGroup {
+    return {
+      id: data.id,
+      name: data.name,
+      year: data.year,
+      ...(data.kindergarten_children && {
+        children: data.kindergarten_children
+          .map((row) => this.mapKindergartenChildFromDB(row))
+          .sort((a, b) => a.name.localeCompare(b.name, 'de')),
+      }),
+      createdAt: data.created_at,
+      updatedAt: data.updated_at,
+    };
+  }
+
+  private mapFamilyReservationLimitFromDB(data: any): FamilyReservationLimit {
+    return {
+      id: data.id,
+      magazineId: data.magazine_id,
+      familyEmail: data.family_email,
+      copiesPerFamily: data.copies_per_family,
+      reason: data.reason || undefined,
+      createdAt: data.created_at,
+      updatedAt: data.updated_at,
+    };
+  }
+
+  private mapKindergartenChildFromDB(
+    data: KindergartenChildRow,
+  ): KindergartenChild {
+    return {
+      id: data.id,
+      groupId: data.group_id,
+      name: data.name,
+      isVorschueler: data.is_vorschueler ?? false,
+      createdAt: data.created_at,
+      updatedAt: data.updated_at,
+    };
+  }
+
+  private mapReservationDetailsFromDB(data: any): ReservationDetails {
+    // One-to-one embeds come back as an object or a single-element array
+    const payment = Array.isArray(data.payments)
+      ? data.payments[0]
+      : data.payments;
+
+    return {
+      reservation: this.mapReservationFromDB(data),
+      user: this.mapUserFromDB(data.users),
+      magazine: this.mapMagazineFromDB(data.magazines),
+      ...(payment && { payment: this.mapPaymentFromDB(payment) }),
+    };
+  }
+
+  private mapPaymentFromDB(data: any): Payment {
+    return {
+      id: data.id,
+      reservationId: data.reservation_id,
+      amountDue: Number(data.amount_due),
+      amountReceived: Number(data.amount_received),
+      method: data.method,
+      paidAt: data.paid_at || undefined,
+      createdAt: data.created_at,
+      updatedAt: data.updated_at,
+    };
+  }
+
+  private mapPaymentImportLineFromDB(data: any): PaymentImportLine {
+    return {
+      id: data.id,
+      importId: data.import_id,
+      source: data.source,
+      externalId: data.external_id,
+      bookingDate: data.booking_date,
+      amount: Number(data.amount),
+      currency: data.currency,
+      payerName: data.payer_name || undefined,
+      reference: data.reference || '',
+      status: data.status,
+      reservationId: data.reservation_id || undefined,
+      reviewNote: data.review_note || undefined,
+      createdAt: data.created_at,
+    };
+  }
+
+  private mapAdminUserFromDB(data: any): AdminUser {
+    return {
+      id: data.id,
+      email: data.email,
+      name: data.name,
+      role: data.role,
+      isActive: data.is_active,
+      lastLoginAt: data.last_login_at || undefined,
       createdAt: data.created_at,
       updatedAt: data.updated_at,
-      expiresAt: data.created_at, // Column doesn't exist
+    };
+  }
+
+  private mapDataProcessingLogFromDB(data: any): DataProcessingLog {
+    return {
+      id: data.id,
+      userId: data.user_id || undefined,
+      action: data.action,
+      dataType: data.data_type,
+      timestamp: data.timestamp,
+      legalBasis: data.legal_basis,
+      processorId: data.processor_id || undefined,
+      ipAddress: data.ip_address || undefined,
+      details: data.details || undefined,
     };
   }
 
@@ -571,17 +2753,10 @@ export class DatabaseService {
   }> {
     const now = new Date().toISOString();
 
-    // Clean expired reservations - expires_at column doesn't exist
-    // Skip this for now since expires_at column doesn't exist
-    const expiredReservations: any[] = [];
-    /*
-    const { data: expiredReservations } = await this.supabase
-      .from('reservations')
-      .update({ status: 'expired' })
-      .lt('expires_at', now)
-      .eq('status', 'pending')
-      .select('id');
-    */
+    // Expire unpaid reservations past their payment deadline
+    const expiredReservations = await this.expireOverdueReservations(
+      new Date(now),
+    );
 
     // Clean users past retention date
     const { data: expiredUsers } = await this.supabase
@@ -1,15 +1,42 @@
 import nodemailer from 'nodemailer';
-import type { Reservation, Magazine, User } from '@/types';
+import type { Reservation, Magazine, User, WaitlistEntry } from '@/types';
 import {
   paymentConfig,
   generatePaymentReference,
   formatCurrency,
 } from '@/config/payment';
 import { websiteContent } from '@/config/content';
+import {
+  reservationGiroCode,
+  renderGiroCodePng,
+} from '@/lib/payments/girocode';
+import { renderCheckInQrPng } from '@/lib/check-in';
+import { formatPickupSlot } from '@/lib/pickup-slots';
+import {
+  hasPictureOrder,
+  reservationChildren,
+} from '@/lib/reservation-children';
 
 const kindergarten = websiteContent.kindergarten;
 const pricing = websiteContent.pricing;
 
+// Content-ID of the inline GiroCode image in bank transfer emails
+const GIROCODE_CID = 'girocode@flaschenpost';
+
+// Content-ID of the inline check-in QR code in pickup emails
+const CHECK_IN_CID = 'checkin@flaschenpost';
+
+// When a pickup reminder says the magazine is ready: the booked slot, or
+// the agreed date of reservations made before there were slots
+function pickupReminderDate(reservation: Reservation): string {
+  if (reservation.pickupSlot) {
+    return `am ${formatPickupSlot(reservation.pickupSlot)}`;
+  }
+  return reservation.pickupDate
+    ? `am ${new Date(reservation.pickupDate).toLocaleDateString('de-DE')}`
+    : 'heute';
+}
+
 // Email configuration interface
 interface EmailConfig {
   host: string;
@@ -27,6 +54,18 @@ interface ReservationEmailData {
   reservation: Reservation;
   user: User;
   magazine: Magazine;
+  cancelUrl?: string; // Signed self-service cancellation link
+}
+
+interface WaitlistOfferEmailData {
+  entry: WaitlistEntry;
+  magazine: Magazine;
+  claimUrl: string; // Signed link to the prefilled reservation form
+}
+
+interface MagicLinkEmailData {
+  user: User;
+  loginUrl: string;
 }
 
 export class EmailService {
@@ -112,12 +151,22 @@ export class EmailService {
    * Send reservation confirmation email
    */
   async sendReservationConfirmation(data: ReservationEmailData): Promise<void> {
-    const { reservation, user, magazine } = data;
+    const { reservation, user, magazine, cancelUrl } = data;
 
     // Generate email content
     const subject = `Reservierungsbestätigung - ${magazine.title}`;
-    const html = this.generateReservationEmailHTML(reservation, user, magazine);
-    const text = this.generateReservationEmailText(reservation, user, magazine);
+    const html = this.generateReservationEmailHTML(
+      reservation,
+      user,
+      magazine,
+      cancelUrl,
+    );
+    const text = this.generateReservationEmailText(
+      reservation,
+      user,
+      magazine,
+      cancelUrl,
+    );
 
     // Prepare email options
     const mailOptions = {
@@ -126,6 +175,7 @@ export class EmailService {
       subject,
       html,
       text,
+      attachments: await this.reservationAttachments(reservation),
       headers: {
         'X-Reservation-ID': reservation.id,
         'X-Priority': '1',
@@ -162,6 +212,50 @@ export class EmailService {
     }
   }
 
+  /**
+   * Send updated confirmation after a parent changed their reservation
+   */
+  async sendReservationUpdate(data: ReservationEmailData): Promise<void> {
+    const { reservation, user, magazine, cancelUrl } = data;
+
+    const subject = `Reservierung geändert - ${magazine.title}`;
+    const html = this.generateReservationEmailHTML(
+      reservation,
+      user,
+      magazine,
+      cancelUrl,
+      true,
+    );
+    const text = this.generateReservationEmailText(
+      reservation,
+      user,
+      magazine,
+      cancelUrl,
+      true,
+    );
+
+    const mailOptions = {
+      from: `${kindergarten.name} <${this.fromAddress}>`,
+      to: user.email,
+      subject,
+      html,
+      text,
+      attachments: await this.reservationAttachments(reservation),
+      headers: {
+        'X-Reservation-ID': reservation.id,
+      },
+    };
+
+    try {
+      await this.transporter.sendMail(mailOptions);
+    } catch (error) {
+      console.error('Failed to send reservation update email:', error);
+      throw new Error(
+        `Failed to send reservation update email: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      );
+    }
+  }
+
   /**
    * Send cancellation confirmation email
    */
@@ -234,6 +328,226 @@ export class EmailService {
     }
   }
 
+  /**
+   * Send notice that an unpaid reservation expired after the payment deadline
+   */
+  async sendExpiryNotice(data: ReservationEmailData): Promise<void> {
+    const { reservation, user, magazine } = data;
+
+    const subject = `Reservierung abgelaufen - ${magazine.title}`;
+    const html = this.generateExpiryEmailHTML(reservation, user, magazine);
+    const text = this.generateExpiryEmailText(reservation, user, magazine);
+
+    const mailOptions = {
+      from: `${kindergarten.name} <${this.fromAddress}>`,
+      to: user.email,
+      subject,
+      html,
+      text,
+      headers: {
+        'X-Reservation-ID': reservation.id,
+      },
+    };
+
+    try {
+      await this.transporter.sendMail(mailOptions);
+    } catch (error) {
+      console.error('Failed to send expiry email:', error);
+      throw new Error(
+        `Failed to send expiry email: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      );
+    }
+  }
+
+  /**
+   * Remind a family of an unpaid shipping reservation before the deadline
+   */
+  async sendPaymentReminder(data: ReservationEmailData): Promise<void> {
+    const { reservation, user, magazine } = data;
+
+    const subject = websiteContent.email.subjects.paymentReminder;
+    const html = this.generatePaymentReminderEmailHTML(
+      reservation,
+      user,
+      magazine,
+    );
+    const text = this.generatePaymentReminderEmailText(
+      reservation,
+      user,
+      magazine,
+    );
+
+    const mailOptions = {
+      from: `${kindergarten.name} <${this.fromAddress}>`,
+      to: user.email,
+      subject,
+      html,
+      text,
+      attachments: await this.giroCodeAttachments(reservation),
+      headers: {
+        'X-Reservation-ID': reservation.id,
+      },
+    };
+
+    try {
+      await this.transporter.sendMail(mailOptions);
+    } catch (error) {
+      console.error('Failed to send payment reminder email:', error);
+      throw new Error(
+        `Failed to send payment reminder email: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      );
+    }
+  }
+
+  /**
+   * Tell a family that their magazine is on its way
+   */
+  async sendShippingConfirmation(data: ReservationEmailData): Promise<void> {
+    const { reservation, user, magazine } = data;
+
+    const subject = websiteContent.email.subjects.shippingConfirmation;
+    const html = this.generateShippingEmailHTML(reservation, user, magazine);
+    const text = this.generateShippingEmailText(reservation, user, magazine);
+
+    const mailOptions = {
+      from: `${kindergarten.name} <${this.fromAddress}>`,
+      to: user.email,
+      subject,
+      html,
+      text,
+      headers: {
+        'X-Reservation-ID': reservation.id,
+      },
+    };
+
+    try {
+      await this.transporter.sendMail(mailOptions);
+    } catch (error) {
+      console.error('Failed to send shipping confirmation email:', error);
+      throw new Error(
+        `Failed to send shipping confirmation email: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      );
+    }
+  }
+
+  /**
+   * Offer a family on the waitlist the copies that became free
+   */
+  async sendWaitlistOffer(data: WaitlistOfferEmailData): Promise<void> {
+    const { entry, magazine, claimUrl } = data;
+
+    const subject = websiteContent.email.subjects.waitlistOffer;
+    const html = this.generateWaitlistOfferEmailHTML(entry, magazine, claimUrl);
+    const text = this.generateWaitlistOfferEmailText(entry, magazine, claimUrl);
+
+    const mailOptions = {
+      from: `${kindergarten.name} <${this.fromAddress}>`,
+      to: entry.email,
+      subject,
+      html,
+      text,
+      headers: {
+        'X-Waitlist-Entry-ID': entry.id,
+      },
+    };
+
+    try {
+      await this.transporter.sendMail(mailOptions);
+    } catch (error) {
+      console.error('Failed to send waitlist offer email:', error);
+      throw new Error(
+        `Failed to send waitlist offer email: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      );
+    }
+  }
+
+  /**
+   * Send magic link for the "Meine Reservierung" portal
+   */
+  async sendMagicLink(data: MagicLinkEmailData): Promise<void> {
+    const { user, loginUrl } = data;
+
+    const subject = 'Ihr Link zu Ihren Reservierungen';
+    const html = this.generateMagicLinkEmailHTML(user, loginUrl);
+    const text = this.generateMagicLinkEmailText(user, loginUrl);
+
+    const mailOptions = {
+      from: `${kindergarten.name} <${this.fromAddress}>`,
+      to: user.email,
+      subject,
+      html,
+      text,
+    };
+
+    try {
+      await this.transporter.sendMail(mailOptions);
+    } catch (error) {
+      console.error('Failed to send magic link email:', error);
+      throw new Error(
+        `Failed to send magic link email: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      );
+    }
+  }
+
+  /**
+   * Inline images of the reservation confirmation: the GiroCode for bank
+   * transfers or the check-in QR code for pickups
+   */
+  private async reservationAttachments(reservation: Reservation) {
+    return [
+      ...(await this.giroCodeAttachments(reservation)),
+      ...(await this.checkInAttachments(reservation)),
+    ];
+  }
+
+  private async checkInAttachments(reservation: Reservation) {
+    if (reservation.deliveryMethod !== 'pickup') return [];
+
+    try {
+      const content = await renderCheckInQrPng(reservation.id);
+      return [
+        {
+          filename: 'abholcode.png',
+          content,
+          cid: CHECK_IN_CID,
+          contentType: 'image/png',
+        },
+      ];
+    } catch (error) {
+      // The reservation number works for the check-in as well
+      console.error('Failed to render check-in QR code:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Inline GiroCode image for reservations paid by bank transfer
+   */
+  private async giroCodeAttachments(reservation: Reservation) {
+    if (
+      reservation.deliveryMethod !== 'shipping' ||
+      reservation.paymentMethod !== 'bank_transfer'
+    ) {
+      return [];
+    }
+
+    try {
+      const content = await renderGiroCodePng(reservationGiroCode(reservation));
+      return [
+        {
+          filename: 'girocode.png',
+          content,
+          cid: GIROCODE_CID,
+          contentType: 'image/png',
+        },
+      ];
+    } catch (error) {
+      // The bank details are in the text as well, so send without the code
+      console.error('Failed to render GiroCode:', error);
+      return [];
+    }
+  }
+
   /**
    * Generate HTML email for reservation confirmation
    */
@@ -241,6 +555,8 @@ export class EmailService {
     reservation: Reservation,
     user: User,
     magazine: Magazine,
+    cancelUrl?: string,
+    updated: boolean = false,
   ): string {
     // Ensure all fields that might be accessed in the template are defined
     // This prevents "Cannot read properties of undefined" errors
@@ -249,23 +565,20 @@ export class EmailService {
       pickupLocation: reservation.pickupLocation || 'Kindergarten Leuchtturm',
       pickupDate: reservation.pickupDate,
       paymentMethod: reservation.paymentMethod || null,
-      orderGroupPicture: reservation.orderGroupPicture || false,
-      orderVorschulPicture: reservation.orderVorschulPicture || false,
-      childGroupName: reservation.childGroupName || '',
-      childName: reservation.childName || '',
       quantity: reservation.quantity || 1,
       id: reservation.id,
       deliveryMethod: reservation.deliveryMethod,
     };
 
-    const pickupDate = 'Wir melden uns in Kürze bezüglich eines Abholtermins';
+    const pickupDate = reservation.pickupSlot
+      ? formatPickupSlot(reservation.pickupSlot)
+      : 'Wir melden uns in Kürze bezüglich eines Abholtermins';
 
     // Calculate total cost - add shipping for shipping orders
     const magazineCost = pricing.magazinePrice * safeReservation.quantity;
     const shippingCost =
       safeReservation.deliveryMethod === 'shipping' ? pricing.shippingCost : 0;
     const totalCost = magazineCost + shippingCost;
-    const paymentReference = generatePaymentReference(safeReservation.id);
 
     // Use safeReservation in the template
     reservation = safeReservation as any;
@@ -363,14 +676,18 @@ export class EmailService {
 <body>
   <div class="container">
     <div class="header">
-      <h1>Reservierung bestätigt!</h1>
+      <h1>${updated ? 'Reservierung geändert' : 'Reservierung bestätigt!'}</h1>
       <div class="kindergarten-name">${kindergarten.name}</div>
     </div>
     
     <div class="content">
       <p>Hallo ${user.firstName} ${user.lastName},</p>
       
-      <p>vielen Dank für Ihre Reservierung der <strong>${magazine.title}</strong>.</p>
+      ${
+        updated
+          ? `<p>Ihre Reservierung der <strong>${magazine.title}</strong> wurde geändert. Hier sind die aktuellen Details und der neue Betrag:</p>`
+          : `<p>vielen Dank für Ihre Reservierung der <strong>${magazine.title}</strong>.</p>`
+      }
       
       <div class="info-box">
         <h3>Reservierungsdetails:</h3>
@@ -424,6 +741,13 @@ export class EmailService {
             <span class="info-value">${pickupDate}</span>
           </div>
         </div>
+
+        <div class="info-box">
+          <h3>Ihr Abholcode:</h3>
+          <p>Bitte zeigen Sie diesen Code bei der Abholung vor:</p>
+          <p><img src="cid:${CHECK_IN_CID}" alt="QR-Code für die Abholung" width="180" height="180"></p>
+          <p>Alternativ genügt Ihre Reservierungsnummer <strong>${reservation.id.slice(0, 8).toUpperCase()}</strong>.</p>
+        </div>
         
         <div class="payment-info">
           <h3>💰 Zahlungsinformationen</h3>
@@ -438,64 +762,65 @@ export class EmailService {
           <p>Die Lieferadresse wurde gespeichert. Die Versandkosten werden separat berechnet.</p>
         </div>
         
-        ${
-          reservation.paymentMethod === 'paypal'
-            ? `
-          <div class="payment-info">
-            <h3>💳 PayPal-Zahlung</h3>
-            <p>Bitte überweisen Sie den Betrag von <strong>${formatCurrency(totalCost)}</strong> via PayPal:</p>
-            <p>
-              <a href="${paymentConfig.paypal.paypalMeLink}/${totalCost.toFixed(2).replace('.', ',')}EUR" style="color: #0066cc; font-weight: bold; text-decoration: none; display: inline-block; padding: 8px 16px; background-color: #0070ba; color: white; border-radius: 4px;">💳 Mit PayPal bezahlen (${formatCurrency(totalCost)})</a><br><br>
-              <strong>Verwendungszweck:</strong> ${paymentReference}
-            </p>
-            <p class="important">Bitte geben Sie unbedingt den Verwendungszweck an!</p>
-          </div>
-        `
-            : ''
-        }
+        ${this.generatePaymentInstructionsHTML(reservation, totalCost)}
       `
       }
 
       ${
-        reservation.orderGroupPicture || reservation.orderVorschulPicture
+        hasPictureOrder(reservation)
           ? `
         <div class="info-box">
           <h3>📸 Bildbestellung:</h3>
-          ${
-            reservation.orderGroupPicture
-              ? `
+          ${reservationChildren(reservation)
+            .map(
+              (child) => `
+            ${
+              child.orderGroupPicture
+                ? `
             <div class="info-row">
               <span class="info-label">Gruppenbild:</span>
-              <span class="info-value">✓ Bestellt (${reservation.childGroupName})</span>
+              <span class="info-value">✓ Bestellt (${child.groupName})</span>
             </div>
           `
-              : ''
-          }
-          ${
-            reservation.orderVorschulPicture
-              ? `
+                : ''
+            }
+            ${
+              child.orderVorschulPicture
+                ? `
             <div class="info-row">
               <span class="info-label">Vorschüler-Bild:</span>
               <span class="info-value">✓ Bestellt</span>
             </div>
           `
-              : ''
-          }
-          ${
-            reservation.childName
-              ? `
+                : ''
+            }
+            ${
+              child.name
+                ? `
             <div class="info-row">
               <span class="info-label">Kind:</span>
-              <span class="info-value">${reservation.childName}</span>
+              <span class="info-value">${child.name}</span>
             </div>
           `
-              : ''
-          }
+                : ''
+            }
+          `,
+            )
+            .join('')}
         </div>
       `
           : ''
       }
 
+      ${
+        cancelUrl
+          ? `
+      <p>Sie können das Magazin doch nicht gebrauchen? Über diesen Link können Sie Ihre Reservierung stornieren:<br>
+      <a href="${cancelUrl}">Reservierung stornieren</a></p>
+      `
+          : ''
+      }
+
       <p>Bei Fragen können Sie uns gerne kontaktieren:</p>
       <ul>
         <li>E-Mail: <a href="mailto:${kindergarten.contact.email}">${kindergarten.contact.email}</a></li>
@@ -521,6 +846,8 @@ export class EmailService {
     reservation: Reservation,
     user: User,
     magazine: Magazine,
+    cancelUrl?: string,
+    updated: boolean = false,
   ): string {
     // Ensure safe access to all fields
     const safeReservation = {
@@ -528,10 +855,6 @@ export class EmailService {
       pickupLocation: reservation.pickupLocation || 'Kindergarten Leuchtturm',
       pickupDate: reservation.pickupDate,
       paymentMethod: reservation.paymentMethod || null,
-      orderGroupPicture: reservation.orderGroupPicture || false,
-      orderVorschulPicture: reservation.orderVorschulPicture || false,
-      childGroupName: reservation.childGroupName || '',
-      childName: reservation.childName || '',
       quantity: reservation.quantity || 1,
       id: reservation.id,
       deliveryMethod: reservation.deliveryMethod,
@@ -539,23 +862,35 @@ export class EmailService {
 
     reservation = safeReservation as any;
 
-    const pickupDate = 'Wir melden uns in Kürze bezüglich eines Abholtermins';
+    const pickupDate = reservation.pickupSlot
+      ? formatPickupSlot(reservation.pickupSlot)
+      : 'Wir melden uns in Kürze bezüglich eines Abholtermins';
 
     // Calculate total cost - add shipping for shipping orders
     const magazineCost = pricing.magazinePrice * reservation.quantity;
     const shippingCost =
       reservation.deliveryMethod === 'shipping' ? pricing.shippingCost : 0;
     const totalCost = magazineCost + shippingCost;
-    const paymentReference = generatePaymentReference(reservation.id);
 
-    let text = `
+    let text = updated
+      ? `
+Reservierung geändert
+=====================
+
+Hallo ${user.firstName} ${user.lastName},
+
+Ihre Reservierung der ${magazine.title} wurde geändert. Hier sind die aktuellen Details und der neue Betrag:
+`
+      : `
 Reservierung bestätigt!
 ======================
 
 Hallo ${user.firstName} ${user.lastName},
 
 vielen Dank für Ihre Reservierung der ${magazine.title}.
+`;
 
+    text += `
 RESERVIERUNGSDETAILS:
 --------------------
 Reservierungsnummer: ${reservation.id.slice(0, 8).toUpperCase()}
@@ -577,6 +912,8 @@ ABHOLUNG:
 ---------
 Ort: ${reservation.pickupLocation || 'Kindergarten Leuchtturm'}
 Termin: ${pickupDate}
+Bitte nennen Sie bei der Abholung Ihre Reservierungsnummer ${reservation.id.slice(0, 8).toUpperCase()}
+oder zeigen Sie den QR-Code aus der HTML-Ansicht dieser E-Mail vor.
 
 ZAHLUNG:
 --------
@@ -591,34 +928,36 @@ VERSAND:
 Die Lieferadresse wurde gespeichert.
 Die Versandkosten werden separat berechnet.
 `;
-      if (reservation.paymentMethod === 'paypal') {
-        text += `
-PAYPAL-ZAHLUNG:
---------------
-Bitte überweisen Sie ${formatCurrency(totalCost)} via PayPal:
-PayPal.Me Link: ${paymentConfig.paypal.paypalMeLink}/${totalCost.toFixed(2).replace('.', ',')}EUR
-Verwendungszweck: ${paymentReference}
-WICHTIG: Bitte geben Sie unbedingt den Verwendungszweck an!
-`;
-      }
+      text += this.generatePaymentInstructionsText(reservation, totalCost);
     }
 
-    if (reservation.orderGroupPicture || reservation.orderVorschulPicture) {
+    if (hasPictureOrder(reservation)) {
       text += `
 BILDBESTELLUNG:
 --------------`;
-      if (reservation.orderGroupPicture) {
-        text += `
-Gruppenbild: ✓ Bestellt (${reservation.childGroupName})`;
-      }
-      if (reservation.orderVorschulPicture) {
-        text += `
+      for (const child of reservationChildren(reservation)) {
+        if (child.orderGroupPicture) {
+          text += `
+Gruppenbild: ✓ Bestellt (${child.groupName})`;
+        }
+        if (child.orderVorschulPicture) {
+          text += `
 Vorschüler-Bild: ✓ Bestellt`;
+        }
+        if (child.name) {
+          text += `
+Kind: ${child.name}`;
+        }
       }
-      if (reservation.childName) {
-        text += `
-Kind: ${reservation.childName}`;
-      }
+    }
+
+    if (cancelUrl) {
+      text += `
+
+STORNIERUNG:
+-----------
+Sie können das Magazin doch nicht gebrauchen? Über diesen Link können Sie Ihre Reservierung stornieren:
+${cancelUrl}`;
     }
 
     text += `
@@ -636,20 +975,274 @@ ${kindergarten.contact.address.postalCode} ${kindergarten.contact.address.city}
   }
 
   /**
-   * Generate HTML email for cancellation
+   * Payment instructions for shipping reservations (PayPal or bank transfer)
    */
-  private generateCancellationEmailHTML(
+  private generatePaymentInstructionsHTML(
     reservation: Reservation,
-    user: User,
-    magazine: Magazine,
+    totalCost: number,
   ): string {
-    return `
-<!DOCTYPE html>
-<html lang="de">
-<head>
-  <meta charset="UTF-8">
-  <meta name="viewport" content="width=device-width, initial-scale=1.0">
-  <title>Reservierung storniert</title>
+    const paymentReference = generatePaymentReference(reservation.id);
+
+    if (reservation.paymentMethod === 'paypal') {
+      return `
+          <div class="payment-info">
+            <h3>💳 PayPal-Zahlung</h3>
+            <p>Bitte überweisen Sie den Betrag von <strong>${formatCurrency(totalCost)}</strong> via PayPal:</p>
+            <p>
+              <a href="${paymentConfig.paypal.paypalMeLink}/${totalCost.toFixed(2).replace('.', ',')}EUR" style="color: #0066cc; font-weight: bold; text-decoration: none; display: inline-block; padding: 8px 16px; background-color: #0070ba; color: white; border-radius: 4px;">💳 Mit PayPal bezahlen (${formatCurrency(totalCost)})</a><br><br>
+              <strong>Verwendungszweck:</strong> ${paymentReference}
+            </p>
+            <p class="important">Bitte geben Sie unbedingt den Verwendungszweck an!</p>
+          </div>
+        `;
+    }
+
+    if (reservation.paymentMethod === 'bank_transfer') {
+      return `
+          <div class="payment-info">
+            <h3>🏦 Überweisung</h3>
+            <p>Bitte überweisen Sie den Betrag von <strong>${formatCurrency(totalCost)}</strong> auf folgendes Konto:</p>
+            <p>
+              <strong>Kontoinhaber:</strong> ${paymentConfig.bankTransfer.accountHolder}<br>
+              <strong>IBAN:</strong> ${paymentConfig.bankTransfer.iban}<br>
+              <strong>BIC:</strong> ${paymentConfig.bankTransfer.bic}<br>
+              <strong>Bank:</strong> ${paymentConfig.bankTransfer.bankName}<br>
+              <strong>Verwendungszweck:</strong> ${paymentReference}
+            </p>
+            <p>Oder scannen Sie den GiroCode mit Ihrer Banking-App:</p>
+            <p><img src="cid:${GIROCODE_CID}" alt="GiroCode für die Überweisung" width="180" height="180"></p>
+            <p class="important">Bitte geben Sie unbedingt den Verwendungszweck an!</p>
+          </div>
+        `;
+    }
+
+    return '';
+  }
+
+  /**
+   * Plain text payment instructions for shipping reservations
+   */
+  private generatePaymentInstructionsText(
+    reservation: Reservation,
+    totalCost: number,
+  ): string {
+    const paymentReference = generatePaymentReference(reservation.id);
+
+    if (reservation.paymentMethod === 'paypal') {
+      return `
+PAYPAL-ZAHLUNG:
+--------------
+Bitte überweisen Sie ${formatCurrency(totalCost)} via PayPal:
+PayPal.Me Link: ${paymentConfig.paypal.paypalMeLink}/${totalCost.toFixed(2).replace('.', ',')}EUR
+Verwendungszweck: ${paymentReference}
+WICHTIG: Bitte geben Sie unbedingt den Verwendungszweck an!
+`;
+    }
+
+    if (reservation.paymentMethod === 'bank_transfer') {
+      return `
+ÜBERWEISUNG:
+-----------
+Bitte überweisen Sie ${formatCurrency(totalCost)} auf folgendes Konto:
+Kontoinhaber: ${paymentConfig.bankTransfer.accountHolder}
+IBAN: ${paymentConfig.bankTransfer.iban}
+BIC: ${paymentConfig.bankTransfer.bic}
+Bank: ${paymentConfig.bankTransfer.bankName}
+Verwendungszweck: ${paymentReference}
+WICHTIG: Bitte geben Sie unbedingt den Verwendungszweck an!
+`;
+    }
+
+    return '';
+  }
+
+  /**
+   * Generate HTML email for payment reminder
+   */
+  private generatePaymentReminderEmailHTML(
+    reservation: Reservation,
+    user: User,
+    magazine: Magazine,
+  ): string {
+    const totalCost =
+      pricing.magazinePrice * reservation.quantity + pricing.shippingCost;
+    const deadline = reservation.expiresAt
+      ? new Date(reservation.expiresAt).toLocaleDateString('de-DE')
+      : '';
+
+    return `
+<!DOCTYPE html>
+<html lang="de">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Zahlungserinnerung</title>
+  <style>
+    .payment-info {
+      background-color: #fff3cd;
+      border: 1px solid #ffc107;
+      border-radius: 4px;
+      padding: 15px;
+      margin: 20px 0;
+    }
+    .important {
+      color: #d9534f;
+      font-weight: bold;
+    }
+  </style>
+</head>
+<body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333;">
+  <div style="max-width: 600px; margin: 0 auto; padding: 20px;">
+    <h1 style="color: #0066cc;">Zahlungserinnerung</h1>
+    <p>Hallo ${user.firstName} ${user.lastName},</p>
+    <p>für Ihre Reservierung der <strong>${magazine.title}</strong> ist bei uns noch keine Zahlung eingegangen. Bitte bezahlen Sie <strong>${formatCurrency(totalCost)}</strong>${deadline ? ` bis zum <strong>${deadline}</strong>` : ''}, sonst verfällt die Reservierung.</p>
+    <p>Reservierungsnummer: ${reservation.id.slice(0, 8).toUpperCase()}</p>
+    ${this.generatePaymentInstructionsHTML(reservation, totalCost)}
+    <p>Falls Sie bereits bezahlt haben, betrachten Sie diese E-Mail bitte als gegenstandslos.</p>
+    <p>Mit freundlichen Grüßen<br>${kindergarten.name}</p>
+  </div>
+</body>
+</html>
+    `;
+  }
+
+  /**
+   * Generate plain text email for payment reminder
+   */
+  private generatePaymentReminderEmailText(
+    reservation: Reservation,
+    user: User,
+    magazine: Magazine,
+  ): string {
+    const totalCost =
+      pricing.magazinePrice * reservation.quantity + pricing.shippingCost;
+    const deadline = reservation.expiresAt
+      ? new Date(reservation.expiresAt).toLocaleDateString('de-DE')
+      : '';
+
+    return `
+Zahlungserinnerung
+==================
+
+Hallo ${user.firstName} ${user.lastName},
+
+für Ihre Reservierung der ${magazine.title} ist bei uns noch keine Zahlung eingegangen. Bitte bezahlen Sie ${formatCurrency(totalCost)}${deadline ? ` bis zum ${deadline}` : ''}, sonst verfällt die Reservierung.
+
+Reservierungsnummer: ${reservation.id.slice(0, 8).toUpperCase()}
+${this.generatePaymentInstructionsText(reservation, totalCost)}
+Falls Sie bereits bezahlt haben, betrachten Sie diese E-Mail bitte als gegenstandslos.
+
+Mit freundlichen Grüßen
+${kindergarten.name}
+`;
+  }
+
+  /**
+   * Generate HTML email for shipping confirmation
+   */
+  private generateShippingEmailHTML(
+    reservation: Reservation,
+    user: User,
+    magazine: Magazine,
+  ): string {
+    const address = reservation.shippingAddress;
+    const trackingUrl = reservation.trackingNumber
+      ? `${pricing.trackingUrl}${encodeURIComponent(reservation.trackingNumber)}`
+      : '';
+
+    return `
+<!DOCTYPE html>
+<html lang="de">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Magazin versandt</title>
+</head>
+<body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333;">
+  <div style="max-width: 600px; margin: 0 auto; padding: 20px;">
+    <h1 style="color: #0066cc;">Ihr Magazin ist unterwegs</h1>
+    <p>Hallo ${user.firstName} ${user.lastName},</p>
+    <p>wir haben Ihre ${reservation.quantity === 1 ? 'Ausgabe' : `${reservation.quantity} Ausgaben`} der <strong>${magazine.title}</strong> heute per ${pricing.shippingMethod} verschickt. Die Zustellung dauert in der Regel wenige Werktage.</p>
+    <p>Reservierungsnummer: ${reservation.id.slice(0, 8).toUpperCase()}</p>
+    ${
+      address
+        ? `<p>Lieferadresse:<br>${address.street} ${address.houseNumber}<br>${address.addressLine2 ? `${address.addressLine2}<br>` : ''}${address.postalCode} ${address.city}</p>`
+        : ''
+    }
+    ${
+      trackingUrl
+        ? `<p>Sendungsnummer: <strong>${reservation.trackingNumber}</strong><br><a href="${trackingUrl}" style="color: #0066cc;">Sendung verfolgen</a></p>`
+        : ''
+    }
+    <p>Viel Freude beim Lesen!</p>
+    <p>Mit freundlichen Grüßen<br>${kindergarten.name}</p>
+  </div>
+</body>
+</html>
+    `;
+  }
+
+  /**
+   * Generate plain text email for shipping confirmation
+   */
+  private generateShippingEmailText(
+    reservation: Reservation,
+    user: User,
+    magazine: Magazine,
+  ): string {
+    const address = reservation.shippingAddress;
+
+    let text = `
+Ihr Magazin ist unterwegs
+=========================
+
+Hallo ${user.firstName} ${user.lastName},
+
+wir haben Ihre ${reservation.quantity === 1 ? 'Ausgabe' : `${reservation.quantity} Ausgaben`} der ${magazine.title} heute per ${pricing.shippingMethod} verschickt. Die Zustellung dauert in der Regel wenige Werktage.
+
+Reservierungsnummer: ${reservation.id.slice(0, 8).toUpperCase()}
+`;
+
+    if (address) {
+      text += `
+Lieferadresse:
+${address.street} ${address.houseNumber}
+${address.addressLine2 ? `${address.addressLine2}\n` : ''}${address.postalCode} ${address.city}
+`;
+    }
+
+    if (reservation.trackingNumber) {
+      text += `
+Sendungsnummer: ${reservation.trackingNumber}
+Sendung verfolgen: ${pricing.trackingUrl}${encodeURIComponent(reservation.trackingNumber)}
+`;
+    }
+
+    text += `
+Viel Freude beim Lesen!
+
+Mit freundlichen Grüßen
+${kindergarten.name}
+`;
+
+    return text;
+  }
+
+  /**
+   * Generate HTML email for cancellation
+   */
+  private generateCancellationEmailHTML(
+    reservation: Reservation,
+    user: User,
+    magazine: Magazine,
+  ): string {
+    return `
+<!DOCTYPE html>
+<html lang="de">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Reservierung storniert</title>
 </head>
 <body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333;">
   <div style="max-width: 600px; margin: 0 auto; padding: 20px;">
@@ -698,9 +1291,7 @@ ${kindergarten.name}
     user: User,
     magazine: Magazine,
   ): string {
-    const pickupDate = reservation.pickupDate
-      ? new Date(reservation.pickupDate).toLocaleDateString('de-DE')
-      : 'heute';
+    const pickupDate = pickupReminderDate(reservation);
 
     return `
 <!DOCTYPE html>
@@ -733,9 +1324,7 @@ ${kindergarten.name}
     user: User,
     magazine: Magazine,
   ): string {
-    const pickupDate = reservation.pickupDate
-      ? new Date(reservation.pickupDate).toLocaleDateString('de-DE')
-      : 'heute';
+    const pickupDate = pickupReminderDate(reservation);
 
     return `
 Erinnerung: Abholung ${magazine.title}
@@ -750,6 +1339,197 @@ Anzahl: ${reservation.quantity} ${reservation.quantity === 1 ? 'Exemplar' : 'Exe
 
 Bitte denken Sie daran, den Betrag in bar mitzubringen.
 
+Mit freundlichen Grüßen
+${kindergarten.name}
+`;
+  }
+
+  /**
+   * Generate HTML email for expired reservation
+   */
+  private generateExpiryEmailHTML(
+    reservation: Reservation,
+    user: User,
+    magazine: Magazine,
+  ): string {
+    const deadline = reservation.expiresAt
+      ? new Date(reservation.expiresAt).toLocaleDateString('de-DE')
+      : '';
+
+    return `
+<!DOCTYPE html>
+<html lang="de">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Reservierung abgelaufen</title>
+</head>
+<body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333;">
+  <div style="max-width: 600px; margin: 0 auto; padding: 20px;">
+    <h1 style="color: #d9534f;">Reservierung abgelaufen</h1>
+    <p>Hallo ${user.firstName} ${user.lastName},</p>
+    <p>für Ihre Reservierung der <strong>${magazine.title}</strong> ist bis zum Ablauf der Zahlungsfrist${deadline ? ` am ${deadline}` : ''} leider keine Zahlung bei uns eingegangen. Die Reservierung ist daher verfallen und die ${reservation.quantity === 1 ? 'reservierte Ausgabe wurde' : 'reservierten Ausgaben wurden'} wieder freigegeben.</p>
+    <p>Reservierungsnummer: ${reservation.id.slice(0, 8).toUpperCase()}</p>
+    <p>Solange noch Exemplare verfügbar sind, können Sie gerne eine neue Reservierung vornehmen.</p>
+    <p>Falls Sie bereits bezahlt haben, kontaktieren Sie uns bitte unter ${kindergarten.contact.email}.</p>
+    <p>Mit freundlichen Grüßen<br>${kindergarten.name}</p>
+  </div>
+</body>
+</html>
+    `;
+  }
+
+  /**
+   * Generate plain text email for expired reservation
+   */
+  private generateExpiryEmailText(
+    reservation: Reservation,
+    user: User,
+    magazine: Magazine,
+  ): string {
+    const deadline = reservation.expiresAt
+      ? new Date(reservation.expiresAt).toLocaleDateString('de-DE')
+      : '';
+
+    return `
+Reservierung abgelaufen
+=======================
+
+Hallo ${user.firstName} ${user.lastName},
+
+für Ihre Reservierung der ${magazine.title} ist bis zum Ablauf der Zahlungsfrist${deadline ? ` am ${deadline}` : ''} leider keine Zahlung bei uns eingegangen. Die Reservierung ist daher verfallen und die ${reservation.quantity === 1 ? 'reservierte Ausgabe wurde' : 'reservierten Ausgaben wurden'} wieder freigegeben.
+
+Reservierungsnummer: ${reservation.id.slice(0, 8).toUpperCase()}
+
+Solange noch Exemplare verfügbar sind, können Sie gerne eine neue Reservierung vornehmen.
+
+Falls Sie bereits bezahlt haben, kontaktieren Sie uns bitte unter ${kindergarten.contact.email}.
+
+Mit freundlichen Grüßen
+${kindergarten.name}
+`;
+  }
+
+  /**
+   * Generate HTML email for a waitlist offer
+   */
+  private generateWaitlistOfferEmailHTML(
+    entry: WaitlistEntry,
+    magazine: Magazine,
+    claimUrl: string,
+  ): string {
+    const copies =
+      entry.quantity === 1 ? 'ein Exemplar' : `${entry.quantity} Exemplare`;
+    const offerExpiresAt = this.formatOfferExpiry(entry);
+
+    return `
+<!DOCTYPE html>
+<html lang="de">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Warteliste</title>
+</head>
+<body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333;">
+  <div style="max-width: 600px; margin: 0 auto; padding: 20px;">
+    <h1 style="color: #0066cc;">Gute Nachrichten von der Warteliste</h1>
+    <p>Hallo ${entry.firstName} ${entry.lastName},</p>
+    <p>für <strong>${magazine.title} - ${magazine.issueNumber}</strong> sind wieder Exemplare frei geworden. Wir halten ${copies} für Sie bereit.</p>
+    <p><a href="${claimUrl}" style="color: white; font-weight: bold; text-decoration: none; display: inline-block; padding: 8px 16px; background-color: #0066cc; border-radius: 4px;">Jetzt reservieren</a></p>
+    <p>Das Angebot gilt bis <strong>${offerExpiresAt}</strong>. Danach geben wir die Exemplare an die nächste Familie auf der Warteliste weiter.</p>
+    <p>Mit freundlichen Grüßen<br>${kindergarten.name}</p>
+  </div>
+</body>
+</html>
+    `;
+  }
+
+  /**
+   * Generate plain text email for a waitlist offer
+   */
+  private generateWaitlistOfferEmailText(
+    entry: WaitlistEntry,
+    magazine: Magazine,
+    claimUrl: string,
+  ): string {
+    const copies =
+      entry.quantity === 1 ? 'ein Exemplar' : `${entry.quantity} Exemplare`;
+    const offerExpiresAt = this.formatOfferExpiry(entry);
+
+    return `
+Gute Nachrichten von der Warteliste
+===================================
+
+Hallo ${entry.firstName} ${entry.lastName},
+
+für ${magazine.title} - ${magazine.issueNumber} sind wieder Exemplare frei geworden. Wir halten ${copies} für Sie bereit.
+
+Jetzt reservieren:
+${claimUrl}
+
+Das Angebot gilt bis ${offerExpiresAt}. Danach geben wir die Exemplare an die nächste Familie auf der Warteliste weiter.
+
+Mit freundlichen Grüßen
+${kindergarten.name}
+`;
+  }
+
+  private formatOfferExpiry(entry: WaitlistEntry): string {
+    return `${new Date(entry.offerExpiresAt || Date.now()).toLocaleString(
+      'de-DE',
+      {
+        day: '2-digit',
+        month: '2-digit',
+        year: 'numeric',
+        hour: '2-digit',
+        minute: '2-digit',
+        timeZone: 'Europe/Berlin',
+      },
+    )} Uhr`;
+  }
+
+  /**
+   * Generate HTML email for portal magic link
+   */
+  private generateMagicLinkEmailHTML(user: User, loginUrl: string): string {
+    return `
+<!DOCTYPE html>
+<html lang="de">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Meine Reservierung</title>
+</head>
+<body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333;">
+  <div style="max-width: 600px; margin: 0 auto; padding: 20px;">
+    <h1 style="color: #0066cc;">Meine Reservierung</h1>
+    <p>Hallo ${user.firstName} ${user.lastName},</p>
+    <p>über den folgenden Link können Sie Ihre Reservierungen ansehen, stornieren und Ihre Daten verwalten:</p>
+    <p><a href="${loginUrl}" style="color: white; font-weight: bold; text-decoration: none; display: inline-block; padding: 8px 16px; background-color: #0066cc; border-radius: 4px;">Meine Reservierungen öffnen</a></p>
+    <p>Der Link ist 30 Minuten gültig. Falls Sie ihn nicht angefordert haben, können Sie diese E-Mail ignorieren.</p>
+    <p>Mit freundlichen Grüßen<br>${kindergarten.name}</p>
+  </div>
+</body>
+</html>
+    `;
+  }
+
+  /**
+   * Generate plain text email for portal magic link
+   */
+  private generateMagicLinkEmailText(user: User, loginUrl: string): string {
+    return `
+Meine Reservierung
+==================
+
+Hallo ${user.firstName} ${user.lastName},
+
+über den folgenden Link können Sie Ihre Reservierungen ansehen, stornieren und Ihre Daten verwalten:
+
+${loginUrl}
+
+Der Link ist 30 Minuten gültig. Falls Sie ihn nicht angefordert haben, können Sie diese E-Mail ignorieren.
+
 Mit freundlichen Grüßen
 ${kindergarten.name}
 `;
@@ -782,12 +1562,30 @@ export const emailService = (() => {
       sendReservationConfirmation: async () => {
         throw new Error('Email service not configured');
       },
+      sendReservationUpdate: async () => {
+        throw new Error('Email service not configured');
+      },
       sendCancellationConfirmation: async () => {
         throw new Error('Email service not configured');
       },
       sendPickupReminder: async () => {
         throw new Error('Email service not configured');
       },
+      sendExpiryNotice: async () => {
+        throw new Error('Email service not configured');
+      },
+      sendPaymentReminder: async () => {
+        throw new Error('Email service not configured');
+      },
+      sendShippingConfirmation: async () => {
+        throw new Error('Email service not configured');
+      },
+      sendWaitlistOffer: async () => {
+        throw new Error('Email service not configured');
+      },
+      sendMagicLink: async () => {
+        throw new Error('Email service not configured');
+      },
       verifyConnection: async () => {
         throw new Error('Email service not configured');
       },
@@ -0,0 +1,189 @@
+/**
+ * Picture order report
+ *
+ * The photographer prints the free group and Vorschüler pictures per group.
+ * The report counts the pictures claimed for each group and lists the
+ * children they are for, as CSV for German Excel or as a printable A4 PDF
+ * to hand to the print shop.
+ */
+
+import { PDFDocument, StandardFonts } from 'pdf-lib';
+import { kindergarten } from '@/config/content';
+import { toCsv } from '@/lib/exports/reservation-lists';
+import type { PictureClaim } from '@/types';
+
+export type PictureOrderFormat = 'csv' | 'pdf';
+
+export const PICTURE_ORDER_CONTENT_TYPES: Record<PictureOrderFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  pdf: 'application/pdf',
+};
+
+export interface PictureOrderChild {
+  name: string;
+  groupPicture: boolean;
+  vorschulPicture: boolean;
+}
+
+export interface PictureOrderGroup {
+  groupName: string;
+  groupPictures: number;
+  vorschulPictures: number;
+  children: PictureOrderChild[];
+}
+
+// Older reservations store the group id of the site config
+const groupLabel = (name: string) =>
+  kindergarten.groups.find((group) => group.id === name)?.name || name;
+
+const byName = <T extends { name: string }>(a: T, b: T) =>
+  a.name.localeCompare(b.name, 'de');
+
+/**
+ * Claims summed up per group, groups and children sorted by name
+ */
+export function buildPictureOrderReport(
+  claims: PictureClaim[],
+): PictureOrderGroup[] {
+  const groups = new Map<string, Map<string, PictureOrderChild>>();
+
+  for (const claim of claims) {
+    const groupName = groupLabel(claim.groupName);
+    const children = groups.get(groupName) || new Map();
+    groups.set(groupName, children);
+
+    const child = children.get(claim.childName) || {
+      name: claim.childName,
+      groupPicture: false,
+      vorschulPicture: false,
+    };
+    children.set(claim.childName, child);
+
+    if (claim.pictureType === 'group') child.groupPicture = true;
+    else child.vorschulPicture = true;
+  }
+
+  return [...groups]
+    .map(([groupName, children]) => {
+      const list = [...children.values()].sort(byName);
+      return {
+        groupName,
+        groupPictures: list.filter((child) => child.groupPicture).length,
+        vorschulPictures: list.filter((child) => child.vorschulPicture).length,
+        children: list,
+      };
+    })
+    .sort((a, b) => a.groupName.localeCompare(b.groupName, 'de'));
+}
+
+/**
+ * One row per child with a total per group, so the print shop can check
+ * the counts against the names
+ */
+export function toPictureOrderCsv(report: PictureOrderGroup[]): string {
+  return toCsv({
+    columns: ['Gruppe', 'Kind', 'Gruppenbild', 'Vorschüler-Bild'],
+    rows: report.flatMap((group) => [
+      ...group.children.map((child) => [
+        group.groupName,
+        child.name,
+        child.groupPicture ? 1 : '',
+        child.vorschulPicture ? 1 : '',
+      ]),
+      [group.groupName, 'Summe', group.groupPictures, group.vorschulPictures],
+    ]),
+  });
+}
+
+// Standard PDF fonts only cover WinAnsi, anything else would throw
+const winAnsi = (text: string) =>
+  text.replace(/[^\x20-\x7E\xA0-\xFF]/g, '?').trim();
+
+const mm = (value: number) => (value * 72) / 25.4;
+
+const PAGE = { width: mm(210), height: mm(297), margin: mm(20) };
+const LINE_HEIGHT = 14;
+
+const sum = (
+  report: PictureOrderGroup[],
+  key: 'groupPictures' | 'vorschulPictures',
+) => report.reduce((total, group) => total + group[key], 0);
+
+const pictureLabels = (child: PictureOrderChild) =>
+  [
+    child.groupPicture && 'Gruppenbild',
+    child.vorschulPicture && 'Vorschüler-Bild',
+  ]
+    .filter(Boolean)
+    .join(', ');
+
+/**
+ * A4 list for the print shop: the totals of each group followed by the
+ * children, continued on the next page where needed
+ */
+export async function renderPictureOrderPdf(
+  report: PictureOrderGroup[],
+  date: Date = new Date(),
+): Promise<Uint8Array<ArrayBuffer>> {
+  const pdf = await PDFDocument.create();
+  const title = `Bildbestellungen ${kindergarten.shortName}`;
+  pdf.setTitle(title);
+  const font = await pdf.embedFont(StandardFonts.Helvetica);
+  const bold = await pdf.embedFont(StandardFonts.HelveticaBold);
+
+  let page = pdf.addPage([PAGE.width, PAGE.height]);
+  let y = PAGE.height - PAGE.margin;
+
+  const write = (
+    text: string,
+    options: { bold?: boolean; x?: number } = {},
+  ) => {
+    if (y < PAGE.margin + LINE_HEIGHT) {
+      page = pdf.addPage([PAGE.width, PAGE.height]);
+      y = PAGE.height - PAGE.margin;
+    }
+    y -= LINE_HEIGHT;
+    page.drawText(winAnsi(text), {
+      x: PAGE.margin + (options.x || 0),
+      y,
+      size: 10,
+      font: options.bold ? bold : font,
+    });
+  };
+
+  write(title, { bold: true });
+  write(`Stand: ${date.toLocaleDateString('de-DE')}`);
+  write(
+    `Gesamt: ${sum(report, 'groupPictures')} Gruppenbilder, ` +
+      `${sum(report, 'vorschulPictures')} Vorschüler-Bilder`,
+  );
+
+  for (const group of report) {
+    y -= LINE_HEIGHT;
+    write(
+      `${group.groupName}: ${group.groupPictures} Gruppenbilder, ` +
+        `${group.vorschulPictures} Vorschüler-Bilder`,
+      { bold: true },
+    );
+    for (const child of group.children) {
+      write(child.name, { x: mm(5) });
+      page.drawText(winAnsi(pictureLabels(child)), {
+        x: PAGE.margin + mm(90),
+        y,
+        size: 10,
+        font,
+      });
+    }
+  }
+
+  return new Uint8Array(await pdf.save());
+}
+
+// e.g. "bildbestellungen-2024-01-05.pdf"
+export function pictureOrderFilename(
+  format: PictureOrderFormat,
+  date: Date = new Date(),
+): string {
+  const day = date.toISOString().slice(0, 10);
+  return `bildbestellungen-${day}.${format}`;
+}
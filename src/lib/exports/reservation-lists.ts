@@ -0,0 +1,185 @@
+/**
+ * Reservation lists
+ *
+ * Distribution day runs off printed lists: a pickup list to tick off families
+ * at the counter and a shipping list to pack and address envelopes. Both are
+ * exported as CSV for German Excel (UTF-8 with BOM, semicolon separated) or
+ * as XLSX.
+ */
+
+import writeXlsxFile from 'write-excel-file/node';
+import { kindergarten } from '@/config/content';
+import { reservationChildren } from '@/lib/reservation-children';
+import type { ReservationDetails, ReservationStatus } from '@/types';
+
+export type ReservationListType = 'pickup' | 'shipping';
+
+export type ExportFormat = 'csv' | 'xlsx';
+
+export interface ReservationList {
+  type: ReservationListType;
+  columns: string[];
+  rows: (string | number)[][];
+}
+
+const LIST_TITLES: Record<ReservationListType, string> = {
+  pickup: 'Abholliste',
+  shipping: 'Versandliste',
+};
+
+const STATUS_LABELS: Record<ReservationStatus, string> = {
+  pending: 'Offen',
+  confirmed: 'Bezahlt',
+  completed: 'Abgeschlossen',
+  cancelled: 'Storniert',
+  expired: 'Abgelaufen',
+};
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+const groupName = (id?: string) =>
+  kindergarten.groups.find((group) => group.id === id)?.name || id || '';
+
+// Group and Vorschul pictures ordered with the reservation
+function pictureOrders({ reservation }: ReservationDetails): string {
+  return reservationChildren(reservation)
+    .flatMap((child) => [
+      child.orderGroupPicture &&
+        `Gruppenfoto ${groupName(child.groupName)}`.trim(),
+      child.orderVorschulPicture && 'Vorschulfoto',
+    ])
+    .filter(Boolean)
+    .join(', ');
+}
+
+const childNames = ({ reservation }: ReservationDetails) =>
+  reservationChildren(reservation)
+    .map((child) => child.name)
+    .filter(Boolean)
+    .join(', ');
+
+const formatDate = (value?: string) =>
+  value ? new Date(value).toLocaleDateString('de-DE') : '';
+
+const byLastName = (a: ReservationDetails, b: ReservationDetails) =>
+  a.user.lastName.localeCompare(b.user.lastName, 'de') ||
+  a.user.firstName.localeCompare(b.user.firstName, 'de');
+
+/**
+ * Build the pickup or shipping list from admin reservations, sorted by last
+ * name. Reservations with the other delivery method are left out.
+ */
+export function buildReservationList(
+  type: ReservationListType,
+  reservations: ReservationDetails[],
+): ReservationList {
+  const entries = reservations
+    .filter(({ reservation }) => reservation.deliveryMethod === type)
+    .sort(byLastName);
+
+  if (type === 'pickup') {
+    return {
+      type,
+      columns: [
+        'Nachname',
+        'Vorname',
+        'Magazin',
+        'Anzahl',
+        'Fotos',
+        'Kind',
+        'Status',
+      ],
+      rows: entries.map((details) => [
+        details.user.lastName,
+        details.user.firstName,
+        `${details.magazine.title} (${details.magazine.issueNumber})`,
+        details.reservation.quantity,
+        pictureOrders(details),
+        childNames(details),
+        STATUS_LABELS[details.reservation.status],
+      ]),
+    };
+  }
+
+  return {
+    type,
+    columns: [
+      'Nachname',
+      'Vorname',
+      'Straße',
+      'Hausnummer',
+      'Adresszusatz',
+      'PLZ',
+      'Ort',
+      'Land',
+      'Magazin',
+      'Anzahl',
+      'Status',
+      'Versandt am',
+      'Sendungsnummer',
+    ],
+    rows: entries.map(({ reservation, user, magazine }) => {
+      const address = reservation.shippingAddress || {};
+      return [
+        user.lastName,
+        user.firstName,
+        address.street || '',
+        address.houseNumber || '',
+        address.addressLine2 || '',
+        address.postalCode || '',
+        address.city || '',
+        address.country || '',
+        `${magazine.title} (${magazine.issueNumber})`,
+        reservation.quantity,
+        STATUS_LABELS[reservation.status],
+        formatDate(reservation.dispatchedAt),
+        reservation.trackingNumber || '',
+      ];
+    }),
+  };
+}
+
+// Quotes fields where needed and defuses values Excel would run as formulas
+// (names and addresses are entered by families)
+function csvField(value: string | number): string {
+  let field = String(value);
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(field)) {
+    field = `'${field}`;
+  }
+  return /[";\r\n]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field;
+}
+
+// Any table works, the picture order report uses it as well
+export function toCsv(list: Pick<ReservationList, 'columns' | 'rows'>): string {
+  const lines = [list.columns, ...list.rows].map((row) =>
+    row.map(csvField).join(';'),
+  );
+  // The BOM makes Excel read the file as UTF-8 instead of Windows-1252
+  return `\uFEFF${lines.join('\r\n')}\r\n`;
+}
+
+export async function toXlsx(
+  list: ReservationList,
+): Promise<Uint8Array<ArrayBuffer>> {
+  const buffer = await writeXlsxFile(
+    [
+      list.columns.map((value) => ({ value, fontWeight: 'bold' as const })),
+      ...list.rows,
+    ],
+    { sheet: LIST_TITLES[list.type], stickyRowsCount: 1 },
+  ).toBuffer();
+  return new Uint8Array(buffer);
+}
+
+// e.g. "abholliste-2024-01-05.xlsx"
+export function exportFilename(
+  type: ReservationListType,
+  format: ExportFormat,
+  date: Date = new Date(),
+): string {
+  const day = date.toISOString().slice(0, 10);
+  return `${LIST_TITLES[type].toLowerCase()}-${day}.${format}`;
+}
@@ -0,0 +1,188 @@
+/**
+ * Shipping labels
+ *
+ * Prepares the envelopes for all paid shipping reservations in one go: a CSV
+ * for the address import of Deutsche Post Internetmarke (to buy the stamps)
+ * and an A4 PDF of address labels for Zweckform 3474 sheets (3 × 8 labels of
+ * 70 × 37 mm) with the kindergarten as sender.
+ */
+
+import { PDFDocument, StandardFonts, rgb, type PDFFont } from 'pdf-lib';
+import { kindergarten } from '@/config/content';
+import type { Address, ReservationDetails } from '@/types';
+
+export type ShippingBatchFormat = 'csv' | 'pdf';
+
+export const SHIPPING_BATCH_CONTENT_TYPES: Record<ShippingBatchFormat, string> =
+  {
+    // Internetmarke reads imported address files as Windows-1252
+    csv: 'text/csv; charset=windows-1252',
+    pdf: 'application/pdf',
+  };
+
+// Internetmarke expects ISO 3166-1 alpha-3 codes, the form stores alpha-2
+const COUNTRY_CODES: Record<string, string> = {
+  DE: 'DEU',
+  AT: 'AUT',
+  CH: 'CHE',
+};
+
+// Written in capitals as the last line of international addresses
+const COUNTRY_NAMES: Record<string, string> = {
+  AT: 'ÖSTERREICH',
+  CH: 'SCHWEIZ',
+};
+
+const INTERNETMARKE_COLUMNS = [
+  'NAME',
+  'ZUSATZ',
+  'STRASSE',
+  'NUMMER',
+  'PLZ',
+  'STADT',
+  'LAND',
+  'ADRESS_TYP',
+];
+
+const recipientName = ({ user }: ReservationDetails) =>
+  `${user.firstName} ${user.lastName}`;
+
+const byLastName = (a: ReservationDetails, b: ReservationDetails) =>
+  a.user.lastName.localeCompare(b.user.lastName, 'de') ||
+  a.user.firstName.localeCompare(b.user.firstName, 'de');
+
+// Separators would shift the columns, so they are replaced instead of quoted
+const csvField = (value = '') => value.replace(/[;\r\n"]/g, ' ').trim();
+
+/**
+ * Address import file for Internetmarke, one row per envelope. Only
+ * reservations with a shipping address are included.
+ */
+export function toInternetmarkeCsv(
+  reservations: ReservationDetails[],
+): Uint8Array<ArrayBuffer> {
+  const rows = reservations
+    .filter(({ reservation }) => reservation.shippingAddress)
+    .sort(byLastName)
+    .map((details) => {
+      const address = details.reservation.shippingAddress as Address;
+      return [
+        recipientName(details),
+        address.addressLine2,
+        address.street,
+        address.houseNumber,
+        address.postalCode,
+        address.city,
+        COUNTRY_CODES[address.country || 'DE'] || address.country,
+        'HOUSE',
+      ];
+    });
+
+  const text = [INTERNETMARKE_COLUMNS, ...rows]
+    .map((row) => row.map(csvField).join(';'))
+    .join('\r\n');
+  return new Uint8Array(Buffer.from(`${text}\r\n`, 'latin1'));
+}
+
+// Standard PDF fonts only cover WinAnsi, anything else would throw
+const winAnsi = (text: string) =>
+  text.replace(/[^\x20-\x7E\xA0-\xFF]/g, '?').trim();
+
+const mm = (value: number) => (value * 72) / 25.4;
+
+const PAGE = { width: mm(210), height: mm(297) };
+const LABEL = { width: mm(70), height: mm(37), padding: mm(5) };
+const GRID = { columns: 3, rows: 8, top: mm(0.5) };
+const LABELS_PER_PAGE = GRID.columns * GRID.rows;
+
+function recipientLines(details: ReservationDetails): string[] {
+  const address = details.reservation.shippingAddress || {};
+  return [
+    recipientName(details),
+    address.addressLine2,
+    `${address.street || ''} ${address.houseNumber || ''}`,
+    `${address.postalCode || ''} ${address.city || ''}`,
+    COUNTRY_NAMES[address.country || 'DE'],
+  ]
+    .map((line) => winAnsi(line || ''))
+    .filter(Boolean);
+}
+
+// Shrinks long lines to the label width, down to a still legible size
+function fittingSize(
+  font: PDFFont,
+  text: string,
+  size: number,
+  minSize: number,
+): number {
+  const maxWidth = LABEL.width - 2 * LABEL.padding;
+  const width = font.widthOfTextAtSize(text, size);
+  return width <= maxWidth
+    ? size
+    : Math.max(minSize, (size * maxWidth) / width);
+}
+
+/**
+ * A4 label sheets, one label per envelope in last name order
+ */
+export async function renderAddressLabelsPdf(
+  reservations: ReservationDetails[],
+): Promise<Uint8Array<ArrayBuffer>> {
+  const pdf = await PDFDocument.create();
+  pdf.setTitle(`Adressetiketten ${kindergarten.shortName}`);
+  const font = await pdf.embedFont(StandardFonts.Helvetica);
+  const bold = await pdf.embedFont(StandardFonts.HelveticaBold);
+
+  const { address } = kindergarten.contact;
+  const sender = winAnsi(
+    `${kindergarten.name} · ${address.street} · ${address.postalCode} ${address.city}`,
+  );
+
+  const entries = reservations
+    .filter(({ reservation }) => reservation.shippingAddress)
+    .sort(byLastName);
+
+  entries.forEach((details, index) => {
+    const position = index % LABELS_PER_PAGE;
+    const page =
+      position === 0
+        ? pdf.addPage([PAGE.width, PAGE.height])
+        : pdf.getPages()[pdf.getPageCount() - 1];
+
+    const column = position % GRID.columns;
+    const row = Math.floor(position / GRID.columns);
+    const x = column * LABEL.width + LABEL.padding;
+    let y = PAGE.height - GRID.top - row * LABEL.height - LABEL.padding;
+
+    // Sender line, small and underlined as on pre-printed envelopes
+    const senderSize = fittingSize(font, sender, 6, 4);
+    y -= senderSize;
+    page.drawText(sender, { x, y, size: senderSize, font });
+    page.drawLine({
+      start: { x, y: y - 1 },
+      end: { x: x + font.widthOfTextAtSize(sender, senderSize), y: y - 1 },
+      thickness: 0.3,
+      color: rgb(0, 0, 0),
+    });
+    y -= mm(2);
+
+    recipientLines(details).forEach((line, lineIndex) => {
+      const lineFont = lineIndex === 0 ? bold : font;
+      const size = fittingSize(lineFont, line, 10, 7);
+      y -= size + 1.5;
+      page.drawText(line, { x, y, size, font: lineFont });
+    });
+  });
+
+  return new Uint8Array(await pdf.save());
+}
+
+// e.g. "internetmarke-2024-01-05.csv" or "adressetiketten-2024-01-05.pdf"
+export function shippingBatchFilename(
+  format: ShippingBatchFormat,
+  date: Date = new Date(),
+): string {
+  const day = date.toISOString().slice(0, 10);
+  const name = format === 'csv' ? 'internetmarke' : 'adressetiketten';
+  return `${name}-${day}.${format}`;
+}
@@ -0,0 +1,57 @@
+/**
+ * Reservation Expiry Job
+ *
+ * Expires pending reservations whose payment deadline has passed, which
+ * returns their copies to stock, and tells each family that the hold lapsed.
+ * Runs hourly via netlify/functions/expire-reservations.ts.
+ */
+
+import { DatabaseService } from '@/lib/database';
+import { getEmailService, type EmailService } from '@/lib/email/email-service';
+
+export interface ExpireReservationsResult {
+  expired: number;
+  notified: number;
+  failedNotifications: number;
+}
+
+export async function runExpireReservationsJob(
+  now: Date = new Date(),
+): Promise<ExpireReservationsResult> {
+  const db = new DatabaseService();
+  const expired = await db.expireOverdueReservations(now);
+
+  const result: ExpireReservationsResult = {
+    expired: expired.length,
+    notified: 0,
+    failedNotifications: 0,
+  };
+
+  if (expired.length === 0) return result;
+
+  // The reservations are expired either way - a missing SMTP setup only
+  // means the families are not told about it
+  let emailService: EmailService;
+  try {
+    emailService = getEmailService();
+  } catch (error) {
+    console.error('Email service not available for expiry notices:', error);
+    result.failedNotifications = expired.length;
+    return result;
+  }
+
+  for (const details of expired) {
+    try {
+      await emailService.sendExpiryNotice(details);
+      result.notified++;
+    } catch (error) {
+      console.error(
+        `Failed to send expiry notice for reservation ${details.reservation.id}:`,
+        error,
+      );
+      result.failedNotifications++;
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,72 @@
+/**
+ * Payment Reminder Job
+ *
+ * Sends one reminder to families whose shipping reservation is still unpaid
+ * shortly before the payment deadline (see paymentReminderDaysBefore).
+ * Runs daily via netlify/functions/payment-reminders.ts.
+ */
+
+import { DatabaseService } from '@/lib/database';
+import { getEmailService, type EmailService } from '@/lib/email/email-service';
+
+export interface PaymentRemindersResult {
+  due: number;
+  sent: number;
+  failed: number;
+}
+
+export async function runPaymentRemindersJob(
+  now: Date = new Date(),
+): Promise<PaymentRemindersResult> {
+  const db = new DatabaseService();
+  const due = await db.getReservationsDueForPaymentReminder(now);
+
+  const result: PaymentRemindersResult = {
+    due: due.length,
+    sent: 0,
+    failed: 0,
+  };
+
+  if (due.length === 0) return result;
+
+  // Without SMTP nothing is claimed, so the next run tries again
+  let emailService: EmailService;
+  try {
+    emailService = getEmailService();
+  } catch (error) {
+    console.error('Email service not available for payment reminders:', error);
+    result.failed = due.length;
+    return result;
+  }
+
+  for (const details of due) {
+    const reservationId = details.reservation.id;
+
+    try {
+      if (!(await db.claimPaymentReminder(reservationId, now))) continue;
+    } catch (error) {
+      console.error(
+        `Failed to claim payment reminder for reservation ${reservationId}:`,
+        error,
+      );
+      result.failed++;
+      continue;
+    }
+
+    try {
+      await emailService.sendPaymentReminder(details);
+      result.sent++;
+    } catch (error) {
+      console.error(
+        `Failed to send payment reminder for reservation ${reservationId}:`,
+        error,
+      );
+      result.failed++;
+      await db.releasePaymentReminder(reservationId).catch((releaseError) => {
+        console.error('Failed to release payment reminder:', releaseError);
+      });
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,72 @@
+/**
+ * Pickup Reminder Job
+ *
+ * Reminds families the day before they collect their magazine, with the
+ * booked pickup slot or date. Cancelled and expired reservations are left
+ * out. Runs daily via netlify/functions/pickup-reminders.ts.
+ */
+
+import { DatabaseService } from '@/lib/database';
+import { getEmailService, type EmailService } from '@/lib/email/email-service';
+
+export interface PickupRemindersResult {
+  due: number;
+  sent: number;
+  failed: number;
+}
+
+export async function runPickupRemindersJob(
+  now: Date = new Date(),
+): Promise<PickupRemindersResult> {
+  const db = new DatabaseService();
+  const due = await db.getReservationsDueForPickupReminder(now);
+
+  const result: PickupRemindersResult = {
+    due: due.length,
+    sent: 0,
+    failed: 0,
+  };
+
+  if (due.length === 0) return result;
+
+  // Without SMTP nothing is claimed, so the next run tries again
+  let emailService: EmailService;
+  try {
+    emailService = getEmailService();
+  } catch (error) {
+    console.error('Email service not available for pickup reminders:', error);
+    result.failed = due.length;
+    return result;
+  }
+
+  for (const details of due) {
+    const reservationId = details.reservation.id;
+
+    try {
+      if (!(await db.claimPickupReminder(reservationId, now))) continue;
+    } catch (error) {
+      console.error(
+        `Failed to claim pickup reminder for reservation ${reservationId}:`,
+        error,
+      );
+      result.failed++;
+      continue;
+    }
+
+    try {
+      await emailService.sendPickupReminder(details);
+      result.sent++;
+    } catch (error) {
+      console.error(
+        `Failed to send pickup reminder for reservation ${reservationId}:`,
+        error,
+      );
+      result.failed++;
+      await db.releasePickupReminder(reservationId).catch((releaseError) => {
+        console.error('Failed to release pickup reminder:', releaseError);
+      });
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,46 @@
+/**
+ * Waitlist Offers Job
+ *
+ * Lapses the waitlist offers nobody claimed in time and offers the copies
+ * now in stock to the next waiting families. Cancellations and stock
+ * changes offer copies right away; this job catches up on expired
+ * reservations.
+ * Runs every 15 minutes via netlify/functions/waitlist-offers.ts.
+ */
+
+import { DatabaseService } from '@/lib/database';
+import { offerReturnedCopies } from '@/lib/waitlist';
+
+export interface WaitlistOffersResult {
+  expiredOffers: number;
+  offered: number;
+  notified: number;
+  failedNotifications: number;
+}
+
+export async function runWaitlistOffersJob(
+  now: Date = new Date(),
+): Promise<WaitlistOffersResult> {
+  const db = new DatabaseService();
+  const expired = await db.expireWaitlistOffers();
+
+  const result: WaitlistOffersResult = {
+    expiredOffers: expired.length,
+    offered: 0,
+    notified: 0,
+    failedNotifications: 0,
+  };
+
+  for (const magazineId of await db.getWaitlistedMagazineIds()) {
+    try {
+      const offers = await offerReturnedCopies(magazineId, now);
+      result.offered += offers.offered;
+      result.notified += offers.notified;
+      result.failedNotifications += offers.failedNotifications;
+    } catch (error) {
+      console.error(`Failed to offer copies of magazine ${magazineId}:`, error);
+    }
+  }
+
+  return result;
+}
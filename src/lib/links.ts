@@ -0,0 +1,37 @@
+// Absolute links to pages of this site, e.g. for emails
+
+/**
+ * Base URL of the site. Links in emails carry signed tokens, so they are
+ * never built from the Host header of the request; SITE_URL is required.
+ */
+export function getSiteUrl(): string {
+  const siteUrl = import.meta.env.SITE_URL;
+  if (!siteUrl) {
+    throw new Error('SITE_URL is not configured');
+  }
+  return siteUrl.replace(/\/$/, '');
+}
+
+/**
+ * Magic link that signs a parent into the "Meine Reservierung" portal
+ */
+export function portalLoginUrl(token: string): string {
+  return `${getSiteUrl()}/meine-reservierung?token=${encodeURIComponent(token)}`;
+}
+
+/**
+ * Cancellation link sent with the reservation confirmation
+ */
+export function reservationCancelUrl(
+  reservationId: string,
+  token: string,
+): string {
+  return `${getSiteUrl()}/reservierung-stornieren?id=${encodeURIComponent(reservationId)}&token=${encodeURIComponent(token)}`;
+}
+
+/**
+ * Claim link of a waitlist offer, opening the prefilled reservation form
+ */
+export function waitlistClaimUrl(token: string): string {
+  return `${getSiteUrl()}/?warteliste=${encodeURIComponent(token)}#reservation-form`;
+}
@@ -0,0 +1,88 @@
+/**
+ * Magazine Issues
+ *
+ * The Elternbeirat manages the issues in the dashboard: print run, cover,
+ * whether an issue is offered and the window in which families can reserve
+ * it. The newest open issue is the one the homepage presents.
+ */
+
+import { magazine as magazineConfig } from '@/config/content';
+import type { Magazine, Reservation, ReservationStatus } from '@/types';
+
+// Supabase Storage bucket for cover images, see magazine-catalogue.sql
+export const MAGAZINE_COVER_BUCKET = 'magazine-covers';
+
+export const COVER_CONTENT_TYPES: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+};
+
+/**
+ * Whether families can reserve the issue right now: active and inside its
+ * reservation window. Stock is checked separately.
+ */
+export function isMagazineOpen(
+  magazine: Pick<
+    Magazine,
+    'isActive' | 'reservationsOpenAt' | 'reservationsCloseAt'
+  >,
+  now: Date = new Date(),
+): boolean {
+  const { reservationsOpenAt: openAt, reservationsCloseAt: closeAt } = magazine;
+
+  return (
+    magazine.isActive &&
+    (!openAt || new Date(openAt) <= now) &&
+    (!closeAt || new Date(closeAt) > now)
+  );
+}
+
+// Reservations that count against the family limit: copies the family
+// holds or has already received
+const COUNTED_RESERVATION_STATUSES: readonly ReservationStatus[] = [
+  'pending',
+  'confirmed',
+  'completed',
+];
+
+// Copies one family may reserve of the issue; an exception the dashboard
+// set for the family replaces the limit of the issue
+export function copiesPerFamily(
+  magazine: Pick<Magazine, 'copiesPerFamily'>,
+  familyLimit?: number | null,
+): number {
+  return (
+    familyLimit ?? magazine.copiesPerFamily ?? magazineConfig.copiesPerFamily
+  );
+}
+
+/**
+ * Copies of the issue a family can still reserve, given the reservations
+ * made with its email address
+ */
+export function remainingFamilyCopies(
+  magazine: Pick<Magazine, 'id' | 'copiesPerFamily'>,
+  reservations: Pick<Reservation, 'magazineId' | 'quantity' | 'status'>[],
+  familyLimit?: number | null,
+): number {
+  const reserved = reservations
+    .filter(
+      (reservation) =>
+        reservation.magazineId === magazine.id &&
+        COUNTED_RESERVATION_STATUSES.includes(reservation.status),
+    )
+    .reduce((sum, reservation) => sum + reservation.quantity, 0);
+
+  return Math.max(copiesPerFamily(magazine, familyLimit) - reserved, 0);
+}
+
+// e.g. "August 2024"
+export function formatPublicationDate(
+  magazine: Pick<Magazine, 'publishDate'>,
+): string {
+  return new Date(magazine.publishDate).toLocaleDateString('de-DE', {
+    month: 'long',
+    year: 'numeric',
+  });
+}
@@ -0,0 +1,72 @@
+/**
+ * GiroCode
+ *
+ * Builds EPC069-12 QR codes ("GiroCode") for bank transfers. German banking
+ * apps fill in recipient, IBAN, amount and payment reference when the code is
+ * scanned, so the reference reaches us exactly as reconciliation expects it.
+ *
+ * Used by the confirmation email (PNG attachment) and the reservation form
+ * (SVG), so this module must stay free of server-only imports.
+ */
+
+import QRCode from 'qrcode';
+import {
+  paymentConfig,
+  calculateTotalCost,
+  generatePaymentReference,
+} from '@/config/payment';
+import type { Reservation } from '@/types';
+
+export interface GiroCodeTransfer {
+  name: string;
+  iban: string;
+  bic?: string;
+  amount: number;
+  reference: string;
+}
+
+// EPC069-12 mandates error correction level M
+const QR_OPTIONS = { errorCorrectionLevel: 'M', margin: 2 } as const;
+
+export function buildGiroCodePayload(transfer: GiroCodeTransfer): string {
+  return [
+    'BCD',
+    '002', // Version 2 makes the BIC optional within the EEA
+    '1', // UTF-8
+    'SCT',
+    transfer.bic?.replace(/\s/g, '') || '',
+    transfer.name.slice(0, 70),
+    transfer.iban.replace(/\s/g, '').toUpperCase(),
+    `EUR${transfer.amount.toFixed(2)}`,
+    '', // Purpose code
+    '', // Structured creditor reference - we use the remittance text
+    transfer.reference.slice(0, 140),
+  ].join('\n');
+}
+
+// Transfer of the amount due for a reservation to the Elternbeirat account
+export function reservationGiroCode(
+  reservation: Pick<Reservation, 'id' | 'quantity' | 'deliveryMethod'>,
+): string {
+  const { bankTransfer } = paymentConfig;
+
+  return buildGiroCodePayload({
+    name: bankTransfer.accountHolder,
+    iban: bankTransfer.iban,
+    bic: bankTransfer.bic,
+    amount: calculateTotalCost(
+      reservation.deliveryMethod === 'shipping',
+      reservation.quantity,
+    ),
+    reference: generatePaymentReference(reservation.id),
+  });
+}
+
+export function renderGiroCodeSvg(payload: string): Promise<string> {
+  return QRCode.toString(payload, { ...QR_OPTIONS, type: 'svg' });
+}
+
+// Server only - the browser build of qrcode has no buffer output
+export function renderGiroCodePng(payload: string): Promise<Buffer> {
+  return QRCode.toBuffer(payload, { ...QR_OPTIONS, width: 240 });
+}
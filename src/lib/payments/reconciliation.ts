@@ -0,0 +1,251 @@
+/**
+ * Payment Reconciliation
+ *
+ * Matches incoming payments from bank and PayPal statements to pending
+ * reservations. A line matches when its reference contains the reservation's
+ * payment reference (FP-XXXXXXXX, see generatePaymentReference) and the
+ * amount equals the amount due. Matched reservations are confirmed, all
+ * other lines are kept for manual review.
+ */
+
+import { DatabaseService } from '@/lib/database';
+import { InvalidStatusTransitionError } from '@/lib/reservation-status';
+import { calculateTotalCost, generatePaymentReference } from '@/config/payment';
+import type {
+  AdminActor,
+  PaymentImportSource,
+  PaymentMethod,
+  Reservation,
+  StatementLine,
+} from '@/types';
+import { parseStatement } from './statement-parsers';
+
+// Why a statement line was not matched automatically
+export type UnmatchedReason =
+  | 'no_reference'
+  | 'unknown_reference'
+  | 'ambiguous_reference'
+  | 'amount_mismatch'
+  | 'currency_mismatch';
+
+export type LineMatch =
+  | { matched: true; reservation: Reservation }
+  | { matched: false; reason: UnmatchedReason };
+
+export interface PaymentImportResult {
+  importId: string;
+  lines: number;
+  duplicates: number;
+  matched: number;
+  unmatched: number;
+}
+
+// Raised when a review line cannot be assigned to the chosen reservation
+export class PaymentAssignmentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PaymentAssignmentError';
+  }
+}
+
+// Banks sometimes drop the hyphen or insert spaces in the purpose text
+const REFERENCE_PATTERN = /FP[\s\-_.]*([0-9A-F]{8})(?![0-9A-F])/gi;
+
+export function extractPaymentReferences(text: string): string[] {
+  const references = Array.from(
+    text.matchAll(REFERENCE_PATTERN),
+    (match) => `FP-${match[1].toUpperCase()}`,
+  );
+  return [...new Set(references)];
+}
+
+export function amountDue(reservation: Reservation): number {
+  return calculateTotalCost(
+    reservation.deliveryMethod === 'shipping',
+    reservation.quantity,
+  );
+}
+
+export function matchStatementLine(
+  line: StatementLine,
+  reservationsByReference: Map<string, Reservation>,
+): LineMatch {
+  const references = extractPaymentReferences(line.reference);
+  if (references.length === 0) {
+    return { matched: false, reason: 'no_reference' };
+  }
+
+  const candidates = references
+    .map((reference) => reservationsByReference.get(reference))
+    .filter((reservation): reservation is Reservation => !!reservation);
+
+  if (candidates.length === 0) {
+    return { matched: false, reason: 'unknown_reference' };
+  }
+  // One transfer for several reservations needs a human to split it
+  if (candidates.length > 1) {
+    return { matched: false, reason: 'ambiguous_reference' };
+  }
+  if (line.currency !== 'EUR') {
+    return { matched: false, reason: 'currency_mismatch' };
+  }
+
+  const reservation = candidates[0];
+  if (Math.abs(line.amount - amountDue(reservation)) >= 0.005) {
+    return { matched: false, reason: 'amount_mismatch' };
+  }
+
+  return { matched: true, reservation };
+}
+
+function paymentMethodFor(source: PaymentImportSource): PaymentMethod {
+  return source === 'paypal_csv' ? 'paypal' : 'bank_transfer';
+}
+
+export async function importPaymentStatement(statement: {
+  source: PaymentImportSource;
+  content: string;
+  filename?: string;
+  importedBy: AdminActor;
+}): Promise<PaymentImportResult> {
+  const db = new DatabaseService();
+
+  // Throws StatementParseError before anything is stored
+  const parsedLines = parseStatement(statement.source, statement.content);
+
+  const importId = await db.createPaymentImport({
+    source: statement.source,
+    filename: statement.filename,
+    importedBy: statement.importedBy.changedBy,
+  });
+  const lines = await db.savePaymentImportLines(
+    importId,
+    statement.source,
+    parsedLines,
+  );
+
+  const reservationsByReference = new Map(
+    (await db.getPendingReservations()).map((reservation) => [
+      generatePaymentReference(reservation.id),
+      reservation,
+    ]),
+  );
+
+  const result: PaymentImportResult = {
+    importId,
+    lines: lines.length,
+    duplicates: parsedLines.length - lines.length,
+    matched: 0,
+    unmatched: 0,
+  };
+
+  for (const line of lines) {
+    const match = matchStatementLine(line, reservationsByReference);
+
+    if (!match.matched) {
+      await db.updatePaymentImportLine(line.id, {
+        status: 'unmatched',
+        reviewNote: match.reason,
+      });
+      result.unmatched++;
+      continue;
+    }
+
+    try {
+      // Matched automatically, but on behalf of the admin who imported
+      await confirmPayment(db, match.reservation, line, statement.source, {
+        changedBy: 'system',
+        processorId: statement.importedBy.processorId,
+        reason: `payment_import:${importId}`,
+      });
+      await db.updatePaymentImportLine(line.id, {
+        status: 'matched',
+        reservationId: match.reservation.id,
+      });
+      // A second transfer for the same reservation goes to review
+      reservationsByReference.delete(
+        generatePaymentReference(match.reservation.id),
+      );
+      result.matched++;
+    } catch (error) {
+      console.error(`Failed to confirm payment for line ${line.id}:`, error);
+      await db
+        .updatePaymentImportLine(line.id, {
+          status: 'unmatched',
+          reviewNote: 'confirmation_failed',
+        })
+        .catch((updateError) => {
+          console.error('Failed to update payment import line:', updateError);
+        });
+      result.unmatched++;
+    }
+  }
+
+  await db.completePaymentImport(importId, {
+    lineCount: result.lines,
+    matchedCount: result.matched,
+  });
+
+  return result;
+}
+
+// Assigns a line from the review list to a reservation chosen by an admin
+export async function assignPaymentImportLine(
+  lineId: string,
+  reservationId: string,
+  assignedBy: AdminActor,
+): Promise<void> {
+  const db = new DatabaseService();
+
+  const line = await db.getPaymentImportLine(lineId);
+  if (!line || line.status !== 'unmatched') {
+    throw new PaymentAssignmentError('Line is not waiting for review');
+  }
+
+  const details = await db.getReservationDetails(reservationId);
+  if (!details) {
+    throw new PaymentAssignmentError('Reservation not found');
+  }
+
+  try {
+    await confirmPayment(db, details.reservation, line, line.source, {
+      ...assignedBy,
+      reason: `payment_review:${lineId}`,
+    });
+  } catch (error) {
+    if (error instanceof InvalidStatusTransitionError) {
+      throw new PaymentAssignmentError(
+        `Reservation cannot be confirmed in status ${error.from}`,
+      );
+    }
+    throw error;
+  }
+
+  await db.updatePaymentImportLine(lineId, {
+    status: 'resolved',
+    reservationId,
+  });
+}
+
+async function confirmPayment(
+  db: DatabaseService,
+  reservation: Reservation,
+  line: StatementLine,
+  source: PaymentImportSource,
+  change: AdminActor & { reason: string },
+): Promise<void> {
+  // Already confirmed reservations only get the payment recorded
+  if (reservation.status !== 'confirmed') {
+    await db.transitionReservationStatus(reservation.id, 'confirmed', {
+      ...change,
+      legalBasis: 'contract',
+    });
+  }
+
+  await db.recordPayment(reservation.id, {
+    amountDue: amountDue(reservation),
+    amountReceived: line.amount,
+    method: paymentMethodFor(source),
+    paidAt: line.bookingDate,
+  });
+}
@@ -0,0 +1,380 @@
+/**
+ * Statement Parsers
+ *
+ * Turn bank statement exports (CAMT.053 XML or CSV) and PayPal activity
+ * downloads into incoming payment lines. Only credits are returned - outgoing
+ * payments and fees are of no interest for reconciliation.
+ */
+
+import { createHash } from 'node:crypto';
+import type { PaymentImportSource, StatementLine } from '@/types';
+
+// Raised when a file does not look like the selected export format
+export class StatementParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StatementParseError';
+  }
+}
+
+export function parseStatement(
+  source: PaymentImportSource,
+  content: string,
+): StatementLine[] {
+  switch (source) {
+    case 'camt053':
+      return parseCamt053(content);
+    case 'bank_csv':
+      return parseBankCsv(content);
+    case 'paypal_csv':
+      return parsePayPalCsv(content);
+  }
+}
+
+// =============================================================================
+// CAMT.053
+// =============================================================================
+
+export function parseCamt053(xml: string): StatementLine[] {
+  if (!/<(?:\w+:)?BkToCstmrStmt>/.test(xml)) {
+    throw new StatementParseError('Not a CAMT.053 bank statement');
+  }
+
+  const lines: StatementLine[] = [];
+  const entries = xml.match(/<(\w+:)?Ntry>[\s\S]*?<\/\1?Ntry>/g) || [];
+
+  for (const entry of entries) {
+    if (xmlText(entry, 'CdtDbtInd') !== 'CRDT') continue;
+    // Reversals of earlier credits are booked as credits with RvslInd
+    if (xmlText(entry, 'RvslInd') === 'true') continue;
+
+    const amountMatch = entry.match(
+      /<(?:\w+:)?Amt Ccy="([A-Z]{3})">([\d.]+)<\/(?:\w+:)?Amt>/,
+    );
+    const bookingDate = xmlText(entry, 'BookgDt');
+    if (!amountMatch || !bookingDate) continue;
+
+    const debtor = entry.match(
+      /<(?:\w+:)?Dbtr>[\s\S]*?<(?:\w+:)?Nm>([^<]*)<\/(?:\w+:)?Nm>/,
+    );
+    const reference = xmlTexts(entry, 'Ustrd').join(' ');
+    const amount = Number(amountMatch[2]);
+
+    lines.push({
+      externalId:
+        xmlText(entry, 'AcctSvcrRef') ||
+        xmlText(entry, 'NtryRef') ||
+        lineHash([bookingDate, String(amount), reference]),
+      bookingDate: bookingDate.slice(0, 10),
+      amount,
+      currency: amountMatch[1],
+      payerName: debtor ? decodeXml(debtor[1]).trim() : undefined,
+      reference,
+    });
+  }
+
+  return lines;
+}
+
+// Text of the first element with the given local name; nested elements
+// such as <BookgDt><Dt>...</Dt></BookgDt> yield the innermost text
+function xmlText(xml: string, tag: string): string | undefined {
+  const match = xml.match(
+    new RegExp(`<(?:\\w+:)?${tag}>([\\s\\S]*?)</(?:\\w+:)?${tag}>`),
+  );
+  if (!match) return undefined;
+  return decodeXml(match[1].replace(/<[^>]+>/g, '')).trim();
+}
+
+function xmlTexts(xml: string, tag: string): string[] {
+  const pattern = new RegExp(
+    `<(?:\\w+:)?${tag}>([\\s\\S]*?)</(?:\\w+:)?${tag}>`,
+    'g',
+  );
+  return Array.from(xml.matchAll(pattern), (match) =>
+    decodeXml(match[1]).trim(),
+  );
+}
+
+function decodeXml(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+// =============================================================================
+// CSV EXPORTS
+// =============================================================================
+
+// Column names used by common German banks (Sparkasse, Volksbank, DKB, ING)
+const BANK_COLUMNS = {
+  date: ['buchungstag', 'buchungsdatum', 'buchung', 'datum'],
+  amount: ['betrag', 'betrag (eur)', 'betrag (€)', 'umsatz', 'betrag in eur'],
+  currency: ['waehrung', 'währung'],
+  payerName: [
+    'beguenstigter/zahlungspflichtiger',
+    'name zahlungsbeteiligter',
+    'zahlungspflichtige*r',
+    'auftraggeber / begünstigter',
+    'auftraggeber/empfänger',
+    'auftraggeber',
+    'name',
+  ],
+};
+
+const PAYPAL_COLUMNS = {
+  date: ['datum', 'date'],
+  name: ['name'],
+  status: ['status'],
+  currency: ['währung', 'currency'],
+  gross: ['brutto', 'gross'],
+  transactionId: ['transaktionscode', 'transaction id'],
+  subject: ['betreff', 'subject'],
+  note: ['hinweis', 'note'],
+};
+
+const PAYPAL_COMPLETED = ['abgeschlossen', 'completed'];
+
+export function parseBankCsv(csv: string): StatementLine[] {
+  const { header, rows } = readCsv(csv, [
+    BANK_COLUMNS.date,
+    BANK_COLUMNS.amount,
+  ]);
+  const column = columnLookup(header);
+
+  const dateIndex = column(BANK_COLUMNS.date);
+  const amountIndex = column(BANK_COLUMNS.amount);
+  const currencyIndex = column(BANK_COLUMNS.currency);
+  const payerIndex = column(BANK_COLUMNS.payerName);
+  // Some banks split the purpose over "Verwendungszweck 1..n"
+  const referenceIndexes = header
+    .map((name, index) => (name.startsWith('verwendungszweck') ? index : -1))
+    .filter((index) => index >= 0);
+
+  const lines: StatementLine[] = [];
+  const seen = new Map<string, number>();
+
+  for (const row of rows) {
+    const amount = parseAmount(row[amountIndex]);
+    if (!(amount > 0)) continue;
+
+    const bookingDate = parseDate(row[dateIndex]);
+    if (!bookingDate) continue;
+
+    const payerName = payerIndex >= 0 ? row[payerIndex]?.trim() : undefined;
+    const reference = referenceIndexes
+      .map((index) => row[index]?.trim())
+      .filter(Boolean)
+      .join(' ');
+
+    // CSV exports carry no transaction id. Identical bookings on the same
+    // day are told apart by their position among each other.
+    const hash = lineHash([
+      bookingDate,
+      String(amount),
+      payerName || '',
+      reference,
+    ]);
+    const occurrence = (seen.get(hash) || 0) + 1;
+    seen.set(hash, occurrence);
+
+    lines.push({
+      externalId: `${hash}-${occurrence}`,
+      bookingDate,
+      amount,
+      currency: (currencyIndex >= 0 && row[currencyIndex]?.trim()) || 'EUR',
+      payerName: payerName || undefined,
+      reference,
+    });
+  }
+
+  return lines;
+}
+
+export function parsePayPalCsv(csv: string): StatementLine[] {
+  const { header, rows } = readCsv(csv, [
+    PAYPAL_COLUMNS.transactionId,
+    PAYPAL_COLUMNS.gross,
+  ]);
+  const column = columnLookup(header);
+
+  const dateIndex = column(PAYPAL_COLUMNS.date);
+  const nameIndex = column(PAYPAL_COLUMNS.name);
+  const statusIndex = column(PAYPAL_COLUMNS.status);
+  const currencyIndex = column(PAYPAL_COLUMNS.currency);
+  const grossIndex = column(PAYPAL_COLUMNS.gross);
+  const transactionIndex = column(PAYPAL_COLUMNS.transactionId);
+  const subjectIndex = column(PAYPAL_COLUMNS.subject);
+  const noteIndex = column(PAYPAL_COLUMNS.note);
+
+  const lines: StatementLine[] = [];
+
+  for (const row of rows) {
+    const status = row[statusIndex]?.trim().toLowerCase();
+    if (statusIndex >= 0 && !PAYPAL_COMPLETED.includes(status)) continue;
+
+    // The gross amount is what the family sent; PayPal fees are ours
+    const amount = parseAmount(row[grossIndex]);
+    if (!(amount > 0)) continue;
+
+    const bookingDate = parseDate(row[dateIndex]);
+    const externalId = row[transactionIndex]?.trim();
+    if (!bookingDate || !externalId) continue;
+
+    lines.push({
+      externalId,
+      bookingDate,
+      amount,
+      currency: row[currencyIndex]?.trim() || 'EUR',
+      payerName: row[nameIndex]?.trim() || undefined,
+      reference: [row[subjectIndex], row[noteIndex]]
+        .map((value) => value?.trim())
+        .filter(Boolean)
+        .join(' '),
+    });
+  }
+
+  return lines;
+}
+
+// Splits a CSV export into rows and finds the header row. Bank exports often
+// start with account information, so the header is the first row containing
+// all required columns.
+function readCsv(
+  csv: string,
+  requiredColumns: string[][],
+): { header: string[]; rows: string[][] } {
+  const text = csv.replace(/^\uFEFF/, '');
+  const rows = splitCsv(text, detectDelimiter(text));
+
+  const headerIndex = rows.findIndex((row) => {
+    const column = columnLookup(normalizeHeader(row));
+    return requiredColumns.every((names) => column(names) >= 0);
+  });
+
+  if (headerIndex < 0) {
+    throw new StatementParseError(
+      'CSV export does not contain the expected columns',
+    );
+  }
+
+  return {
+    header: normalizeHeader(rows[headerIndex]),
+    rows: rows.slice(headerIndex + 1),
+  };
+}
+
+function normalizeHeader(row: string[]): string[] {
+  return row.map((name) => name.trim().toLowerCase());
+}
+
+// Index of the first header matching one of the names, in order of preference
+function columnLookup(header: string[]) {
+  return (names: string[]): number => {
+    for (const name of names) {
+      const index = header.indexOf(name);
+      if (index >= 0) return index;
+    }
+    return -1;
+  };
+}
+
+function detectDelimiter(text: string): string {
+  const sample = text.split('\n').slice(0, 20).join('\n');
+  const counts = [';', ',', '\t'].map((delimiter) => ({
+    delimiter,
+    count: sample.split(delimiter).length,
+  }));
+  counts.sort((a, b) => b.count - a.count);
+  return counts[0].delimiter;
+}
+
+function splitCsv(text: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      if (row.some((value) => value.trim() !== '')) rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  row.push(field);
+  if (row.some((value) => value.trim() !== '')) rows.push(row);
+
+  return rows;
+}
+
+// Accepts "1.234,56", "-12,50", "12.50" and "€ 5,99"
+export function parseAmount(value: string | undefined): number {
+  if (!value) return NaN;
+
+  let normalized = value.replace(/[^\d,.-]/g, '');
+  const lastComma = normalized.lastIndexOf(',');
+  const lastDot = normalized.lastIndexOf('.');
+
+  if (lastComma > lastDot) {
+    // Decimal comma, dots are thousands separators
+    normalized = normalized.replace(/\./g, '').replace(',', '.');
+  } else {
+    normalized = normalized.replace(/,/g, '');
+  }
+
+  return Math.round(parseFloat(normalized) * 100) / 100;
+}
+
+// Accepts "31.12.2024", "31.12.24", "2024-12-31" and "12/31/2024" (PayPal, en)
+export function parseDate(value: string | undefined): string | undefined {
+  const text = value?.trim();
+  if (!text) return undefined;
+
+  let match = text.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (match) return `${match[1]}-${match[2]}-${match[3]}`;
+
+  match = text.match(/^(\d{1,2})\.(\d{1,2})\.(\d{2}|\d{4})$/);
+  if (match) {
+    const year = match[3].length === 2 ? `20${match[3]}` : match[3];
+    return `${year}-${match[2].padStart(2, '0')}-${match[1].padStart(2, '0')}`;
+  }
+
+  match = text.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  if (match) {
+    return `${match[3]}-${match[1].padStart(2, '0')}-${match[2].padStart(2, '0')}`;
+  }
+
+  return undefined;
+}
+
+function lineHash(parts: string[]): string {
+  return createHash('sha256')
+    .update(parts.join('|'))
+    .digest('hex')
+    .slice(0, 32);
+}
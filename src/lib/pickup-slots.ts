@@ -0,0 +1,58 @@
+/**
+ * Pickup Slots
+ *
+ * Families who collect their magazine book one of the pickup windows the
+ * Elternbeirat sets up in the dashboard. The database trigger in
+ * pickup-slots.sql enforces the capacity; these helpers only decide what
+ * the form offers and how a slot is written in emails.
+ */
+
+import type { PickupSlot } from '@/types';
+
+const TIME_ZONE = 'Europe/Berlin';
+
+/**
+ * Places left for further families
+ */
+export function remainingCapacity(slot: PickupSlot): number {
+  return Math.max(0, slot.capacity - (slot.bookedFamilies ?? 0));
+}
+
+/**
+ * Whether families can still book the slot: active and not started yet
+ */
+export function isPickupSlotOpen(
+  slot: PickupSlot,
+  now: Date = new Date(),
+): boolean {
+  return slot.isActive && new Date(slot.startsAt) > now;
+}
+
+/**
+ * Calendar date (YYYY-MM-DD) in the Kita's time zone, as stored in
+ * reservations.pickup_date
+ */
+export function toPickupDate(date: Date): string {
+  return new Intl.DateTimeFormat('en-CA', { timeZone: TIME_ZONE }).format(date);
+}
+
+// e.g. "Donnerstag, 12.03.2026, 14:00–16:00 Uhr"
+export function formatPickupSlot(
+  slot: Pick<PickupSlot, 'startsAt' | 'endsAt'>,
+): string {
+  const date = new Date(slot.startsAt).toLocaleDateString('de-DE', {
+    weekday: 'long',
+    day: '2-digit',
+    month: '2-digit',
+    year: 'numeric',
+    timeZone: TIME_ZONE,
+  });
+  const time = (value: string) =>
+    new Date(value).toLocaleTimeString('de-DE', {
+      hour: '2-digit',
+      minute: '2-digit',
+      timeZone: TIME_ZONE,
+    });
+
+  return `${date}, ${time(slot.startsAt)}–${time(slot.endsAt)} Uhr`;
+}
@@ -2,68 +2,158 @@
  * Picture Claims Service
  *
  * Handles validation and tracking of free picture orders
- * Ensures each family can only claim one group picture and one Vorschüler picture
+ * Ensures each child on the group's roster gets one group picture and, as a
+ * Vorschüler, one Vorschüler picture, so siblings in the same group each get
+ * their own. Groups without a roster allow one of each per family.
  */
 
 import { createServerSupabaseClient } from './supabase';
-import type { PictureClaim } from '@/types';
+import { DatabaseService } from './database';
+import { normalizeChildName } from './reservation-children';
+import type {
+  AdminActor,
+  KindergartenGroup,
+  PictureClaim,
+  ReservationChildInput,
+} from '@/types';
+
+// Answer when a family orders a free picture it already claimed
+export function pictureAlreadyClaimedMessage(
+  pictureType: PictureClaim['pictureType'],
+  groupName?: string,
+  childName?: string,
+): string {
+  const picture = pictureType === 'group' ? 'Gruppenbild' : 'Vorschüler-Bild';
+  const child = childName ? ` für ${childName}` : '';
+  const group = groupName ? ` der Gruppe "${groupName}"` : '';
+  return (
+    `Sie haben${child} bereits ein ${picture}${group} bestellt. ` +
+    `Pro Kind ist nur ein ${picture} erlaubt.`
+  );
+}
+
+// Answer when a group without a roster already has the family's picture
+export function pictureFamilyLimitMessage(
+  pictureType: PictureClaim['pictureType'],
+  groupName: string,
+): string {
+  const picture = pictureType === 'group' ? 'Gruppenbild' : 'Vorschüler-Bild';
+  return (
+    `Sie haben bereits ein ${picture} der Gruppe "${groupName}" bestellt. ` +
+    `Solange die Gruppe keine Kinderliste hat, ist pro Familie nur ein ${picture} erlaubt.`
+  );
+}
+
+// Answer when the roster of the group does not list the child
+export function pictureChildNotListedMessage(
+  pictureType: PictureClaim['pictureType'],
+  groupName: string,
+  childName?: string,
+): string {
+  const child = childName || 'Ihr Kind';
+  const listed = pictureType === 'vorschul' ? 'als Vorschüler ' : '';
+  return (
+    `${child} ist in der Gruppe "${groupName}" nicht ${listed}eingetragen. ` +
+    'Bitte wenden Sie sich an den Elternbeirat, falls das nicht stimmt.'
+  );
+}
+
+const hasRoster = (group: Pick<KindergartenGroup, 'children'>) =>
+  !!group.children && group.children.length > 0;
+
+// Child of the group's roster, matched by name ignoring case and spacing
+const findRosterChild = (
+  group: Pick<KindergartenGroup, 'children'>,
+  childName: string,
+) =>
+  group.children?.find(
+    (entry) => normalizeChildName(entry.name) === normalizeChildName(childName),
+  );
+
+/**
+ * Whether the roster lets the child order the Vorschüler picture. Groups
+ * without a list of children rely on what the parents declare.
+ */
+export function isRosterVorschueler(
+  group: Pick<KindergartenGroup, 'children'>,
+  childName: string,
+): boolean {
+  if (!hasRoster(group)) return true;
+  return findRosterChild(group, childName)?.isVorschueler ?? false;
+}
+
+const mapClaimFromDB = (data: any): PictureClaim => ({
+  id: data.id,
+  familyEmail: data.family_email,
+  groupName: data.group_name,
+  pictureType: data.picture_type,
+  childName: data.child_name,
+  claimedAt: data.claimed_at,
+  reservationId: data.reservation_id,
+  childId: data.child_id || undefined,
+});
+
+export type PictureClaimCheck = Pick<
+  PictureClaim,
+  'groupName' | 'pictureType' | 'childName'
+>;
+
+// Answers a check against claims loaded before
+const isClaimed = (claims: PictureClaimCheck[], check: PictureClaimCheck) =>
+  claims.some(
+    (claim) =>
+      claim.groupName === check.groupName &&
+      claim.pictureType === check.pictureType &&
+      normalizeChildName(claim.childName) ===
+        normalizeChildName(check.childName),
+  );
+
+// Same, for groups without a roster: any child's claim counts
+const isClaimedByFamily = (
+  claims: PictureClaimCheck[],
+  check: PictureClaimCheck,
+) =>
+  claims.some(
+    (claim) =>
+      claim.groupName === check.groupName &&
+      claim.pictureType === check.pictureType,
+  );
 
 export class PictureClaimsService {
   private supabase = createServerSupabaseClient();
   /**
-   * Check if a family has already claimed a picture
+   * Check if a family has already claimed a picture for the child
    */
   async hasExistingClaim(
     email: string,
     groupName: string,
-    pictureType: 'group' | 'vorschul',
+    pictureType: PictureClaim['pictureType'],
+    childName: string,
   ): Promise<boolean> {
-    try {
-      const { data, error } = await this.supabase
-        .from('picture_claims')
-        .select('id')
-        .eq('family_email', email.toLowerCase())
-        .eq('group_name', groupName)
-        .eq('picture_type', pictureType)
-        .single();
-
-      if (error && error.code !== 'PGRST116') {
-        // PGRST116 = no rows found
-        throw error;
-      }
-
-      return !!data;
-    } catch (error) {
-      console.error('Error checking picture claim:', error);
-      throw new Error('Fehler beim Überprüfen der Bildbestellung');
-    }
+    return isClaimed(await this.getFamilyClaims(email), {
+      groupName,
+      pictureType,
+      childName,
+    });
   }
 
   /**
-   * Check multiple claims at once
+   * Check multiple claims at once, keyed by
+   * `${groupName}-${childName}-${pictureType}`. The family's claims are
+   * loaded with a single query.
    */
   async checkMultipleClaims(
     email: string,
-    claims: Array<{ groupName: string; pictureType: 'group' | 'vorschul' }>,
+    claims: PictureClaimCheck[],
   ): Promise<Map<string, boolean>> {
-    const results = new Map<string, boolean>();
+    const existing = await this.getFamilyClaims(email);
 
-    try {
-      for (const claim of claims) {
-        const key = `${claim.groupName}-${claim.pictureType}`;
-        const hasClaim = await this.hasExistingClaim(
-          email,
-          claim.groupName,
-          claim.pictureType,
-        );
-        results.set(key, hasClaim);
-      }
-
-      return results;
-    } catch (error) {
-      console.error('Error checking multiple claims:', error);
-      throw new Error('Fehler beim Überprüfen der Bildbestellungen');
-    }
+    return new Map(
+      claims.map((claim) => [
+        `${claim.groupName}-${claim.childName}-${claim.pictureType}`,
+        isClaimed(existing, claim),
+      ]),
+    );
   }
 
   /**
@@ -78,12 +168,16 @@ export class PictureClaimsService {
   ): Promise<PictureClaim> {
     try {
       // First check if claim already exists
-      const exists = await this.hasExistingClaim(email, groupName, pictureType);
+      const exists = await this.hasExistingClaim(
+        email,
+        groupName,
+        pictureType,
+        childName,
+      );
 
       if (exists) {
         throw new Error(
-          `Sie haben bereits ein ${pictureType === 'group' ? 'Gruppenbild' : 'Vorschüler-Bild'} ` +
-            `für die Gruppe ${groupName} bestellt.`,
+          pictureAlreadyClaimedMessage(pictureType, groupName, childName),
         );
       }
 
@@ -104,8 +198,7 @@ export class PictureClaimsService {
         if (error.code === '23505') {
           // Unique constraint violation
           throw new Error(
-            `Sie haben bereits ein ${pictureType === 'group' ? 'Gruppenbild' : 'Vorschüler-Bild'} ` +
-              `für die Gruppe ${groupName} bestellt.`,
+            pictureAlreadyClaimedMessage(pictureType, groupName, childName),
           );
         }
         throw error;
@@ -136,13 +229,51 @@ export class PictureClaimsService {
         throw error;
       }
 
-      return (data || []) as PictureClaim[];
+      return (data || []).map(mapClaimFromDB);
     } catch (error) {
       console.error('Error fetching family claims:', error);
       throw new Error('Fehler beim Abrufen der Bildbestellungen');
     }
   }
 
+  /**
+   * Get the claims of all families, for the order at the print shop.
+   * Cancelled and expired reservations have released theirs already.
+   */
+  async getAllClaims(accessedBy: AdminActor): Promise<PictureClaim[]> {
+    try {
+      const { data, error } = await this.supabase
+        .from('picture_claims')
+        .select('*')
+        .order('group_name', { ascending: true })
+        .order('child_name', { ascending: true });
+
+      if (error) {
+        throw error;
+      }
+
+      const claims = (data || []).map(mapClaimFromDB);
+
+      // The report lists the children's names and groups
+      await new DatabaseService().logDataProcessing({
+        action: 'accessed',
+        dataType: 'reservation',
+        legalBasis: 'contract',
+        processorId: accessedBy.processorId,
+        details: JSON.stringify({
+          accessedBy: accessedBy.changedBy,
+          report: 'picture_orders',
+          count: claims.length,
+        }),
+      });
+
+      return claims;
+    } catch (error) {
+      console.error('Error fetching picture claims:', error);
+      throw new Error('Fehler beim Abrufen der Bildbestellungen');
+    }
+  }
+
   /**
    * Delete a claim (for cancellations)
    */
@@ -163,50 +294,95 @@ export class PictureClaimsService {
   }
 
   /**
-   * Validate picture order before submission
+   * Validate the picture orders of all children before submission
    */
   async validatePictureOrder(
     email: string,
-    orderGroupPicture: boolean,
-    groupName: string | undefined,
-    orderVorschulPicture: boolean,
-    childIsVorschueler: boolean,
+    children: ReservationChildInput[],
   ): Promise<{ valid: boolean; errors: string[] }> {
     const errors: string[] = [];
 
     try {
-      // Check group picture claim
-      if (orderGroupPicture && groupName) {
-        const hasGroupClaim = await this.hasExistingClaim(
-          email,
-          groupName,
-          'group',
-        );
-        if (hasGroupClaim) {
+      // Only the groups of the current kindergarten year can be chosen
+      const [groups, claims] = await Promise.all([
+        new DatabaseService().getCurrentKindergartenGroups({
+          withChildren: true,
+        }),
+        this.getFamilyClaims(email),
+      ]);
+
+      // Names typed in by the family only tell children apart when the
+      // group's roster lists them. Groups without one keep a single picture
+      // of each kind per family, or any made-up name would get another.
+      const taken: PictureClaimCheck[] = [...claims];
+
+      for (const child of children) {
+        const group = groups.find((entry) => entry.name === child.groupName);
+        if (!group) {
           errors.push(
-            `Sie haben bereits ein Gruppenbild für die Gruppe "${groupName}" bestellt. ` +
-              'Pro Familie ist nur ein Gruppenbild pro Gruppe erlaubt.',
+            `Die Gruppe "${child.groupName}" ist nicht bekannt. Bitte wählen Sie die Gruppe Ihres Kindes aus der Liste.`,
           );
+          continue;
         }
-      }
 
-      // Check Vorschüler picture claim
-      if (orderVorschulPicture && groupName) {
-        if (!childIsVorschueler) {
-          errors.push(
-            'Um ein Vorschüler-Bild zu bestellen, muss Ihr Kind als Vorschüler markiert sein.',
-          );
-        } else {
-          const hasVorschulClaim = await this.hasExistingClaim(
-            email,
-            groupName,
-            'vorschul',
-          );
-          if (hasVorschulClaim) {
+        const rostered = hasRoster(group);
+        const pictures: PictureClaim['pictureType'][] = [];
+
+        // Check group picture claim
+        if (child.orderGroupPicture) {
+          if (rostered && !findRosterChild(group, child.name)) {
+            errors.push(
+              pictureChildNotListedMessage(
+                'group',
+                child.groupName,
+                child.name,
+              ),
+            );
+          } else {
+            pictures.push('group');
+          }
+        }
+
+        // Check Vorschüler picture claim
+        if (child.orderVorschulPicture) {
+          if (!child.isVorschueler) {
+            errors.push(
+              'Um ein Vorschüler-Bild zu bestellen, muss Ihr Kind als Vorschüler markiert sein.',
+            );
+          } else if (!isRosterVorschueler(group, child.name)) {
+            errors.push(
+              pictureChildNotListedMessage(
+                'vorschul',
+                child.groupName,
+                child.name,
+              ),
+            );
+          } else {
+            pictures.push('vorschul');
+          }
+        }
+
+        for (const pictureType of pictures) {
+          const check = {
+            groupName: child.groupName,
+            pictureType,
+            childName: child.name,
+          };
+
+          if (rostered && isClaimed(taken, check)) {
+            errors.push(
+              pictureAlreadyClaimedMessage(
+                pictureType,
+                child.groupName,
+                child.name,
+              ),
+            );
+          } else if (!rostered && isClaimedByFamily(taken, check)) {
             errors.push(
-              `Sie haben bereits ein Vorschüler-Bild für die Gruppe "${groupName}" bestellt. ` +
-                'Pro Familie ist nur ein Vorschüler-Bild pro Gruppe erlaubt.',
+              pictureFamilyLimitMessage(pictureType, child.groupName),
             );
+          } else {
+            taken.push(check);
           }
         }
       }
@@ -0,0 +1,64 @@
+/**
+ * Rate Limiting
+ *
+ * Simple in-memory counters per client address or account. Each serverless
+ * instance keeps its own counters, which is enough to slow down scripted
+ * requests against the public forms and the dashboard login.
+ */
+
+export interface RateLimit {
+  // Counts a request; false once the key went over the limit of the window
+  check(key: string): boolean;
+  // Whether the key used up the limit of the window, without counting
+  isLimited(key: string): boolean;
+  // Counts a request without checking it, e.g. a failed login
+  record(key: string): void;
+  // Forgets the requests of the key, e.g. after a successful login
+  reset(key: string): void;
+}
+
+// The window starts with the first request of a key and has a fixed end, so
+// requests refused in between do not keep the key locked out
+export function createRateLimit(options: {
+  windowMs: number;
+  max: number;
+}): RateLimit {
+  const counters = new Map<string, { count: number; windowStart: number }>();
+
+  const counter = (key: string) => {
+    const now = Date.now();
+    const clientData = counters.get(key);
+
+    if (!clientData || now - clientData.windowStart >= options.windowMs) {
+      const fresh = { count: 0, windowStart: now };
+      counters.set(key, fresh);
+      return fresh;
+    }
+    return clientData;
+  };
+
+  return {
+    check(key) {
+      const clientData = counter(key);
+      clientData.count++;
+      return clientData.count <= options.max;
+    },
+    isLimited(key) {
+      return counter(key).count >= options.max;
+    },
+    record(key) {
+      counter(key).count++;
+    },
+    reset(key) {
+      counters.delete(key);
+    },
+  };
+}
+
+// x-forwarded-for can contain multiple IPs, the first one is the client
+export function getClientIp(request: Request): string {
+  const forwardedFor = request.headers.get('x-forwarded-for');
+  return forwardedFor
+    ? forwardedFor.split(',')[0].trim()
+    : request.headers.get('x-real-ip') || 'unknown';
+}
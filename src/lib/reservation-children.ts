@@ -0,0 +1,51 @@
+/**
+ * Reservation Children
+ *
+ * A reservation lists the children of the family, each with their group and
+ * the free pictures ordered for them. Reservations made before children had
+ * their own rows carry a single child in the reservation itself.
+ */
+
+import type { Reservation, ReservationChildInput } from '@/types';
+
+/**
+ * The children of a reservation, falling back to the child stored with
+ * older reservations
+ */
+export function reservationChildren(
+  reservation: Reservation,
+): ReservationChildInput[] {
+  if (reservation.children && reservation.children.length > 0) {
+    return reservation.children;
+  }
+
+  if (
+    !reservation.childName &&
+    !reservation.orderGroupPicture &&
+    !reservation.orderVorschulPicture
+  ) {
+    return [];
+  }
+
+  return [
+    {
+      name: reservation.childName || '',
+      groupName: reservation.childGroupName || '',
+      isVorschueler: reservation.childIsVorschueler || false,
+      orderGroupPicture: reservation.orderGroupPicture || false,
+      orderVorschulPicture: reservation.orderVorschulPicture || false,
+    },
+  ];
+}
+
+// Names as parents type them: case and spacing do not matter. Free pictures
+// are claimed per child, told apart by this name (picture-claims-per-child.sql).
+export const normalizeChildName = (name: string) =>
+  name.trim().replace(/\s+/g, ' ').toLocaleLowerCase('de');
+
+// Whether any free picture was ordered with the reservation
+export function hasPictureOrder(reservation: Reservation): boolean {
+  return reservationChildren(reservation).some(
+    (child) => child.orderGroupPicture || child.orderVorschulPicture,
+  );
+}
@@ -0,0 +1,75 @@
+/**
+ * Reservation Status Transitions
+ *
+ * Single source of truth for how a reservation moves between statuses.
+ * DatabaseService.transitionReservationStatus enforces these rules for
+ * every status change, whether it comes from a parent, an admin or a job.
+ */
+
+import type { ReservationStatus } from '@/types';
+
+// Allowed moves per status. Final statuses have no outgoing transitions.
+export const RESERVATION_TRANSITIONS: Record<
+  ReservationStatus,
+  readonly ReservationStatus[]
+> = {
+  pending: ['confirmed', 'cancelled', 'expired'], // paid, withdrawn, deadline passed
+  confirmed: ['completed', 'cancelled'], // picked up / shipped, withdrawn
+  completed: [],
+  cancelled: [],
+  expired: [],
+};
+
+// Statuses in which a reservation still holds copies of the magazine
+export const ACTIVE_RESERVATION_STATUSES: readonly ReservationStatus[] = [
+  'pending',
+  'confirmed',
+];
+
+export class InvalidStatusTransitionError extends Error {
+  from: ReservationStatus;
+  to: ReservationStatus;
+
+  constructor(from: ReservationStatus, to: ReservationStatus) {
+    super(`Invalid reservation status transition: ${from} -> ${to}`);
+    this.name = 'InvalidStatusTransitionError';
+    this.from = from;
+    this.to = to;
+  }
+}
+
+/**
+ * Check whether a reservation may move from one status to another
+ */
+export function canTransition(
+  from: ReservationStatus,
+  to: ReservationStatus,
+): boolean {
+  return RESERVATION_TRANSITIONS[from]?.includes(to) ?? false;
+}
+
+/**
+ * Throw InvalidStatusTransitionError unless the move is allowed
+ */
+export function assertTransition(
+  from: ReservationStatus,
+  to: ReservationStatus,
+): void {
+  if (!canTransition(from, to)) {
+    throw new InvalidStatusTransitionError(from, to);
+  }
+}
+
+/**
+ * Whether a transition gives the reserved copies back to the stock
+ */
+export function releasesCopies(
+  from: ReservationStatus,
+  to: ReservationStatus,
+): boolean {
+  return (
+    ACTIVE_RESERVATION_STATUSES.includes(from) &&
+    !ACTIVE_RESERVATION_STATUSES.includes(to) &&
+    to !== 'completed'
+  );
+}
@@ -0,0 +1,99 @@
+/**
+ * Magazine Validation Schema
+ *
+ * Server-side zod schema for the issues managed in the dashboard. Edits are
+ * merged into the stored issue first and checked as a whole, like
+ * reservation updates.
+ */
+
+import { z } from 'zod';
+
+const optionalText = (max: number, message: string) =>
+  z
+    .string()
+    .trim()
+    .max(max, message)
+    .nullable()
+    .optional()
+    .transform((val) => val || null);
+
+const optionalTimestamp = z
+  .string()
+  .datetime({ offset: true, message: 'Ungültiger Zeitpunkt' })
+  .nullable()
+  .optional()
+  .transform((val) => val || null);
+
+export const magazineSchema = z
+  .object({
+    title: z
+      .string()
+      .trim()
+      .min(1, 'Bitte geben Sie einen Titel ein')
+      .max(255, 'Titel ist zu lang'),
+    issueNumber: z
+      .string()
+      .trim()
+      .min(1, 'Bitte geben Sie die Ausgabe an')
+      .max(50, 'Ausgabe ist zu lang'),
+    publishDate: z.string().date('Ungültiges Erscheinungsdatum'),
+    description: optionalText(2000, 'Beschreibung ist zu lang'),
+    totalCopies: z
+      .number()
+      .int()
+      .min(0, 'Die Auflage kann nicht negativ sein')
+      .max(10000, 'Die Auflage ist zu groß'),
+    isActive: z.boolean().default(true),
+    reservationsOpenAt: optionalTimestamp,
+    reservationsCloseAt: optionalTimestamp,
+    copiesPerFamily: z
+      .number()
+      .int()
+      .min(1, 'Mindestens 1 Exemplar pro Familie')
+      .max(5, 'Maximal 5 Exemplare pro Familie')
+      .nullable()
+      .optional()
+      .transform((val) => val ?? null),
+    contents: z
+      .array(z.string().trim().min(1).max(300, 'Inhaltspunkt ist zu lang'))
+      .max(30, 'Maximal 30 Inhaltspunkte')
+      .default([]),
+    pageCount: z
+      .number()
+      .int()
+      .min(1, 'Ungültige Seitenzahl')
+      .max(1000, 'Ungültige Seitenzahl')
+      .nullable()
+      .optional()
+      .transform((val) => val ?? null),
+    format: optionalText(50, 'Format ist zu lang'),
+    paperWeight: optionalText(50, 'Papierangabe ist zu lang'),
+  })
+  .refine(
+    (magazine) =>
+      !magazine.reservationsOpenAt ||
+      !magazine.reservationsCloseAt ||
+      new Date(magazine.reservationsCloseAt) >
+        new Date(magazine.reservationsOpenAt),
+    {
+      message: 'Der Reservierungsschluss muss nach dem Start liegen',
+      path: ['reservationsCloseAt'],
+    },
+  );
+
+// Exception from the per-family limit of an issue, e.g. for a family with
+// children in several classes
+export const familyReservationLimitSchema = z.object({
+  familyEmail: z
+    .string()
+    .email('Bitte geben Sie eine gültige E-Mail-Adresse ein')
+    .max(254, 'E-Mail-Adresse ist zu lang')
+    .toLowerCase()
+    .trim(),
+  copiesPerFamily: z
+    .number()
+    .int()
+    .min(1, 'Mindestens 1 Exemplar pro Familie')
+    .max(20, 'Maximal 20 Exemplare pro Familie'),
+  reason: optionalText(500, 'Begründung ist zu lang'),
+});
@@ -0,0 +1,275 @@
+/**
+ * Reservation Validation Schemas
+ *
+ * Server-side zod schemas for the reservation endpoints. Creating a
+ * reservation and editing it later run the same delivery rules.
+ */
+
+import { z } from 'zod';
+import { normalizeChildName } from '@/lib/reservation-children';
+
+// Address validation schema - fields are validated conditionally based on delivery method
+export const addressSchema = z
+  .object({
+    street: z.string().max(200, 'Straße ist zu lang').trim().optional(),
+    houseNumber: z.string().max(20, 'Hausnummer ist zu lang').trim().optional(),
+    postalCode: z
+      .string()
+      .max(20, 'Postleitzahl ist zu lang')
+      .trim()
+      .optional(),
+    city: z.string().max(100, 'Stadt ist zu lang').trim().optional(),
+    country: z
+      .enum(['DE', 'AT', 'CH'], {
+        message:
+          'Wir liefern nur nach Deutschland, Österreich und in die Schweiz',
+      })
+      .optional(),
+    addressLine2: z
+      .string()
+      .max(200, 'Adresszusatz ist zu lang')
+      .optional()
+      .transform((val) => val?.trim() || undefined),
+  })
+  .optional();
+
+// Delivery fields - validated on creation and when a reservation is edited
+const deliveryFields = {
+  deliveryMethod: z.enum(['pickup', 'shipping'], {
+    message: 'Ungültige Liefermethode',
+  }),
+  pickupLocation: z.string().max(200, 'Abholort ist zu lang').optional(),
+  pickupDate: z
+    .string()
+    .optional()
+    .refine((date) => {
+      if (!date) return true;
+      const pickupDate = new Date(date);
+      const tomorrow = new Date();
+      tomorrow.setDate(tomorrow.getDate() + 1);
+      return pickupDate >= tomorrow;
+    }, 'Abholdatum muss mindestens einen Tag in der Zukunft liegen'),
+  // Location and date follow from the slot, see pickup-slots.sql
+  pickupSlotId: z.string().uuid('Ungültiger Abholtermin').optional(),
+  address: addressSchema,
+};
+
+interface DeliveryData {
+  deliveryMethod: 'pickup' | 'shipping';
+  pickupLocation?: string;
+  pickupDate?: string;
+  pickupSlotId?: string;
+  address?: z.infer<typeof addressSchema>;
+}
+
+// New pickup reservations book a slot; older ones only carry a location
+const hasPickupSlot = (data: DeliveryData) =>
+  data.deliveryMethod !== 'pickup' || !!data.pickupSlotId;
+
+const hasCompleteAddress = (data: DeliveryData) => {
+  // If shipping method, validate all address fields are present
+  if (data.deliveryMethod === 'shipping') {
+    if (!data.address) return false;
+
+    const hasStreet =
+      data.address.street && data.address.street.trim().length > 0;
+    const hasHouseNumber =
+      data.address.houseNumber && data.address.houseNumber.trim().length > 0;
+    const hasPostalCode =
+      data.address.postalCode && data.address.postalCode.trim().length >= 4;
+    const hasCity = data.address.city && data.address.city.trim().length > 0;
+    const hasCountry =
+      data.address.country && data.address.country.length === 2;
+
+    return (
+      hasStreet && hasHouseNumber && hasPostalCode && hasCity && hasCountry
+    );
+  }
+  return true;
+};
+
+const pickupSlotIssue = {
+  message: 'Bitte wählen Sie einen Abholtermin',
+  path: ['pickupSlotId'],
+};
+
+const addressIssue = {
+  message: 'Alle Adressfelder sind bei Versand erforderlich',
+  path: ['address'],
+};
+
+// Who reserves - shared with the waitlist
+const contactFields = {
+  firstName: z
+    .string()
+    .min(2, 'Vorname muss mindestens 2 Zeichen lang sein')
+    .max(100, 'Vorname darf maximal 100 Zeichen lang sein')
+    .trim(),
+  lastName: z
+    .string()
+    .min(2, 'Nachname muss mindestens 2 Zeichen lang sein')
+    .max(100, 'Nachname darf maximal 100 Zeichen lang sein')
+    .trim(),
+  email: z
+    .string()
+    .email('Bitte geben Sie eine gültige E-Mail-Adresse ein')
+    .max(254, 'E-Mail-Adresse ist zu lang')
+    .toLowerCase()
+    .trim(),
+};
+
+// Which issue and how many copies - shared with the waitlist
+const issueFields = {
+  magazineId: z
+    .string()
+    .min(1, 'Bitte wählen Sie eine Magazin-Ausgabe')
+    .uuid('Ungültige Magazin-ID'),
+  quantity: z
+    .number()
+    .int('Anzahl muss eine ganze Zahl sein')
+    .min(1, 'Mindestens 1 Exemplar erforderlich')
+    .max(5, 'Maximal 5 Exemplare pro Reservierung'),
+};
+
+// A child of the family and the free pictures ordered for them
+const childSchema = z
+  .object({
+    name: z
+      .string()
+      .trim()
+      .min(1, 'Bitte geben Sie den Namen des Kindes ein')
+      .max(200, 'Name des Kindes ist zu lang'),
+    groupName: z
+      .string()
+      .trim()
+      .min(1, 'Bitte wählen Sie die Gruppe des Kindes')
+      .max(100, 'Gruppenname ist zu lang'),
+    isVorschueler: z.boolean().default(false),
+    orderGroupPicture: z.boolean().default(false),
+    orderVorschulPicture: z.boolean().default(false),
+  })
+  .refine((child) => child.orderGroupPicture || child.orderVorschulPicture, {
+    message: 'Bitte wählen Sie mindestens ein Bild für das Kind',
+    path: ['orderGroupPicture'],
+  })
+  .refine((child) => !child.orderVorschulPicture || child.isVorschueler, {
+    message:
+      'Für die Vorschüler-Bildbestellung muss das Kind als Vorschüler markiert sein',
+    path: ['orderVorschulPicture'],
+  });
+
+const consentsSchema = z.object({
+  essential: z
+    .boolean()
+    .refine(
+      (val) => val === true,
+      'Erforderliche Einwilligung muss erteilt werden',
+    ),
+  functional: z.boolean(),
+  analytics: z.boolean(),
+  marketing: z.boolean(),
+});
+
+// Validation schema for reservation data
+export const reservationSchema = z
+  .object({
+    ...contactFields,
+    phone: z
+      .string()
+      .transform((val) => val.replace(/[\s\-()]/g, '')) // Remove spaces, dashes, and parentheses
+      .refine(
+        (val) => !val || /^\+?[1-9]\d{1,14}$/.test(val),
+        'Bitte geben Sie eine gültige Telefonnummer ein',
+      )
+      .optional()
+      .or(z.literal(''))
+      .transform((val) => (val === '' ? undefined : val)),
+    ...issueFields,
+    ...deliveryFields,
+    // Only used for shipping - pickup is paid in cash
+    paymentMethod: z
+      .enum(['paypal', 'bank_transfer'], {
+        message: 'Ungültige Zahlungsart',
+      })
+      .optional()
+      .or(z.literal(''))
+      .transform((val) => (val === '' ? undefined : val)),
+    notes: z
+      .string()
+      .max(500, 'Anmerkungen dürfen maximal 500 Zeichen lang sein')
+      .optional()
+      .transform((val) => val?.trim() || undefined),
+    consents: consentsSchema,
+    // Children the family orders free pictures for
+    children: z
+      .array(childSchema)
+      .max(5, 'Maximal 5 Kinder pro Reservierung')
+      .default([]),
+    // Claim link of a waitlist offer, checked by the API
+    waitlistToken: z.string().max(1000).optional(),
+  })
+  .refine(hasPickupSlot, pickupSlotIssue)
+  .refine(hasCompleteAddress, addressIssue)
+  // One group and one Vorschüler picture per child, see
+  // picture-claims-per-child.sql. Siblings in the same group order their own.
+  .superRefine((data, ctx) => {
+    const ordered = new Set<string>();
+    data.children.forEach((child, index) => {
+      const pictures = [
+        child.orderGroupPicture && 'Gruppenbild',
+        child.orderVorschulPicture && 'Vorschüler-Bild',
+      ].filter((picture): picture is string => !!picture);
+
+      for (const picture of pictures) {
+        const key = `${child.groupName}/${normalizeChildName(child.name)}/${picture}`;
+        if (ordered.has(key)) {
+          ctx.addIssue({
+            code: 'custom',
+            message: `Pro Kind ist nur ein ${picture} erlaubt`,
+            path: ['children', index, 'name'],
+          });
+        }
+        ordered.add(key);
+      }
+    });
+  });
+
+// Delivery of the reservation before the change
+type StoredDelivery = Pick<
+  DeliveryData,
+  'deliveryMethod' | 'pickupLocation' | 'pickupDate'
+>;
+
+// Older pickup reservations without a slot keep their location and date
+// only as long as they stay unchanged
+const keepsStoredPickup = (data: DeliveryData, stored: StoredDelivery) =>
+  stored.deliveryMethod === 'pickup' &&
+  !!data.pickupLocation &&
+  data.pickupLocation === stored.pickupLocation &&
+  (!data.pickupDate || data.pickupDate === stored.pickupDate);
+
+// Changes to a pending reservation. The caller merges them into the stored
+// reservation first, so the delivery rules check the resulting combination.
+// Switching to pickup books a slot, so its capacity applies like on creation.
+export const createReservationUpdateSchema = (stored: StoredDelivery) =>
+  z
+    .object({
+      ...deliveryFields,
+      notes: z
+        .string()
+        .max(500, 'Anmerkungen dürfen maximal 500 Zeichen lang sein')
+        .optional()
+        .transform((val) => val?.trim() || undefined),
+    })
+    .refine(
+      (data) => hasPickupSlot(data) || keepsStoredPickup(data, stored),
+      pickupSlotIssue,
+    )
+    .refine(hasCompleteAddress, addressIssue);
+
+// Joining the waitlist of a sold-out issue
+export const waitlistSchema = z.object({
+  ...contactFields,
+  ...issueFields,
+  consents: consentsSchema,
+});
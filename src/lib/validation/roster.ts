@@ -0,0 +1,40 @@
+/**
+ * Roster Validation Schemas
+ *
+ * Server-side zod schemas for the kindergarten groups and children the
+ * Elternbeirat maintains in the dashboard.
+ */
+
+import { z } from 'zod';
+
+const childName = z
+  .string()
+  .trim()
+  .min(1, 'Bitte geben Sie den Namen des Kindes ein')
+  .max(200, 'Name ist zu lang');
+
+export const kindergartenGroupSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, 'Bitte geben Sie einen Gruppennamen ein')
+    .max(100, 'Gruppenname ist zu lang'),
+  year: z
+    .string()
+    .trim()
+    .regex(/^\d{4}\/\d{4}$/, 'Bitte geben Sie das Jahr als 2024/2025 an'),
+});
+
+export const kindergartenChildSchema = z.object({
+  name: childName,
+  isVorschueler: z.boolean().default(false),
+});
+
+export const kindergartenChildUpdateSchema = z
+  .object({
+    name: childName.optional(),
+    isVorschueler: z.boolean().optional(),
+  })
+  .refine((update) => Object.values(update).some((val) => val !== undefined), {
+    message: 'Keine Änderung angegeben',
+  });
@@ -0,0 +1,110 @@
+/**
+ * Waitlist
+ *
+ * Families can wait for copies of a sold-out issue. Whenever copies come
+ * back - a cancellation, an expired reservation or a larger print run - the
+ * oldest entries are offered them by email. The copies are held for the
+ * family until the claim link expires and then go to the next one in line.
+ */
+
+import { DatabaseService } from '@/lib/database';
+import { getEmailService, type EmailService } from '@/lib/email/email-service';
+import { createToken, verifyToken, TOKEN_TTL } from '@/lib/auth/tokens';
+import { waitlistClaimUrl } from '@/lib/links';
+import type { WaitlistEntry } from '@/types';
+
+export interface WaitlistOfferResult {
+  offered: number;
+  notified: number;
+  failedNotifications: number;
+}
+
+// Offers end together with their claim link
+export function offerExpiry(now: Date = new Date()): Date {
+  return new Date(now.getTime() + TOKEN_TTL.waitlist * 1000);
+}
+
+/**
+ * The open offer behind a claim link, or null when the link is invalid or
+ * the offer lapsed or was claimed already
+ */
+export async function findWaitlistOffer(
+  token: string,
+  now: Date = new Date(),
+): Promise<WaitlistEntry | null> {
+  const payload = verifyToken(token, 'waitlist', now);
+  if (!payload) return null;
+
+  const entry = await new DatabaseService().getWaitlistEntryById(payload.sub);
+  if (
+    !entry ||
+    entry.status !== 'offered' ||
+    !entry.offerExpiresAt ||
+    new Date(entry.offerExpiresAt) <= now
+  ) {
+    return null;
+  }
+
+  return entry;
+}
+
+/**
+ * Offers the available copies of an issue to the waiting families and sends
+ * each of them a claim link
+ */
+export async function offerReturnedCopies(
+  magazineId: string,
+  now: Date = new Date(),
+): Promise<WaitlistOfferResult> {
+  const db = new DatabaseService();
+  const offers = await db.offerWaitlistCopies(magazineId, offerExpiry(now));
+
+  const result: WaitlistOfferResult = {
+    offered: offers.length,
+    notified: 0,
+    failedNotifications: 0,
+  };
+
+  if (offers.length === 0) return result;
+
+  const magazine = await db.getMagazineById(magazineId);
+
+  // The copies stay held either way and return to stock when the offers
+  // lapse unclaimed
+  if (!magazine) {
+    console.error(
+      `Magazine ${magazineId} not found, waitlist offers not sent:`,
+      offers.map((entry) => entry.id),
+    );
+    result.failedNotifications = offers.length;
+    return result;
+  }
+
+  let emailService: EmailService;
+  try {
+    emailService = getEmailService();
+  } catch (error) {
+    console.error('Email service not available for waitlist offers:', error);
+    result.failedNotifications = offers.length;
+    return result;
+  }
+
+  for (const entry of offers) {
+    try {
+      await emailService.sendWaitlistOffer({
+        entry,
+        magazine,
+        claimUrl: waitlistClaimUrl(createToken('waitlist', entry.id, now)),
+      });
+      result.notified++;
+    } catch (error) {
+      console.error(
+        `Failed to send waitlist offer for entry ${entry.id}:`,
+        error,
+      );
+      result.failedNotifications++;
+    }
+  }
+
+  return result;
+}
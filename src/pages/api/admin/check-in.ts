@@ -0,0 +1,94 @@
+import type { APIRoute } from 'astro';
+import { authorizeAdminRequest } from '@/lib/auth/admin';
+import { parseCheckInCode } from '@/lib/check-in';
+import { DatabaseService } from '@/lib/database';
+
+export const prerender = false;
+
+// Looks up a pickup reservation at the counter by the scanned QR code or the
+// typed reservation number (?code=). Handing it over goes through
+// POST /api/admin/reservations/:id/pickup.
+export const GET: APIRoute = async ({ request, cookies, url }) => {
+  const auth = await authorizeAdminRequest(
+    request,
+    cookies,
+    'reservations:fulfil',
+  );
+  if (!auth.authorized) {
+    return new Response(JSON.stringify({ success: false, error: auth.error }), {
+      status: auth.status,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  const code = parseCheckInCode(url.searchParams.get('code') || '');
+
+  if (!code) {
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: 'Invalid check-in code',
+        message:
+          'Der Code ist ungültig. Bitte die Reservierungsnummer eingeben.',
+      }),
+      {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      },
+    );
+  }
+
+  try {
+    const details = await new DatabaseService().getCheckInReservation(
+      code,
+      auth.actor,
+    );
+
+    if (!details) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: 'Reservation not found',
+          message: 'Keine Reservierung zu diesem Code gefunden.',
+        }),
+        {
+          status: 404,
+          headers: { 'Content-Type': 'application/json' },
+        },
+      );
+    }
+
+    if (details.reservation.deliveryMethod !== 'pickup') {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: 'Reservation is not a pickup',
+          message: 'Diese Reservierung wird verschickt, nicht abgeholt.',
+        }),
+        {
+          status: 409,
+          headers: { 'Content-Type': 'application/json' },
+        },
+      );
+    }
+
+    return new Response(JSON.stringify({ success: true, data: details }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Failed to look up check-in code:', error);
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: 'Internal server error',
+        message: 'Die Reservierung konnte nicht geladen werden.',
+      }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      },
+    );
+  }
+};
@@ -0,0 +1,130 @@
+import type { APIRoute } from 'astro';
+import { authorizeAdminRequest } from '@/lib/auth/admin';
+import { DatabaseService } from '@/lib/database';
+import { kindergartenChildUpdateSchema } from '@/lib/validation/roster';
+
+export const prerender = false;
+
+const notFoundResponse = () =>
+  new Response(
+    JSON.stringify({
+      success: false,
+      error: 'Child not found',
+      message: 'Kind nicht gefunden.',
+    }),
+    {
+      status: 404,
+      headers: { 'Content-Type': 'application/json' },
+    },
+  );
+
+// Corrects the name of a child or whether it is a Vorschüler
+export const PATCH: APIRoute = async ({ params, request, cookies }) => {
+  const auth = await authorizeAdminRequest(request, cookies, 'groups:manage');
+  if (!auth.authorized) {
+    return new Response(JSON.stringify({ success: false, error: auth.error }), {
+      status: auth.status,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  const body = await request.json().catch(() => ({}));
+  const validationResult = kindergartenChildUpdateSchema.safeParse(body);
+
+  if (!validationResult.success) {
+    const errors = validationResult.error.issues.map((err) => ({
+      field: err.path.join('.'),
+      message: err.message,
+    }));
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: 'Validation failed',
+        message: 'Eingabedaten sind ungültig.',
+        errors,
+      }),
+      {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      },
+    );
+  }
+
+  try {
+    const child = await new DatabaseService().updateKindergartenChild(
+      params.id as string,
+      validationResult.data,
+      auth.actor,
+    );
+
+    if (!child) return notFoundResponse();
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        data: child,
+        message: 'Eintrag aktualisiert.',
+      }),
+      {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' },
+      },
+    );
+  } catch (error) {
+    console.error('Failed to update kindergarten child:', error);
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: 'Internal server error',
+        message: 'Der Eintrag konnte nicht aktualisiert werden.',
+      }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      },
+    );
+  }
+};
+
+export const DELETE: APIRoute = async ({ params, request, cookies }) => {
+  const auth = await authorizeAdminRequest(request, cookies, 'groups:manage');
+  if (!auth.authorized) {
+    return new Response(JSON.stringify({ success: false, error: auth.error }), {
+      status: auth.status,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  try {
+    const deleted = await new DatabaseService().deleteKindergartenChild(
+      params.id as string,
+      auth.actor,
+    );
+
+    if (!deleted) return notFoundResponse();
+
+    return new Response(
+      JSON.stringify({ success: true, message: 'Kind ausgetragen.' }),
+      {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' },
+      },
+    );
+  } catch (error) {
+    console.error('Failed to delete kindergarten child:', error);
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: 'Internal server error',
+        message: 'Das Kind konnte nicht ausgetragen werden.',
+      }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      },
+    );
+  }
+};
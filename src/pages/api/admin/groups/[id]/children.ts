@@ -0,0 +1,88 @@
+import type { APIRoute } from 'astro';
+import { authorizeAdminRequest } from '@/lib/auth/admin';
+import { DatabaseService } from '@/lib/database';
+import { kindergartenChildSchema } from '@/lib/validation/roster';
+
+export const prerender = false;
+
+// Adds a child to the roster of a group
+export const POST: APIRoute = async ({ params, request, cookies }) => {
+  const auth = await authorizeAdminRequest(request, cookies, 'groups:manage');
+  if (!auth.authorized) {
+    return new Response(JSON.stringify({ success: false, error: auth.error }), {
+      status: auth.status,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  const body = await request.json().catch(() => ({}));
+  const validationResult = kindergartenChildSchema.safeParse(body);
+
+  if (!validationResult.success) {
+    const errors = validationResult.error.issues.map((err) => ({
+      field: err.path.join('.'),
+      message: err.message,
+    }));
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: 'Validation failed',
+        message: 'Eingabedaten sind ungültig.',
+        errors,
+      }),
+      {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      },
+    );
+  }
+
+  try {
+    const child = await new DatabaseService().addKindergartenChild(
+      params.id as string,
+      validationResult.data,
+      auth.actor,
+    );
+
+    if (!child) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: 'Group not found',
+          message: 'Gruppe nicht gefunden.',
+        }),
+        {
+          status: 404,
+          headers: { 'Content-Type': 'application/json' },
+        },
+      );
+    }
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        data: child,
+        message: 'Kind eingetragen.',
+      }),
+      {
+        status: 201,
+        headers: { 'Content-Type': 'application/json' },
+      },
+    );
+  } catch (error) {
+    console.error('Failed to add kindergarten child:', error);
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: 'Internal server error',
+        message: 'Das Kind konnte nicht eingetragen werden.',
+      }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      },
+    );
+  }
+};
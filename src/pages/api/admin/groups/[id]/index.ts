@@ -0,0 +1,60 @@
+import type { APIRoute } from 'astro';
+import { authorizeAdminRequest } from '@/lib/auth/admin';
+import { DatabaseService } from '@/lib/database';
+
+export const prerender = false;
+
+// Removes a group and its children from the roster. Reservations made for
+// the group keep its name.
+export const DELETE: APIRoute = async ({ params, request, cookies }) => {
+  const auth = await authorizeAdminRequest(request, cookies, 'groups:manage');
+  if (!auth.authorized) {
+    return new Response(JSON.stringify({ success: false, error: auth.error }), {
+      status: auth.status,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  try {
+    const deleted = await new DatabaseService().deleteKindergartenGroup(
+      params.id as string,
+      auth.actor,
+    );
+
+    if (!deleted) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: 'Group not found',
+          message: 'Gruppe nicht gefunden.',
+        }),
+        {
+          status: 404,
+          headers: { 'Content-Type': 'application/json' },
+        },
+      );
+    }
+
+    return new Response(
+      JSON.stringify({ success: true, message: 'Gruppe gelöscht.' }),
+      {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' },
+      },
+    );
+  } catch (error) {
+    console.error('Failed to delete kindergarten group:', error);
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: 'Internal server error',
+        message: 'Die Gruppe konnte nicht gelöscht werden.',
+      }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      },
+    );
+  }
+};
@@ -0,0 +1,129 @@
+import type { APIRoute } from 'astro';
+import { authorizeAdminRequest } from '@/lib/auth/admin';
+import { DatabaseService, KindergartenGroupExistsError } from '@/lib/database';
+import { kindergartenGroupSchema } from '@/lib/validation/roster';
+
+export const prerender = false;
+
+// The roster of all kindergarten years, with the children of each group
+export const GET: APIRoute = async ({ request, cookies }) => {
+  const auth = await authorizeAdminRequest(
+    request,
+    cookies,
+    'reservations:read',
+  );
+  if (!auth.authorized) {
+    return new Response(JSON.stringify({ success: false, error: auth.error }), {
+      status: auth.status,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  try {
+    const groups = await new DatabaseService().getKindergartenGroups(
+      auth.actor,
+    );
+
+    return new Response(JSON.stringify({ success: true, data: groups }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Failed to load kindergarten groups:', error);
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: 'Internal server error',
+        message: 'Die Gruppen konnten nicht geladen werden.',
+      }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      },
+    );
+  }
+};
+
+export const POST: APIRoute = async ({ request, cookies }) => {
+  const auth = await authorizeAdminRequest(request, cookies, 'groups:manage');
+  if (!auth.authorized) {
+    return new Response(JSON.stringify({ success: false, error: auth.error }), {
+      status: auth.status,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  const body = await request.json().catch(() => ({}));
+  const validationResult = kindergartenGroupSchema.safeParse(body);
+
+  if (!validationResult.success) {
+    const errors = validationResult.error.issues.map((err) => ({
+      field: err.path.join('.'),
+      message: err.message,
+    }));
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: 'Validation failed',
+        message: 'Eingabedaten sind ungültig.',
+        errors,
+      }),
+      {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      },
+    );
+  }
+
+  try {
+    const group = await new DatabaseService().createKindergartenGroup(
+      validationResult.data,
+      auth.actor,
+    );
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        data: group,
+        message: 'Gruppe angelegt.',
+      }),
+      {
+        status: 201,
+        headers: { 'Content-Type': 'application/json' },
+      },
+    );
+  } catch (error) {
+    if (error instanceof KindergartenGroupExistsError) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: 'Group exists',
+          message: 'Diese Gruppe gibt es in dem Jahr bereits.',
+          errors: [
+            { field: 'name', message: 'Gruppe in diesem Jahr schon angelegt' },
+          ],
+        }),
+        {
+          status: 409,
+          headers: { 'Content-Type': 'application/json' },
+        },
+      );
+    }
+
+    console.error('Failed to create kindergarten group:', error);
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: 'Internal server error',
+        message: 'Die Gruppe konnte nicht angelegt werden.',
+      }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      },
+    );
+  }
+};
@@ -0,0 +1,108 @@
+import type { APIRoute } from 'astro';
+import { authorizeAdminRequest } from '@/lib/auth/admin';
+import { DatabaseService } from '@/lib/database';
+import { COVER_CONTENT_TYPES } from '@/lib/magazines';
+
+export const prerender = false;
+
+const MAX_FILE_SIZE = 5 * 1024 * 1024; // 5 MB
+
+// Upload of a cover image (JPEG, PNG or WebP) as multipart/form-data with
+// the field `file`. Replaces the current cover of the issue.
+export const POST: APIRoute = async ({ params, request, cookies }) => {
+  const auth = await authorizeAdminRequest(
+    request,
+    cookies,
+    'magazines:manage',
+  );
+  if (!auth.authorized) {
+    return new Response(JSON.stringify({ success: false, error: auth.error }), {
+      status: auth.status,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  const formData = await request.formData().catch(() => null);
+  const file = formData?.get('file');
+
+  if (!file || typeof file === 'string' || !COVER_CONTENT_TYPES[file.type]) {
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: 'Validation failed',
+        message: 'Bitte ein Titelbild als JPEG, PNG oder WebP hochladen.',
+      }),
+      {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      },
+    );
+  }
+
+  if (file.size > MAX_FILE_SIZE) {
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: 'File too large',
+        message: 'Das Bild ist zu groß (maximal 5 MB).',
+      }),
+      {
+        status: 413,
+        headers: { 'Content-Type': 'application/json' },
+      },
+    );
+  }
+
+  try {
+    const db = new DatabaseService();
+    const magazineId = params.id as string;
+
+    // Checked first, so no orphaned file lands in the bucket
+    const magazine = (await db.getMagazineById(magazineId))
+      ? await db.uploadMagazineCover(magazineId, {
+          data: await file.arrayBuffer(),
+          contentType: file.type,
+        })
+      : null;
+
+    if (!magazine) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: 'Magazine not found',
+          message: 'Ausgabe nicht gefunden.',
+        }),
+        {
+          status: 404,
+          headers: { 'Content-Type': 'application/json' },
+        },
+      );
+    }
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        data: magazine,
+        message: 'Titelbild gespeichert.',
+      }),
+      {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' },
+      },
+    );
+  } catch (error) {
+    console.error('Cover upload failed:', error);
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: 'Internal server error',
+        message: 'Das Titelbild konnte nicht gespeichert werden.',
+      }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      },
+    );
+  }
+};
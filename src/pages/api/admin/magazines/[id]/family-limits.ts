@@ -0,0 +1,190 @@
+import type { APIRoute } from 'astro';
+import { authorizeAdminRequest } from '@/lib/auth/admin';
+import { DatabaseService } from '@/lib/database';
+import { familyReservationLimitSchema } from '@/lib/validation/magazine';
+
+export const prerender = false;
+
+const notFoundResponse = (message: string) =>
+  new Response(
+    JSON.stringify({
+      success: false,
+      error: 'Not found',
+      message,
+    }),
+    {
+      status: 404,
+      headers: { 'Content-Type': 'application/json' },
+    },
+  );
+
+// Families that may reserve more (or fewer) copies of the issue than its
+// per-family limit allows
+export const GET: APIRoute = async ({ params, request, cookies }) => {
+  const auth = await authorizeAdminRequest(
+    request,
+    cookies,
+    'magazines:manage',
+  );
+  if (!auth.authorized) {
+    return new Response(JSON.stringify({ success: false, error: auth.error }), {
+      status: auth.status,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  try {
+    const limits = await new DatabaseService().getFamilyReservationLimits(
+      params.id as string,
+      auth.actor,
+    );
+
+    return new Response(JSON.stringify({ success: true, data: limits }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Failed to get family limits:', error);
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: 'Internal server error',
+        message: 'Die Ausnahmen konnten nicht geladen werden.',
+      }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      },
+    );
+  }
+};
+
+// Sets the copies one family may reserve of the issue
+export const PUT: APIRoute = async ({ params, request, cookies }) => {
+  const auth = await authorizeAdminRequest(
+    request,
+    cookies,
+    'magazines:manage',
+  );
+  if (!auth.authorized) {
+    return new Response(JSON.stringify({ success: false, error: auth.error }), {
+      status: auth.status,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  const body = await request.json().catch(() => ({}));
+  const validationResult = familyReservationLimitSchema.safeParse(body);
+
+  if (!validationResult.success) {
+    const errors = validationResult.error.issues.map((err) => ({
+      field: err.path.join('.'),
+      message: err.message,
+    }));
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: 'Validation failed',
+        message: 'Eingabedaten sind ungültig.',
+        errors,
+      }),
+      {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      },
+    );
+  }
+
+  try {
+    const limit = await new DatabaseService().setFamilyReservationLimit(
+      params.id as string,
+      {
+        familyEmail: validationResult.data.familyEmail,
+        copiesPerFamily: validationResult.data.copiesPerFamily,
+        reason: validationResult.data.reason ?? undefined,
+      },
+      auth.actor,
+    );
+
+    if (!limit) return notFoundResponse('Ausgabe nicht gefunden.');
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        data: limit,
+        message: 'Ausnahme gespeichert.',
+      }),
+      {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' },
+      },
+    );
+  } catch (error) {
+    console.error('Failed to set family limit:', error);
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: 'Internal server error',
+        message: 'Die Ausnahme konnte nicht gespeichert werden.',
+      }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      },
+    );
+  }
+};
+
+// Removes the exception of a family (?email=), the limit of the issue
+// applies again
+export const DELETE: APIRoute = async ({ params, request, cookies, url }) => {
+  const auth = await authorizeAdminRequest(
+    request,
+    cookies,
+    'magazines:manage',
+  );
+  if (!auth.authorized) {
+    return new Response(JSON.stringify({ success: false, error: auth.error }), {
+      status: auth.status,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  const email = url.searchParams.get('email');
+  if (!email) return notFoundResponse('Ausnahme nicht gefunden.');
+
+  try {
+    const deleted = await new DatabaseService().deleteFamilyReservationLimit(
+      params.id as string,
+      email,
+      auth.actor,
+    );
+
+    if (!deleted) return notFoundResponse('Ausnahme nicht gefunden.');
+
+    return new Response(
+      JSON.stringify({ success: true, message: 'Ausnahme entfernt.' }),
+      {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' },
+      },
+    );
+  } catch (error) {
+    console.error('Failed to delete family limit:', error);
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: 'Internal server error',
+        message: 'Die Ausnahme konnte nicht entfernt werden.',
+      }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      },
+    );
+  }
+};
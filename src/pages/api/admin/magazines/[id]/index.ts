@@ -0,0 +1,164 @@
+import type { APIRoute } from 'astro';
+import { authorizeAdminRequest } from '@/lib/auth/admin';
+import { DatabaseService, MagazineCopiesReservedError } from '@/lib/database';
+import { magazineSchema } from '@/lib/validation/magazine';
+import { offerReturnedCopies } from '@/lib/waitlist';
+import type { Magazine } from '@/types';
+
+export const prerender = false;
+
+// Stored issue in the shape of the schema, so unchanged values pass
+// validation again
+function currentMagazine(magazine: Magazine) {
+  return {
+    title: magazine.title,
+    issueNumber: magazine.issueNumber,
+    publishDate: magazine.publishDate,
+    description: magazine.description,
+    totalCopies: magazine.totalCopies,
+    isActive: magazine.isActive,
+    reservationsOpenAt: magazine.reservationsOpenAt,
+    reservationsCloseAt: magazine.reservationsCloseAt,
+    copiesPerFamily: magazine.copiesPerFamily,
+    contents: magazine.contents,
+    pageCount: magazine.pageCount,
+    format: magazine.format,
+    paperWeight: magazine.paperWeight,
+  };
+}
+
+const notFoundResponse = () =>
+  new Response(
+    JSON.stringify({
+      success: false,
+      error: 'Magazine not found',
+      message: 'Ausgabe nicht gefunden.',
+    }),
+    {
+      status: 404,
+      headers: { 'Content-Type': 'application/json' },
+    },
+  );
+
+// Edits an issue: details, print run, (de)activation and reservation window.
+// Lowering the print run below the copies already reserved is refused.
+export const PATCH: APIRoute = async ({ params, request, cookies }) => {
+  const auth = await authorizeAdminRequest(
+    request,
+    cookies,
+    'magazines:manage',
+  );
+  if (!auth.authorized) {
+    return new Response(JSON.stringify({ success: false, error: auth.error }), {
+      status: auth.status,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  const body = await request.json().catch(() => ({}));
+
+  try {
+    const db = new DatabaseService();
+    const magazineId = params.id as string;
+    const current = await db.getMagazineById(magazineId);
+
+    if (!current) return notFoundResponse();
+
+    // Validate the changed fields together with the stored ones, so that
+    // e.g. a new closing time is checked against the stored opening time
+    const validationResult = magazineSchema.safeParse({
+      ...currentMagazine(current),
+      ...body,
+    });
+
+    if (!validationResult.success) {
+      const errors = validationResult.error.issues.map((err) => ({
+        field: err.path.join('.'),
+        message: err.message,
+      }));
+
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: 'Validation failed',
+          message: 'Eingabedaten sind ungültig.',
+          errors,
+        }),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' },
+        },
+      );
+    }
+
+    const { totalCopies, ...update } = validationResult.data;
+
+    if (
+      totalCopies !== current.totalCopies &&
+      (await db.setMagazineTotalCopies(magazineId, totalCopies)) === null
+    ) {
+      return notFoundResponse();
+    }
+
+    let magazine = await db.updateMagazine(magazineId, update);
+    if (!magazine) return notFoundResponse();
+
+    // Additional copies go to the families on the waitlist first
+    if (totalCopies > current.totalCopies) {
+      try {
+        const { offered } = await offerReturnedCopies(magazineId, new Date());
+        if (offered > 0) {
+          magazine = (await db.getMagazineById(magazineId)) || magazine;
+        }
+      } catch (error) {
+        console.error('Failed to offer copies to the waitlist:', error);
+      }
+    }
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        data: magazine,
+        message: 'Ausgabe aktualisiert.',
+      }),
+      {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' },
+      },
+    );
+  } catch (error) {
+    if (error instanceof MagazineCopiesReservedError) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: 'Copies already reserved',
+          message: `Es sind bereits ${error.reservedCopies} Exemplare reserviert. Die Auflage kann nicht kleiner sein.`,
+          errors: [
+            {
+              field: 'totalCopies',
+              message: `Mindestens ${error.reservedCopies} Exemplare`,
+            },
+          ],
+        }),
+        {
+          status: 409,
+          headers: { 'Content-Type': 'application/json' },
+        },
+      );
+    }
+
+    console.error('Failed to update magazine:', error);
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: 'Internal server error',
+        message: 'Die Ausgabe konnte nicht aktualisiert werden.',
+      }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      },
+    );
+  }
+};
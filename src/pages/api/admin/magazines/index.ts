@@ -0,0 +1,114 @@
+import type { APIRoute } from 'astro';
+import { authorizeAdminRequest } from '@/lib/auth/admin';
+import { DatabaseService } from '@/lib/database';
+import { magazineSchema } from '@/lib/validation/magazine';
+
+export const prerender = false;
+
+// All issues including sold out, inactive and closed ones
+export const GET: APIRoute = async ({ request, cookies }) => {
+  const auth = await authorizeAdminRequest(
+    request,
+    cookies,
+    'reservations:read',
+  );
+  if (!auth.authorized) {
+    return new Response(JSON.stringify({ success: false, error: auth.error }), {
+      status: auth.status,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  try {
+    const magazines = await new DatabaseService().getMagazines();
+
+    return new Response(JSON.stringify({ success: true, data: magazines }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Failed to load magazines:', error);
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: 'Internal server error',
+        message: 'Die Ausgaben konnten nicht geladen werden.',
+      }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      },
+    );
+  }
+};
+
+// New issue; all copies of the print run start out available
+export const POST: APIRoute = async ({ request, cookies }) => {
+  const auth = await authorizeAdminRequest(
+    request,
+    cookies,
+    'magazines:manage',
+  );
+  if (!auth.authorized) {
+    return new Response(JSON.stringify({ success: false, error: auth.error }), {
+      status: auth.status,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  const body = await request.json().catch(() => ({}));
+  const validationResult = magazineSchema.safeParse(body);
+
+  if (!validationResult.success) {
+    const errors = validationResult.error.issues.map((err) => ({
+      field: err.path.join('.'),
+      message: err.message,
+    }));
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: 'Validation failed',
+        message: 'Eingabedaten sind ungültig.',
+        errors,
+      }),
+      {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      },
+    );
+  }
+
+  try {
+    const magazine = await new DatabaseService().createMagazine(
+      validationResult.data,
+    );
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        data: magazine,
+        message: 'Ausgabe angelegt.',
+      }),
+      {
+        status: 201,
+        headers: { 'Content-Type': 'application/json' },
+      },
+    );
+  } catch (error) {
+    console.error('Failed to create magazine:', error);
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: 'Internal server error',
+        message: 'Die Ausgabe konnte nicht angelegt werden.',
+      }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      },
+    );
+  }
+};
@@ -0,0 +1,107 @@
+import type { APIRoute } from 'astro';
+import { z } from 'zod';
+import { authorizeAdminRequest } from '@/lib/auth/admin';
+import { importPaymentStatement } from '@/lib/payments/reconciliation';
+import { StatementParseError } from '@/lib/payments/statement-parsers';
+
+export const prerender = false;
+
+const MAX_FILE_SIZE = 5 * 1024 * 1024; // 5 MB
+
+const sourceSchema = z.enum(['camt053', 'bank_csv', 'paypal_csv'], {
+  message: 'Unbekanntes Dateiformat',
+});
+
+// Upload of a bank statement (CAMT.053 or CSV) or PayPal activity export as
+// multipart/form-data with the fields `file` and `source`
+export const POST: APIRoute = async ({ request, cookies }) => {
+  const auth = await authorizeAdminRequest(request, cookies, 'payments:manage');
+  if (!auth.authorized) {
+    return new Response(JSON.stringify({ success: false, error: auth.error }), {
+      status: auth.status,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  const formData = await request.formData().catch(() => null);
+  const file = formData?.get('file');
+  const source = sourceSchema.safeParse(formData?.get('source'));
+
+  if (!file || typeof file === 'string' || !source.success) {
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: 'Validation failed',
+        message: 'Bitte eine Datei und das Dateiformat angeben.',
+      }),
+      {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      },
+    );
+  }
+
+  if (file.size > MAX_FILE_SIZE) {
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: 'File too large',
+        message: 'Die Datei ist zu groß (maximal 5 MB).',
+      }),
+      {
+        status: 413,
+        headers: { 'Content-Type': 'application/json' },
+      },
+    );
+  }
+
+  try {
+    const result = await importPaymentStatement({
+      source: source.data,
+      content: await file.text(),
+      filename: file.name,
+      importedBy: auth.actor,
+    });
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        data: result,
+        message: `${result.matched} Zahlungen zugeordnet, ${result.unmatched} zur Prüfung.`,
+      }),
+      {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' },
+      },
+    );
+  } catch (error) {
+    if (error instanceof StatementParseError) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: 'Invalid file',
+          message:
+            'Die Datei konnte nicht gelesen werden. Bitte das Dateiformat prüfen.',
+        }),
+        {
+          status: 422,
+          headers: { 'Content-Type': 'application/json' },
+        },
+      );
+    }
+
+    console.error('Payment import failed:', error);
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: 'Internal server error',
+        message: 'Der Import ist fehlgeschlagen.',
+      }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      },
+    );
+  }
+};
@@ -0,0 +1,41 @@
+import type { APIRoute } from 'astro';
+import { authorizeAdminRequest } from '@/lib/auth/admin';
+import { DatabaseService } from '@/lib/database';
+
+export const prerender = false;
+
+// Incoming payments that could not be matched to a reservation automatically
+export const GET: APIRoute = async ({ request, cookies }) => {
+  const auth = await authorizeAdminRequest(request, cookies, 'payments:manage');
+  if (!auth.authorized) {
+    return new Response(JSON.stringify({ success: false, error: auth.error }), {
+      status: auth.status,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  const db = new DatabaseService();
+
+  try {
+    const lines = await db.getUnmatchedPaymentImportLines(auth.actor);
+
+    return new Response(JSON.stringify({ success: true, data: lines }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Failed to load payment review list:', error);
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: 'Internal server error',
+        message: 'Die Prüfliste konnte nicht geladen werden.',
+      }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      },
+    );
+  }
+};
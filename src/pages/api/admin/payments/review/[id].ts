@@ -0,0 +1,115 @@
+import type { APIRoute } from 'astro';
+import { z } from 'zod';
+import { authorizeAdminRequest } from '@/lib/auth/admin';
+import { DatabaseService } from '@/lib/database';
+import {
+  assignPaymentImportLine,
+  PaymentAssignmentError,
+} from '@/lib/payments/reconciliation';
+
+export const prerender = false;
+
+const reviewSchema = z.discriminatedUnion('action', [
+  // The payment belongs to this reservation
+  z.object({
+    action: z.literal('assign'),
+    reservationId: z.string().uuid('Ungültige Reservierungs-ID'),
+  }),
+  // Not a magazine payment (e.g. a donation)
+  z.object({
+    action: z.literal('ignore'),
+    note: z.string().max(500).optional(),
+  }),
+]);
+
+// Resolves a line of the payment review list
+export const POST: APIRoute = async ({ params, request, cookies }) => {
+  const auth = await authorizeAdminRequest(request, cookies, 'payments:manage');
+  if (!auth.authorized) {
+    return new Response(JSON.stringify({ success: false, error: auth.error }), {
+      status: auth.status,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  const lineId = params.id as string;
+  const body = await request.json().catch(() => ({}));
+  const validationResult = reviewSchema.safeParse(body);
+
+  if (!validationResult.success) {
+    const errors = validationResult.error.issues.map((err) => ({
+      field: err.path.join('.'),
+      message: err.message,
+    }));
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: 'Validation failed',
+        message: 'Eingabedaten sind ungültig.',
+        errors,
+      }),
+      {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      },
+    );
+  }
+
+  const review = validationResult.data;
+
+  try {
+    if (review.action === 'assign') {
+      await assignPaymentImportLine(lineId, review.reservationId, auth.actor);
+    } else {
+      const db = new DatabaseService();
+      await db.updatePaymentImportLine(lineId, {
+        status: 'ignored',
+        reviewNote: review.note,
+      });
+    }
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        message:
+          review.action === 'assign'
+            ? 'Zahlung zugeordnet und Reservierung bestätigt.'
+            : 'Zahlung als erledigt markiert.',
+      }),
+      {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' },
+      },
+    );
+  } catch (error) {
+    if (error instanceof PaymentAssignmentError) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: error.message,
+          message:
+            'Die Zahlung konnte dieser Reservierung nicht zugeordnet werden.',
+        }),
+        {
+          status: 409,
+          headers: { 'Content-Type': 'application/json' },
+        },
+      );
+    }
+
+    console.error('Payment review failed:', error);
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: 'Internal server error',
+        message: 'Die Zahlung konnte nicht bearbeitet werden.',
+      }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      },
+    );
+  }
+};
@@ -0,0 +1,128 @@
+import type { APIRoute } from 'astro';
+import { z } from 'zod';
+import { authorizeAdminRequest } from '@/lib/auth/admin';
+import { DatabaseService } from '@/lib/database';
+
+export const prerender = false;
+
+const pickupSlotUpdateSchema = z
+  .object({
+    location: z.string().trim().min(1).max(200).optional(),
+    startsAt: z.string().datetime({ offset: true }).optional(),
+    endsAt: z.string().datetime({ offset: true }).optional(),
+    capacity: z
+      .number()
+      .int()
+      .min(1, 'Mindestens eine Familie pro Abholtermin')
+      .max(1000)
+      .optional(),
+    isActive: z.boolean().optional(),
+  })
+  .refine((update) => Object.values(update).some((val) => val !== undefined), {
+    message: 'Keine Änderung angegeben',
+  })
+  // A slot is moved as a whole, so the time range can be checked here
+  .refine((update) => !update.startsAt === !update.endsAt, {
+    message: 'Beginn und Ende nur gemeinsam ändern',
+    path: ['endsAt'],
+  })
+  .refine(
+    (update) =>
+      !update.startsAt ||
+      !update.endsAt ||
+      new Date(update.endsAt) > new Date(update.startsAt),
+    {
+      message: 'Das Ende muss nach dem Beginn liegen',
+      path: ['endsAt'],
+    },
+  );
+
+// Moves or resizes a pickup slot, or closes it for further bookings.
+// Families who already booked keep their place.
+export const PATCH: APIRoute = async ({ params, request, cookies }) => {
+  const auth = await authorizeAdminRequest(
+    request,
+    cookies,
+    'pickup-slots:manage',
+  );
+  if (!auth.authorized) {
+    return new Response(JSON.stringify({ success: false, error: auth.error }), {
+      status: auth.status,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  const body = await request.json().catch(() => ({}));
+  const validationResult = pickupSlotUpdateSchema.safeParse(body);
+
+  if (!validationResult.success) {
+    const errors = validationResult.error.issues.map((err) => ({
+      field: err.path.join('.'),
+      message: err.message,
+    }));
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: 'Validation failed',
+        message: 'Eingabedaten sind ungültig.',
+        errors,
+      }),
+      {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      },
+    );
+  }
+
+  try {
+    const db = new DatabaseService();
+    const updated = await db.updatePickupSlot(
+      params.id as string,
+      validationResult.data,
+    );
+
+    if (!updated) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: 'Pickup slot not found',
+          message: 'Abholtermin nicht gefunden.',
+        }),
+        {
+          status: 404,
+          headers: { 'Content-Type': 'application/json' },
+        },
+      );
+    }
+
+    // Reload with the number of bookings
+    const pickupSlot = await db.getPickupSlotById(updated.id);
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        data: pickupSlot,
+        message: 'Abholtermin aktualisiert.',
+      }),
+      {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' },
+      },
+    );
+  } catch (error) {
+    console.error('Failed to update pickup slot:', error);
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: 'Internal server error',
+        message: 'Der Abholtermin konnte nicht aktualisiert werden.',
+      }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      },
+    );
+  }
+};
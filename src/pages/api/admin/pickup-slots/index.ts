@@ -0,0 +1,133 @@
+import type { APIRoute } from 'astro';
+import { z } from 'zod';
+import { authorizeAdminRequest } from '@/lib/auth/admin';
+import { DatabaseService } from '@/lib/database';
+
+export const prerender = false;
+
+const pickupSlotSchema = z
+  .object({
+    location: z
+      .string()
+      .trim()
+      .min(1, 'Bitte geben Sie einen Abholort ein')
+      .max(200),
+    startsAt: z.string().datetime({ offset: true }),
+    endsAt: z.string().datetime({ offset: true }),
+    capacity: z
+      .number()
+      .int()
+      .min(1, 'Mindestens eine Familie pro Abholtermin')
+      .max(1000),
+  })
+  .refine((slot) => new Date(slot.endsAt) > new Date(slot.startsAt), {
+    message: 'Das Ende muss nach dem Beginn liegen',
+    path: ['endsAt'],
+  });
+
+// All pickup slots with their bookings, including past and inactive ones
+export const GET: APIRoute = async ({ request, cookies }) => {
+  const auth = await authorizeAdminRequest(
+    request,
+    cookies,
+    'reservations:read',
+  );
+  if (!auth.authorized) {
+    return new Response(JSON.stringify({ success: false, error: auth.error }), {
+      status: auth.status,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  try {
+    const pickupSlots = await new DatabaseService().getPickupSlots();
+
+    return new Response(JSON.stringify({ success: true, data: pickupSlots }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Failed to load pickup slots:', error);
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: 'Internal server error',
+        message: 'Die Abholtermine konnten nicht geladen werden.',
+      }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      },
+    );
+  }
+};
+
+export const POST: APIRoute = async ({ request, cookies }) => {
+  const auth = await authorizeAdminRequest(
+    request,
+    cookies,
+    'pickup-slots:manage',
+  );
+  if (!auth.authorized) {
+    return new Response(JSON.stringify({ success: false, error: auth.error }), {
+      status: auth.status,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  const body = await request.json().catch(() => ({}));
+  const validationResult = pickupSlotSchema.safeParse(body);
+
+  if (!validationResult.success) {
+    const errors = validationResult.error.issues.map((err) => ({
+      field: err.path.join('.'),
+      message: err.message,
+    }));
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: 'Validation failed',
+        message: 'Eingabedaten sind ungültig.',
+        errors,
+      }),
+      {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      },
+    );
+  }
+
+  try {
+    const pickupSlot = await new DatabaseService().createPickupSlot(
+      validationResult.data,
+    );
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        data: { ...pickupSlot, bookedFamilies: 0 },
+        message: 'Abholtermin angelegt.',
+      }),
+      {
+        status: 201,
+        headers: { 'Content-Type': 'application/json' },
+      },
+    );
+  } catch (error) {
+    console.error('Failed to create pickup slot:', error);
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: 'Internal server error',
+        message: 'Der Abholtermin konnte nicht angelegt werden.',
+      }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      },
+    );
+  }
+};
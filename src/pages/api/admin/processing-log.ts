@@ -0,0 +1,81 @@
+import type { APIRoute } from 'astro';
+import { z } from 'zod';
+import { authorizeAdminRequest } from '@/lib/auth/admin';
+import { DatabaseService } from '@/lib/database';
+
+export const prerender = false;
+
+const filtersSchema = z.object({
+  userId: z.string().uuid().optional(),
+  processorId: z.string().uuid().optional(),
+  limit: z.coerce.number().int().min(1).max(1000).optional(),
+});
+
+// Data processing log for the privacy officer, filtered by family
+// (?userId=) or by admin account (?processorId=)
+export const GET: APIRoute = async ({ request, cookies, url }) => {
+  const auth = await authorizeAdminRequest(
+    request,
+    cookies,
+    'processing-log:read',
+  );
+  if (!auth.authorized) {
+    return new Response(JSON.stringify({ success: false, error: auth.error }), {
+      status: auth.status,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  // Empty parameters mean "no filter"
+  const validationResult = filtersSchema.safeParse(
+    Object.fromEntries(
+      [...url.searchParams].filter(([, value]) => value !== ''),
+    ),
+  );
+
+  if (!validationResult.success) {
+    const errors = validationResult.error.issues.map((err) => ({
+      field: err.path.join('.'),
+      message: err.message,
+    }));
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: 'Validation failed',
+        message: 'Ungültiger Filter.',
+        errors,
+      }),
+      {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      },
+    );
+  }
+
+  try {
+    const entries = await new DatabaseService().getDataProcessingLogs(
+      validationResult.data,
+      auth.actor,
+    );
+
+    return new Response(JSON.stringify({ success: true, data: entries }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Failed to load data processing log:', error);
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: 'Internal server error',
+        message: 'Das Verarbeitungsprotokoll konnte nicht geladen werden.',
+      }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      },
+    );
+  }
+};
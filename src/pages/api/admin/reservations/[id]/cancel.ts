@@ -0,0 +1,125 @@
+import type { APIRoute } from 'astro';
+import { authorizeAdminRequest } from '@/lib/auth/admin';
+import { DatabaseService, ReservationNotFoundError } from '@/lib/database';
+import { InvalidStatusTransitionError } from '@/lib/reservation-status';
+import { pictureClaimsService } from '@/lib/picture-claims';
+import { getEmailService } from '@/lib/email/email-service';
+import { offerReturnedCopies } from '@/lib/waitlist';
+
+export const prerender = false;
+
+// Cancels a reservation on behalf of the family, returning its copies to
+// stock and freeing its picture claims
+export const POST: APIRoute = async ({ params, request, cookies }) => {
+  const auth = await authorizeAdminRequest(
+    request,
+    cookies,
+    'reservations:cancel',
+  );
+  if (!auth.authorized) {
+    return new Response(JSON.stringify({ success: false, error: auth.error }), {
+      status: auth.status,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  const reservationId = params.id as string;
+  const db = new DatabaseService();
+
+  try {
+    const reservation = await db.cancelReservationAsAdmin(
+      reservationId,
+      auth.actor,
+    );
+
+    try {
+      await pictureClaimsService.deleteClaim(reservationId);
+    } catch (error) {
+      console.error('Failed to delete picture claims:', {
+        reservationId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+
+    // The copies go to the next families on the waitlist
+    try {
+      await offerReturnedCopies(reservation.magazineId, new Date());
+    } catch (error) {
+      console.error('Failed to offer copies to the waitlist:', {
+        reservationId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+
+    let emailSent = false;
+    try {
+      const details = await db.getReservationDetails(reservationId);
+      if (details) {
+        await getEmailService().sendCancellationConfirmation({
+          ...details,
+          reservation,
+        });
+        emailSent = true;
+      }
+    } catch (error) {
+      console.error('Cancellation email failed:', {
+        reservationId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        data: { id: reservation.id, status: reservation.status, emailSent },
+        message: 'Reservierung storniert.',
+      }),
+      {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' },
+      },
+    );
+  } catch (error) {
+    if (error instanceof ReservationNotFoundError) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: 'Reservation not found',
+          message: 'Reservierung nicht gefunden.',
+        }),
+        {
+          status: 404,
+          headers: { 'Content-Type': 'application/json' },
+        },
+      );
+    }
+
+    if (error instanceof InvalidStatusTransitionError) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: error.message,
+          message: 'Diese Reservierung kann nicht mehr storniert werden.',
+        }),
+        {
+          status: 409,
+          headers: { 'Content-Type': 'application/json' },
+        },
+      );
+    }
+
+    console.error('Admin cancellation failed:', error);
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: 'Internal server error',
+        message: 'Die Reservierung konnte nicht storniert werden.',
+      }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      },
+    );
+  }
+};
@@ -0,0 +1,82 @@
+import type { APIRoute } from 'astro';
+import { authorizeAdminRequest } from '@/lib/auth/admin';
+import { DatabaseService, ReservationNotFoundError } from '@/lib/database';
+import { InvalidStatusTransitionError } from '@/lib/reservation-status';
+
+export const prerender = false;
+
+// Confirms a payment by hand, for money that did not arrive through an
+// imported statement
+export const POST: APIRoute = async ({ params, request, cookies }) => {
+  const auth = await authorizeAdminRequest(request, cookies, 'payments:manage');
+  if (!auth.authorized) {
+    return new Response(JSON.stringify({ success: false, error: auth.error }), {
+      status: auth.status,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  const reservationId = params.id as string;
+  const db = new DatabaseService();
+
+  try {
+    const reservation = await db.confirmReservationPayment(
+      reservationId,
+      auth.actor,
+    );
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        data: { id: reservation.id, status: reservation.status },
+        message: 'Zahlung bestätigt.',
+      }),
+      {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' },
+      },
+    );
+  } catch (error) {
+    if (error instanceof ReservationNotFoundError) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: 'Reservation not found',
+          message: 'Reservierung nicht gefunden.',
+        }),
+        {
+          status: 404,
+          headers: { 'Content-Type': 'application/json' },
+        },
+      );
+    }
+
+    if (error instanceof InvalidStatusTransitionError) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: error.message,
+          message: 'Nur offene Reservierungen können bestätigt werden.',
+        }),
+        {
+          status: 409,
+          headers: { 'Content-Type': 'application/json' },
+        },
+      );
+    }
+
+    console.error('Payment confirmation failed:', error);
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: 'Internal server error',
+        message: 'Die Zahlung konnte nicht bestätigt werden.',
+      }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      },
+    );
+  }
+};
@@ -0,0 +1,156 @@
+import type { APIRoute } from 'astro';
+import { z } from 'zod';
+import { authorizeAdminRequest } from '@/lib/auth/admin';
+import {
+  DatabaseService,
+  ReservationNotDispatchableError,
+  ReservationNotFoundError,
+} from '@/lib/database';
+import { getEmailService } from '@/lib/email/email-service';
+import { InvalidStatusTransitionError } from '@/lib/reservation-status';
+
+export const prerender = false;
+
+const dispatchSchema = z.object({
+  trackingNumber: z
+    .string()
+    .transform((val) => val.replace(/\s/g, '').toUpperCase())
+    .refine(
+      (val) => val === '' || /^[A-Z0-9]{8,40}$/.test(val),
+      'Ungültige Sendungsnummer',
+    )
+    .optional()
+    .transform((val) => val || undefined),
+});
+
+// Marks a paid shipping reservation as posted, completes it and sends the
+// family the shipping confirmation with the tracking link
+export const POST: APIRoute = async ({ params, request, cookies }) => {
+  const auth = await authorizeAdminRequest(
+    request,
+    cookies,
+    'reservations:fulfil',
+  );
+  if (!auth.authorized) {
+    return new Response(JSON.stringify({ success: false, error: auth.error }), {
+      status: auth.status,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  const reservationId = params.id as string;
+  const body = await request.json().catch(() => ({}));
+  const validationResult = dispatchSchema.safeParse(body);
+
+  if (!validationResult.success) {
+    const errors = validationResult.error.issues.map((err) => ({
+      field: err.path.join('.'),
+      message: err.message,
+    }));
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: 'Validation failed',
+        message: 'Eingabedaten sind ungültig.',
+        errors,
+      }),
+      {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      },
+    );
+  }
+
+  const db = new DatabaseService();
+
+  try {
+    const reservation = await db.markReservationDispatched(
+      reservationId,
+      { trackingNumber: validationResult.data.trackingNumber },
+      auth.actor,
+    );
+
+    // The reservation is completed either way - a failed email is reported
+    // so the admin can tell the family another way
+    let emailSent = false;
+    try {
+      const details = await db.getReservationDetails(reservationId);
+      if (details) {
+        await getEmailService().sendShippingConfirmation({
+          ...details,
+          reservation,
+        });
+        emailSent = true;
+      }
+    } catch (emailError) {
+      console.error('Failed to send shipping confirmation:', emailError);
+    }
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        data: {
+          id: reservation.id,
+          status: reservation.status,
+          dispatchedAt: reservation.dispatchedAt,
+          trackingNumber: reservation.trackingNumber,
+          emailSent,
+        },
+        message: emailSent
+          ? 'Versand erfasst und Versandbestätigung verschickt.'
+          : 'Versand erfasst, die Versandbestätigung konnte nicht verschickt werden.',
+      }),
+      {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' },
+      },
+    );
+  } catch (error) {
+    if (error instanceof ReservationNotFoundError) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: 'Reservation not found',
+          message: 'Reservierung nicht gefunden.',
+        }),
+        {
+          status: 404,
+          headers: { 'Content-Type': 'application/json' },
+        },
+      );
+    }
+
+    if (
+      error instanceof ReservationNotDispatchableError ||
+      error instanceof InvalidStatusTransitionError
+    ) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: error.message,
+          message:
+            'Nur bezahlte Versand-Reservierungen können als versandt markiert werden.',
+        }),
+        {
+          status: 409,
+          headers: { 'Content-Type': 'application/json' },
+        },
+      );
+    }
+
+    console.error('Dispatch failed:', error);
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: 'Internal server error',
+        message: 'Der Versand konnte nicht erfasst werden.',
+      }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      },
+    );
+  }
+};
@@ -0,0 +1,98 @@
+import type { APIRoute } from 'astro';
+import { authorizeAdminRequest } from '@/lib/auth/admin';
+import {
+  DatabaseService,
+  ReservationNotFoundError,
+  ReservationNotPickupError,
+} from '@/lib/database';
+import { InvalidStatusTransitionError } from '@/lib/reservation-status';
+
+export const prerender = false;
+
+// Marks a pickup reservation as collected (and paid in cash, if it was
+// still open) and completes it
+export const POST: APIRoute = async ({ params, request, cookies }) => {
+  const auth = await authorizeAdminRequest(
+    request,
+    cookies,
+    'reservations:fulfil',
+  );
+  if (!auth.authorized) {
+    return new Response(JSON.stringify({ success: false, error: auth.error }), {
+      status: auth.status,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  const reservationId = params.id as string;
+  const db = new DatabaseService();
+
+  try {
+    const reservation = await db.markReservationPickedUp(
+      reservationId,
+      auth.actor,
+    );
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        data: {
+          id: reservation.id,
+          status: reservation.status,
+          statusChangedAt: reservation.statusChangedAt,
+        },
+        message: 'Abholung erfasst.',
+      }),
+      {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' },
+      },
+    );
+  } catch (error) {
+    if (error instanceof ReservationNotFoundError) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: 'Reservation not found',
+          message: 'Reservierung nicht gefunden.',
+        }),
+        {
+          status: 404,
+          headers: { 'Content-Type': 'application/json' },
+        },
+      );
+    }
+
+    if (
+      error instanceof ReservationNotPickupError ||
+      error instanceof InvalidStatusTransitionError
+    ) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: error.message,
+          message:
+            'Nur offene oder bezahlte Abhol-Reservierungen können als abgeholt markiert werden.',
+        }),
+        {
+          status: 409,
+          headers: { 'Content-Type': 'application/json' },
+        },
+      );
+    }
+
+    console.error('Pickup failed:', error);
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: 'Internal server error',
+        message: 'Die Abholung konnte nicht erfasst werden.',
+      }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      },
+    );
+  }
+};
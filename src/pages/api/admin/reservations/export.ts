@@ -0,0 +1,99 @@
+import type { APIRoute } from 'astro';
+import { z } from 'zod';
+import { authorizeAdminRequest } from '@/lib/auth/admin';
+import { DatabaseService } from '@/lib/database';
+import {
+  buildReservationList,
+  EXPORT_CONTENT_TYPES,
+  exportFilename,
+  toCsv,
+  toXlsx,
+} from '@/lib/exports/reservation-lists';
+
+export const prerender = false;
+
+const exportSchema = z.object({
+  list: z.enum(['pickup', 'shipping']),
+  format: z.enum(['csv', 'xlsx']).default('csv'),
+  magazineId: z.string().uuid().optional(),
+  status: z
+    .enum(['pending', 'confirmed', 'completed', 'cancelled', 'expired'])
+    .optional(),
+});
+
+// Pickup or shipping list for distribution day as a download, e.g.
+// ?list=pickup&format=xlsx&magazineId=&status=confirmed
+export const GET: APIRoute = async ({ request, cookies, url }) => {
+  const auth = await authorizeAdminRequest(
+    request,
+    cookies,
+    'reservations:read',
+  );
+  if (!auth.authorized) {
+    return new Response(JSON.stringify({ success: false, error: auth.error }), {
+      status: auth.status,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  // Empty parameters mean "no filter"
+  const validationResult = exportSchema.safeParse(
+    Object.fromEntries(
+      [...url.searchParams].filter(([, value]) => value !== ''),
+    ),
+  );
+
+  if (!validationResult.success) {
+    const errors = validationResult.error.issues.map((err) => ({
+      field: err.path.join('.'),
+      message: err.message,
+    }));
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: 'Validation failed',
+        message: 'Ungültiger Export.',
+        errors,
+      }),
+      {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      },
+    );
+  }
+
+  const { list: type, format, ...filters } = validationResult.data;
+
+  try {
+    const reservations = await new DatabaseService().getAdminReservations(
+      { ...filters, deliveryMethod: type },
+      auth.actor,
+    );
+    const list = buildReservationList(type, reservations);
+    const body = format === 'csv' ? toCsv(list) : await toXlsx(list);
+
+    return new Response(body, {
+      status: 200,
+      headers: {
+        'Content-Type': EXPORT_CONTENT_TYPES[format],
+        'Content-Disposition': `attachment; filename="${exportFilename(type, format)}"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    console.error('Failed to export reservations:', error);
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: 'Internal server error',
+        message: 'Die Liste konnte nicht erstellt werden.',
+      }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      },
+    );
+  }
+};
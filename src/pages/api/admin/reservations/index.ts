@@ -0,0 +1,87 @@
+import type { APIRoute } from 'astro';
+import { z } from 'zod';
+import { authorizeAdminRequest } from '@/lib/auth/admin';
+import { DatabaseService } from '@/lib/database';
+
+export const prerender = false;
+
+const filtersSchema = z.object({
+  magazineId: z.string().uuid().optional(),
+  status: z
+    .enum(['pending', 'confirmed', 'completed', 'cancelled', 'expired'])
+    .optional(),
+  deliveryMethod: z.enum(['pickup', 'shipping']).optional(),
+  group: z.string().max(100).optional(),
+  paymentState: z.enum(['paid', 'unpaid']).optional(),
+});
+
+// Reservations for the admin dashboard, filtered by
+// ?magazineId=&status=&deliveryMethod=&group=&paymentState=
+export const GET: APIRoute = async ({ request, cookies, url }) => {
+  const auth = await authorizeAdminRequest(
+    request,
+    cookies,
+    'reservations:read',
+  );
+  if (!auth.authorized) {
+    return new Response(JSON.stringify({ success: false, error: auth.error }), {
+      status: auth.status,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  // Empty parameters mean "no filter"
+  const validationResult = filtersSchema.safeParse(
+    Object.fromEntries(
+      [...url.searchParams].filter(([, value]) => value !== ''),
+    ),
+  );
+
+  if (!validationResult.success) {
+    const errors = validationResult.error.issues.map((err) => ({
+      field: err.path.join('.'),
+      message: err.message,
+    }));
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: 'Validation failed',
+        message: 'Ungültiger Filter.',
+        errors,
+      }),
+      {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      },
+    );
+  }
+
+  const db = new DatabaseService();
+
+  try {
+    const reservations = await db.getAdminReservations(
+      validationResult.data,
+      auth.actor,
+    );
+
+    return new Response(JSON.stringify({ success: true, data: reservations }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Failed to load admin reservations:', error);
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: 'Internal server error',
+        message: 'Die Reservierungen konnten nicht geladen werden.',
+      }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      },
+    );
+  }
+};
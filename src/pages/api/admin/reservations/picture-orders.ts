@@ -0,0 +1,110 @@
+import type { APIRoute } from 'astro';
+import { z } from 'zod';
+import { authorizeAdminRequest } from '@/lib/auth/admin';
+import { pictureClaimsService } from '@/lib/picture-claims';
+import {
+  buildPictureOrderReport,
+  PICTURE_ORDER_CONTENT_TYPES,
+  pictureOrderFilename,
+  renderPictureOrderPdf,
+  toPictureOrderCsv,
+} from '@/lib/exports/picture-orders';
+
+export const prerender = false;
+
+const reportSchema = z.object({
+  format: z.enum(['csv', 'pdf']).default('csv'),
+});
+
+// Free pictures ordered per group for the print shop: ?format=csv for Excel,
+// ?format=pdf to print
+export const GET: APIRoute = async ({ request, cookies, url }) => {
+  const auth = await authorizeAdminRequest(
+    request,
+    cookies,
+    'reservations:read',
+  );
+  if (!auth.authorized) {
+    return new Response(JSON.stringify({ success: false, error: auth.error }), {
+      status: auth.status,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  // Empty parameters fall back to the default
+  const validationResult = reportSchema.safeParse(
+    Object.fromEntries(
+      [...url.searchParams].filter(([, value]) => value !== ''),
+    ),
+  );
+
+  if (!validationResult.success) {
+    const errors = validationResult.error.issues.map((err) => ({
+      field: err.path.join('.'),
+      message: err.message,
+    }));
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: 'Validation failed',
+        message: 'Ungültiger Export.',
+        errors,
+      }),
+      {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      },
+    );
+  }
+
+  const { format } = validationResult.data;
+
+  try {
+    const report = buildPictureOrderReport(
+      await pictureClaimsService.getAllClaims(auth.actor),
+    );
+
+    if (report.length === 0) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: 'No picture orders',
+          message: 'Es wurden noch keine Bilder bestellt.',
+        }),
+        {
+          status: 404,
+          headers: { 'Content-Type': 'application/json' },
+        },
+      );
+    }
+
+    const body =
+      format === 'csv'
+        ? toPictureOrderCsv(report)
+        : await renderPictureOrderPdf(report);
+
+    return new Response(body, {
+      status: 200,
+      headers: {
+        'Content-Type': PICTURE_ORDER_CONTENT_TYPES[format],
+        'Content-Disposition': `attachment; filename="${pictureOrderFilename(format)}"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    console.error('Failed to export picture orders:', error);
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: 'Internal server error',
+        message: 'Der Bericht konnte nicht erstellt werden.',
+      }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      },
+    );
+  }
+};
@@ -0,0 +1,117 @@
+import type { APIRoute } from 'astro';
+import { z } from 'zod';
+import { authorizeAdminRequest } from '@/lib/auth/admin';
+import { DatabaseService } from '@/lib/database';
+import {
+  renderAddressLabelsPdf,
+  SHIPPING_BATCH_CONTENT_TYPES,
+  shippingBatchFilename,
+  toInternetmarkeCsv,
+} from '@/lib/exports/shipping-labels';
+
+export const prerender = false;
+
+const batchSchema = z.object({
+  format: z.enum(['csv', 'pdf']),
+  magazineId: z.string().uuid().optional(),
+});
+
+// Envelopes for every paid shipping reservation that still has to be posted:
+// ?format=csv for the Internetmarke address import, ?format=pdf for labels
+export const GET: APIRoute = async ({ request, cookies, url }) => {
+  const auth = await authorizeAdminRequest(
+    request,
+    cookies,
+    'reservations:fulfil',
+  );
+  if (!auth.authorized) {
+    return new Response(JSON.stringify({ success: false, error: auth.error }), {
+      status: auth.status,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  // Empty parameters mean "no filter"
+  const validationResult = batchSchema.safeParse(
+    Object.fromEntries(
+      [...url.searchParams].filter(([, value]) => value !== ''),
+    ),
+  );
+
+  if (!validationResult.success) {
+    const errors = validationResult.error.issues.map((err) => ({
+      field: err.path.join('.'),
+      message: err.message,
+    }));
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: 'Validation failed',
+        message: 'Ungültiger Export.',
+        errors,
+      }),
+      {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      },
+    );
+  }
+
+  const { format, magazineId } = validationResult.data;
+
+  try {
+    // Confirmed shipping reservations are paid and not dispatched yet
+    const reservations = await new DatabaseService().getAdminReservations(
+      {
+        magazineId,
+        status: 'confirmed',
+        deliveryMethod: 'shipping',
+        paymentState: 'paid',
+      },
+      auth.actor,
+    );
+
+    if (reservations.length === 0) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: 'No shipping reservations',
+          message: 'Es gibt keine bezahlten Sendungen, die noch offen sind.',
+        }),
+        {
+          status: 404,
+          headers: { 'Content-Type': 'application/json' },
+        },
+      );
+    }
+
+    const body =
+      format === 'csv'
+        ? toInternetmarkeCsv(reservations)
+        : await renderAddressLabelsPdf(reservations);
+
+    return new Response(body, {
+      status: 200,
+      headers: {
+        'Content-Type': SHIPPING_BATCH_CONTENT_TYPES[format],
+        'Content-Disposition': `attachment; filename="${shippingBatchFilename(format)}"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    console.error('Failed to export shipping labels:', error);
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: 'Internal server error',
+        message: 'Die Versanddaten konnten nicht erstellt werden.',
+      }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      },
+    );
+  }
+};
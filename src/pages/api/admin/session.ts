@@ -0,0 +1,130 @@
+import type { APIRoute } from 'astro';
+import { z } from 'zod';
+import { startAdminSession, endAdminSession } from '@/lib/auth/admin';
+import { getDummyPasswordHash, verifyPassword } from '@/lib/auth/passwords';
+import { DatabaseService } from '@/lib/database';
+import { createRateLimit, getClientIp } from '@/lib/rate-limit';
+
+export const prerender = false;
+
+const loginSchema = z.object({
+  email: z.string().trim().email().max(254),
+  password: z.string().min(1).max(200),
+});
+
+// Login attempts in 15 minutes per client address, and failed logins per
+// account. Only failures count against an account, so nobody can keep it
+// locked by sending requests, and a successful login clears them.
+const LOGIN_WINDOW_MS = 15 * 60 * 1000;
+const loginAttemptsPerIp = createRateLimit({
+  windowMs: LOGIN_WINDOW_MS,
+  max: 20,
+});
+const failedLoginsPerAccount = createRateLimit({
+  windowMs: LOGIN_WINDOW_MS,
+  max: 5,
+});
+
+function tooManyAttempts(): Response {
+  return new Response(
+    JSON.stringify({
+      success: false,
+      error: 'Rate limit exceeded',
+      message:
+        'Zu viele Anmeldeversuche. Bitte versuchen Sie es in 15 Minuten erneut.',
+    }),
+    {
+      status: 429,
+      headers: {
+        'Content-Type': 'application/json',
+        'Retry-After': '900', // 15 minutes
+      },
+    },
+  );
+}
+
+// Dashboard login with the email address and password of an admin account
+export const POST: APIRoute = async ({ request, cookies }) => {
+  if (!loginAttemptsPerIp.check(getClientIp(request))) {
+    return tooManyAttempts();
+  }
+
+  const body = await request.json().catch(() => ({}));
+  const validationResult = loginSchema.safeParse(body);
+
+  const invalidLogin = () =>
+    new Response(
+      JSON.stringify({
+        success: false,
+        error: 'Unauthorized',
+        message: 'E-Mail-Adresse oder Passwort ist falsch.',
+      }),
+      {
+        status: 401,
+        headers: { 'Content-Type': 'application/json' },
+      },
+    );
+
+  if (!validationResult.success) return invalidLogin();
+
+  const { email, password } = validationResult.data;
+  const account = email.toLowerCase();
+  if (failedLoginsPerAccount.isLimited(account)) {
+    return tooManyAttempts();
+  }
+
+  const db = new DatabaseService();
+
+  try {
+    const login = await db.getAdminLogin(email);
+    const passwordValid = await verifyPassword(
+      password,
+      login?.passwordHash ?? (await getDummyPasswordHash()),
+    );
+
+    if (!login || !passwordValid || !login.adminUser.isActive) {
+      failedLoginsPerAccount.record(account);
+      return invalidLogin();
+    }
+
+    failedLoginsPerAccount.reset(account);
+    startAdminSession(cookies, login.adminUser.id);
+    await db.recordAdminLogin(login.adminUser.id).catch((error) => {
+      console.error('Failed to record admin login:', error);
+    });
+
+    return new Response(
+      JSON.stringify({ success: true, message: 'Sie sind angemeldet.' }),
+      {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' },
+      },
+    );
+  } catch (error) {
+    console.error('Admin login failed:', error);
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: 'Internal server error',
+        message: 'Die Anmeldung ist fehlgeschlagen.',
+      }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      },
+    );
+  }
+};
+
+export const DELETE: APIRoute = async ({ cookies }) => {
+  endAdminSession(cookies);
+
+  return new Response(
+    JSON.stringify({ success: true, message: 'Sie wurden abgemeldet.' }),
+    {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    },
+  );
+};
@@ -0,0 +1,117 @@
+import type { APIRoute } from 'astro';
+import { z } from 'zod';
+import { authorizeAdminRequest } from '@/lib/auth/admin';
+import { hashPassword, MIN_PASSWORD_LENGTH } from '@/lib/auth/passwords';
+import { ADMIN_ROLES } from '@/lib/auth/roles';
+import { DatabaseService } from '@/lib/database';
+
+export const prerender = false;
+
+const adminUserUpdateSchema = z
+  .object({
+    name: z.string().trim().min(1).max(100).optional(),
+    role: z.enum(ADMIN_ROLES).optional(),
+    isActive: z.boolean().optional(),
+    password: z
+      .string()
+      .min(
+        MIN_PASSWORD_LENGTH,
+        `Das Passwort muss mindestens ${MIN_PASSWORD_LENGTH} Zeichen lang sein`,
+      )
+      .max(200)
+      .optional(),
+  })
+  .refine((update) => Object.values(update).some((val) => val !== undefined), {
+    message: 'Keine Änderung angegeben',
+  });
+
+// Changes the role or name of an account, resets its password or
+// (de)activates it. Deactivated accounts are logged out immediately.
+export const PATCH: APIRoute = async ({ params, request, cookies }) => {
+  const auth = await authorizeAdminRequest(
+    request,
+    cookies,
+    'admin-users:manage',
+  );
+  if (!auth.authorized) {
+    return new Response(JSON.stringify({ success: false, error: auth.error }), {
+      status: auth.status,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  const body = await request.json().catch(() => ({}));
+  const validationResult = adminUserUpdateSchema.safeParse(body);
+
+  if (!validationResult.success) {
+    const errors = validationResult.error.issues.map((err) => ({
+      field: err.path.join('.'),
+      message: err.message,
+    }));
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: 'Validation failed',
+        message: 'Eingabedaten sind ungültig.',
+        errors,
+      }),
+      {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      },
+    );
+  }
+
+  const { password, ...update } = validationResult.data;
+
+  try {
+    const adminUser = await new DatabaseService().updateAdminUser(
+      params.id as string,
+      {
+        ...update,
+        ...(password && { passwordHash: await hashPassword(password) }),
+      },
+    );
+
+    if (!adminUser) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: 'Admin user not found',
+          message: 'Konto nicht gefunden.',
+        }),
+        {
+          status: 404,
+          headers: { 'Content-Type': 'application/json' },
+        },
+      );
+    }
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        data: adminUser,
+        message: 'Konto aktualisiert.',
+      }),
+      {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' },
+      },
+    );
+  } catch (error) {
+    console.error('Failed to update admin user:', error);
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: 'Internal server error',
+        message: 'Das Konto konnte nicht aktualisiert werden.',
+      }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      },
+    );
+  }
+};
@@ -0,0 +1,149 @@
+import type { APIRoute } from 'astro';
+import { z } from 'zod';
+import { authorizeAdminRequest } from '@/lib/auth/admin';
+import { hashPassword, MIN_PASSWORD_LENGTH } from '@/lib/auth/passwords';
+import { ADMIN_ROLES } from '@/lib/auth/roles';
+import { AdminUserExistsError, DatabaseService } from '@/lib/database';
+
+export const prerender = false;
+
+const adminUserSchema = z.object({
+  email: z
+    .string()
+    .trim()
+    .email('Bitte geben Sie eine gültige E-Mail-Adresse ein')
+    .max(254),
+  name: z.string().trim().min(1, 'Bitte geben Sie einen Namen ein').max(100),
+  role: z.enum(ADMIN_ROLES),
+  password: z
+    .string()
+    .min(
+      MIN_PASSWORD_LENGTH,
+      `Das Passwort muss mindestens ${MIN_PASSWORD_LENGTH} Zeichen lang sein`,
+    )
+    .max(200),
+});
+
+// Admin accounts, managed with the admin API key
+export const GET: APIRoute = async ({ request, cookies }) => {
+  const auth = await authorizeAdminRequest(
+    request,
+    cookies,
+    'admin-users:manage',
+  );
+  if (!auth.authorized) {
+    return new Response(JSON.stringify({ success: false, error: auth.error }), {
+      status: auth.status,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  try {
+    const adminUsers = await new DatabaseService().getAdminUsers();
+
+    return new Response(JSON.stringify({ success: true, data: adminUsers }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Failed to load admin users:', error);
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: 'Internal server error',
+        message: 'Die Konten konnten nicht geladen werden.',
+      }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      },
+    );
+  }
+};
+
+export const POST: APIRoute = async ({ request, cookies }) => {
+  const auth = await authorizeAdminRequest(
+    request,
+    cookies,
+    'admin-users:manage',
+  );
+  if (!auth.authorized) {
+    return new Response(JSON.stringify({ success: false, error: auth.error }), {
+      status: auth.status,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  const body = await request.json().catch(() => ({}));
+  const validationResult = adminUserSchema.safeParse(body);
+
+  if (!validationResult.success) {
+    const errors = validationResult.error.issues.map((err) => ({
+      field: err.path.join('.'),
+      message: err.message,
+    }));
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: 'Validation failed',
+        message: 'Eingabedaten sind ungültig.',
+        errors,
+      }),
+      {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      },
+    );
+  }
+
+  const { password, ...account } = validationResult.data;
+
+  try {
+    const adminUser = await new DatabaseService().createAdminUser({
+      ...account,
+      passwordHash: await hashPassword(password),
+    });
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        data: adminUser,
+        message: 'Konto angelegt.',
+      }),
+      {
+        status: 201,
+        headers: { 'Content-Type': 'application/json' },
+      },
+    );
+  } catch (error) {
+    if (error instanceof AdminUserExistsError) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: 'Admin user exists',
+          message: 'Für diese E-Mail-Adresse gibt es bereits ein Konto.',
+        }),
+        {
+          status: 409,
+          headers: { 'Content-Type': 'application/json' },
+        },
+      );
+    }
+
+    console.error('Failed to create admin user:', error);
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: 'Internal server error',
+        message: 'Das Konto konnte nicht angelegt werden.',
+      }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      },
+    );
+  }
+};
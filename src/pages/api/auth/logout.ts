@@ -0,0 +1,20 @@
+import type { APIRoute } from 'astro';
+import { endPortalSession } from '@/lib/auth/portal-session';
+
+// Mark this route as server-side only (not to be prerendered)
+export const prerender = false;
+
+export const POST: APIRoute = async ({ cookies }) => {
+  endPortalSession(cookies);
+
+  return new Response(
+    JSON.stringify({
+      success: true,
+      message: 'Sie wurden abgemeldet.',
+    }),
+    {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    },
+  );
+};
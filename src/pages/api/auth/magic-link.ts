@@ -0,0 +1,127 @@
+import type { APIRoute } from 'astro';
+import { z } from 'zod';
+import { DatabaseService } from '@/lib/database';
+import { getEmailService } from '@/lib/email/email-service';
+import { createToken } from '@/lib/auth/tokens';
+import { portalLoginUrl } from '@/lib/links';
+import { createRateLimit, getClientIp } from '@/lib/rate-limit';
+
+// Mark this route as server-side only (not to be prerendered)
+export const prerender = false;
+
+const magicLinkSchema = z.object({
+  email: z
+    .string()
+    .email('Bitte geben Sie eine gültige E-Mail-Adresse ein')
+    .max(254, 'E-Mail-Adresse ist zu lang')
+    .toLowerCase()
+    .trim(),
+});
+
+// 5 requests per client address in 15 minutes
+const rateLimit = createRateLimit({ windowMs: 15 * 60 * 1000, max: 5 });
+
+// Same answer whether or not the address is known, so the endpoint
+// cannot be used to find out who has reserved
+const SENT_MESSAGE =
+  'Falls zu dieser E-Mail-Adresse Reservierungen vorliegen, haben wir Ihnen einen Link geschickt. Bitte prüfen Sie Ihr Postfach.';
+
+export const POST: APIRoute = async ({ request }) => {
+  const db = new DatabaseService();
+
+  try {
+    const clientIP = getClientIp(request);
+
+    if (!rateLimit.check(clientIP)) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: 'Rate limit exceeded',
+          message:
+            'Zu viele Anfragen. Bitte versuchen Sie es in 15 Minuten erneut.',
+        }),
+        {
+          status: 429,
+          headers: {
+            'Content-Type': 'application/json',
+            'Retry-After': '900', // 15 minutes
+          },
+        },
+      );
+    }
+
+    let body;
+    try {
+      body = await request.json();
+    } catch {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: 'Invalid JSON',
+          message: 'Ungültiger JSON-Body.',
+        }),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' },
+        },
+      );
+    }
+
+    const validationResult = magicLinkSchema.safeParse(body);
+    if (!validationResult.success) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: 'Validation failed',
+          message: 'Bitte geben Sie eine gültige E-Mail-Adresse ein.',
+        }),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' },
+        },
+      );
+    }
+
+    const user = await db.getUserByEmail(validationResult.data.email);
+
+    if (user) {
+      const loginUrl = portalLoginUrl(createToken('login', user.id));
+      await getEmailService().sendMagicLink({ user, loginUrl });
+
+      await db.logDataProcessing({
+        userId: user.id,
+        action: 'accessed',
+        dataType: 'user_data',
+        legalBasis: 'user_request',
+        ipAddress: clientIP,
+        details: JSON.stringify({ endpoint: '/api/auth/magic-link' }),
+      });
+    }
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        message: SENT_MESSAGE,
+      }),
+      {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' },
+      },
+    );
+  } catch (error) {
+    console.error('Magic link error:', error);
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: 'Internal server error',
+        message:
+          'Der Link konnte nicht versendet werden. Bitte versuchen Sie es später erneut.',
+      }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      },
+    );
+  }
+};
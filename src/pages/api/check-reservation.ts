@@ -38,7 +38,8 @@ export const GET: APIRoute = async ({ url }) => {
         child_is_vorschueler,
         child_name,
         status,
-        users!inner(email)
+        users!inner(email),
+        reservation_children (*)
       `,
       )
       .eq('users.email', email)
@@ -71,13 +72,14 @@ export const GET: APIRoute = async ({ url }) => {
           paymentMethodCorrect:
             data?.delivery_method === 'pickup'
               ? data?.payment_method === null
-              : data?.payment_method === 'paypal',
+              : ['paypal', 'bank_transfer'].includes(data?.payment_method),
           pictureFieldsStored: {
             groupPicture: data?.order_group_picture,
             groupName: data?.child_group_name,
             vorschulPicture: data?.order_vorschul_picture,
             isVorschueler: data?.child_is_vorschueler,
             childName: data?.child_name,
+            children: data?.reservation_children,
           },
         },
       }),
@@ -1,12 +1,13 @@
 import type { APIRoute } from 'astro';
 import { z } from 'zod';
 import { DatabaseService } from '@/lib/database';
+import { getPortalUserId, endPortalSession } from '@/lib/auth/portal-session';
 
 // Mark this route as server-side only (not to be prerendered)
 export const prerender = false;
 
+// The user is taken from the portal session, never from the request body
 const deleteRequestSchema = z.object({
-  userId: z.string().uuid('Ungültige Benutzer-ID'),
   reason: z.string().min(1, 'Grund ist erforderlich'),
   requestTimestamp: z.string().datetime('Ungültiger Zeitstempel'),
   confirmDeletion: z
@@ -14,9 +15,24 @@ const deleteRequestSchema = z.object({
     .refine((val) => val === true, 'Löschung muss bestätigt werden'),
 });
 
-export const DELETE: APIRoute = async ({ request }) => {
+export const DELETE: APIRoute = async ({ request, cookies }) => {
   const db = new DatabaseService();
 
+  const userId = getPortalUserId(cookies);
+  if (!userId) {
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: 'Unauthorized',
+        message: 'Bitte melden Sie sich über den Link in Ihrer E-Mail an.',
+      }),
+      {
+        status: 401,
+        headers: { 'Content-Type': 'application/json' },
+      },
+    );
+  }
+
   try {
     const body = await request.json();
     const validationResult = deleteRequestSchema.safeParse(body);
@@ -41,7 +57,7 @@ export const DELETE: APIRoute = async ({ request }) => {
       );
     }
 
-    const { userId, reason } = validationResult.data;
+    const { reason } = validationResult.data;
 
     // Check if user has active reservations
     const activeReservations = await db.getUserReservations(userId);
@@ -70,36 +86,12 @@ export const DELETE: APIRoute = async ({ request }) => {
       );
     }
 
-    // Check legal retention requirements
-    const user = await db.getUserByEmail(''); // We need a way to get user by ID
-    if (user && user.dataRetentionUntil) {
-      const retentionDate = new Date(user.dataRetentionUntil);
-      const now = new Date();
-
-      if (retentionDate > now) {
-        return new Response(
-          JSON.stringify({
-            success: false,
-            error: 'Legal retention period active',
-            message: `Löschung nicht möglich: Gesetzliche Aufbewahrungsfrist bis ${retentionDate.toLocaleDateString('de-DE')} aktiv.`,
-            details: {
-              retentionUntil: user.dataRetentionUntil,
-              daysRemaining: Math.ceil(
-                (retentionDate.getTime() - now.getTime()) /
-                  (1000 * 60 * 60 * 24),
-              ),
-            },
-          }),
-          {
-            status: 409,
-            headers: { 'Content-Type': 'application/json' },
-          },
-        );
-      }
-    }
+    // No retention check here: data_retention_until is the date by which
+    // cleanupExpiredData deletes the user anyway, not a hold on deletion
 
     // Perform data deletion
     await db.deleteUserData(userId, reason);
+    endPortalSession(cookies);
 
     // Send deletion confirmation email (if email still available)
     // This would typically be done before actual deletion
@@ -169,27 +161,25 @@ export const DELETE: APIRoute = async ({ request }) => {
 };
 
 // Endpoint to check deletion eligibility
-export const POST: APIRoute = async ({ request }) => {
+export const POST: APIRoute = async ({ cookies }) => {
   const db = new DatabaseService();
 
-  try {
-    const body = await request.json();
-    const { userId } = body;
-
-    if (!userId) {
-      return new Response(
-        JSON.stringify({
-          success: false,
-          error: 'Missing userId',
-          message: 'Benutzer-ID ist erforderlich.',
-        }),
-        {
-          status: 400,
-          headers: { 'Content-Type': 'application/json' },
-        },
-      );
-    }
+  const userId = getPortalUserId(cookies);
+  if (!userId) {
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: 'Unauthorized',
+        message: 'Bitte melden Sie sich über den Link in Ihrer E-Mail an.',
+      }),
+      {
+        status: 401,
+        headers: { 'Content-Type': 'application/json' },
+      },
+    );
+  }
 
+  try {
     // Check deletion eligibility
     const activeReservations = await db.getUserReservations(userId);
     const hasActiveReservations = activeReservations.some(
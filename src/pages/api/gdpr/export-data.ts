@@ -1,17 +1,34 @@
 import type { APIRoute } from 'astro';
 import { z } from 'zod';
 import { DatabaseService } from '@/lib/database';
+import { getPortalUserId } from '@/lib/auth/portal-session';
 
 // Mark this route as server-side only (not to be prerendered)
 export const prerender = false;
 
+// The user is taken from the portal session, never from the request body
 const exportRequestSchema = z.object({
-  userId: z.string().uuid('Ungültige Benutzer-ID'),
   requestTimestamp: z.string().datetime('Ungültiger Zeitstempel'),
 });
 
-export const POST: APIRoute = async ({ request }) => {
+export const POST: APIRoute = async ({ request, cookies }) => {
   const db = new DatabaseService();
+
+  const userId = getPortalUserId(cookies);
+  if (!userId) {
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: 'Unauthorized',
+        message: 'Bitte melden Sie sich über den Link in Ihrer E-Mail an.',
+      }),
+      {
+        status: 401,
+        headers: { 'Content-Type': 'application/json' },
+      },
+    );
+  }
+
   try {
     const body = await request.json();
     const validationResult = exportRequestSchema.safeParse(body);
@@ -30,8 +47,6 @@ export const POST: APIRoute = async ({ request }) => {
       );
     }
 
-    const { userId } = validationResult.data;
-
     // Export user data
     const exportData = await db.exportUserData(userId);
 
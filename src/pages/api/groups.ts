@@ -0,0 +1,40 @@
+import type { APIRoute } from 'astro';
+import { DatabaseService } from '@/lib/database';
+
+export const prerender = false;
+
+// Groups of the current kindergarten year for the picture order in the
+// reservation form. The children on the roster stay private.
+export const GET: APIRoute = async () => {
+  try {
+    const groups = await new DatabaseService().getCurrentKindergartenGroups();
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        data: groups.map(({ id, name, year }) => ({ id, name, year })),
+      }),
+      {
+        status: 200,
+        headers: {
+          'Content-Type': 'application/json',
+          'Cache-Control': 'public, max-age=300', // Cache for 5 minutes
+        },
+      },
+    );
+  } catch (error) {
+    console.error('Failed to load kindergarten groups:', error);
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: 'Internal server error',
+        message: 'Die Gruppen konnten nicht geladen werden.',
+      }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      },
+    );
+  }
+};
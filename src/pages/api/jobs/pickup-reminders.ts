@@ -0,0 +1,41 @@
+import type { APIRoute } from 'astro';
+import { isAuthorizedCronRequest } from '@/lib/auth/cron';
+import { runPickupRemindersJob } from '@/lib/jobs/pickup-reminders';
+
+export const prerender = false;
+
+// Triggered by the daily Netlify scheduled function
+export const POST: APIRoute = async ({ request }) => {
+  if (!isAuthorizedCronRequest(request)) {
+    return new Response(
+      JSON.stringify({ success: false, error: 'Unauthorized' }),
+      {
+        status: 401,
+        headers: { 'Content-Type': 'application/json' },
+      },
+    );
+  }
+
+  try {
+    const result = await runPickupRemindersJob();
+
+    return new Response(JSON.stringify({ success: true, ...result }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Pickup reminder job failed:', error);
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: 'Job failed',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      },
+    );
+  }
+};
@@ -0,0 +1,138 @@
+import type { APIRoute } from 'astro';
+import { z } from 'zod';
+import { DatabaseService } from '@/lib/database';
+import { getPortalUserId } from '@/lib/auth/portal-session';
+import { pictureClaimsService } from '@/lib/picture-claims';
+import { createRateLimit, getClientIp } from '@/lib/rate-limit';
+
+export const prerender = false;
+
+const claimsQuerySchema = z.object({
+  email: z
+    .string()
+    .email('Bitte geben Sie eine gültige E-Mail-Adresse ein')
+    .max(254, 'E-Mail-Adresse ist zu lang')
+    .toLowerCase()
+    .trim(),
+});
+
+// 30 requests per client address in 15 minutes
+const rateLimit = createRateLimit({ windowMs: 15 * 60 * 1000, max: 30 });
+
+// Free pictures a family has claimed already, so the reservation form can
+// disable them before submit. Only the signed-in family can ask, and only
+// for its own email address. The children's names tell siblings in the same
+// group apart.
+export const GET: APIRoute = async ({ request, url, cookies }) => {
+  if (!rateLimit.check(getClientIp(request))) {
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: 'Rate limit exceeded',
+        message:
+          'Zu viele Anfragen. Bitte versuchen Sie es in 15 Minuten erneut.',
+      }),
+      {
+        status: 429,
+        headers: {
+          'Content-Type': 'application/json',
+          'Retry-After': '900', // 15 minutes
+        },
+      },
+    );
+  }
+
+  const userId = getPortalUserId(cookies);
+  if (!userId) {
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: 'Unauthorized',
+        message: 'Bitte melden Sie sich über den Link in Ihrer E-Mail an.',
+      }),
+      {
+        status: 401,
+        headers: { 'Content-Type': 'application/json' },
+      },
+    );
+  }
+
+  const validationResult = claimsQuerySchema.safeParse({
+    email: url.searchParams.get('email') ?? '',
+  });
+
+  if (!validationResult.success) {
+    const errors = validationResult.error.issues.map((err) => ({
+      field: err.path.join('.'),
+      message: err.message,
+    }));
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: 'Validation failed',
+        message: 'Eingabedaten sind ungültig.',
+        errors,
+      }),
+      {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      },
+    );
+  }
+
+  try {
+    const user = await new DatabaseService().getUserById(userId);
+
+    if (user?.email.toLowerCase() !== validationResult.data.email) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: 'Forbidden',
+          message:
+            'Bildbestellungen können nur für die eigene E-Mail-Adresse abgefragt werden.',
+        }),
+        {
+          status: 403,
+          headers: { 'Content-Type': 'application/json' },
+        },
+      );
+    }
+
+    const claims = await pictureClaimsService.getFamilyClaims(
+      validationResult.data.email,
+    );
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        data: claims.map(({ groupName, pictureType, childName }) => ({
+          groupName,
+          pictureType,
+          childName,
+        })),
+      }),
+      {
+        status: 200,
+        headers: {
+          'Content-Type': 'application/json',
+          'Cache-Control': 'no-store',
+        },
+      },
+    );
+  } catch (error) {
+    console.error('Failed to load picture claims:', error);
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: 'Internal server error',
+        message: 'Die Bildbestellungen konnten nicht geladen werden.',
+      }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      },
+    );
+  }
+};
@@ -1,213 +1,172 @@
 import type { APIRoute } from 'astro';
-import { z } from 'zod';
-import { DatabaseService } from '@/lib/database';
+import {
+  DatabaseService,
+  FamilyLimitExceededError,
+  InsufficientCopiesError,
+  MagazineNotFoundError,
+  PickupSlotUnavailableError,
+  PictureAlreadyClaimedError,
+  PictureChildNotListedError,
+  WaitlistOfferExpiredError,
+} from '@/lib/database';
 import { getEmailService } from '@/lib/email/email-service';
-// import { pictureClaimsService } from '@/lib/picture-claims'; // Disabled until picture_claims table exists
+import { getPortalUserId } from '@/lib/auth/portal-session';
+import { createToken } from '@/lib/auth/tokens';
+import { reservationCancelUrl } from '@/lib/links';
+import {
+  copiesPerFamily,
+  isMagazineOpen,
+  remainingFamilyCopies,
+} from '@/lib/magazines';
+import { isPickupSlotOpen, remainingCapacity } from '@/lib/pickup-slots';
+import { createRateLimit, getClientIp } from '@/lib/rate-limit';
+import {
+  pictureAlreadyClaimedMessage,
+  pictureChildNotListedMessage,
+  pictureClaimsService,
+} from '@/lib/picture-claims';
+import { findWaitlistOffer } from '@/lib/waitlist';
+import { reservationSchema } from '@/lib/validation/reservation';
 import type { ReservationFormData } from '@/types';
 
 // Mark this route as server-side only (not to be prerendered)
 export const prerender = false;
 
-// Address validation schema - fields are validated conditionally based on delivery method
-const addressSchema = z
-  .object({
-    street: z.string().max(200, 'Straße ist zu lang').trim().optional(),
-    houseNumber: z.string().max(20, 'Hausnummer ist zu lang').trim().optional(),
-    postalCode: z
-      .string()
-      .max(20, 'Postleitzahl ist zu lang')
-      .trim()
-      .optional(),
-    city: z.string().max(100, 'Stadt ist zu lang').trim().optional(),
-    country: z
-      .enum(['DE', 'AT', 'CH'], {
-        message:
-          'Wir liefern nur nach Deutschland, Österreich und in die Schweiz',
-      })
-      .optional(),
-    addressLine2: z
-      .string()
-      .max(200, 'Adresszusatz ist zu lang')
-      .optional()
-      .transform((val) => val?.trim() || undefined),
-  })
-  .optional();
-
-// Validation schema for reservation data
-const reservationSchema = z
-  .object({
-    firstName: z
-      .string()
-      .min(2, 'Vorname muss mindestens 2 Zeichen lang sein')
-      .max(100, 'Vorname darf maximal 100 Zeichen lang sein')
-      .trim(),
-    lastName: z
-      .string()
-      .min(2, 'Nachname muss mindestens 2 Zeichen lang sein')
-      .max(100, 'Nachname darf maximal 100 Zeichen lang sein')
-      .trim(),
-    email: z
-      .string()
-      .email('Bitte geben Sie eine gültige E-Mail-Adresse ein')
-      .max(254, 'E-Mail-Adresse ist zu lang')
-      .toLowerCase()
-      .trim(),
-    phone: z
-      .string()
-      .transform((val) => val.replace(/[\s\-()]/g, '')) // Remove spaces, dashes, and parentheses
-      .refine(
-        (val) => !val || /^\+?[1-9]\d{1,14}$/.test(val),
-        'Bitte geben Sie eine gültige Telefonnummer ein',
-      )
-      .optional()
-      .or(z.literal(''))
-      .transform((val) => (val === '' ? undefined : val)),
-    magazineId: z
-      .string()
-      .min(1, 'Bitte wählen Sie eine Magazin-Ausgabe')
-      .uuid('Ungültige Magazin-ID'),
-    quantity: z
-      .number()
-      .int('Anzahl muss eine ganze Zahl sein')
-      .min(1, 'Mindestens 1 Exemplar erforderlich')
-      .max(5, 'Maximal 5 Exemplare pro Reservierung'),
-    deliveryMethod: z.enum(['pickup', 'shipping'], {
-      message: 'Ungültige Liefermethode',
-    }),
-    pickupLocation: z.string().max(200, 'Abholort ist zu lang').optional(),
-    pickupDate: z
-      .string()
-      .optional()
-      .refine((date) => {
-        if (!date) return true;
-        const pickupDate = new Date(date);
-        const tomorrow = new Date();
-        tomorrow.setDate(tomorrow.getDate() + 1);
-        return pickupDate >= tomorrow;
-      }, 'Abholdatum muss mindestens einen Tag in der Zukunft liegen'),
-    address: addressSchema,
-    notes: z
-      .string()
-      .max(500, 'Anmerkungen dürfen maximal 500 Zeichen lang sein')
-      .optional()
-      .transform((val) => val?.trim() || undefined),
-    consents: z.object({
-      essential: z
-        .boolean()
-        .refine(
-          (val) => val === true,
-          'Erforderliche Einwilligung muss erteilt werden',
-        ),
-      functional: z.boolean(),
-      analytics: z.boolean(),
-      marketing: z.boolean(),
+// 5 requests per client address in 15 minutes
+const rateLimit = createRateLimit({ windowMs: 15 * 60 * 1000, max: 5 });
+
+// Answer when the chosen pickup slot cannot take the reservation
+const PICKUP_SLOT_MESSAGES: Record<
+  PickupSlotUnavailableError['reason'],
+  string
+> = {
+  full: 'Der gewählte Abholtermin ist leider ausgebucht. Bitte wählen Sie einen anderen.',
+  closed:
+    'Der gewählte Abholtermin ist nicht mehr verfügbar. Bitte wählen Sie einen anderen.',
+};
+
+function pickupSlotUnavailableResponse(
+  reason: PickupSlotUnavailableError['reason'],
+): Response {
+  return new Response(
+    JSON.stringify({
+      success: false,
+      error: 'Pickup slot unavailable',
+      message: PICKUP_SLOT_MESSAGES[reason],
+      errors: [
+        { field: 'pickupSlotId', message: PICKUP_SLOT_MESSAGES[reason] },
+      ],
     }),
-    // Picture order fields
-    orderGroupPicture: z.boolean().optional(),
-    childGroupName: z.string().max(100).optional(),
-    orderVorschulPicture: z.boolean().optional(),
-    childIsVorschueler: z.boolean().optional(),
-    childName: z.string().max(200).trim().optional(),
-  })
-  .refine(
-    (data) => {
-      // If pickup method, pickupLocation is required
-      if (data.deliveryMethod === 'pickup') {
-        return data.pickupLocation && data.pickupLocation.length > 0;
-      }
-      return true;
-    },
     {
-      message: 'Bitte wählen Sie einen Abholort',
-      path: ['pickupLocation'],
-    },
-  )
-  .refine(
-    (data) => {
-      // If shipping method, validate all address fields are present
-      if (data.deliveryMethod === 'shipping') {
-        if (!data.address) return false;
-
-        const hasStreet =
-          data.address.street && data.address.street.trim().length > 0;
-        const hasHouseNumber =
-          data.address.houseNumber &&
-          data.address.houseNumber.trim().length > 0;
-        const hasPostalCode =
-          data.address.postalCode && data.address.postalCode.trim().length >= 4;
-        const hasCity =
-          data.address.city && data.address.city.trim().length > 0;
-        const hasCountry =
-          data.address.country && data.address.country.length === 2;
-
-        return (
-          hasStreet && hasHouseNumber && hasPostalCode && hasCity && hasCountry
-        );
-      }
-      return true;
+      status: 409,
+      headers: {
+        'Content-Type': 'application/json',
+        'Access-Control-Allow-Origin': '*',
+      },
     },
+  );
+}
+
+// Answer when the family cannot order the free pictures it asked for
+function pictureOrderResponse(messages: string[]): Response {
+  return new Response(
+    JSON.stringify({
+      success: false,
+      error: 'Picture order validation failed',
+      message: messages.join(' '),
+      errors: messages.map((msg) => ({ field: 'picture', message: msg })),
+    }),
     {
-      message: 'Alle Adressfelder sind bei Versand erforderlich',
-      path: ['address'],
-    },
-  )
-  .refine(
-    (data) => {
-      // If ordering group picture, group name and child name are required
-      if (data.orderGroupPicture) {
-        return (
-          data.childGroupName &&
-          data.childGroupName.length > 0 &&
-          data.childName &&
-          data.childName.length > 0
-        );
-      }
-      return true;
+      status: 409,
+      headers: {
+        'Content-Type': 'application/json',
+        'Access-Control-Allow-Origin': '*',
+      },
     },
-    {
+  );
+}
+
+// Answer when a claim link from the waitlist can no longer be used
+function waitlistOfferExpiredResponse(): Response {
+  return new Response(
+    JSON.stringify({
+      success: false,
+      error: 'Waitlist offer expired',
       message:
-        'Gruppenname und Kindername sind für die Bildbestellung erforderlich',
-      path: ['childGroupName'],
-    },
-  )
-  .refine(
-    (data) => {
-      // If ordering Vorschüler picture, child must be marked as Vorschüler and name is required
-      if (data.orderVorschulPicture) {
-        return (
-          data.childIsVorschueler === true &&
-          data.childName &&
-          data.childName.length > 0
-        );
-      }
-      return true;
-    },
+        'Das Angebot von der Warteliste ist abgelaufen oder wurde bereits eingelöst.',
+    }),
     {
-      message:
-        'Für die Vorschüler-Bildbestellung muss das Kind als Vorschüler markiert sein',
-      path: ['orderVorschulPicture'],
+      status: 409,
+      headers: {
+        'Content-Type': 'application/json',
+        'Access-Control-Allow-Origin': '*',
+      },
     },
   );
+}
 
-// Rate limiting (simple in-memory implementation)
-const rateLimitMap = new Map<string, { count: number; lastRequest: number }>();
-const RATE_LIMIT_WINDOW = 15 * 60 * 1000; // 15 minutes
-const RATE_LIMIT_MAX = 5; // 5 requests per window
-
-function checkRateLimit(clientIP: string): boolean {
-  const now = Date.now();
-  const clientData = rateLimitMap.get(clientIP) || { count: 0, lastRequest: 0 };
-
-  // Reset if window has passed
-  if (now - clientData.lastRequest > RATE_LIMIT_WINDOW) {
-    clientData.count = 0;
-  }
+// Answer when the issue does not exist, also when it was deleted while the
+// reservation was being created
+function magazineNotFoundResponse(): Response {
+  return new Response(
+    JSON.stringify({
+      success: false,
+      error: 'Magazine not found',
+      message: 'Die gewählte Magazin-Ausgabe ist nicht verfügbar.',
+    }),
+    {
+      status: 404,
+      headers: {
+        'Content-Type': 'application/json',
+        'Access-Control-Allow-Origin': '*',
+      },
+    },
+  );
+}
 
-  clientData.count++;
-  clientData.lastRequest = now;
-  rateLimitMap.set(clientIP, clientData);
+function insufficientCopiesResponse(availableCopies: number): Response {
+  return new Response(
+    JSON.stringify({
+      success: false,
+      error: 'Insufficient copies',
+      message: `Nur noch ${availableCopies} Exemplare verfügbar. Sie können sich auf die Warteliste setzen.`,
+      data: { availableCopies },
+    }),
+    {
+      status: 409,
+      headers: {
+        'Content-Type': 'application/json',
+        'Access-Control-Allow-Origin': '*',
+      },
+    },
+  );
+}
 
-  return clientData.count <= RATE_LIMIT_MAX;
+// Answer when the family would exceed the copies it may reserve of the issue
+function familyLimitResponse(limit: number, remaining: number): Response {
+  const message =
+    remaining > 0
+      ? `Pro Familie können höchstens ${limit} Exemplare dieser Ausgabe reserviert werden. Sie können noch ${remaining} reservieren.`
+      : limit === 1
+        ? 'Pro Familie kann ein Exemplar dieser Ausgabe reserviert werden. Für Ihre E-Mail-Adresse besteht bereits eine Reservierung.'
+        : `Pro Familie können höchstens ${limit} Exemplare dieser Ausgabe reserviert werden. Für Ihre E-Mail-Adresse sind bereits alle reserviert.`;
+
+  return new Response(
+    JSON.stringify({
+      success: false,
+      error: 'Reservation limit reached',
+      message,
+      errors: [{ field: 'quantity', message }],
+      data: { copiesPerFamily: limit, remainingCopies: remaining },
+    }),
+    {
+      status: 409,
+      headers: {
+        'Content-Type': 'application/json',
+        'Access-Control-Allow-Origin': '*',
+      },
+    },
+  );
 }
 
 // Add OPTIONS handler for CORS
@@ -228,15 +187,11 @@ export const POST: APIRoute = async ({ request }) => {
 
   try {
     // Get client information
-    // x-forwarded-for can contain multiple IPs, get the first one
-    const forwardedFor = request.headers.get('x-forwarded-for');
-    const clientIP = forwardedFor
-      ? forwardedFor.split(',')[0].trim()
-      : request.headers.get('x-real-ip') || 'unknown';
+    const clientIP = getClientIp(request);
     const userAgent = request.headers.get('user-agent') || 'unknown';
 
     // Check rate limiting
-    if (!checkRateLimit(clientIP)) {
+    if (!rateLimit.check(clientIP)) {
       return new Response(
         JSON.stringify({
           success: false,
@@ -325,28 +280,16 @@ export const POST: APIRoute = async ({ request }) => {
     // Check if magazine exists and has available copies
     const magazine = await db.getMagazineById(formData.magazineId);
     if (!magazine) {
-      return new Response(
-        JSON.stringify({
-          success: false,
-          error: 'Magazine not found',
-          message: 'Die gewählte Magazin-Ausgabe ist nicht verfügbar.',
-        }),
-        {
-          status: 404,
-          headers: {
-            'Content-Type': 'application/json',
-            'Access-Control-Allow-Origin': '*',
-          },
-        },
-      );
+      return magazineNotFoundResponse();
     }
 
-    if (magazine.availableCopies < formData.quantity) {
+    if (!isMagazineOpen(magazine)) {
       return new Response(
         JSON.stringify({
           success: false,
-          error: 'Insufficient copies',
-          message: `Nur noch ${magazine.availableCopies} Exemplare verfügbar.`,
+          error: 'Reservations closed',
+          message:
+            'Für diese Ausgabe sind derzeit keine Reservierungen möglich.',
         }),
         {
           status: 409,
@@ -358,9 +301,61 @@ export const POST: APIRoute = async ({ request }) => {
       );
     }
 
+    // A claim link from the waitlist: the copies are held for this family
+    // already, so the offered quantity applies and the stock is not checked
+    let waitlistEntryId: string | undefined;
+    if (formData.waitlistToken) {
+      const offer = await findWaitlistOffer(formData.waitlistToken);
+      if (
+        !offer ||
+        offer.magazineId !== formData.magazineId ||
+        offer.email !== formData.email
+      ) {
+        return waitlistOfferExpiredResponse();
+      }
+      waitlistEntryId = offer.id;
+      formData.quantity = offer.quantity;
+    }
+
     // Check if user already exists
     let user = await db.getUserByEmail(formData.email);
 
+    // Families are identified by their email address; earlier reservations
+    // of the issue count against its per-family limit, or against the
+    // exception set for the family. The database checks it again under a
+    // lock when the reservation is created.
+    const familyLimit = await db.getFamilyReservationLimit(
+      magazine.id,
+      formData.email,
+    );
+    const remaining = remainingFamilyCopies(
+      magazine,
+      user ? await db.getUserReservations(user.id) : [],
+      familyLimit,
+    );
+    if (formData.quantity > remaining) {
+      return familyLimitResponse(
+        copiesPerFamily(magazine, familyLimit),
+        remaining,
+      );
+    }
+
+    if (!waitlistEntryId && magazine.availableCopies < formData.quantity) {
+      return insufficientCopiesResponse(magazine.availableCopies);
+    }
+
+    // Same early answer for the pickup slot; the booking trigger has the
+    // final say when the reservation is inserted
+    if (formData.deliveryMethod === 'pickup' && formData.pickupSlotId) {
+      const slot = await db.getPickupSlotById(formData.pickupSlotId);
+      if (!slot || !isPickupSlotOpen(slot)) {
+        return pickupSlotUnavailableResponse('closed');
+      }
+      if (remainingCapacity(slot) === 0) {
+        return pickupSlotUnavailableResponse('full');
+      }
+    }
+
     if (!user) {
       // Create new user
       user = await db.createUser({
@@ -398,78 +393,64 @@ export const POST: APIRoute = async ({ request }) => {
       }
     }
 
-    // Validate picture orders before creating reservation
-    // TODO: Re-enable when picture_claims table is created
-    /*
-    if (formData.orderGroupPicture || formData.orderVorschulPicture) {
+    // Early answer for the free pictures; the claim trigger takes them
+    // together with the reservation and has the final say
+    if (formData.children?.length) {
       const pictureValidation = await pictureClaimsService.validatePictureOrder(
         formData.email,
-        formData.orderGroupPicture || false,
-        formData.childGroupName,
-        formData.orderVorschulPicture || false,
-        formData.childIsVorschueler || false
+        formData.children,
       );
 
       if (!pictureValidation.valid) {
-        return new Response(
-          JSON.stringify({
-            success: false,
-            error: 'Picture order validation failed',
-            message: pictureValidation.errors.join(' '),
-            errors: pictureValidation.errors.map(msg => ({ field: 'picture', message: msg })),
-          }),
-          {
-            status: 409,
-            headers: {
-            'Content-Type': 'application/json',
-            'Access-Control-Allow-Origin': '*',
-          },
-          },
-        );
-      }
-    }
-    */
-
-    // Create reservation
-    const reservation = await db.createReservation(formData);
-
-    // Create picture claims if applicable
-    // TODO: Re-enable when picture_claims table is created
-    /*
-    if (formData.orderGroupPicture && formData.childGroupName && formData.childName) {
-      try {
-        await pictureClaimsService.createClaim(
-          formData.email,
-          formData.childGroupName,
-          'group',
-          formData.childName,
-          reservation.id
-        );
-      } catch (error) {
-        console.error('Failed to create group picture claim:', error);
-        // Don't fail the reservation, but log the error
+        return pictureOrderResponse(pictureValidation.errors);
       }
     }
 
-    if (formData.orderVorschulPicture && formData.childGroupName && formData.childName) {
-      try {
-        await pictureClaimsService.createClaim(
-          formData.email,
-          formData.childGroupName,
-          'vorschul',
-          formData.childName,
-          reservation.id
+    // Create reservation - stock is checked and decremented atomically in the
+    // database and the pictures are claimed in the same insert, the checks
+    // above only give a fast early answer
+    let reservation;
+    try {
+      reservation = await db.createReservation(formData, { waitlistEntryId });
+    } catch (error) {
+      if (error instanceof InsufficientCopiesError) {
+        return insufficientCopiesResponse(error.availableCopies);
+      }
+      if (error instanceof FamilyLimitExceededError) {
+        return familyLimitResponse(
+          error.copiesPerFamily,
+          error.remainingCopies,
         );
-      } catch (error) {
-        console.error('Failed to create Vorschüler picture claim:', error);
-        // Don't fail the reservation, but log the error
       }
+      if (error instanceof MagazineNotFoundError) {
+        return magazineNotFoundResponse();
+      }
+      if (error instanceof WaitlistOfferExpiredError) {
+        return waitlistOfferExpiredResponse();
+      }
+      if (error instanceof PickupSlotUnavailableError) {
+        return pickupSlotUnavailableResponse(error.reason);
+      }
+      if (error instanceof PictureAlreadyClaimedError) {
+        return pictureOrderResponse([
+          pictureAlreadyClaimedMessage(error.pictureType, error.groupName),
+        ]);
+      }
+      if (error instanceof PictureChildNotListedError) {
+        return pictureOrderResponse([
+          pictureChildNotListedMessage(error.pictureType, error.groupName),
+        ]);
+      }
+      throw error;
     }
-    */
 
     // Send confirmation email - MUST await to ensure it completes before function ends
     try {
-      await sendConfirmationEmail(user, reservation, magazine);
+      const cancelUrl = reservationCancelUrl(
+        reservation.id,
+        createToken('reservation', reservation.id),
+      );
+      await sendConfirmationEmail(user, reservation, magazine, cancelUrl);
     } catch (error) {
       // Log error but don't fail the reservation
       console.error('Email send failed:', {
@@ -578,33 +559,53 @@ async function sendConfirmationEmail(
   user: any,
   reservation: any,
   magazine: any,
+  cancelUrl: string,
 ): Promise<void> {
   const emailService = getEmailService();
   await emailService.sendReservationConfirmation({
     reservation,
     user,
     magazine,
+    cancelUrl,
   });
 }
 
-// GET endpoint for retrieving user reservations (requires authentication)
-export const GET: APIRoute = async ({ request }) => {
+// GET endpoint for retrieving the reservations of the signed-in parent
+export const GET: APIRoute = async ({ request, cookies }) => {
   const db = new DatabaseService();
 
-  try {
-    // This would require authentication in a real app
-    // For demo purposes, we'll just return an empty array
+  const userId = getPortalUserId(cookies);
+  if (!userId) {
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: 'Unauthorized',
+        message: 'Bitte melden Sie sich über den Link in Ihrer E-Mail an.',
+      }),
+      {
+        status: 401,
+        headers: {
+          'Content-Type': 'application/json',
+          'Access-Control-Allow-Origin': '*',
+        },
+      },
+    );
+  }
 
+  try {
     const clientIP =
       request.headers.get('x-forwarded-for') ||
       request.headers.get('x-real-ip') ||
       'unknown';
 
-    // Log the access attempt
+    const reservations = await db.getUserReservations(userId);
+
+    // Log the access
     await db.logDataProcessing({
+      userId,
       action: 'accessed',
       dataType: 'reservation',
-      legalBasis: 'legitimate_interest',
+      legalBasis: 'user_request',
       ipAddress: clientIP,
       details: JSON.stringify({ endpoint: '/api/reservations', method: 'GET' }),
     });
@@ -612,8 +613,7 @@ export const GET: APIRoute = async ({ request }) => {
     return new Response(
       JSON.stringify({
         success: true,
-        data: [],
-        message: 'Authentication required for this endpoint',
+        data: reservations,
       }),
       {
         status: 200,
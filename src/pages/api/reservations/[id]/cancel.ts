@@ -0,0 +1,135 @@
+import type { APIRoute } from 'astro';
+import { DatabaseService } from '@/lib/database';
+import { InvalidStatusTransitionError } from '@/lib/reservation-status';
+import { getPortalUserId } from '@/lib/auth/portal-session';
+import { verifyToken } from '@/lib/auth/tokens';
+import { pictureClaimsService } from '@/lib/picture-claims';
+import { getEmailService } from '@/lib/email/email-service';
+import { offerReturnedCopies } from '@/lib/waitlist';
+
+// Mark this route as server-side only (not to be prerendered)
+export const prerender = false;
+
+// Authorized either by the portal session or by the signed cancellation
+// token from the confirmation email ({ token } in the JSON body)
+export const POST: APIRoute = async ({ params, request, cookies }) => {
+  const db = new DatabaseService();
+  const reservationId = params.id as string;
+
+  const body = await request.json().catch(() => ({}));
+  const sessionUserId = getPortalUserId(cookies);
+  const tokenPayload = verifyToken(body?.token, 'reservation');
+  const hasValidToken = tokenPayload?.sub === reservationId;
+
+  if (!sessionUserId && !hasValidToken) {
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: 'Unauthorized',
+        message: 'Der Stornierungslink ist ungültig oder abgelaufen.',
+      }),
+      {
+        status: 401,
+        headers: { 'Content-Type': 'application/json' },
+      },
+    );
+  }
+
+  try {
+    const details = await db.getReservationDetails(reservationId);
+
+    // A session only grants access to the parent's own reservations
+    if (
+      !details ||
+      (!hasValidToken && details.reservation.userId !== sessionUserId)
+    ) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: 'Reservation not found',
+          message: 'Reservierung nicht gefunden.',
+        }),
+        {
+          status: 404,
+          headers: { 'Content-Type': 'application/json' },
+        },
+      );
+    }
+
+    // Releases the reserved copies back to stock
+    await db.cancelReservation(reservationId, details.user.id);
+
+    // Free picture claims so the family can order again
+    try {
+      await pictureClaimsService.deleteClaim(reservationId);
+    } catch (error) {
+      console.error('Failed to delete picture claims:', {
+        reservationId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+
+    // The copies go to the next families on the waitlist
+    try {
+      await offerReturnedCopies(details.reservation.magazineId, new Date());
+    } catch (error) {
+      console.error('Failed to offer copies to the waitlist:', {
+        reservationId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+
+    try {
+      await getEmailService().sendCancellationConfirmation({
+        ...details,
+        reservation: { ...details.reservation, status: 'cancelled' },
+      });
+    } catch (error) {
+      // Log error but don't fail the cancellation
+      console.error('Cancellation email failed:', {
+        reservationId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        message: 'Ihre Reservierung wurde storniert.',
+      }),
+      {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' },
+      },
+    );
+  } catch (error) {
+    if (error instanceof InvalidStatusTransitionError) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: 'Invalid status',
+          message: 'Diese Reservierung kann nicht mehr storniert werden.',
+        }),
+        {
+          status: 409,
+          headers: { 'Content-Type': 'application/json' },
+        },
+      );
+    }
+
+    console.error('Reservation cancellation error:', error);
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: 'Internal server error',
+        message:
+          'Die Reservierung konnte nicht storniert werden. Bitte versuchen Sie es später erneut.',
+      }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      },
+    );
+  }
+};
@@ -0,0 +1,221 @@
+import type { APIRoute } from 'astro';
+import {
+  DatabaseService,
+  PickupSlotUnavailableError,
+  ReservationNotEditableError,
+} from '@/lib/database';
+import { getPortalUserId } from '@/lib/auth/portal-session';
+import { createToken, verifyToken } from '@/lib/auth/tokens';
+import { getEmailService } from '@/lib/email/email-service';
+import { reservationCancelUrl } from '@/lib/links';
+import { createReservationUpdateSchema } from '@/lib/validation/reservation';
+import { calculateTotalCost } from '@/config/payment';
+import type { Reservation } from '@/types';
+
+// Mark this route as server-side only (not to be prerendered)
+export const prerender = false;
+
+// Stored delivery details in the shape of the update schema. Nullable
+// columns become undefined so unchanged values pass validation again.
+function currentDelivery(reservation: Reservation) {
+  const address = reservation.shippingAddress;
+
+  return {
+    deliveryMethod: reservation.deliveryMethod,
+    pickupLocation: reservation.pickupLocation ?? undefined,
+    pickupSlotId: reservation.pickupSlotId ?? undefined,
+    address: address && {
+      street: address.street ?? undefined,
+      houseNumber: address.houseNumber ?? undefined,
+      postalCode: address.postalCode ?? undefined,
+      city: address.city ?? undefined,
+      country: address.country ?? undefined,
+      addressLine2: address.addressLine2 ?? undefined,
+    },
+    notes: reservation.notes ?? undefined,
+  };
+}
+
+// Changes delivery method, pickup location or shipping address of a pending
+// reservation. Authorized like the cancellation: portal session or the
+// signed token from the confirmation email ({ token } in the JSON body).
+export const PATCH: APIRoute = async ({ params, request, cookies }) => {
+  const db = new DatabaseService();
+  const reservationId = params.id as string;
+
+  const body = await request.json().catch(() => ({}));
+  const sessionUserId = getPortalUserId(cookies);
+  const tokenPayload = verifyToken(body?.token, 'reservation');
+  const hasValidToken = tokenPayload?.sub === reservationId;
+
+  if (!sessionUserId && !hasValidToken) {
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: 'Unauthorized',
+        message: 'Der Link ist ungültig oder abgelaufen.',
+      }),
+      {
+        status: 401,
+        headers: { 'Content-Type': 'application/json' },
+      },
+    );
+  }
+
+  try {
+    const details = await db.getReservationDetails(reservationId);
+
+    // A session only grants access to the parent's own reservations
+    if (
+      !details ||
+      (!hasValidToken && details.reservation.userId !== sessionUserId)
+    ) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: 'Reservation not found',
+          message: 'Reservierung nicht gefunden.',
+        }),
+        {
+          status: 404,
+          headers: { 'Content-Type': 'application/json' },
+        },
+      );
+    }
+
+    // Validate the changed fields together with the stored ones, so that
+    // e.g. switching to shipping requires a complete address and switching
+    // to pickup a slot. Unknown keys such as the token are stripped by the
+    // schema.
+    const validationResult = createReservationUpdateSchema({
+      deliveryMethod: details.reservation.deliveryMethod,
+      pickupLocation: details.reservation.pickupLocation ?? undefined,
+      pickupDate: details.reservation.pickupDate ?? undefined,
+    }).safeParse({
+      ...currentDelivery(details.reservation),
+      ...body,
+    });
+
+    if (!validationResult.success) {
+      const errors = validationResult.error.issues.map((err) => ({
+        field: err.path.join('.'),
+        message: err.message,
+      }));
+
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: 'Validation failed',
+          message: 'Eingabedaten sind ungültig.',
+          errors,
+        }),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' },
+        },
+      );
+    }
+
+    const update = validationResult.data;
+
+    // Keep the agreed pickup date unless a new one was sent
+    if (
+      !update.pickupDate &&
+      update.deliveryMethod === 'pickup' &&
+      details.reservation.deliveryMethod === 'pickup'
+    ) {
+      update.pickupDate = details.reservation.pickupDate;
+    }
+
+    const reservation = await db.updateReservationDelivery(
+      reservationId,
+      update,
+      details.user.id,
+    );
+
+    const totalCost = calculateTotalCost(
+      reservation.deliveryMethod === 'shipping',
+      reservation.quantity,
+    );
+
+    try {
+      await getEmailService().sendReservationUpdate({
+        ...details,
+        reservation,
+        cancelUrl: reservationCancelUrl(
+          reservation.id,
+          createToken('reservation', reservation.id),
+        ),
+      });
+    } catch (error) {
+      // Log error but don't fail the update
+      console.error('Reservation update email failed:', {
+        reservationId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        data: {
+          id: reservation.id,
+          deliveryMethod: reservation.deliveryMethod,
+          paymentMethod: reservation.paymentMethod,
+          expiresAt: reservation.expiresAt,
+          totalCost,
+        },
+        message: 'Ihre Reservierung wurde geändert.',
+      }),
+      {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' },
+      },
+    );
+  } catch (error) {
+    if (error instanceof ReservationNotEditableError) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: 'Invalid status',
+          message:
+            'Diese Reservierung kann nicht mehr geändert werden. Bitte kontaktieren Sie uns.',
+        }),
+        {
+          status: 409,
+          headers: { 'Content-Type': 'application/json' },
+        },
+      );
+    }
+
+    if (error instanceof PickupSlotUnavailableError) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: 'Pickup slot unavailable',
+          message:
+            'Der gewählte Abholtermin ist nicht mehr verfügbar. Bitte wählen Sie einen anderen.',
+        }),
+        {
+          status: 409,
+          headers: { 'Content-Type': 'application/json' },
+        },
+      );
+    }
+
+    console.error('Reservation update error:', error);
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: 'Internal server error',
+        message:
+          'Die Reservierung konnte nicht geändert werden. Bitte versuchen Sie es später erneut.',
+      }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      },
+    );
+  }
+};
@@ -0,0 +1,172 @@
+import type { APIRoute } from 'astro';
+import { AlreadyOnWaitlistError, DatabaseService } from '@/lib/database';
+import {
+  copiesPerFamily,
+  isMagazineOpen,
+  remainingFamilyCopies,
+} from '@/lib/magazines';
+import { createRateLimit, getClientIp } from '@/lib/rate-limit';
+import { waitlistSchema } from '@/lib/validation/reservation';
+
+export const prerender = false;
+
+// Waitlist sign-ups per client address, like new reservations
+const rateLimit = createRateLimit({ windowMs: 15 * 60 * 1000, max: 5 });
+
+// Puts a family on the waitlist of a sold-out issue. Copies that come back
+// later are offered by email in the order families joined.
+export const POST: APIRoute = async ({ request }) => {
+  const clientIP = getClientIp(request);
+
+  if (!rateLimit.check(clientIP)) {
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: 'Rate limit exceeded',
+        message:
+          'Zu viele Anfragen. Bitte versuchen Sie es in 15 Minuten erneut.',
+      }),
+      {
+        status: 429,
+        headers: {
+          'Content-Type': 'application/json',
+          'Retry-After': '900', // 15 minutes
+        },
+      },
+    );
+  }
+
+  const body = await request.json().catch(() => null);
+
+  const validationResult = waitlistSchema.safeParse(body);
+  if (!validationResult.success) {
+    const errors = validationResult.error.issues.map((err) => ({
+      field: err.path.join('.'),
+      message: err.message,
+    }));
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: 'Validation failed',
+        message: 'Eingabedaten sind ungültig.',
+        errors,
+      }),
+      {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      },
+    );
+  }
+
+  const { magazineId, email, firstName, lastName, quantity, consents } =
+    validationResult.data;
+
+  try {
+    const db = new DatabaseService();
+    const magazine = await db.getMagazineById(magazineId);
+
+    if (!magazine || !isMagazineOpen(magazine)) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: 'Reservations closed',
+          message:
+            'Für diese Ausgabe sind derzeit keine Reservierungen möglich.',
+        }),
+        {
+          status: 409,
+          headers: { 'Content-Type': 'application/json' },
+        },
+      );
+    }
+
+    // The per-family limit applies to the copies a family waits for as well
+    const user = await db.getUserByEmail(email);
+    const familyLimit = await db.getFamilyReservationLimit(magazine.id, email);
+    const remaining = remainingFamilyCopies(
+      magazine,
+      user ? await db.getUserReservations(user.id) : [],
+      familyLimit,
+    );
+    if (quantity > remaining) {
+      const message = `Pro Familie können höchstens ${copiesPerFamily(magazine, familyLimit)} Exemplare dieser Ausgabe reserviert werden.`;
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: 'Reservation limit reached',
+          message,
+          errors: [{ field: 'quantity', message }],
+          data: { remainingCopies: remaining },
+        }),
+        {
+          status: 409,
+          headers: { 'Content-Type': 'application/json' },
+        },
+      );
+    }
+
+    if (magazine.availableCopies >= quantity) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: 'Copies available',
+          message:
+            'Es sind wieder Exemplare verfügbar. Bitte reservieren Sie direkt.',
+          data: { availableCopies: magazine.availableCopies },
+        }),
+        {
+          status: 409,
+          headers: { 'Content-Type': 'application/json' },
+        },
+      );
+    }
+
+    const entry = await db.joinWaitlist(
+      { magazineId, email, firstName, lastName, quantity },
+      { consents, ipAddress: clientIP },
+    );
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        data: { id: entry.id, status: entry.status },
+        message:
+          'Sie stehen auf der Warteliste. Sobald ein Exemplar frei wird, erhalten Sie eine E-Mail.',
+      }),
+      {
+        status: 201,
+        headers: { 'Content-Type': 'application/json' },
+      },
+    );
+  } catch (error) {
+    if (error instanceof AlreadyOnWaitlistError) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: 'Already on waitlist',
+          message: 'Sie stehen für diese Ausgabe bereits auf der Warteliste.',
+        }),
+        {
+          status: 409,
+          headers: { 'Content-Type': 'application/json' },
+        },
+      );
+    }
+
+    console.error('Failed to join waitlist:', error);
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: 'Internal server error',
+        message:
+          'Die Anmeldung zur Warteliste ist fehlgeschlagen. Bitte versuchen Sie es später erneut.',
+      }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      },
+    );
+  }
+};
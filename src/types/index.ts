@@ -34,10 +34,52 @@ export interface Magazine {
   availableCopies: number;
   coverImageUrl?: string;
   isActive: boolean;
+  reservationsOpenAt?: string; // Reservation window, open when unset
+  reservationsCloseAt?: string;
+  copiesPerFamily?: number; // Per-family limit, the site default when unset
+  contents: string[]; // Table of contents shown on the homepage
+  pageCount?: number;
+  format?: string;
+  paperWeight?: string;
   createdAt: string;
   updatedAt: string;
 }
 
+// Exception from the per-family limit of an issue for a single family
+export interface FamilyReservationLimit {
+  id: string;
+  magazineId: string;
+  familyEmail: string; // Lowercase
+  copiesPerFamily: number;
+  reason?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Editable fields of an issue; null clears an optional one
+export interface MagazineUpdate {
+  title?: string;
+  issueNumber?: string;
+  publishDate?: string;
+  description?: string | null;
+  coverImageUrl?: string | null;
+  isActive?: boolean;
+  reservationsOpenAt?: string | null;
+  reservationsCloseAt?: string | null;
+  copiesPerFamily?: number | null;
+  contents?: string[];
+  pageCount?: number | null;
+  format?: string | null;
+  paperWeight?: string | null;
+}
+
+export interface MagazineInput extends MagazineUpdate {
+  title: string;
+  issueNumber: string;
+  publishDate: string;
+  totalCopies: number;
+}
+
 export interface Reservation {
   id: string;
   userId: string;
@@ -48,19 +90,59 @@ export interface Reservation {
   deliveryMethod: 'pickup' | 'shipping';
   pickupDate?: string;
   pickupLocation?: string;
+  pickupSlotId?: string;
+  pickupSlot?: PickupSlot; // Only when the query embeds the slot
   paymentMethod?: string;
   shippingAddress?: Address;
   notes?: string;
   consentReference: string;
-  // Picture order fields
+  children?: ReservationChild[]; // Only when the query embeds them
+  // Picture order of reservations made before children had their own rows
   orderGroupPicture?: boolean;
   childGroupName?: string;
   orderVorschulPicture?: boolean;
   childIsVorschueler?: boolean;
   childName?: string;
+  statusChangedAt?: string;
+  statusChangedBy?: string;
+  createdAt: string;
+  updatedAt: string;
+  expiresAt?: string; // Payment deadline, only set for shipping reservations
+  paymentReminderSentAt?: string;
+  pickupReminderSentAt?: string;
+  dispatchedAt?: string; // Set when a shipping reservation was posted
+  trackingNumber?: string;
+}
+
+// Pickup window set up by the Elternbeirat, open to a limited number of
+// families
+export interface PickupSlot {
+  id: string;
+  location: string;
+  startsAt: string;
+  endsAt: string;
+  capacity: number;
+  bookedFamilies?: number; // Only loaded from the availability view
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Families waiting for copies of a sold-out issue, see waitlist.sql
+export type WaitlistStatus = 'waiting' | 'offered' | 'claimed' | 'expired';
+
+export interface WaitlistEntry {
+  id: string;
+  magazineId: string;
+  email: string;
+  firstName: string;
+  lastName: string;
+  quantity: number;
+  status: WaitlistStatus;
+  offeredAt?: string;
+  offerExpiresAt?: string; // Copies are held for the family until then
   createdAt: string;
   updatedAt: string;
-  expiresAt: string;
 }
 
 export type ReservationStatus =
@@ -70,6 +152,147 @@ export type ReservationStatus =
   | 'completed'
   | 'expired';
 
+// Details recorded with every reservation status change
+export interface StatusChange {
+  changedBy: string; // 'system', 'user:<id>', 'admin:<id>' or 'admin:api-key'
+  reason?: string;
+  legalBasis?: LegalBasis;
+  processorId?: string;
+  ipAddress?: string;
+  userId?: string; // Restricts the change to reservations of this user
+}
+
+// Admin accounts of the Elternbeirat
+export type AdminRole =
+  | 'viewer' // Reads reservations
+  | 'treasurer' // Confirms payments and imports statements
+  | 'distributor' // Hands out and ships magazines
+  | 'privacy_officer'; // Audits the data processing log
+
+export interface AdminUser {
+  id: string;
+  email: string;
+  name: string;
+  role: AdminRole;
+  isActive: boolean;
+  lastLoginAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Who performs an admin action: `changedBy` is stamped on status changes,
+// `processorId` (the admin account) on the data processing log
+export interface AdminActor {
+  changedBy: string;
+  processorId?: string;
+}
+
+// Reservation together with the family and magazine it belongs to
+export interface ReservationDetails {
+  reservation: Reservation;
+  user: User;
+  magazine: Magazine;
+  payment?: Payment; // Only loaded for the admin dashboard
+}
+
+// Filters of the admin reservation list; unset filters match everything
+export interface AdminReservationFilters {
+  magazineId?: string;
+  status?: ReservationStatus;
+  deliveryMethod?: 'pickup' | 'shipping';
+  group?: string;
+  paymentState?: PaymentState;
+}
+
+// Whether the money for a reservation has arrived
+export type PaymentState = 'paid' | 'unpaid';
+
+// Delivery details a parent may change while a reservation is pending
+export interface ReservationDeliveryUpdate {
+  deliveryMethod: 'pickup' | 'shipping';
+  pickupLocation?: string;
+  pickupDate?: string;
+  pickupSlotId?: string;
+  address?: Address;
+  notes?: string;
+}
+
+// Payment tracking
+export type PaymentMethod = 'paypal' | 'bank_transfer' | 'cash';
+
+export interface Payment {
+  id: string;
+  reservationId: string;
+  amountDue: number;
+  amountReceived: number;
+  method: PaymentMethod;
+  paidAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type PaymentImportSource = 'camt053' | 'bank_csv' | 'paypal_csv';
+
+export type PaymentImportLineStatus =
+  | 'matched' // Reservation confirmed automatically
+  | 'unmatched' // Waiting for review
+  | 'resolved' // Assigned to a reservation during review
+  | 'ignored'; // Not a magazine payment
+
+// Incoming payment parsed from a bank statement or PayPal export
+export interface StatementLine {
+  externalId: string; // Bank/PayPal transaction id, used to skip re-imports
+  bookingDate: string; // YYYY-MM-DD
+  amount: number;
+  currency: string;
+  payerName?: string;
+  reference: string;
+}
+
+export interface PaymentImportLine extends StatementLine {
+  id: string;
+  importId: string;
+  source: PaymentImportSource;
+  status: PaymentImportLineStatus;
+  reservationId?: string;
+  reviewNote?: string;
+  createdAt: string;
+}
+
+// Kindergarten roster the picture orders are checked against, see
+// kindergarten-roster.sql
+export interface KindergartenChild {
+  id: string;
+  groupId: string;
+  name: string;
+  isVorschueler: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface KindergartenGroup {
+  id: string;
+  name: string;
+  year: string; // Kindergarten year, e.g. "2024/2025"
+  children?: KindergartenChild[]; // Only when the query embeds them
+  createdAt: string;
+  updatedAt: string;
+}
+
+// A child of the family with the free pictures ordered for them
+export interface ReservationChildInput {
+  name: string;
+  groupName: string;
+  isVorschueler: boolean;
+  orderGroupPicture: boolean;
+  orderVorschulPicture: boolean;
+}
+
+export interface ReservationChild extends ReservationChildInput {
+  id: string;
+  reservationId: string;
+}
+
 // Picture claim tracking
 export interface PictureClaim {
   id: string;
@@ -79,6 +302,7 @@ export interface PictureClaim {
   childName: string;
   claimedAt: string;
   reservationId: string; // Link to the reservation
+  childId?: string; // The child the picture was ordered for
 }
 
 export interface ReservationFormData {
@@ -90,16 +314,13 @@ export interface ReservationFormData {
   quantity: number;
   pickupLocation: string;
   pickupDate?: string;
+  pickupSlotId?: string;
   deliveryMethod: 'pickup' | 'shipping';
-  paymentMethod?: 'paypal' | '';
+  paymentMethod?: 'paypal' | 'bank_transfer' | '';
   notes?: string;
   consents: ConsentData;
-  // Picture order fields
-  orderGroupPicture?: boolean;
-  childGroupName?: string; // Which group the child belongs to
-  orderVorschulPicture?: boolean;
-  childIsVorschueler?: boolean;
-  childName?: string; // Child's name for verification
+  children?: ReservationChildInput[]; // Children the family orders pictures for
+  waitlistToken?: string; // Claim link of a waitlist offer
 }
 
 // GDPR Consent Types
@@ -150,6 +371,9 @@ export type DataType =
   | 'user_data'
   | 'reservation'
   | 'consent'
+  | 'payment'
+  | 'waitlist_entry'
+  | 'kindergarten_roster'
   | 'processing_log';
 
 export type LegalBasis =
@@ -73,6 +73,7 @@ vi.mock('@/lib/supabase', () => ({
   },
   createServerSupabaseClient: vi.fn(() => ({
     from: vi.fn(() => createMockChain()),
+    rpc: vi.fn(() => Promise.resolve({ data: null, error: null })),
   })),
   createClientSupabaseClient: vi.fn(() => ({
     from: vi.fn(() => createMockChain()),
@@ -96,12 +97,24 @@ vi.mock('@/lib/email/email-service', () => ({
     sendCancellationConfirmation: vi.fn().mockResolvedValue(undefined),
     sendReservationCancellation: vi.fn().mockResolvedValue(undefined),
     sendPickupReminder: vi.fn().mockResolvedValue(undefined),
+    sendExpiryNotice: vi.fn().mockResolvedValue(undefined),
+    sendPaymentReminder: vi.fn().mockResolvedValue(undefined),
+    sendShippingConfirmation: vi.fn().mockResolvedValue(undefined),
+    sendReservationUpdate: vi.fn().mockResolvedValue(undefined),
+    sendWaitlistOffer: vi.fn().mockResolvedValue(undefined),
+    sendMagicLink: vi.fn().mockResolvedValue(undefined),
     verifyConnection: vi.fn().mockResolvedValue(true),
   },
   getEmailService: vi.fn().mockReturnValue({
     sendReservationConfirmation: vi.fn().mockResolvedValue(undefined),
     sendCancellationConfirmation: vi.fn().mockResolvedValue(undefined),
     sendPickupReminder: vi.fn().mockResolvedValue(undefined),
+    sendExpiryNotice: vi.fn().mockResolvedValue(undefined),
+    sendPaymentReminder: vi.fn().mockResolvedValue(undefined),
+    sendShippingConfirmation: vi.fn().mockResolvedValue(undefined),
+    sendReservationUpdate: vi.fn().mockResolvedValue(undefined),
+    sendWaitlistOffer: vi.fn().mockResolvedValue(undefined),
+    sendMagicLink: vi.fn().mockResolvedValue(undefined),
     verifyConnection: vi.fn().mockResolvedValue(true),
   }),
   EmailService: vi.fn().mockImplementation(() => ({
@@ -109,6 +122,12 @@ vi.mock('@/lib/email/email-service', () => ({
     sendCancellationConfirmation: vi.fn().mockResolvedValue(undefined),
     sendReservationCancellation: vi.fn().mockResolvedValue(undefined),
     sendPickupReminder: vi.fn().mockResolvedValue(undefined),
+    sendExpiryNotice: vi.fn().mockResolvedValue(undefined),
+    sendPaymentReminder: vi.fn().mockResolvedValue(undefined),
+    sendShippingConfirmation: vi.fn().mockResolvedValue(undefined),
+    sendReservationUpdate: vi.fn().mockResolvedValue(undefined),
+    sendWaitlistOffer: vi.fn().mockResolvedValue(undefined),
+    sendMagicLink: vi.fn().mockResolvedValue(undefined),
     verifyConnection: vi.fn().mockResolvedValue(true),
   })),
 }));
@@ -0,0 +1,134 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { GET } from '@/pages/api/admin/check-in';
+import { ADMIN_SESSION_COOKIE } from '@/lib/auth/admin';
+import { createToken } from '@/lib/auth/tokens';
+import { createCheckInToken } from '@/lib/check-in';
+
+const { mockDb } = vi.hoisted(() => ({
+  mockDb: {
+    getCheckInReservation: vi.fn(),
+    getAdminUserById: vi.fn(),
+  },
+}));
+
+vi.mock('@/lib/database', () => ({
+  DatabaseService: class {
+    getCheckInReservation = mockDb.getCheckInReservation;
+    getAdminUserById = mockDb.getAdminUserById;
+  },
+}));
+
+const ADMIN_API_KEY = 'test-admin-api-key-with-at-least-32-chars';
+const ADMIN_USER_ID = 'a1b2c3d4-0000-4000-8000-000000000001';
+const RESERVATION_ID = '1a2b3c4d-0000-4000-8000-000000000001';
+
+const details = (overrides: Record<string, unknown> = {}) => ({
+  reservation: {
+    id: RESERVATION_ID,
+    status: 'confirmed',
+    deliveryMethod: 'pickup',
+    quantity: 2,
+    ...overrides,
+  },
+  user: { id: 'user-123', firstName: 'Anna', lastName: 'Muster' },
+  magazine: { id: 'mag-123', title: 'Flaschenpost' },
+});
+
+const createCookies = (values: Record<string, string> = {}) => ({
+  get: vi.fn((name: string) =>
+    name in values ? { value: values[name] } : undefined,
+  ),
+  set: vi.fn(),
+  delete: vi.fn(),
+});
+
+const callCheckIn = (code: string, cookies = createCookies()) => {
+  const url = new URL('http://localhost/api/admin/check-in');
+  url.searchParams.set('code', code);
+
+  return GET({
+    request: new Request(url, {
+      headers: cookies.get(ADMIN_SESSION_COOKIE)
+        ? {}
+        : { Authorization: `Bearer ${ADMIN_API_KEY}` },
+    }),
+    url,
+    cookies,
+  } as any);
+};
+
+describe('GET /api/admin/check-in', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.stubEnv('ADMIN_API_KEY', ADMIN_API_KEY);
+    vi.stubEnv('JWT_SECRET', 'test-jwt-secret-with-at-least-32-characters');
+    vi.stubEnv('SESSION_SECRET', 'test-session-secret-with-32-characters');
+    mockDb.getCheckInReservation.mockResolvedValue(details());
+  });
+
+  it('looks up the reservation of a scanned QR code', async () => {
+    const response = await callCheckIn(createCheckInToken(RESERVATION_ID));
+    const result = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(result.data.reservation.quantity).toBe(2);
+    expect(mockDb.getCheckInReservation).toHaveBeenCalledWith(
+      { id: RESERVATION_ID },
+      { changedBy: 'admin:api-key' },
+    );
+  });
+
+  it('looks up a typed reservation number', async () => {
+    await callCheckIn('FP-1A2B3C4D');
+
+    expect(mockDb.getCheckInReservation).toHaveBeenCalledWith(
+      { number: '1a2b3c4d' },
+      { changedBy: 'admin:api-key' },
+    );
+  });
+
+  it('rejects unreadable codes', async () => {
+    const response = await callCheckIn('not-a-code');
+
+    expect(response.status).toBe(400);
+    expect(mockDb.getCheckInReservation).not.toHaveBeenCalled();
+  });
+
+  it('returns 404 for unknown reservations', async () => {
+    mockDb.getCheckInReservation.mockResolvedValue(null);
+
+    const response = await callCheckIn('1A2B3C4D');
+
+    expect(response.status).toBe(404);
+  });
+
+  it('returns 409 for shipping reservations', async () => {
+    mockDb.getCheckInReservation.mockResolvedValue(
+      details({ deliveryMethod: 'shipping' }),
+    );
+
+    const response = await callCheckIn('1A2B3C4D');
+
+    expect(response.status).toBe(409);
+  });
+
+  it('is reserved for roles that hand out magazines', async () => {
+    mockDb.getAdminUserById.mockResolvedValue({
+      id: ADMIN_USER_ID,
+      email: 'lesen@example.com',
+      name: 'Lesen',
+      role: 'viewer',
+      isActive: true,
+    });
+
+    const response = await callCheckIn(
+      '1A2B3C4D',
+      createCookies({
+        [ADMIN_SESSION_COOKIE]: createToken('admin', ADMIN_USER_ID),
+      }),
+    );
+
+    expect(response.status).toBe(403);
+    expect(mockDb.getCheckInReservation).not.toHaveBeenCalled();
+  });
+});
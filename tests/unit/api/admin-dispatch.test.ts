@@ -0,0 +1,146 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { POST } from '@/pages/api/admin/reservations/[id]/dispatch';
+import { getEmailService } from '@/lib/email/email-service';
+import { InvalidStatusTransitionError } from '@/lib/reservation-status';
+
+const { mockDb, MockNotFoundError, MockNotDispatchableError } = vi.hoisted(
+  () => ({
+    mockDb: {
+      markReservationDispatched: vi.fn(),
+      getReservationDetails: vi.fn(),
+    },
+    MockNotFoundError: class extends Error {},
+    MockNotDispatchableError: class extends Error {},
+  }),
+);
+
+vi.mock('@/lib/database', () => ({
+  DatabaseService: class {
+    markReservationDispatched = mockDb.markReservationDispatched;
+    getReservationDetails = mockDb.getReservationDetails;
+  },
+  ReservationNotFoundError: MockNotFoundError,
+  ReservationNotDispatchableError: MockNotDispatchableError,
+}));
+
+const ADMIN_API_KEY = 'test-admin-api-key-with-at-least-32-chars';
+
+const dispatched = {
+  id: 'res-123',
+  status: 'completed',
+  deliveryMethod: 'shipping',
+  dispatchedAt: '2024-01-10T09:00:00.000Z',
+  trackingNumber: 'RR123456789DE',
+};
+
+const callDispatch = (
+  body: Record<string, unknown> = {},
+  apiKey = ADMIN_API_KEY,
+) =>
+  POST({
+    params: { id: 'res-123' },
+    request: new Request(
+      'http://localhost/api/admin/reservations/res-123/dispatch',
+      {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${apiKey}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(body),
+      },
+    ),
+  } as any);
+
+describe('POST /api/admin/reservations/:id/dispatch', () => {
+  const sendShippingConfirmation = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.stubEnv('ADMIN_API_KEY', ADMIN_API_KEY);
+    sendShippingConfirmation.mockResolvedValue(undefined);
+    vi.mocked(getEmailService).mockReturnValue({
+      sendShippingConfirmation,
+    } as any);
+    mockDb.markReservationDispatched.mockResolvedValue(dispatched);
+    mockDb.getReservationDetails.mockResolvedValue({
+      reservation: { ...dispatched, status: 'confirmed' },
+      user: { id: 'user-123', email: 'test@example.com' },
+      magazine: { id: 'mag-123', title: 'Test Magazine' },
+    });
+  });
+
+  it('completes the reservation and sends the tracking link', async () => {
+    const response = await callDispatch({
+      trackingNumber: 'rr 123 456 789 de',
+    });
+    const result = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(result.data.emailSent).toBe(true);
+    expect(mockDb.markReservationDispatched).toHaveBeenCalledWith(
+      'res-123',
+      { trackingNumber: 'RR123456789DE' },
+      { changedBy: 'admin:api-key' },
+    );
+    expect(sendShippingConfirmation).toHaveBeenCalledWith(
+      expect.objectContaining({ reservation: dispatched }),
+    );
+  });
+
+  it('accepts dispatches without tracking number', async () => {
+    const response = await callDispatch({ trackingNumber: '' });
+
+    expect(response.status).toBe(200);
+    expect(mockDb.markReservationDispatched).toHaveBeenCalledWith(
+      'res-123',
+      { trackingNumber: undefined },
+      { changedBy: 'admin:api-key' },
+    );
+  });
+
+  it('reports a failed email without undoing the dispatch', async () => {
+    sendShippingConfirmation.mockRejectedValue(new Error('SMTP down'));
+
+    const response = await callDispatch();
+    const result = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(result.data.emailSent).toBe(false);
+  });
+
+  it('rejects malformed tracking numbers', async () => {
+    const response = await callDispatch({ trackingNumber: 'abc' });
+
+    expect(response.status).toBe(400);
+    expect(mockDb.markReservationDispatched).not.toHaveBeenCalled();
+  });
+
+  it('returns 409 for unpaid or pickup reservations', async () => {
+    mockDb.markReservationDispatched.mockRejectedValueOnce(
+      new InvalidStatusTransitionError('pending', 'completed'),
+    );
+    expect((await callDispatch()).status).toBe(409);
+
+    mockDb.markReservationDispatched.mockRejectedValueOnce(
+      new MockNotDispatchableError('pickup'),
+    );
+    expect((await callDispatch()).status).toBe(409);
+  });
+
+  it('returns 404 for unknown reservations', async () => {
+    mockDb.markReservationDispatched.mockRejectedValue(
+      new MockNotFoundError('res-123'),
+    );
+
+    const response = await callDispatch();
+
+    expect(response.status).toBe(404);
+  });
+
+  it('requires the admin API key', async () => {
+    const response = await callDispatch({}, 'wrong-key');
+
+    expect(response.status).toBe(401);
+  });
+});
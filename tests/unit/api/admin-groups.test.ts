@@ -0,0 +1,249 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { POST as createGroup } from '@/pages/api/admin/groups/index';
+import { POST as addChild } from '@/pages/api/admin/groups/[id]/children';
+import { PATCH as updateChild } from '@/pages/api/admin/children/[id]';
+import { GET as listGroups } from '@/pages/api/groups';
+import { ADMIN_SESSION_COOKIE } from '@/lib/auth/admin';
+import { createToken } from '@/lib/auth/tokens';
+
+const { mockDb, MockKindergartenGroupExistsError } = vi.hoisted(() => ({
+  mockDb: {
+    getCurrentKindergartenGroups: vi.fn(),
+    createKindergartenGroup: vi.fn(),
+    addKindergartenChild: vi.fn(),
+    updateKindergartenChild: vi.fn(),
+    getAdminUserById: vi.fn(),
+  },
+  MockKindergartenGroupExistsError: class extends Error {},
+}));
+
+vi.mock('@/lib/database', () => ({
+  DatabaseService: class {
+    getCurrentKindergartenGroups = mockDb.getCurrentKindergartenGroups;
+    createKindergartenGroup = mockDb.createKindergartenGroup;
+    addKindergartenChild = mockDb.addKindergartenChild;
+    updateKindergartenChild = mockDb.updateKindergartenChild;
+    getAdminUserById = mockDb.getAdminUserById;
+  },
+  KindergartenGroupExistsError: MockKindergartenGroupExistsError,
+}));
+
+const ADMIN_API_KEY = 'test-admin-api-key-with-at-least-32-chars';
+const ADMIN_USER_ID = 'a1b2c3d4-0000-4000-8000-000000000001';
+const GROUP_ID = '7a1b2c3d-0000-4000-8000-000000000001';
+const CHILD_ID = '7a1b2c3d-0000-4000-8000-000000000002';
+
+const group = {
+  id: GROUP_ID,
+  name: 'Seesterne',
+  year: '2024/2025',
+  children: [],
+};
+
+const child = {
+  id: CHILD_ID,
+  groupId: GROUP_ID,
+  name: 'Emma Müller',
+  isVorschueler: true,
+};
+
+const createCookies = (values: Record<string, string> = {}) => ({
+  get: vi.fn((name: string) =>
+    name in values ? { value: values[name] } : undefined,
+  ),
+  set: vi.fn(),
+  delete: vi.fn(),
+});
+
+const sessionCookies = () =>
+  createCookies({
+    [ADMIN_SESSION_COOKIE]: createToken('admin', ADMIN_USER_ID),
+  });
+
+const createRequest = (
+  method: string,
+  body: unknown,
+  cookies = createCookies(),
+) =>
+  new Request('http://localhost/api/admin/groups', {
+    method,
+    headers: {
+      'Content-Type': 'application/json',
+      ...(cookies.get(ADMIN_SESSION_COOKIE)
+        ? {}
+        : { Authorization: `Bearer ${ADMIN_API_KEY}` }),
+    },
+    body: JSON.stringify(body),
+  });
+
+const callCreateGroup = (body: unknown, cookies = createCookies()) =>
+  createGroup({
+    request: createRequest('POST', body, cookies),
+    cookies,
+  } as any);
+
+const callAddChild = (body: unknown, cookies = createCookies()) =>
+  addChild({
+    params: { id: GROUP_ID },
+    request: createRequest('POST', body, cookies),
+    cookies,
+  } as any);
+
+const callUpdateChild = (body: unknown, cookies = createCookies()) =>
+  updateChild({
+    params: { id: CHILD_ID },
+    request: createRequest('PATCH', body, cookies),
+    cookies,
+  } as any);
+
+describe('Kindergarten roster API', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.stubEnv('ADMIN_API_KEY', ADMIN_API_KEY);
+    vi.stubEnv('JWT_SECRET', 'test-jwt-secret-with-at-least-32-characters');
+    vi.stubEnv('SESSION_SECRET', 'test-session-secret-with-32-characters');
+    mockDb.getCurrentKindergartenGroups.mockResolvedValue([group]);
+    mockDb.createKindergartenGroup.mockResolvedValue(group);
+    mockDb.addKindergartenChild.mockResolvedValue(child);
+    mockDb.updateKindergartenChild.mockResolvedValue(child);
+    mockDb.getAdminUserById.mockResolvedValue({
+      id: ADMIN_USER_ID,
+      email: 'lesen@example.com',
+      name: 'Lesen',
+      role: 'viewer',
+      isActive: true,
+    });
+  });
+
+  describe('GET /api/groups', () => {
+    it('lists the current groups without their children', async () => {
+      mockDb.getCurrentKindergartenGroups.mockResolvedValue([
+        { ...group, children: [child], createdAt: '2024-09-01T00:00:00Z' },
+      ]);
+
+      const response = await listGroups({} as any);
+      const result = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(result.data).toEqual([
+        { id: GROUP_ID, name: 'Seesterne', year: '2024/2025' },
+      ]);
+    });
+  });
+
+  describe('POST /api/admin/groups', () => {
+    it('creates a group for a kindergarten year', async () => {
+      const response = await callCreateGroup({
+        name: ' Seesterne ',
+        year: '2024/2025',
+      });
+
+      expect(response.status).toBe(201);
+      expect(mockDb.createKindergartenGroup).toHaveBeenCalledWith(
+        { name: 'Seesterne', year: '2024/2025' },
+        { changedBy: 'admin:api-key' },
+      );
+    });
+
+    it('rejects years that are not written as 2024/2025', async () => {
+      const response = await callCreateGroup({
+        name: 'Seesterne',
+        year: '2024',
+      });
+      const result = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(result.errors[0].field).toBe('year');
+      expect(mockDb.createKindergartenGroup).not.toHaveBeenCalled();
+    });
+
+    it('reports a group that exists for the year already', async () => {
+      mockDb.createKindergartenGroup.mockRejectedValue(
+        new MockKindergartenGroupExistsError(),
+      );
+
+      const response = await callCreateGroup({
+        name: 'Seesterne',
+        year: '2024/2025',
+      });
+
+      expect(response.status).toBe(409);
+    });
+
+    it('is reserved for roles that manage the roster', async () => {
+      const response = await callCreateGroup(
+        { name: 'Seesterne', year: '2024/2025' },
+        sessionCookies(),
+      );
+
+      expect(response.status).toBe(403);
+      expect(mockDb.createKindergartenGroup).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /api/admin/groups/:id/children', () => {
+    it('adds a child to the group', async () => {
+      const response = await callAddChild({
+        name: 'Emma Müller',
+        isVorschueler: true,
+      });
+
+      expect(response.status).toBe(201);
+      expect(mockDb.addKindergartenChild).toHaveBeenCalledWith(
+        GROUP_ID,
+        { name: 'Emma Müller', isVorschueler: true },
+        { changedBy: 'admin:api-key' },
+      );
+    });
+
+    it('passes the admin account of the session on for the log', async () => {
+      mockDb.getAdminUserById.mockResolvedValue({
+        id: ADMIN_USER_ID,
+        email: 'verteilung@example.com',
+        name: 'Verteilung',
+        role: 'distributor',
+        isActive: true,
+      });
+
+      const response = await callAddChild(
+        { name: 'Emma Müller' },
+        sessionCookies(),
+      );
+
+      expect(response.status).toBe(201);
+      expect(mockDb.addKindergartenChild).toHaveBeenCalledWith(
+        GROUP_ID,
+        expect.anything(),
+        { changedBy: `admin:${ADMIN_USER_ID}`, processorId: ADMIN_USER_ID },
+      );
+    });
+
+    it('returns 404 for unknown groups', async () => {
+      mockDb.addKindergartenChild.mockResolvedValue(null);
+
+      const response = await callAddChild({ name: 'Emma Müller' });
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe('PATCH /api/admin/children/:id', () => {
+    it('marks a child as Vorschüler', async () => {
+      const response = await callUpdateChild({ isVorschueler: true });
+
+      expect(response.status).toBe(200);
+      expect(mockDb.updateKindergartenChild).toHaveBeenCalledWith(
+        CHILD_ID,
+        { isVorschueler: true },
+        { changedBy: 'admin:api-key' },
+      );
+    });
+
+    it('requires a change', async () => {
+      const response = await callUpdateChild({});
+
+      expect(response.status).toBe(400);
+      expect(mockDb.updateKindergartenChild).not.toHaveBeenCalled();
+    });
+  });
+});
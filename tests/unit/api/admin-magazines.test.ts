@@ -0,0 +1,411 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { POST } from '@/pages/api/admin/magazines/index';
+import { PATCH } from '@/pages/api/admin/magazines/[id]/index';
+import { POST as uploadCover } from '@/pages/api/admin/magazines/[id]/cover';
+import {
+  PUT as setFamilyLimit,
+  DELETE as deleteFamilyLimit,
+} from '@/pages/api/admin/magazines/[id]/family-limits';
+import { ADMIN_SESSION_COOKIE } from '@/lib/auth/admin';
+import { createToken } from '@/lib/auth/tokens';
+
+const { mockDb, mockOfferCopies, MockCopiesReservedError } = vi.hoisted(() => ({
+  mockDb: {
+    createMagazine: vi.fn(),
+    getMagazineById: vi.fn(),
+    updateMagazine: vi.fn(),
+    setMagazineTotalCopies: vi.fn(),
+    uploadMagazineCover: vi.fn(),
+    setFamilyReservationLimit: vi.fn(),
+    deleteFamilyReservationLimit: vi.fn(),
+    getAdminUserById: vi.fn(),
+  },
+  mockOfferCopies: vi.fn(),
+  MockCopiesReservedError: class extends Error {
+    constructor(public reservedCopies: number) {
+      super(`Cannot reduce copies: ${reservedCopies} already reserved`);
+    }
+  },
+}));
+
+vi.mock('@/lib/database', () => ({
+  DatabaseService: class {
+    createMagazine = mockDb.createMagazine;
+    getMagazineById = mockDb.getMagazineById;
+    updateMagazine = mockDb.updateMagazine;
+    setMagazineTotalCopies = mockDb.setMagazineTotalCopies;
+    uploadMagazineCover = mockDb.uploadMagazineCover;
+    setFamilyReservationLimit = mockDb.setFamilyReservationLimit;
+    deleteFamilyReservationLimit = mockDb.deleteFamilyReservationLimit;
+    getAdminUserById = mockDb.getAdminUserById;
+  },
+  MagazineCopiesReservedError: MockCopiesReservedError,
+}));
+
+vi.mock('@/lib/waitlist', () => ({
+  offerReturnedCopies: mockOfferCopies,
+}));
+
+const ADMIN_API_KEY = 'test-admin-api-key-with-at-least-32-chars';
+const ADMIN_USER_ID = 'a1b2c3d4-0000-4000-8000-000000000001';
+const MAGAZINE_ID = '6a1b2c3d-0000-4000-8000-000000000001';
+
+const magazine = {
+  id: MAGAZINE_ID,
+  title: 'Flaschenpost',
+  issueNumber: '2024 / 2025',
+  publishDate: '2024-08-01',
+  totalCopies: 100,
+  availableCopies: 70,
+  isActive: true,
+  reservationsOpenAt: '2024-06-01T00:00:00+00:00',
+  contents: ['Gruppenfotos'],
+  format: 'DIN A5',
+  pageCount: 44,
+};
+
+const newIssue = {
+  title: 'Flaschenpost',
+  issueNumber: '2025 / 2026',
+  publishDate: '2025-08-01',
+  totalCopies: 120,
+};
+
+const createCookies = (values: Record<string, string> = {}) => ({
+  get: vi.fn((name: string) =>
+    name in values ? { value: values[name] } : undefined,
+  ),
+  set: vi.fn(),
+  delete: vi.fn(),
+});
+
+const authHeaders = (cookies: ReturnType<typeof createCookies>) =>
+  cookies.get(ADMIN_SESSION_COOKIE)
+    ? {}
+    : { Authorization: `Bearer ${ADMIN_API_KEY}` };
+
+const callCreate = (body: unknown, cookies = createCookies()) =>
+  POST({
+    request: new Request('http://localhost/api/admin/magazines', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...authHeaders(cookies) },
+      body: JSON.stringify(body),
+    }),
+    cookies,
+  } as any);
+
+const callUpdate = (body: unknown, cookies = createCookies()) =>
+  PATCH({
+    params: { id: MAGAZINE_ID },
+    request: new Request(
+      `http://localhost/api/admin/magazines/${MAGAZINE_ID}`,
+      {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+          ...authHeaders(cookies),
+        },
+        body: JSON.stringify(body),
+      },
+    ),
+    cookies,
+  } as any);
+
+const callUpload = (file: File, cookies = createCookies()) => {
+  const body = new FormData();
+  body.append('file', file);
+
+  return uploadCover({
+    params: { id: MAGAZINE_ID },
+    request: new Request(
+      `http://localhost/api/admin/magazines/${MAGAZINE_ID}/cover`,
+      { method: 'POST', headers: authHeaders(cookies), body },
+    ),
+    cookies,
+  } as any);
+};
+
+const callSetFamilyLimit = (body: unknown, cookies = createCookies()) =>
+  setFamilyLimit({
+    params: { id: MAGAZINE_ID },
+    request: new Request(
+      `http://localhost/api/admin/magazines/${MAGAZINE_ID}/family-limits`,
+      {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          ...authHeaders(cookies),
+        },
+        body: JSON.stringify(body),
+      },
+    ),
+    cookies,
+  } as any);
+
+const callDeleteFamilyLimit = (email: string, cookies = createCookies()) => {
+  const url = `http://localhost/api/admin/magazines/${MAGAZINE_ID}/family-limits?${new URLSearchParams({ email })}`;
+
+  return deleteFamilyLimit({
+    params: { id: MAGAZINE_ID },
+    request: new Request(url, {
+      method: 'DELETE',
+      headers: authHeaders(cookies),
+    }),
+    url: new URL(url),
+    cookies,
+  } as any);
+};
+
+describe('Admin magazine API', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.stubEnv('ADMIN_API_KEY', ADMIN_API_KEY);
+    vi.stubEnv('JWT_SECRET', 'test-jwt-secret-with-at-least-32-characters');
+    vi.stubEnv('SESSION_SECRET', 'test-session-secret-with-32-characters');
+    mockDb.createMagazine.mockResolvedValue({ ...magazine, ...newIssue });
+    mockDb.getMagazineById.mockResolvedValue(magazine);
+    mockDb.updateMagazine.mockResolvedValue(magazine);
+    mockDb.setMagazineTotalCopies.mockResolvedValue(50);
+    mockDb.uploadMagazineCover.mockResolvedValue(magazine);
+    mockDb.setFamilyReservationLimit.mockResolvedValue({
+      id: 'limit-1',
+      magazineId: MAGAZINE_ID,
+      familyEmail: 'zwillinge@example.com',
+      copiesPerFamily: 2,
+    });
+    mockDb.deleteFamilyReservationLimit.mockResolvedValue(true);
+    mockOfferCopies.mockResolvedValue({
+      offered: 0,
+      notified: 0,
+      failedNotifications: 0,
+    });
+    mockDb.getAdminUserById.mockResolvedValue({
+      id: ADMIN_USER_ID,
+      email: 'lesen@example.com',
+      name: 'Lesen',
+      role: 'viewer',
+      isActive: true,
+    });
+  });
+
+  describe('POST /api/admin/magazines', () => {
+    it('creates an active issue', async () => {
+      const response = await callCreate(newIssue);
+
+      expect(response.status).toBe(201);
+      expect(mockDb.createMagazine).toHaveBeenCalledWith(
+        expect.objectContaining({
+          ...newIssue,
+          isActive: true,
+          contents: [],
+          reservationsOpenAt: null,
+        }),
+      );
+    });
+
+    it('rejects a window that closes before it opens', async () => {
+      const response = await callCreate({
+        ...newIssue,
+        reservationsOpenAt: '2025-07-01T00:00:00Z',
+        reservationsCloseAt: '2025-06-01T00:00:00Z',
+      });
+      const result = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(result.errors[0].field).toBe('reservationsCloseAt');
+      expect(mockDb.createMagazine).not.toHaveBeenCalled();
+    });
+
+    it('is reserved for roles that manage the issues', async () => {
+      const response = await callCreate(
+        newIssue,
+        createCookies({
+          [ADMIN_SESSION_COOKIE]: createToken('admin', ADMIN_USER_ID),
+        }),
+      );
+
+      expect(response.status).toBe(403);
+      expect(mockDb.createMagazine).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('PATCH /api/admin/magazines/:id', () => {
+    it('deactivates an issue without touching the print run', async () => {
+      const response = await callUpdate({ isActive: false });
+
+      expect(response.status).toBe(200);
+      expect(mockDb.setMagazineTotalCopies).not.toHaveBeenCalled();
+      expect(mockDb.updateMagazine).toHaveBeenCalledWith(
+        MAGAZINE_ID,
+        expect.objectContaining({
+          isActive: false,
+          title: magazine.title,
+          contents: magazine.contents,
+        }),
+      );
+    });
+
+    it('changes the print run', async () => {
+      await callUpdate({ totalCopies: 80 });
+
+      expect(mockDb.setMagazineTotalCopies).toHaveBeenCalledWith(
+        MAGAZINE_ID,
+        80,
+      );
+      expect(mockOfferCopies).not.toHaveBeenCalled();
+    });
+
+    it('offers additional copies to the waitlist first', async () => {
+      mockOfferCopies.mockResolvedValue({
+        offered: 2,
+        notified: 2,
+        failedNotifications: 0,
+      });
+      mockDb.getMagazineById
+        .mockResolvedValueOnce(magazine)
+        .mockResolvedValueOnce({ ...magazine, totalCopies: 120 });
+
+      const response = await callUpdate({ totalCopies: 120 });
+      const result = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(mockOfferCopies).toHaveBeenCalledWith(
+        MAGAZINE_ID,
+        expect.any(Date),
+      );
+      expect(result.data.totalCopies).toBe(120);
+    });
+
+    it('checks a new closing time against the stored opening time', async () => {
+      const response = await callUpdate({
+        reservationsCloseAt: '2024-05-01T00:00:00Z',
+      });
+
+      expect(response.status).toBe(400);
+      expect(mockDb.updateMagazine).not.toHaveBeenCalled();
+    });
+
+    it('refuses a print run below the reserved copies', async () => {
+      mockDb.setMagazineTotalCopies.mockRejectedValue(
+        new MockCopiesReservedError(30),
+      );
+
+      const response = await callUpdate({ totalCopies: 20 });
+      const result = await response.json();
+
+      expect(response.status).toBe(409);
+      expect(result.errors[0].field).toBe('totalCopies');
+      expect(mockDb.updateMagazine).not.toHaveBeenCalled();
+    });
+
+    it('returns 404 for unknown issues', async () => {
+      mockDb.getMagazineById.mockResolvedValue(null);
+
+      const response = await callUpdate({ isActive: false });
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe('POST /api/admin/magazines/:id/cover', () => {
+    it('stores the uploaded cover', async () => {
+      const response = await callUpload(
+        new File(['jpeg'], 'cover.jpg', { type: 'image/jpeg' }),
+      );
+
+      expect(response.status).toBe(200);
+      expect(mockDb.uploadMagazineCover).toHaveBeenCalledWith(
+        MAGAZINE_ID,
+        expect.objectContaining({ contentType: 'image/jpeg' }),
+      );
+    });
+
+    it('accepts images only', async () => {
+      const response = await callUpload(
+        new File(['%PDF'], 'cover.pdf', { type: 'application/pdf' }),
+      );
+
+      expect(response.status).toBe(400);
+      expect(mockDb.uploadMagazineCover).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('PUT /api/admin/magazines/:id/family-limits', () => {
+    it('lets a family reserve more copies of the issue', async () => {
+      const response = await callSetFamilyLimit({
+        familyEmail: 'Zwillinge@Example.com',
+        copiesPerFamily: 2,
+        reason: 'Zwillinge in verschiedenen Gruppen',
+      });
+
+      expect(response.status).toBe(200);
+      expect(mockDb.setFamilyReservationLimit).toHaveBeenCalledWith(
+        MAGAZINE_ID,
+        {
+          familyEmail: 'zwillinge@example.com',
+          copiesPerFamily: 2,
+          reason: 'Zwillinge in verschiedenen Gruppen',
+        },
+        { changedBy: 'admin:api-key' },
+      );
+    });
+
+    it('rejects invalid limits', async () => {
+      const response = await callSetFamilyLimit({
+        familyEmail: 'zwillinge@example.com',
+        copiesPerFamily: 0,
+      });
+      const result = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(result.errors[0].field).toBe('copiesPerFamily');
+      expect(mockDb.setFamilyReservationLimit).not.toHaveBeenCalled();
+    });
+
+    it('returns 404 for an unknown issue', async () => {
+      mockDb.setFamilyReservationLimit.mockResolvedValue(null);
+
+      const response = await callSetFamilyLimit({
+        familyEmail: 'zwillinge@example.com',
+        copiesPerFamily: 2,
+      });
+
+      expect(response.status).toBe(404);
+    });
+
+    it('is reserved for roles that manage issues', async () => {
+      const cookies = createCookies({
+        [ADMIN_SESSION_COOKIE]: createToken('admin', ADMIN_USER_ID),
+      });
+
+      const response = await callSetFamilyLimit(
+        { familyEmail: 'zwillinge@example.com', copiesPerFamily: 2 },
+        cookies,
+      );
+
+      expect(response.status).toBe(403);
+      expect(mockDb.setFamilyReservationLimit).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('DELETE /api/admin/magazines/:id/family-limits', () => {
+    it('removes the exception of the family', async () => {
+      const response = await callDeleteFamilyLimit('zwillinge@example.com');
+
+      expect(response.status).toBe(200);
+      expect(mockDb.deleteFamilyReservationLimit).toHaveBeenCalledWith(
+        MAGAZINE_ID,
+        'zwillinge@example.com',
+        { changedBy: 'admin:api-key' },
+      );
+    });
+
+    it('returns 404 when the family has no exception', async () => {
+      mockDb.deleteFamilyReservationLimit.mockResolvedValue(false);
+
+      const response = await callDeleteFamilyLimit('andere@example.com');
+
+      expect(response.status).toBe(404);
+    });
+  });
+});
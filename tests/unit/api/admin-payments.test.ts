@@ -0,0 +1,209 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { POST as importStatement } from '@/pages/api/admin/payments/import';
+import { GET as getReviewList } from '@/pages/api/admin/payments/review';
+import { POST as reviewLine } from '@/pages/api/admin/payments/review/[id]';
+
+const {
+  mockImportPaymentStatement,
+  mockAssignPaymentImportLine,
+  mockDb,
+  MockParseError,
+  MockAssignmentError,
+} = vi.hoisted(() => ({
+  mockImportPaymentStatement: vi.fn(),
+  mockAssignPaymentImportLine: vi.fn(),
+  mockDb: {
+    getUnmatchedPaymentImportLines: vi.fn(),
+    updatePaymentImportLine: vi.fn(),
+  },
+  MockParseError: class extends Error {},
+  MockAssignmentError: class extends Error {},
+}));
+
+vi.mock('@/lib/payments/reconciliation', () => ({
+  importPaymentStatement: mockImportPaymentStatement,
+  assignPaymentImportLine: mockAssignPaymentImportLine,
+  PaymentAssignmentError: MockAssignmentError,
+}));
+
+vi.mock('@/lib/payments/statement-parsers', () => ({
+  StatementParseError: MockParseError,
+}));
+
+vi.mock('@/lib/database', () => ({
+  DatabaseService: class {
+    getUnmatchedPaymentImportLines = mockDb.getUnmatchedPaymentImportLines;
+    updatePaymentImportLine = mockDb.updatePaymentImportLine;
+  },
+}));
+
+const ADMIN_API_KEY = 'test-admin-api-key-with-at-least-32-chars';
+const RESERVATION_ID = '123e4567-e89b-12d3-a456-426614174000';
+
+const uploadRequest = (
+  fields: Record<string, string | File>,
+  apiKey = ADMIN_API_KEY,
+) => {
+  const formData = new FormData();
+  for (const [name, value] of Object.entries(fields)) {
+    formData.append(name, value);
+  }
+  return new Request('http://localhost/api/admin/payments/import', {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${apiKey}` },
+    body: formData,
+  });
+};
+
+const csvFile = () =>
+  new File(['Buchungstag;Betrag\n05.01.24;8,49'], 'umsaetze.csv', {
+    type: 'text/csv',
+  });
+
+describe('Admin payment API', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.stubEnv('ADMIN_API_KEY', ADMIN_API_KEY);
+  });
+
+  describe('POST /api/admin/payments/import', () => {
+    it('imports the uploaded statement', async () => {
+      mockImportPaymentStatement.mockResolvedValue({
+        importId: 'import-1',
+        lines: 3,
+        duplicates: 0,
+        matched: 2,
+        unmatched: 1,
+      });
+
+      const response = await importStatement({
+        request: uploadRequest({ file: csvFile(), source: 'bank_csv' }),
+      } as any);
+      const result = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(result.data.matched).toBe(2);
+      expect(mockImportPaymentStatement).toHaveBeenCalledWith(
+        expect.objectContaining({
+          source: 'bank_csv',
+          content: 'Buchungstag;Betrag\n05.01.24;8,49',
+          importedBy: { changedBy: 'admin:api-key' },
+        }),
+      );
+    });
+
+    it('rejects requests without the admin API key', async () => {
+      const response = await importStatement({
+        request: uploadRequest(
+          { file: csvFile(), source: 'bank_csv' },
+          'wrong-key',
+        ),
+      } as any);
+
+      expect(response.status).toBe(401);
+      expect(mockImportPaymentStatement).not.toHaveBeenCalled();
+    });
+
+    it('requires a known source format', async () => {
+      const response = await importStatement({
+        request: uploadRequest({ file: csvFile(), source: 'mt940' }),
+      } as any);
+
+      expect(response.status).toBe(400);
+    });
+
+    it('reports files that cannot be parsed', async () => {
+      mockImportPaymentStatement.mockRejectedValue(
+        new MockParseError('CSV export does not contain the expected columns'),
+      );
+
+      const response = await importStatement({
+        request: uploadRequest({ file: csvFile(), source: 'paypal_csv' }),
+      } as any);
+
+      expect(response.status).toBe(422);
+    });
+  });
+
+  describe('GET /api/admin/payments/review', () => {
+    it('lists unmatched payments', async () => {
+      mockDb.getUnmatchedPaymentImportLines.mockResolvedValue([
+        { id: 'line-1', amount: 8.49, reviewNote: 'no_reference' },
+      ]);
+
+      const response = await getReviewList({
+        request: new Request('http://localhost/api/admin/payments/review', {
+          headers: { Authorization: `Bearer ${ADMIN_API_KEY}` },
+        }),
+      } as any);
+      const result = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(result.data).toHaveLength(1);
+      expect(mockDb.getUnmatchedPaymentImportLines).toHaveBeenCalledWith({
+        changedBy: 'admin:api-key',
+      });
+    });
+  });
+
+  describe('POST /api/admin/payments/review/:id', () => {
+    const callReview = (body: Record<string, unknown>) =>
+      reviewLine({
+        params: { id: 'line-1' },
+        request: new Request(
+          'http://localhost/api/admin/payments/review/line-1',
+          {
+            method: 'POST',
+            headers: {
+              Authorization: `Bearer ${ADMIN_API_KEY}`,
+              'Content-Type': 'application/json',
+            },
+            body: JSON.stringify(body),
+          },
+        ),
+      } as any);
+
+    it('assigns a payment to a reservation', async () => {
+      const response = await callReview({
+        action: 'assign',
+        reservationId: RESERVATION_ID,
+      });
+
+      expect(response.status).toBe(200);
+      expect(mockAssignPaymentImportLine).toHaveBeenCalledWith(
+        'line-1',
+        RESERVATION_ID,
+        { changedBy: 'admin:api-key' },
+      );
+    });
+
+    it('marks unrelated payments as ignored', async () => {
+      const response = await callReview({ action: 'ignore', note: 'Spende' });
+
+      expect(response.status).toBe(200);
+      expect(mockDb.updatePaymentImportLine).toHaveBeenCalledWith('line-1', {
+        status: 'ignored',
+        reviewNote: 'Spende',
+      });
+    });
+
+    it('returns 409 when the reservation cannot take the payment', async () => {
+      mockAssignPaymentImportLine.mockRejectedValue(
+        new MockAssignmentError('Reservation cannot be confirmed'),
+      );
+
+      const response = await callReview({
+        action: 'assign',
+        reservationId: RESERVATION_ID,
+      });
+
+      expect(response.status).toBe(409);
+    });
+
+    it('validates the review action', async () => {
+      const response = await callReview({ action: 'assign' });
+
+      expect(response.status).toBe(400);
+    });
+  });
+});
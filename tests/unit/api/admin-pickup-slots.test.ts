@@ -0,0 +1,175 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { POST } from '@/pages/api/admin/pickup-slots/index';
+import { PATCH } from '@/pages/api/admin/pickup-slots/[id]';
+import { ADMIN_SESSION_COOKIE } from '@/lib/auth/admin';
+import { createToken } from '@/lib/auth/tokens';
+
+const { mockDb } = vi.hoisted(() => ({
+  mockDb: {
+    createPickupSlot: vi.fn(),
+    updatePickupSlot: vi.fn(),
+    getPickupSlotById: vi.fn(),
+    getAdminUserById: vi.fn(),
+  },
+}));
+
+vi.mock('@/lib/database', () => ({
+  DatabaseService: class {
+    createPickupSlot = mockDb.createPickupSlot;
+    updatePickupSlot = mockDb.updatePickupSlot;
+    getPickupSlotById = mockDb.getPickupSlotById;
+    getAdminUserById = mockDb.getAdminUserById;
+  },
+}));
+
+const ADMIN_API_KEY = 'test-admin-api-key-with-at-least-32-chars';
+const ADMIN_USER_ID = 'a1b2c3d4-0000-4000-8000-000000000001';
+const SLOT_ID = '5a1b2c3d-0000-4000-8000-000000000001';
+
+const slot = {
+  id: SLOT_ID,
+  location: 'Kita Sonnenschein',
+  startsAt: '2024-01-15T13:00:00.000Z',
+  endsAt: '2024-01-15T15:00:00.000Z',
+  capacity: 20,
+  isActive: true,
+};
+
+const createCookies = (values: Record<string, string> = {}) => ({
+  get: vi.fn((name: string) =>
+    name in values ? { value: values[name] } : undefined,
+  ),
+  set: vi.fn(),
+  delete: vi.fn(),
+});
+
+const viewerCookies = () =>
+  createCookies({
+    [ADMIN_SESSION_COOKIE]: createToken('admin', ADMIN_USER_ID),
+  });
+
+const createRequest = (
+  method: string,
+  body: unknown,
+  cookies = createCookies(),
+) =>
+  new Request('http://localhost/api/admin/pickup-slots', {
+    method,
+    headers: {
+      'Content-Type': 'application/json',
+      ...(cookies.get(ADMIN_SESSION_COOKIE)
+        ? {}
+        : { Authorization: `Bearer ${ADMIN_API_KEY}` }),
+    },
+    body: JSON.stringify(body),
+  });
+
+const callCreate = (body: unknown, cookies = createCookies()) =>
+  POST({
+    request: createRequest('POST', body, cookies),
+    cookies,
+  } as any);
+
+const callUpdate = (body: unknown, cookies = createCookies()) =>
+  PATCH({
+    params: { id: SLOT_ID },
+    request: createRequest('PATCH', body, cookies),
+    cookies,
+  } as any);
+
+describe('Admin pickup slot API', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.stubEnv('ADMIN_API_KEY', ADMIN_API_KEY);
+    vi.stubEnv('JWT_SECRET', 'test-jwt-secret-with-at-least-32-characters');
+    vi.stubEnv('SESSION_SECRET', 'test-session-secret-with-32-characters');
+    mockDb.createPickupSlot.mockResolvedValue(slot);
+    mockDb.updatePickupSlot.mockResolvedValue(slot);
+    mockDb.getPickupSlotById.mockResolvedValue({ ...slot, bookedFamilies: 7 });
+    mockDb.getAdminUserById.mockResolvedValue({
+      id: ADMIN_USER_ID,
+      email: 'lesen@example.com',
+      name: 'Lesen',
+      role: 'viewer',
+      isActive: true,
+    });
+  });
+
+  describe('POST /api/admin/pickup-slots', () => {
+    it('creates a slot', async () => {
+      const response = await callCreate({
+        location: slot.location,
+        startsAt: slot.startsAt,
+        endsAt: slot.endsAt,
+        capacity: 20,
+      });
+      const result = await response.json();
+
+      expect(response.status).toBe(201);
+      expect(result.data.bookedFamilies).toBe(0);
+      expect(mockDb.createPickupSlot).toHaveBeenCalledWith({
+        location: slot.location,
+        startsAt: slot.startsAt,
+        endsAt: slot.endsAt,
+        capacity: 20,
+      });
+    });
+
+    it('rejects a slot that ends before it starts', async () => {
+      const response = await callCreate({
+        location: slot.location,
+        startsAt: slot.endsAt,
+        endsAt: slot.startsAt,
+        capacity: 20,
+      });
+      const result = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(result.errors[0].field).toBe('endsAt');
+      expect(mockDb.createPickupSlot).not.toHaveBeenCalled();
+    });
+
+    it('is reserved for roles that manage pickup slots', async () => {
+      const response = await callCreate(
+        {
+          location: slot.location,
+          startsAt: slot.startsAt,
+          endsAt: slot.endsAt,
+          capacity: 20,
+        },
+        viewerCookies(),
+      );
+
+      expect(response.status).toBe(403);
+      expect(mockDb.createPickupSlot).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('PATCH /api/admin/pickup-slots/:id', () => {
+    it('closes a slot and returns it with its bookings', async () => {
+      const response = await callUpdate({ isActive: false });
+      const result = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(result.data.bookedFamilies).toBe(7);
+      expect(mockDb.updatePickupSlot).toHaveBeenCalledWith(SLOT_ID, {
+        isActive: false,
+      });
+    });
+
+    it('only moves start and end together', async () => {
+      const response = await callUpdate({ startsAt: slot.startsAt });
+
+      expect(response.status).toBe(400);
+      expect(mockDb.updatePickupSlot).not.toHaveBeenCalled();
+    });
+
+    it('returns 404 for unknown slots', async () => {
+      mockDb.updatePickupSlot.mockResolvedValue(null);
+
+      const response = await callUpdate({ capacity: 25 });
+
+      expect(response.status).toBe(404);
+    });
+  });
+});
@@ -0,0 +1,617 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { GET } from '@/pages/api/admin/reservations/index';
+import { POST as confirmPayment } from '@/pages/api/admin/reservations/[id]/confirm-payment';
+import { POST as pickup } from '@/pages/api/admin/reservations/[id]/pickup';
+import { POST as cancel } from '@/pages/api/admin/reservations/[id]/cancel';
+import { GET as exportList } from '@/pages/api/admin/reservations/export';
+import { GET as shippingLabels } from '@/pages/api/admin/reservations/shipping-labels';
+import { GET as pictureOrders } from '@/pages/api/admin/reservations/picture-orders';
+import { POST as login } from '@/pages/api/admin/session';
+import { ADMIN_SESSION_COOKIE } from '@/lib/auth/admin';
+import { hashPassword } from '@/lib/auth/passwords';
+import { createToken } from '@/lib/auth/tokens';
+import { getEmailService } from '@/lib/email/email-service';
+import { InvalidStatusTransitionError } from '@/lib/reservation-status';
+
+const {
+  mockDb,
+  mockDeleteClaim,
+  mockGetAllClaims,
+  mockOfferCopies,
+  MockNotFoundError,
+  MockNotPickupError,
+} = vi.hoisted(() => ({
+  mockDb: {
+    getAdminReservations: vi.fn(),
+    getReservationDetails: vi.fn(),
+    confirmReservationPayment: vi.fn(),
+    markReservationPickedUp: vi.fn(),
+    cancelReservationAsAdmin: vi.fn(),
+    getAdminUserById: vi.fn(),
+    getAdminLogin: vi.fn(),
+    recordAdminLogin: vi.fn(),
+  },
+  mockDeleteClaim: vi.fn(),
+  mockGetAllClaims: vi.fn(),
+  mockOfferCopies: vi.fn(),
+  MockNotFoundError: class extends Error {},
+  MockNotPickupError: class extends Error {},
+}));
+
+vi.mock('@/lib/database', () => ({
+  DatabaseService: class {
+    getAdminReservations = mockDb.getAdminReservations;
+    getReservationDetails = mockDb.getReservationDetails;
+    confirmReservationPayment = mockDb.confirmReservationPayment;
+    markReservationPickedUp = mockDb.markReservationPickedUp;
+    cancelReservationAsAdmin = mockDb.cancelReservationAsAdmin;
+    getAdminUserById = mockDb.getAdminUserById;
+    getAdminLogin = mockDb.getAdminLogin;
+    recordAdminLogin = mockDb.recordAdminLogin;
+  },
+  ReservationNotFoundError: MockNotFoundError,
+  ReservationNotPickupError: MockNotPickupError,
+}));
+
+vi.mock('@/lib/picture-claims', () => ({
+  pictureClaimsService: {
+    deleteClaim: mockDeleteClaim,
+    getAllClaims: mockGetAllClaims,
+  },
+}));
+
+vi.mock('@/lib/waitlist', () => ({
+  offerReturnedCopies: mockOfferCopies,
+}));
+
+const ADMIN_API_KEY = 'test-admin-api-key-with-at-least-32-chars';
+const ADMIN_USER_ID = 'a1b2c3d4-0000-4000-8000-000000000001';
+
+const adminUser = (overrides: Record<string, unknown> = {}) => ({
+  id: ADMIN_USER_ID,
+  email: 'kasse@example.com',
+  name: 'Kasse',
+  role: 'treasurer',
+  isActive: true,
+  createdAt: '2024-01-01T00:00:00Z',
+  updatedAt: '2024-01-01T00:00:00Z',
+  ...overrides,
+});
+
+// Minimal AstroCookies stand-in backed by a map
+const createCookies = (values: Record<string, string> = {}) => {
+  const store = new Map(Object.entries(values));
+  return {
+    get: vi.fn((name: string) =>
+      store.has(name) ? { value: store.get(name) } : undefined,
+    ),
+    set: vi.fn((name: string, value: string) => store.set(name, value)),
+    delete: vi.fn((name: string) => store.delete(name)),
+  };
+};
+
+const sessionCookies = () =>
+  createCookies({
+    [ADMIN_SESSION_COOKIE]: createToken('admin', ADMIN_USER_ID),
+  });
+
+const adminRequest = (path: string, init: RequestInit = {}, apiKey = '') =>
+  new Request(`http://localhost${path}`, {
+    ...init,
+    headers: apiKey ? { Authorization: `Bearer ${apiKey}` } : {},
+  });
+
+const callList = (query = '', cookies = createCookies()) =>
+  GET({
+    request: adminRequest(`/api/admin/reservations${query}`, {}, ADMIN_API_KEY),
+    url: new URL(`http://localhost/api/admin/reservations${query}`),
+    cookies,
+  } as any);
+
+const callAction = (
+  handler: typeof confirmPayment,
+  action: string,
+  cookies: ReturnType<typeof createCookies> | undefined = undefined,
+) =>
+  handler({
+    params: { id: 'res-123' },
+    request: adminRequest(
+      `/api/admin/reservations/res-123/${action}`,
+      { method: 'POST' },
+      cookies ? '' : ADMIN_API_KEY,
+    ),
+    cookies,
+  } as any);
+
+describe('Admin reservation API', () => {
+  const sendCancellationConfirmation = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.stubEnv('ADMIN_API_KEY', ADMIN_API_KEY);
+    vi.stubEnv('JWT_SECRET', 'test-jwt-secret-with-at-least-32-characters');
+    vi.stubEnv('SESSION_SECRET', 'test-session-secret-with-32-characters');
+    mockDb.getAdminReservations.mockResolvedValue([]);
+    mockDb.getAdminUserById.mockResolvedValue(adminUser());
+    mockDb.getReservationDetails.mockResolvedValue({
+      reservation: { id: 'res-123', status: 'confirmed' },
+      user: { id: 'user-123', email: 'test@example.com' },
+      magazine: { id: 'mag-123', title: 'Test Magazine' },
+    });
+    mockDeleteClaim.mockResolvedValue(undefined);
+    sendCancellationConfirmation.mockResolvedValue(undefined);
+    vi.mocked(getEmailService).mockReturnValue({
+      sendCancellationConfirmation,
+    } as any);
+  });
+
+  describe('GET /api/admin/reservations', () => {
+    it('passes the filters and ignores empty ones', async () => {
+      const response = await callList(
+        '?status=pending&deliveryMethod=&group=seesterne&paymentState=unpaid',
+      );
+
+      expect(response.status).toBe(200);
+      expect(mockDb.getAdminReservations).toHaveBeenCalledWith(
+        {
+          status: 'pending',
+          group: 'seesterne',
+          paymentState: 'unpaid',
+        },
+        { changedBy: 'admin:api-key' },
+      );
+    });
+
+    it('rejects unknown filter values', async () => {
+      const response = await callList('?status=shipped');
+
+      expect(response.status).toBe(400);
+      expect(mockDb.getAdminReservations).not.toHaveBeenCalled();
+    });
+
+    it('accepts a dashboard session instead of the API key', async () => {
+      const response = await GET({
+        request: adminRequest('/api/admin/reservations'),
+        url: new URL('http://localhost/api/admin/reservations'),
+        cookies: sessionCookies(),
+      } as any);
+
+      expect(response.status).toBe(200);
+      expect(mockDb.getAdminUserById).toHaveBeenCalledWith(ADMIN_USER_ID);
+      expect(mockDb.getAdminReservations).toHaveBeenCalledWith(
+        {},
+        { changedBy: `admin:${ADMIN_USER_ID}`, processorId: ADMIN_USER_ID },
+      );
+    });
+
+    it('rejects requests without key or session', async () => {
+      const response = await GET({
+        request: adminRequest('/api/admin/reservations'),
+        url: new URL('http://localhost/api/admin/reservations'),
+        cookies: createCookies({
+          // A parent's portal session is no admin session
+          [ADMIN_SESSION_COOKIE]: createToken('session', 'user-123'),
+        }),
+      } as any);
+
+      expect(response.status).toBe(401);
+    });
+
+    it('rejects sessions of deactivated accounts', async () => {
+      mockDb.getAdminUserById.mockResolvedValue(adminUser({ isActive: false }));
+
+      const response = await GET({
+        request: adminRequest('/api/admin/reservations'),
+        url: new URL('http://localhost/api/admin/reservations'),
+        cookies: sessionCookies(),
+      } as any);
+
+      expect(response.status).toBe(401);
+    });
+  });
+
+  describe('GET /api/admin/reservations/export', () => {
+    const MAGAZINE_ID = '123e4567-e89b-12d3-a456-426614174000';
+
+    const callExport = (query: string) =>
+      exportList({
+        request: adminRequest(
+          `/api/admin/reservations/export${query}`,
+          {},
+          ADMIN_API_KEY,
+        ),
+        url: new URL(`http://localhost/api/admin/reservations/export${query}`),
+        cookies: createCookies(),
+      } as any);
+
+    it('downloads the pickup list of an issue as CSV', async () => {
+      mockDb.getAdminReservations.mockResolvedValue([
+        {
+          reservation: {
+            id: 'res-123',
+            quantity: 1,
+            status: 'confirmed',
+            deliveryMethod: 'pickup',
+          },
+          user: { firstName: 'Mia', lastName: 'Becker' },
+          magazine: { title: 'Leuchtturm', issueNumber: '2024-1' },
+        },
+      ]);
+
+      const response = await callExport(
+        `?list=pickup&magazineId=${MAGAZINE_ID}&status=confirmed`,
+      );
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get('Content-Type')).toBe(
+        'text/csv; charset=utf-8',
+      );
+      expect(response.headers.get('Content-Disposition')).toMatch(
+        /^attachment; filename="abholliste-\d{4}-\d{2}-\d{2}\.csv"$/,
+      );
+      expect(await response.text()).toContain('Becker;Mia;');
+      expect(mockDb.getAdminReservations).toHaveBeenCalledWith(
+        {
+          magazineId: MAGAZINE_ID,
+          status: 'confirmed',
+          deliveryMethod: 'pickup',
+        },
+        { changedBy: 'admin:api-key' },
+      );
+    });
+
+    it('downloads the shipping list as XLSX', async () => {
+      const response = await callExport('?list=shipping&format=xlsx');
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get('Content-Disposition')).toContain(
+        'versandliste-',
+      );
+      const body = new Uint8Array(await response.arrayBuffer());
+      expect(String.fromCharCode(body[0], body[1])).toBe('PK');
+    });
+
+    it('requires the list type', async () => {
+      const response = await callExport('?format=csv');
+
+      expect(response.status).toBe(400);
+      expect(mockDb.getAdminReservations).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('GET /api/admin/reservations/shipping-labels', () => {
+    const callLabels = (query: string, cookies = createCookies()) =>
+      shippingLabels({
+        request: adminRequest(
+          `/api/admin/reservations/shipping-labels${query}`,
+          {},
+          cookies.get(ADMIN_SESSION_COOKIE) ? '' : ADMIN_API_KEY,
+        ),
+        url: new URL(
+          `http://localhost/api/admin/reservations/shipping-labels${query}`,
+        ),
+        cookies,
+      } as any);
+
+    beforeEach(() => {
+      mockDb.getAdminReservations.mockResolvedValue([
+        {
+          reservation: {
+            id: 'res-123',
+            status: 'confirmed',
+            deliveryMethod: 'shipping',
+            shippingAddress: {
+              street: 'Hafenstraße',
+              houseNumber: '7a',
+              postalCode: '18055',
+              city: 'Rostock',
+              country: 'DE',
+            },
+          },
+          user: { firstName: 'Mia', lastName: 'Becker' },
+          magazine: { title: 'Leuchtturm', issueNumber: '2024-1' },
+        },
+      ]);
+    });
+
+    it('exports paid, undispatched shipping reservations for Internetmarke', async () => {
+      const response = await callLabels('?format=csv');
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get('Content-Disposition')).toContain(
+        'internetmarke-',
+      );
+      expect(mockDb.getAdminReservations).toHaveBeenCalledWith(
+        {
+          magazineId: undefined,
+          status: 'confirmed',
+          deliveryMethod: 'shipping',
+          paymentState: 'paid',
+        },
+        { changedBy: 'admin:api-key' },
+      );
+    });
+
+    it('renders the address labels as PDF', async () => {
+      const response = await callLabels('?format=pdf');
+      const body = Buffer.from(await response.arrayBuffer());
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get('Content-Type')).toBe('application/pdf');
+      expect(body.subarray(0, 5).toString()).toBe('%PDF-');
+    });
+
+    it('returns 404 when nothing is left to ship', async () => {
+      mockDb.getAdminReservations.mockResolvedValue([]);
+
+      const response = await callLabels('?format=pdf');
+
+      expect(response.status).toBe(404);
+    });
+
+    it('is reserved for roles that ship magazines', async () => {
+      mockDb.getAdminUserById.mockResolvedValue(adminUser({ role: 'viewer' }));
+
+      const response = await callLabels('?format=csv', sessionCookies());
+
+      expect(response.status).toBe(403);
+      expect(mockDb.getAdminReservations).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('GET /api/admin/reservations/picture-orders', () => {
+    const callReport = (query: string, cookies = createCookies()) =>
+      pictureOrders({
+        request: adminRequest(
+          `/api/admin/reservations/picture-orders${query}`,
+          {},
+          cookies.get(ADMIN_SESSION_COOKIE) ? '' : ADMIN_API_KEY,
+        ),
+        url: new URL(
+          `http://localhost/api/admin/reservations/picture-orders${query}`,
+        ),
+        cookies,
+      } as any);
+
+    beforeEach(() => {
+      mockGetAllClaims.mockResolvedValue([
+        {
+          id: 'claim-1',
+          familyEmail: 'test@example.com',
+          groupName: 'Seesterne',
+          pictureType: 'group',
+          childName: 'Emma',
+          claimedAt: '2024-09-01T00:00:00Z',
+          reservationId: 'res-123',
+        },
+      ]);
+    });
+
+    it('counts the pictures per group for the print shop', async () => {
+      const response = await callReport('?format=csv');
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get('Content-Disposition')).toContain(
+        'bildbestellungen-',
+      );
+      expect(await response.text()).toContain('Seesterne;Summe;1;0');
+      expect(mockGetAllClaims).toHaveBeenCalledWith({
+        changedBy: 'admin:api-key',
+      });
+    });
+
+    it('logs the export with the admin account', async () => {
+      mockDb.getAdminUserById.mockResolvedValue(adminUser());
+
+      const response = await callReport('?format=csv', sessionCookies());
+
+      expect(response.status).toBe(200);
+      expect(mockGetAllClaims).toHaveBeenCalledWith({
+        changedBy: `admin:${ADMIN_USER_ID}`,
+        processorId: ADMIN_USER_ID,
+      });
+    });
+
+    it('renders the report as PDF', async () => {
+      const response = await callReport('?format=pdf');
+      const body = Buffer.from(await response.arrayBuffer());
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get('Content-Type')).toBe('application/pdf');
+      expect(body.subarray(0, 5).toString()).toBe('%PDF-');
+    });
+
+    it('returns 404 before the first picture is ordered', async () => {
+      mockGetAllClaims.mockResolvedValue([]);
+
+      const response = await callReport('?format=csv');
+
+      expect(response.status).toBe(404);
+    });
+
+    it('rejects unknown formats', async () => {
+      const response = await callReport('?format=xlsx');
+
+      expect(response.status).toBe(400);
+      expect(mockGetAllClaims).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /api/admin/session', () => {
+    const PASSWORD = 'correct horse battery';
+
+    const callLogin = (
+      credentials: Record<string, unknown>,
+      cookies = createCookies(),
+    ) =>
+      login({
+        request: new Request('http://localhost/api/admin/session', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(credentials),
+        }),
+        cookies,
+      } as any);
+
+    beforeEach(async () => {
+      mockDb.getAdminLogin.mockResolvedValue({
+        adminUser: adminUser(),
+        passwordHash: await hashPassword(PASSWORD),
+      });
+      mockDb.recordAdminLogin.mockResolvedValue(undefined);
+    });
+
+    it('sets the session cookie for a valid account', async () => {
+      const cookies = createCookies();
+
+      const response = await callLogin(
+        { email: 'kasse@example.com', password: PASSWORD },
+        cookies,
+      );
+
+      expect(response.status).toBe(200);
+      expect(cookies.set).toHaveBeenCalledWith(
+        ADMIN_SESSION_COOKIE,
+        expect.any(String),
+        expect.objectContaining({ httpOnly: true, sameSite: 'strict' }),
+      );
+      expect(mockDb.recordAdminLogin).toHaveBeenCalledWith(ADMIN_USER_ID);
+    });
+
+    it('rejects a wrong password', async () => {
+      const cookies = createCookies();
+
+      const response = await callLogin(
+        { email: 'kasse@example.com', password: 'wrong password!' },
+        cookies,
+      );
+
+      expect(response.status).toBe(401);
+      expect(cookies.set).not.toHaveBeenCalled();
+    });
+
+    it('rejects unknown and deactivated accounts alike', async () => {
+      mockDb.getAdminLogin.mockResolvedValueOnce(null);
+      const unknown = await callLogin({
+        email: 'unbekannt@example.com',
+        password: PASSWORD,
+      });
+
+      mockDb.getAdminLogin.mockResolvedValueOnce({
+        adminUser: adminUser({ isActive: false }),
+        passwordHash: await hashPassword(PASSWORD),
+      });
+      const deactivated = await callLogin({
+        email: 'kasse@example.com',
+        password: PASSWORD,
+      });
+
+      expect(unknown.status).toBe(401);
+      expect(deactivated.status).toBe(401);
+      expect(await deactivated.json()).toEqual(await unknown.json());
+    });
+  });
+
+  describe('status actions', () => {
+    it('confirms a payment', async () => {
+      mockDb.confirmReservationPayment.mockResolvedValue({
+        id: 'res-123',
+        status: 'confirmed',
+      });
+
+      const response = await callAction(confirmPayment, 'confirm-payment');
+      const result = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(result.data.status).toBe('confirmed');
+      expect(mockDb.confirmReservationPayment).toHaveBeenCalledWith('res-123', {
+        changedBy: 'admin:api-key',
+      });
+    });
+
+    it('returns 409 when the payment was already confirmed', async () => {
+      mockDb.confirmReservationPayment.mockRejectedValue(
+        new InvalidStatusTransitionError('confirmed', 'confirmed'),
+      );
+
+      const response = await callAction(confirmPayment, 'confirm-payment');
+
+      expect(response.status).toBe(409);
+    });
+
+    it('marks a pickup reservation as picked up', async () => {
+      mockDb.getAdminUserById.mockResolvedValue(
+        adminUser({ role: 'distributor' }),
+      );
+      mockDb.markReservationPickedUp.mockResolvedValue({
+        id: 'res-123',
+        status: 'completed',
+      });
+
+      const response = await callAction(pickup, 'pickup', sessionCookies());
+
+      expect(response.status).toBe(200);
+      expect(mockDb.markReservationPickedUp).toHaveBeenCalledWith('res-123', {
+        changedBy: `admin:${ADMIN_USER_ID}`,
+        processorId: ADMIN_USER_ID,
+      });
+    });
+
+    it('rejects actions the role does not allow', async () => {
+      mockDb.getAdminUserById.mockResolvedValue(adminUser({ role: 'viewer' }));
+
+      const response = await callAction(cancel, 'cancel', sessionCookies());
+
+      expect(response.status).toBe(403);
+      expect(mockDb.cancelReservationAsAdmin).not.toHaveBeenCalled();
+    });
+
+    it('returns 409 when picking up a shipping reservation', async () => {
+      mockDb.markReservationPickedUp.mockRejectedValue(
+        new MockNotPickupError('res-123'),
+      );
+
+      const response = await callAction(pickup, 'pickup');
+
+      expect(response.status).toBe(409);
+    });
+
+    it('cancels, frees picture claims and informs the family', async () => {
+      const cancelled = {
+        id: 'res-123',
+        magazineId: 'mag-123',
+        status: 'cancelled',
+      };
+      mockDb.cancelReservationAsAdmin.mockResolvedValue(cancelled);
+
+      const response = await callAction(cancel, 'cancel');
+      const result = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(result.data.emailSent).toBe(true);
+      expect(mockDeleteClaim).toHaveBeenCalledWith('res-123');
+      expect(mockOfferCopies).toHaveBeenCalledWith('mag-123', expect.any(Date));
+      expect(sendCancellationConfirmation).toHaveBeenCalledWith(
+        expect.objectContaining({ reservation: cancelled }),
+      );
+    });
+
+    it('returns 404 for unknown reservations', async () => {
+      mockDb.cancelReservationAsAdmin.mockRejectedValue(
+        new MockNotFoundError('res-123'),
+      );
+
+      const response = await callAction(cancel, 'cancel');
+
+      expect(response.status).toBe(404);
+      expect(sendCancellationConfirmation).not.toHaveBeenCalled();
+    });
+
+    it('requires admin authorization', async () => {
+      const response = await callAction(cancel, 'cancel', createCookies());
+
+      expect(response.status).toBe(401);
+      expect(mockDb.cancelReservationAsAdmin).not.toHaveBeenCalled();
+    });
+  });
+});
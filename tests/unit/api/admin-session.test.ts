@@ -0,0 +1,169 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { POST } from '@/pages/api/admin/session';
+
+const { mockDb, mockStartAdminSession, mockVerifyPassword } = vi.hoisted(
+  () => ({
+    mockDb: {
+      getAdminLogin: vi.fn(),
+      recordAdminLogin: vi.fn(),
+    },
+    mockStartAdminSession: vi.fn(),
+    mockVerifyPassword: vi.fn(),
+  }),
+);
+
+vi.mock('@/lib/database', () => ({
+  DatabaseService: class {
+    getAdminLogin = mockDb.getAdminLogin;
+    recordAdminLogin = mockDb.recordAdminLogin;
+  },
+}));
+
+vi.mock('@/lib/auth/admin', () => ({
+  startAdminSession: mockStartAdminSession,
+  endAdminSession: vi.fn(),
+}));
+
+vi.mock('@/lib/auth/passwords', () => ({
+  getDummyPasswordHash: vi.fn().mockResolvedValue('dummy-hash'),
+  verifyPassword: mockVerifyPassword,
+}));
+
+const callLogin = (
+  body: { email: string; password: string },
+  ip = '198.51.100.1',
+) =>
+  POST({
+    request: new Request('http://localhost/api/admin/session', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-forwarded-for': ip,
+      },
+      body: JSON.stringify(body),
+    }),
+    cookies: {},
+  } as any);
+
+describe('POST /api/admin/session', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockDb.getAdminLogin.mockImplementation(async (email: string) => ({
+      adminUser: { id: `admin-${email}`, email, isActive: true },
+      passwordHash: 'hash',
+    }));
+    mockDb.recordAdminLogin.mockResolvedValue(undefined);
+    mockVerifyPassword.mockImplementation(
+      async (password: string) => password === 'richtig',
+    );
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('starts a session for valid credentials', async () => {
+    const response = await callLogin({
+      email: 'kasse@example.com',
+      password: 'richtig',
+    });
+
+    expect(response.status).toBe(200);
+    expect(mockStartAdminSession).toHaveBeenCalledWith(
+      {},
+      'admin-kasse@example.com',
+    );
+  });
+
+  it('locks an account after five failed attempts', async () => {
+    for (let attempt = 0; attempt < 5; attempt++) {
+      const response = await callLogin(
+        { email: 'lesen@example.com', password: 'falsch' },
+        `198.51.100.${10 + attempt}`,
+      );
+      expect(response.status).toBe(401);
+    }
+
+    const response = await callLogin(
+      { email: 'LESEN@example.com', password: 'richtig' },
+      '198.51.100.20',
+    );
+
+    expect(response.status).toBe(429);
+    expect(response.headers.get('Retry-After')).toBe('900');
+    expect(mockStartAdminSession).not.toHaveBeenCalled();
+  });
+
+  it('clears the failed attempts of an account on login', async () => {
+    for (let attempt = 0; attempt < 4; attempt++) {
+      await callLogin(
+        { email: 'vorstand@example.com', password: 'falsch' },
+        '198.51.100.30',
+      );
+    }
+    await callLogin(
+      { email: 'vorstand@example.com', password: 'richtig' },
+      '198.51.100.30',
+    );
+
+    const response = await callLogin(
+      { email: 'vorstand@example.com', password: 'falsch' },
+      '198.51.100.31',
+    );
+
+    expect(response.status).toBe(401);
+  });
+
+  it('does not count successful logins against the account', async () => {
+    for (let attempt = 0; attempt < 6; attempt++) {
+      const response = await callLogin(
+        { email: 'kasse3@example.com', password: 'richtig' },
+        `198.51.100.${40 + attempt}`,
+      );
+      expect(response.status).toBe(200);
+    }
+  });
+
+  it('unlocks the account 15 minutes after the first failure', async () => {
+    vi.useFakeTimers();
+    for (let attempt = 0; attempt < 5; attempt++) {
+      await callLogin(
+        { email: 'schreiben@example.com', password: 'falsch' },
+        `198.51.100.${50 + attempt}`,
+      );
+    }
+
+    // Refused attempts do not push the end of the lock further out
+    vi.advanceTimersByTime(10 * 60 * 1000);
+    const locked = await callLogin(
+      { email: 'schreiben@example.com', password: 'falsch' },
+      '198.51.100.60',
+    );
+    expect(locked.status).toBe(429);
+
+    vi.advanceTimersByTime(5 * 60 * 1000);
+    const response = await callLogin(
+      { email: 'schreiben@example.com', password: 'richtig' },
+      '198.51.100.61',
+    );
+
+    expect(response.status).toBe(200);
+  });
+
+  it('slows down one address trying many accounts', async () => {
+    for (let attempt = 0; attempt < 20; attempt++) {
+      await callLogin(
+        { email: `konto${attempt}@example.com`, password: 'falsch' },
+        '198.51.100.99',
+      );
+    }
+
+    const response = await callLogin(
+      { email: 'kasse2@example.com', password: 'richtig' },
+      '198.51.100.99',
+    );
+
+    expect(response.status).toBe(429);
+    expect(mockDb.getAdminLogin).toHaveBeenCalledTimes(20);
+  });
+});
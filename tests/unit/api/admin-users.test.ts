@@ -0,0 +1,167 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { POST as createAdminUser } from '@/pages/api/admin/users/index';
+import { PATCH as updateAdminUser } from '@/pages/api/admin/users/[id]';
+import { ADMIN_SESSION_COOKIE } from '@/lib/auth/admin';
+import { verifyPassword } from '@/lib/auth/passwords';
+import { createToken } from '@/lib/auth/tokens';
+
+const { mockDb, MockExistsError } = vi.hoisted(() => ({
+  mockDb: {
+    createAdminUser: vi.fn(),
+    updateAdminUser: vi.fn(),
+    getAdminUserById: vi.fn(),
+  },
+  MockExistsError: class extends Error {},
+}));
+
+vi.mock('@/lib/database', () => ({
+  DatabaseService: class {
+    createAdminUser = mockDb.createAdminUser;
+    updateAdminUser = mockDb.updateAdminUser;
+    getAdminUserById = mockDb.getAdminUserById;
+  },
+  AdminUserExistsError: MockExistsError,
+}));
+
+const ADMIN_API_KEY = 'test-admin-api-key-with-at-least-32-chars';
+const ADMIN_USER_ID = 'a1b2c3d4-0000-4000-8000-000000000001';
+
+const jsonRequest = (
+  method: string,
+  body: Record<string, unknown>,
+  apiKey = ADMIN_API_KEY,
+) =>
+  new Request('http://localhost/api/admin/users', {
+    method,
+    headers: {
+      'Content-Type': 'application/json',
+      ...(apiKey && { Authorization: `Bearer ${apiKey}` }),
+    },
+    body: JSON.stringify(body),
+  });
+
+const newAccount = {
+  email: 'kasse@example.com',
+  name: 'Kasse',
+  role: 'treasurer',
+  password: 'correct horse battery',
+};
+
+describe('Admin user API', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.stubEnv('ADMIN_API_KEY', ADMIN_API_KEY);
+    vi.stubEnv('SESSION_SECRET', 'test-session-secret-with-32-characters');
+    mockDb.createAdminUser.mockImplementation(async (account) => ({
+      id: ADMIN_USER_ID,
+      email: account.email,
+      name: account.name,
+      role: account.role,
+      isActive: true,
+    }));
+  });
+
+  it('creates an account with a hashed password', async () => {
+    const response = await createAdminUser({
+      request: jsonRequest('POST', newAccount),
+    } as any);
+    const result = await response.json();
+
+    expect(response.status).toBe(201);
+    expect(result.data).not.toHaveProperty('passwordHash');
+    const { passwordHash } = mockDb.createAdminUser.mock.calls[0][0];
+    expect(passwordHash).not.toContain(newAccount.password);
+    await expect(
+      verifyPassword(newAccount.password, passwordHash),
+    ).resolves.toBe(true);
+  });
+
+  it('rejects short passwords and unknown roles', async () => {
+    const response = await createAdminUser({
+      request: jsonRequest('POST', {
+        ...newAccount,
+        role: 'superuser',
+        password: 'kurz',
+      }),
+    } as any);
+    const result = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(result.errors.map((err: any) => err.field)).toEqual([
+      'role',
+      'password',
+    ]);
+    expect(mockDb.createAdminUser).not.toHaveBeenCalled();
+  });
+
+  it('returns 409 for an email that already has an account', async () => {
+    mockDb.createAdminUser.mockRejectedValue(
+      new MockExistsError('kasse@example.com'),
+    );
+
+    const response = await createAdminUser({
+      request: jsonRequest('POST', newAccount),
+    } as any);
+
+    expect(response.status).toBe(409);
+  });
+
+  it('leaves account management to the API key', async () => {
+    mockDb.getAdminUserById.mockResolvedValue({
+      id: ADMIN_USER_ID,
+      role: 'privacy_officer',
+      isActive: true,
+    });
+
+    const response = await createAdminUser({
+      request: jsonRequest('POST', newAccount, ''),
+      cookies: {
+        get: (name: string) =>
+          name === ADMIN_SESSION_COOKIE
+            ? { value: createToken('admin', ADMIN_USER_ID) }
+            : undefined,
+      },
+    } as any);
+
+    expect(response.status).toBe(403);
+    expect(mockDb.createAdminUser).not.toHaveBeenCalled();
+  });
+
+  it('deactivates an account', async () => {
+    mockDb.updateAdminUser.mockResolvedValue({
+      id: ADMIN_USER_ID,
+      isActive: false,
+    });
+
+    const response = await updateAdminUser({
+      params: { id: ADMIN_USER_ID },
+      request: jsonRequest('PATCH', { isActive: false }),
+    } as any);
+
+    expect(response.status).toBe(200);
+    expect(mockDb.updateAdminUser).toHaveBeenCalledWith(ADMIN_USER_ID, {
+      isActive: false,
+    });
+  });
+
+  it('returns 404 for unknown accounts', async () => {
+    mockDb.updateAdminUser.mockResolvedValue(null);
+
+    const response = await updateAdminUser({
+      params: { id: ADMIN_USER_ID },
+      request: jsonRequest('PATCH', { role: 'viewer' }),
+    } as any);
+
+    expect(response.status).toBe(404);
+  });
+
+  it('rejects empty updates', async () => {
+    const response = await updateAdminUser({
+      params: { id: ADMIN_USER_ID },
+      request: jsonRequest('PATCH', {}),
+    } as any);
+
+    expect(response.status).toBe(400);
+    expect(mockDb.updateAdminUser).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,158 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { POST } from '@/pages/api/reservations/[id]/cancel';
+import { createToken } from '@/lib/auth/tokens';
+import { getEmailService } from '@/lib/email/email-service';
+import { InvalidStatusTransitionError } from '@/lib/reservation-status';
+
+const { mockDb, mockDeleteClaim, mockGetPortalUserId, mockOfferCopies } =
+  vi.hoisted(() => ({
+    mockDb: {
+      getReservationDetails: vi.fn(),
+      cancelReservation: vi.fn(),
+    },
+    mockDeleteClaim: vi.fn(),
+    mockGetPortalUserId: vi.fn(),
+    mockOfferCopies: vi.fn(),
+  }));
+
+vi.mock('@/lib/database', () => ({
+  DatabaseService: class {
+    getReservationDetails = mockDb.getReservationDetails;
+    cancelReservation = mockDb.cancelReservation;
+  },
+}));
+
+vi.mock('@/lib/picture-claims', () => ({
+  pictureClaimsService: { deleteClaim: mockDeleteClaim },
+}));
+
+vi.mock('@/lib/waitlist', () => ({
+  offerReturnedCopies: mockOfferCopies,
+}));
+
+vi.mock('@/lib/auth/portal-session', () => ({
+  getPortalUserId: mockGetPortalUserId,
+}));
+
+const details = {
+  reservation: {
+    id: 'res-123',
+    userId: 'user-123',
+    magazineId: 'mag-123',
+    status: 'pending',
+  },
+  user: { id: 'user-123', email: 'test@example.com' },
+  magazine: { id: 'mag-123', title: 'Test Magazine' },
+};
+
+const callCancel = (body: Record<string, unknown> = {}, id = 'res-123') =>
+  POST({
+    params: { id },
+    request: new Request(`http://localhost/api/reservations/${id}/cancel`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    }),
+    cookies: {},
+    url: new URL(`http://localhost/api/reservations/${id}/cancel`),
+  } as any);
+
+describe('POST /api/reservations/:id/cancel', () => {
+  const sendCancellationConfirmation = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.stubEnv('JWT_SECRET', 'test-jwt-secret-with-at-least-32-characters');
+    mockGetPortalUserId.mockReturnValue(null);
+    mockDb.getReservationDetails.mockResolvedValue(details);
+    mockDb.cancelReservation.mockResolvedValue(undefined);
+    mockDeleteClaim.mockResolvedValue(undefined);
+    mockOfferCopies.mockResolvedValue({
+      offered: 0,
+      notified: 0,
+      failedNotifications: 0,
+    });
+    sendCancellationConfirmation.mockResolvedValue(undefined);
+    vi.mocked(getEmailService).mockReturnValue({
+      sendCancellationConfirmation,
+    } as any);
+  });
+
+  it('cancels with a valid token from the confirmation email', async () => {
+    const response = await callCancel({
+      token: createToken('reservation', 'res-123'),
+    });
+
+    expect(response.status).toBe(200);
+    expect(mockDb.cancelReservation).toHaveBeenCalledWith(
+      'res-123',
+      'user-123',
+    );
+    expect(mockDeleteClaim).toHaveBeenCalledWith('res-123');
+    expect(mockOfferCopies).toHaveBeenCalledWith('mag-123', expect.any(Date));
+    expect(sendCancellationConfirmation).toHaveBeenCalledWith(
+      expect.objectContaining({
+        reservation: expect.objectContaining({ status: 'cancelled' }),
+        user: details.user,
+      }),
+    );
+  });
+
+  it('rejects a token issued for another reservation', async () => {
+    const response = await callCancel({
+      token: createToken('reservation', 'res-999'),
+    });
+
+    expect(response.status).toBe(401);
+    expect(mockDb.cancelReservation).not.toHaveBeenCalled();
+  });
+
+  it('rejects requests without token or session', async () => {
+    const response = await callCancel();
+
+    expect(response.status).toBe(401);
+  });
+
+  it('accepts the portal session for own reservations', async () => {
+    mockGetPortalUserId.mockReturnValue('user-123');
+
+    const response = await callCancel();
+
+    expect(response.status).toBe(200);
+    expect(mockDb.cancelReservation).toHaveBeenCalled();
+  });
+
+  it('hides reservations of other parents from a session', async () => {
+    mockGetPortalUserId.mockReturnValue('user-999');
+
+    const response = await callCancel();
+
+    expect(response.status).toBe(404);
+    expect(mockDb.cancelReservation).not.toHaveBeenCalled();
+  });
+
+  it('returns 409 when the reservation can no longer be cancelled', async () => {
+    mockDb.cancelReservation.mockRejectedValue(
+      new InvalidStatusTransitionError('completed', 'cancelled'),
+    );
+
+    const response = await callCancel({
+      token: createToken('reservation', 'res-123'),
+    });
+
+    expect(response.status).toBe(409);
+    expect(sendCancellationConfirmation).not.toHaveBeenCalled();
+  });
+
+  it('still succeeds when picture claims, waitlist or email fail', async () => {
+    mockDeleteClaim.mockRejectedValue(new Error('table missing'));
+    mockOfferCopies.mockRejectedValue(new Error('Database unavailable'));
+    sendCancellationConfirmation.mockRejectedValue(new Error('SMTP down'));
+
+    const response = await callCancel({
+      token: createToken('reservation', 'res-123'),
+    });
+
+    expect(response.status).toBe(200);
+  });
+});
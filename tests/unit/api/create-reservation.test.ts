@@ -0,0 +1,281 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { POST } from '@/pages/api/reservations';
+
+const {
+  mockDb,
+  mockValidatePictureOrder,
+  MockFamilyLimitExceededError,
+  MockMagazineNotFoundError,
+} = vi.hoisted(() => ({
+  mockDb: {
+    getMagazineById: vi.fn(),
+    getUserByEmail: vi.fn(),
+    getUserReservations: vi.fn(),
+    getFamilyReservationLimit: vi.fn(),
+    updateUserActivity: vi.fn(),
+    getUserConsents: vi.fn(),
+    createUser: vi.fn(),
+    recordConsent: vi.fn(),
+    createReservation: vi.fn(),
+    logDataProcessing: vi.fn(),
+  },
+  mockValidatePictureOrder: vi.fn(),
+  MockFamilyLimitExceededError: class extends Error {
+    constructor(
+      public copiesPerFamily: number,
+      public remainingCopies: number,
+    ) {
+      super('Family limit exceeded');
+    }
+  },
+  MockMagazineNotFoundError: class extends Error {},
+}));
+
+vi.mock('@/lib/picture-claims', () => ({
+  pictureAlreadyClaimedMessage: vi.fn(),
+  pictureChildNotListedMessage: vi.fn(),
+  pictureClaimsService: {
+    validatePictureOrder: mockValidatePictureOrder,
+  },
+}));
+
+vi.mock('@/lib/database', () => ({
+  DatabaseService: class {
+    getMagazineById = mockDb.getMagazineById;
+    getUserByEmail = mockDb.getUserByEmail;
+    getUserReservations = mockDb.getUserReservations;
+    getFamilyReservationLimit = mockDb.getFamilyReservationLimit;
+    updateUserActivity = mockDb.updateUserActivity;
+    getUserConsents = mockDb.getUserConsents;
+    createUser = mockDb.createUser;
+    recordConsent = mockDb.recordConsent;
+    createReservation = mockDb.createReservation;
+    logDataProcessing = mockDb.logDataProcessing;
+  },
+  FamilyLimitExceededError: MockFamilyLimitExceededError,
+  InsufficientCopiesError: class extends Error {},
+  MagazineNotFoundError: MockMagazineNotFoundError,
+  PickupSlotUnavailableError: class extends Error {},
+  PictureAlreadyClaimedError: class extends Error {},
+  PictureChildNotListedError: class extends Error {},
+  WaitlistOfferExpiredError: class extends Error {},
+}));
+
+const MAGAZINE_ID = '6a1b2c3d-0000-4000-8000-000000000001';
+
+const magazine = {
+  id: MAGAZINE_ID,
+  title: 'Flaschenpost',
+  issueNumber: '2024-01',
+  totalCopies: 100,
+  availableCopies: 10,
+  isActive: true,
+};
+
+const order = {
+  firstName: 'John',
+  lastName: 'Doe',
+  email: 'john@example.com',
+  magazineId: MAGAZINE_ID,
+  quantity: 1,
+  deliveryMethod: 'shipping',
+  paymentMethod: 'paypal',
+  address: {
+    street: 'Hauptstraße',
+    houseNumber: '1',
+    postalCode: '10115',
+    city: 'Berlin',
+    country: 'DE',
+  },
+  consents: {
+    essential: true,
+    functional: false,
+    analytics: false,
+    marketing: false,
+  },
+};
+
+// Every call comes from its own address, so the rate limit stays out of
+// the way
+let requestCount = 0;
+const callCreate = (body: unknown) =>
+  POST({
+    request: new Request('http://localhost/api/reservations', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-forwarded-for': `192.0.2.${++requestCount}`,
+      },
+      body: JSON.stringify(body),
+    }),
+    url: new URL('http://localhost/api/reservations'),
+  } as any);
+
+describe('POST /api/reservations', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.stubEnv('JWT_SECRET', 'test-jwt-secret-with-at-least-32-characters');
+    vi.stubEnv('SITE_URL', 'https://flaschenpost.example');
+    mockDb.getMagazineById.mockResolvedValue(magazine);
+    mockDb.getUserByEmail.mockResolvedValue(null);
+    mockDb.getUserReservations.mockResolvedValue([]);
+    mockDb.getFamilyReservationLimit.mockResolvedValue(null);
+    mockDb.updateUserActivity.mockResolvedValue(undefined);
+    mockDb.getUserConsents.mockResolvedValue([]);
+    mockDb.createUser.mockResolvedValue({
+      id: 'user-123',
+      email: 'john@example.com',
+    });
+    mockDb.recordConsent.mockResolvedValue(undefined);
+    mockDb.createReservation.mockResolvedValue({
+      id: 'reservation-123',
+      status: 'pending',
+    });
+    mockDb.logDataProcessing.mockResolvedValue(undefined);
+    mockValidatePictureOrder.mockResolvedValue({ valid: true, errors: [] });
+  });
+
+  it('creates the reservation', async () => {
+    const response = await callCreate(order);
+    const result = await response.json();
+
+    expect(response.status).toBe(201);
+    expect(result.data.id).toBe('reservation-123');
+  });
+
+  it('returns 404 for an unknown issue', async () => {
+    mockDb.getMagazineById.mockResolvedValue(null);
+
+    const response = await callCreate(order);
+
+    expect(response.status).toBe(404);
+    expect(mockDb.createReservation).not.toHaveBeenCalled();
+  });
+
+  it('returns 404 when the issue is deleted while reserving', async () => {
+    mockDb.createReservation.mockRejectedValue(new MockMagazineNotFoundError());
+
+    const response = await callCreate(order);
+    const result = await response.json();
+
+    expect(response.status).toBe(404);
+    expect(result.error).toBe('Magazine not found');
+  });
+
+  it('rejects a family that already reserved its copy', async () => {
+    mockDb.getUserByEmail.mockResolvedValue({ id: 'user-123' });
+    mockDb.getUserReservations.mockResolvedValue([
+      { magazineId: MAGAZINE_ID, quantity: 1, status: 'confirmed' },
+    ]);
+
+    const response = await callCreate(order);
+    const result = await response.json();
+
+    expect(response.status).toBe(409);
+    expect(result.error).toBe('Reservation limit reached');
+    expect(result.message).toBe(
+      'Pro Familie kann ein Exemplar dieser Ausgabe reserviert werden. Für Ihre E-Mail-Adresse besteht bereits eine Reservierung.',
+    );
+    expect(mockDb.createReservation).not.toHaveBeenCalled();
+  });
+
+  it('rejects a new family ordering more copies than the issue allows', async () => {
+    mockDb.getMagazineById.mockResolvedValue({
+      ...magazine,
+      copiesPerFamily: 2,
+    });
+
+    const response = await callCreate({ ...order, quantity: 3 });
+    const result = await response.json();
+
+    expect(response.status).toBe(409);
+    expect(result.message).toBe(
+      'Pro Familie können höchstens 2 Exemplare dieser Ausgabe reserviert werden. Sie können noch 2 reservieren.',
+    );
+    expect(result.errors[0].field).toBe('quantity');
+    expect(mockDb.createReservation).not.toHaveBeenCalled();
+  });
+
+  it('lets a family with an exception reserve more copies', async () => {
+    mockDb.getUserByEmail.mockResolvedValue({ id: 'user-123' });
+    mockDb.getUserReservations.mockResolvedValue([
+      { magazineId: MAGAZINE_ID, quantity: 1, status: 'confirmed' },
+    ]);
+    mockDb.getFamilyReservationLimit.mockResolvedValue(3);
+
+    const response = await callCreate({ ...order, quantity: 2 });
+
+    expect(response.status).toBe(201);
+    expect(mockDb.getFamilyReservationLimit).toHaveBeenCalledWith(
+      MAGAZINE_ID,
+      'john@example.com',
+    );
+  });
+
+  it('rejects a family that reached the limit in a parallel request', async () => {
+    mockDb.createReservation.mockRejectedValue(
+      new MockFamilyLimitExceededError(1, 0),
+    );
+
+    const response = await callCreate(order);
+    const result = await response.json();
+
+    expect(response.status).toBe(409);
+    expect(result.message).toBe(
+      'Pro Familie kann ein Exemplar dieser Ausgabe reserviert werden. Für Ihre E-Mail-Adresse besteht bereits eine Reservierung.',
+    );
+    expect(result.data).toEqual({ copiesPerFamily: 1, remainingCopies: 0 });
+  });
+
+  it('lets siblings in the same group each order their pictures', async () => {
+    const children = [
+      {
+        name: 'Emma Müller',
+        groupName: 'Seesterne',
+        isVorschueler: true,
+        orderGroupPicture: true,
+        orderVorschulPicture: true,
+      },
+      {
+        name: 'Lena Müller',
+        groupName: 'Seesterne',
+        isVorschueler: true,
+        orderGroupPicture: true,
+        orderVorschulPicture: true,
+      },
+    ];
+
+    const response = await callCreate({ ...order, children });
+
+    expect(response.status).toBe(201);
+    expect(mockDb.createReservation).toHaveBeenCalledWith(
+      expect.objectContaining({ children }),
+      expect.anything(),
+    );
+  });
+
+  it('rejects the same child entered twice with the same picture', async () => {
+    const child = {
+      name: 'Emma Müller',
+      groupName: 'Seesterne',
+      isVorschueler: false,
+      orderGroupPicture: true,
+      orderVorschulPicture: false,
+    };
+
+    const response = await callCreate({
+      ...order,
+      children: [child, { ...child, name: ' emma  müller' }],
+    });
+    const result = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(result.errors).toEqual([
+      {
+        field: 'children.1.name',
+        message: 'Pro Kind ist nur ein Gruppenbild erlaubt',
+      },
+    ]);
+    expect(mockDb.createReservation).not.toHaveBeenCalled();
+  });
+});
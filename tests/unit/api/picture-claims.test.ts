@@ -0,0 +1,130 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { GET } from '@/pages/api/picture-claims';
+
+const { mockGetFamilyClaims, mockGetUserById, mockGetPortalUserId } =
+  vi.hoisted(() => ({
+    mockGetFamilyClaims: vi.fn(),
+    mockGetUserById: vi.fn(),
+    mockGetPortalUserId: vi.fn(),
+  }));
+
+vi.mock('@/lib/picture-claims', () => ({
+  pictureClaimsService: {
+    getFamilyClaims: mockGetFamilyClaims,
+  },
+}));
+
+vi.mock('@/lib/database', () => ({
+  DatabaseService: class {
+    getUserById = mockGetUserById;
+  },
+}));
+
+vi.mock('@/lib/auth/portal-session', () => ({
+  getPortalUserId: mockGetPortalUserId,
+}));
+
+// Every call comes from its own address, so the rate limit stays out of
+// the way unless a test sets one
+let requestCount = 0;
+const callGet = (query: string, ip = `192.0.2.${++requestCount}`) =>
+  GET({
+    request: new Request(`http://localhost/api/picture-claims?${query}`, {
+      headers: { 'x-forwarded-for': ip },
+    }),
+    url: new URL(`http://localhost/api/picture-claims?${query}`),
+    cookies: { get: () => ({ value: 'session-token' }) },
+  } as any);
+
+describe('GET /api/picture-claims', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockGetPortalUserId.mockReturnValue('user-123');
+    mockGetUserById.mockResolvedValue({
+      id: 'user-123',
+      email: 'Family@example.com',
+    });
+    mockGetFamilyClaims.mockResolvedValue([
+      {
+        id: 'claim-1',
+        familyEmail: 'family@example.com',
+        groupName: 'Seesterne',
+        pictureType: 'group',
+        childName: 'Emma',
+        claimedAt: '2024-09-01T00:00:00Z',
+        reservationId: 'reservation-123',
+      },
+    ]);
+  });
+
+  it('lists the claimed pictures of the family', async () => {
+    const response = await callGet('email=Family%40Example.com');
+    const result = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Cache-Control')).toBe('no-store');
+    expect(mockGetUserById).toHaveBeenCalledWith('user-123');
+    expect(mockGetFamilyClaims).toHaveBeenCalledWith('family@example.com');
+    expect(result.data).toEqual([
+      { groupName: 'Seesterne', pictureType: 'group', childName: 'Emma' },
+    ]);
+  });
+
+  it('requires a portal session', async () => {
+    mockGetPortalUserId.mockReturnValue(null);
+
+    const response = await callGet('email=family%40example.com');
+
+    expect(response.status).toBe(401);
+    expect(mockGetFamilyClaims).not.toHaveBeenCalled();
+  });
+
+  it("refuses to list another family's claims", async () => {
+    const response = await callGet('email=other%40example.com');
+    const result = await response.json();
+
+    expect(response.status).toBe(403);
+    expect(result.success).toBe(false);
+    expect(mockGetFamilyClaims).not.toHaveBeenCalled();
+  });
+
+  it('refuses a session whose user was deleted', async () => {
+    mockGetUserById.mockResolvedValue(null);
+
+    const response = await callGet('email=family%40example.com');
+
+    expect(response.status).toBe(403);
+    expect(mockGetFamilyClaims).not.toHaveBeenCalled();
+  });
+
+  it('limits the requests per client address', async () => {
+    const statuses = [];
+    for (let i = 0; i < 31; i++) {
+      const response = await callGet(
+        'email=family%40example.com',
+        '198.51.100.7',
+      );
+      statuses.push(response.status);
+    }
+
+    expect(statuses.slice(0, 30).every((status) => status === 200)).toBe(true);
+    expect(statuses[30]).toBe(429);
+  });
+
+  it('requires a valid email', async () => {
+    const response = await callGet('email=keine-adresse');
+    const result = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(result.errors[0].field).toBe('email');
+    expect(mockGetFamilyClaims).not.toHaveBeenCalled();
+  });
+
+  it('returns 500 when the claims cannot be loaded', async () => {
+    mockGetFamilyClaims.mockRejectedValue(new Error('Database error'));
+
+    const response = await callGet('email=family%40example.com');
+
+    expect(response.status).toBe(500);
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { GET } from '@/pages/api/reservations';
+
+const { mockDb, mockGetPortalUserId } = vi.hoisted(() => ({
+  mockDb: {
+    getUserReservations: vi.fn(),
+    logDataProcessing: vi.fn(),
+  },
+  mockGetPortalUserId: vi.fn(),
+}));
+
+vi.mock('@/lib/database', () => ({
+  DatabaseService: class {
+    getUserReservations = mockDb.getUserReservations;
+    logDataProcessing = mockDb.logDataProcessing;
+  },
+}));
+
+vi.mock('@/lib/auth/portal-session', () => ({
+  getPortalUserId: mockGetPortalUserId,
+}));
+
+const signedIn = { get: () => ({ value: 'session-token' }) };
+
+describe('GET /api/reservations', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockGetPortalUserId.mockReturnValue('user-123');
+    mockDb.getUserReservations.mockResolvedValue([
+      { id: 'reservation-123', status: 'pending' },
+    ]);
+    mockDb.logDataProcessing.mockResolvedValue(undefined);
+  });
+
+  it('requires a portal session', async () => {
+    mockGetPortalUserId.mockReturnValue(null);
+
+    const response = await GET({
+      request: new Request('http://localhost/api/reservations'),
+      cookies: { get: () => undefined },
+    } as any);
+    const result = await response.json();
+
+    expect(response.status).toBe(401);
+    expect(result.success).toBe(false);
+    expect(mockDb.getUserReservations).not.toHaveBeenCalled();
+  });
+
+  it('returns the reservations of the signed-in parent', async () => {
+    const request = new Request('http://localhost/api/reservations', {
+      method: 'GET',
+      headers: {
+        'x-forwarded-for': '192.168.1.200',
+      },
+    });
+
+    const response = await GET({ request, cookies: signedIn } as any);
+    const result = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(result.success).toBe(true);
+    expect(result.data).toHaveLength(1);
+    expect(mockDb.getUserReservations).toHaveBeenCalledWith('user-123');
+
+    expect(mockDb.logDataProcessing).toHaveBeenCalledWith({
+      userId: 'user-123',
+      action: 'accessed',
+      dataType: 'reservation',
+      legalBasis: 'user_request',
+      ipAddress: '192.168.1.200',
+      details: expect.stringContaining('GET'),
+    });
+  });
+
+  it('handles errors in GET endpoint', async () => {
+    mockDb.getUserReservations.mockRejectedValue(new Error('DB down'));
+
+    const response = await GET({
+      request: new Request('http://localhost/api/reservations'),
+      cookies: signedIn,
+    } as any);
+    const result = await response.json();
+
+    expect(response.status).toBe(500);
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('Internal server error');
+  });
+});
@@ -75,6 +75,7 @@ const mockDb = {
   updateUserActivity: vi.fn(),
   recordConsent: vi.fn(),
   getUserConsents: vi.fn(),
+  getUserReservations: vi.fn(),
   logDataProcessing: vi.fn(),
 };
 
@@ -109,7 +110,6 @@ const createValidPickupData = (
 
 describe('/api/reservations', () => {
   let POST: any;
-  let GET: any;
 
   beforeEach(async () => {
     vi.clearAllMocks();
@@ -123,7 +123,6 @@ describe('/api/reservations', () => {
     // Re-import the API functions
     const apiModule = await import('@/pages/api/reservations');
     POST = apiModule.POST;
-    GET = apiModule.GET;
 
     // Clear rate limiting state
     if ((globalThis as any).rateLimitMap) {
@@ -1014,77 +1013,4 @@ describe('/api/reservations', () => {
       expect(differentIpResponse.status).toBe(201);
     });
   });
-
-  describe('GET /api/reservations', () => {
-    it('returns authentication required message', async () => {
-      const request = new Request('http://localhost/api/reservations', {
-        method: 'GET',
-        headers: {
-          'x-forwarded-for': '192.168.1.200',
-        },
-      });
-
-      const response = await GET({
-        request,
-        url: new URL('http://localhost/api/reservations'),
-      } as any);
-      const result = await response.json();
-
-      expect(response.status).toBe(200);
-      expect(result.success).toBe(true);
-      expect(result.data).toEqual([]);
-      expect(result.message).toContain('Authentication required');
-
-      expect(mockDb.logDataProcessing).toHaveBeenCalledWith({
-        action: 'accessed',
-        dataType: 'reservation',
-        legalBasis: 'legitimate_interest',
-        ipAddress: '192.168.1.200',
-        details: expect.stringContaining('GET'),
-      });
-    });
-
-    it('handles errors in GET endpoint', async () => {
-      mockDb.logDataProcessing.mockRejectedValue(new Error('Logging failed'));
-
-      const request = new Request('http://localhost/api/reservations', {
-        method: 'GET',
-        headers: {
-          'x-forwarded-for': '192.168.1.201',
-        },
-      });
-
-      const response = await GET({
-        request,
-        url: new URL('http://localhost/api/reservations'),
-      } as any);
-      const result = await response.json();
-
-      expect(response.status).toBe(500);
-      expect(result.success).toBe(false);
-      expect(result.error).toBe('Internal server error');
-    });
-
-    it('handles missing IP in GET request', async () => {
-      const request = new Request('http://localhost/api/reservations', {
-        method: 'GET',
-        // No IP headers
-      });
-
-      const response = await GET({
-        request,
-        url: new URL('http://localhost/api/reservations'),
-      } as any);
-      const result = await response.json();
-
-      expect(response.status).toBe(200);
-      expect(result.success).toBe(true);
-
-      expect(mockDb.logDataProcessing).toHaveBeenCalledWith(
-        expect.objectContaining({
-          ipAddress: 'unknown',
-        }),
-      );
-    });
-  });
 });
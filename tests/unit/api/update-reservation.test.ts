@@ -0,0 +1,269 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { PATCH } from '@/pages/api/reservations/[id]/index';
+import { createToken } from '@/lib/auth/tokens';
+import { getEmailService } from '@/lib/email/email-service';
+import { calculateTotalCost } from '@/config/payment';
+
+const {
+  mockDb,
+  mockGetPortalUserId,
+  MockNotEditableError,
+  MockSlotUnavailableError,
+} = vi.hoisted(() => ({
+  mockDb: {
+    getReservationDetails: vi.fn(),
+    updateReservationDelivery: vi.fn(),
+  },
+  mockGetPortalUserId: vi.fn(),
+  MockNotEditableError: class extends Error {},
+  MockSlotUnavailableError: class extends Error {},
+}));
+
+vi.mock('@/lib/database', () => ({
+  DatabaseService: class {
+    getReservationDetails = mockDb.getReservationDetails;
+    updateReservationDelivery = mockDb.updateReservationDelivery;
+  },
+  ReservationNotEditableError: MockNotEditableError,
+  PickupSlotUnavailableError: MockSlotUnavailableError,
+}));
+
+vi.mock('@/lib/auth/portal-session', () => ({
+  getPortalUserId: mockGetPortalUserId,
+}));
+
+const pickupReservation = {
+  id: 'res-123',
+  userId: 'user-123',
+  status: 'pending',
+  quantity: 2,
+  deliveryMethod: 'pickup',
+  pickupLocation: 'BRK Haus für Kinder - Leuchtturm',
+  pickupDate: '2024-01-15',
+  notes: null,
+};
+
+const shippingReservation = {
+  ...pickupReservation,
+  deliveryMethod: 'shipping',
+  pickupLocation: null,
+  pickupDate: null,
+  shippingAddress: {
+    street: 'Test Street',
+    houseNumber: '123',
+    postalCode: '10115',
+    city: 'Berlin',
+    country: 'DE',
+  },
+};
+
+const details = {
+  reservation: pickupReservation,
+  user: { id: 'user-123', email: 'test@example.com' },
+  magazine: { id: 'mag-123', title: 'Test Magazine' },
+};
+
+const address = {
+  street: 'Test Street',
+  houseNumber: '123',
+  postalCode: '10115',
+  city: 'Berlin',
+  country: 'DE',
+};
+
+const callUpdate = (body: Record<string, unknown> = {}, id = 'res-123') =>
+  PATCH({
+    params: { id },
+    request: new Request(`http://localhost/api/reservations/${id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    }),
+    cookies: {},
+    url: new URL(`http://localhost/api/reservations/${id}`),
+  } as any);
+
+describe('PATCH /api/reservations/:id', () => {
+  const sendReservationUpdate = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.stubEnv('JWT_SECRET', 'test-jwt-secret-with-at-least-32-characters');
+    vi.stubEnv('SITE_URL', 'https://flaschenpost.example');
+    mockGetPortalUserId.mockReturnValue('user-123');
+    mockDb.getReservationDetails.mockResolvedValue(details);
+    mockDb.updateReservationDelivery.mockImplementation(
+      async (_id, update) => ({
+        ...pickupReservation,
+        ...update,
+        expiresAt:
+          update.deliveryMethod === 'shipping'
+            ? '2024-01-08T00:00:00.000Z'
+            : undefined,
+      }),
+    );
+    sendReservationUpdate.mockResolvedValue(undefined);
+    vi.mocked(getEmailService).mockReturnValue({
+      sendReservationUpdate,
+    } as any);
+  });
+
+  it('switches a pickup reservation to shipping and returns the new total', async () => {
+    const response = await callUpdate({ deliveryMethod: 'shipping', address });
+    const result = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(mockDb.updateReservationDelivery).toHaveBeenCalledWith(
+      'res-123',
+      expect.objectContaining({ deliveryMethod: 'shipping', address }),
+      'user-123',
+    );
+    expect(result.data.totalCost).toBe(calculateTotalCost(true, 2));
+    expect(sendReservationUpdate).toHaveBeenCalledWith(
+      expect.objectContaining({
+        reservation: expect.objectContaining({ deliveryMethod: 'shipping' }),
+        cancelUrl: expect.stringContaining(
+          '/reservierung-stornieren?id=res-123',
+        ),
+      }),
+    );
+  });
+
+  it('accepts the signed token from the confirmation email', async () => {
+    mockGetPortalUserId.mockReturnValue(null);
+
+    const response = await callUpdate({
+      token: createToken('reservation', 'res-123'),
+      deliveryMethod: 'shipping',
+      address,
+    });
+
+    expect(response.status).toBe(200);
+  });
+
+  it('requires a complete address when switching to shipping', async () => {
+    const response = await callUpdate({
+      deliveryMethod: 'shipping',
+      address: { street: 'Test Street' },
+    });
+    const result = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(result.errors).toContainEqual(
+      expect.objectContaining({ field: 'address' }),
+    );
+    expect(mockDb.updateReservationDelivery).not.toHaveBeenCalled();
+  });
+
+  it('books a pickup slot when switching from shipping to pickup', async () => {
+    mockDb.getReservationDetails.mockResolvedValue({
+      ...details,
+      reservation: shippingReservation,
+    });
+
+    const response = await callUpdate({
+      deliveryMethod: 'pickup',
+      pickupSlotId: 'b1b2c3d4-0000-4000-8000-000000000001',
+    });
+
+    expect(response.status).toBe(200);
+    expect(mockDb.updateReservationDelivery).toHaveBeenCalledWith(
+      'res-123',
+      expect.objectContaining({
+        deliveryMethod: 'pickup',
+        pickupSlotId: 'b1b2c3d4-0000-4000-8000-000000000001',
+      }),
+      'user-123',
+    );
+  });
+
+  it('requires a pickup slot when switching from shipping to pickup', async () => {
+    mockDb.getReservationDetails.mockResolvedValue({
+      ...details,
+      reservation: shippingReservation,
+    });
+
+    const response = await callUpdate({
+      deliveryMethod: 'pickup',
+      pickupLocation: 'BRK Haus für Kinder - Leuchtturm',
+    });
+    const result = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(result.errors).toContainEqual(
+      expect.objectContaining({ field: 'pickupSlotId' }),
+    );
+    expect(mockDb.updateReservationDelivery).not.toHaveBeenCalled();
+  });
+
+  it('requires a pickup slot when a pickup without one changes its location', async () => {
+    const response = await callUpdate({ pickupLocation: 'Turnhalle' });
+
+    expect(response.status).toBe(400);
+    expect(mockDb.updateReservationDelivery).not.toHaveBeenCalled();
+  });
+
+  it('keeps the stored pickup date when only the notes change', async () => {
+    const response = await callUpdate({ notes: 'Bitte in Gruppe Delfine' });
+
+    expect(response.status).toBe(200);
+    expect(mockDb.updateReservationDelivery).toHaveBeenCalledWith(
+      'res-123',
+      expect.objectContaining({
+        deliveryMethod: 'pickup',
+        pickupDate: '2024-01-15',
+        notes: 'Bitte in Gruppe Delfine',
+      }),
+      'user-123',
+    );
+  });
+
+  it('rejects requests without session or valid token', async () => {
+    mockGetPortalUserId.mockReturnValue(null);
+
+    const response = await callUpdate({ token: 'invalid' });
+
+    expect(response.status).toBe(401);
+    expect(mockDb.getReservationDetails).not.toHaveBeenCalled();
+  });
+
+  it('hides reservations of other families from a session', async () => {
+    mockGetPortalUserId.mockReturnValue('someone-else');
+
+    const response = await callUpdate({ deliveryMethod: 'shipping', address });
+
+    expect(response.status).toBe(404);
+  });
+
+  it('returns 409 when the reservation is no longer pending', async () => {
+    mockDb.updateReservationDelivery.mockRejectedValue(
+      new MockNotEditableError('confirmed'),
+    );
+
+    const response = await callUpdate({ deliveryMethod: 'shipping', address });
+
+    expect(response.status).toBe(409);
+    expect(sendReservationUpdate).not.toHaveBeenCalled();
+  });
+
+  it('returns 409 when the chosen pickup slot is full', async () => {
+    mockDb.updateReservationDelivery.mockRejectedValue(
+      new MockSlotUnavailableError('full'),
+    );
+
+    const response = await callUpdate({
+      pickupSlotId: 'b1b2c3d4-0000-4000-8000-000000000001',
+    });
+
+    expect(response.status).toBe(409);
+    expect(sendReservationUpdate).not.toHaveBeenCalled();
+  });
+
+  it('still succeeds when the email cannot be sent', async () => {
+    sendReservationUpdate.mockRejectedValue(new Error('SMTP down'));
+
+    const response = await callUpdate({ deliveryMethod: 'shipping', address });
+
+    expect(response.status).toBe(200);
+  });
+});
@@ -0,0 +1,193 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { POST } from '@/pages/api/waitlist';
+
+const { mockDb, MockAlreadyOnWaitlistError } = vi.hoisted(() => ({
+  mockDb: {
+    getMagazineById: vi.fn(),
+    getUserByEmail: vi.fn(),
+    getUserReservations: vi.fn(),
+    getFamilyReservationLimit: vi.fn(),
+    joinWaitlist: vi.fn(),
+  },
+  MockAlreadyOnWaitlistError: class extends Error {},
+}));
+
+vi.mock('@/lib/database', () => ({
+  DatabaseService: class {
+    getMagazineById = mockDb.getMagazineById;
+    getUserByEmail = mockDb.getUserByEmail;
+    getUserReservations = mockDb.getUserReservations;
+    getFamilyReservationLimit = mockDb.getFamilyReservationLimit;
+    joinWaitlist = mockDb.joinWaitlist;
+  },
+  AlreadyOnWaitlistError: MockAlreadyOnWaitlistError,
+}));
+
+const MAGAZINE_ID = '6a1b2c3d-0000-4000-8000-000000000001';
+
+const signup = {
+  magazineId: MAGAZINE_ID,
+  email: 'John@Example.com',
+  firstName: 'John',
+  lastName: 'Doe',
+  quantity: 1,
+  consents: {
+    essential: true,
+    functional: false,
+    analytics: false,
+    marketing: false,
+  },
+};
+
+const soldOut = {
+  id: MAGAZINE_ID,
+  title: 'Flaschenpost',
+  totalCopies: 100,
+  availableCopies: 0,
+  isActive: true,
+};
+
+// Each call comes from its own address unless a test picks one, so the
+// rate limit only gets in the way where it is tested
+let lastAddress = 0;
+const callJoin = (body: unknown, ip = `192.0.2.${++lastAddress}`) =>
+  POST({
+    request: new Request('http://localhost/api/waitlist', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-forwarded-for': ip,
+      },
+      body: JSON.stringify(body),
+    }),
+  } as any);
+
+describe('POST /api/waitlist', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockDb.getMagazineById.mockResolvedValue(soldOut);
+    mockDb.getUserByEmail.mockResolvedValue(null);
+    mockDb.getUserReservations.mockResolvedValue([]);
+    mockDb.getFamilyReservationLimit.mockResolvedValue(null);
+    mockDb.joinWaitlist.mockResolvedValue({
+      id: 'entry-123',
+      status: 'waiting',
+    });
+  });
+
+  it('puts the family on the waitlist of a sold-out issue', async () => {
+    const response = await callJoin(signup);
+    const result = await response.json();
+
+    expect(response.status).toBe(201);
+    expect(result.data).toEqual({ id: 'entry-123', status: 'waiting' });
+    expect(mockDb.joinWaitlist).toHaveBeenCalledWith(
+      {
+        magazineId: MAGAZINE_ID,
+        email: 'john@example.com',
+        firstName: 'John',
+        lastName: 'Doe',
+        quantity: 1,
+      },
+      { consents: signup.consents, ipAddress: expect.any(String) },
+    );
+  });
+
+  it('records the consents with the client address', async () => {
+    await callJoin(signup, '203.0.113.7');
+
+    expect(mockDb.joinWaitlist).toHaveBeenCalledWith(expect.anything(), {
+      consents: signup.consents,
+      ipAddress: '203.0.113.7',
+    });
+  });
+
+  it('slows down one address signing up again and again', async () => {
+    for (let attempt = 0; attempt < 5; attempt++) {
+      const response = await callJoin(signup, '203.0.113.99');
+      expect(response.status).toBe(201);
+    }
+
+    const response = await callJoin(signup, '203.0.113.99');
+
+    expect(response.status).toBe(429);
+    expect(response.headers.get('Retry-After')).toBe('900');
+    expect(mockDb.joinWaitlist).toHaveBeenCalledTimes(5);
+  });
+
+  it('requires the consent to store the contact details', async () => {
+    const response = await callJoin({
+      ...signup,
+      consents: { ...signup.consents, essential: false },
+    });
+    const result = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(result.errors[0].field).toBe('consents.essential');
+    expect(mockDb.joinWaitlist).not.toHaveBeenCalled();
+  });
+
+  it('sends families back to the form while copies are available', async () => {
+    mockDb.getMagazineById.mockResolvedValue({
+      ...soldOut,
+      availableCopies: 3,
+    });
+
+    const response = await callJoin(signup);
+    const result = await response.json();
+
+    expect(response.status).toBe(409);
+    expect(result.data.availableCopies).toBe(3);
+    expect(mockDb.joinWaitlist).not.toHaveBeenCalled();
+  });
+
+  it('refuses families that already reserved their copies', async () => {
+    mockDb.getUserByEmail.mockResolvedValue({ id: 'user-123' });
+    mockDb.getUserReservations.mockResolvedValue([
+      { magazineId: MAGAZINE_ID, quantity: 1, status: 'confirmed' },
+    ]);
+
+    const response = await callJoin(signup);
+    const result = await response.json();
+
+    expect(response.status).toBe(409);
+    expect(result.error).toBe('Reservation limit reached');
+    expect(result.errors[0].field).toBe('quantity');
+    expect(mockDb.joinWaitlist).not.toHaveBeenCalled();
+  });
+
+  it('lets families with an exception wait for more copies', async () => {
+    mockDb.getUserByEmail.mockResolvedValue({ id: 'user-123' });
+    mockDb.getUserReservations.mockResolvedValue([
+      { magazineId: MAGAZINE_ID, quantity: 1, status: 'confirmed' },
+    ]);
+    mockDb.getFamilyReservationLimit.mockResolvedValue(2);
+
+    const response = await callJoin(signup);
+
+    expect(response.status).toBe(201);
+    expect(mockDb.getFamilyReservationLimit).toHaveBeenCalledWith(
+      MAGAZINE_ID,
+      'john@example.com',
+    );
+  });
+
+  it('refuses issues that are not open for reservations', async () => {
+    mockDb.getMagazineById.mockResolvedValue({ ...soldOut, isActive: false });
+
+    const response = await callJoin(signup);
+
+    expect(response.status).toBe(409);
+    expect(mockDb.joinWaitlist).not.toHaveBeenCalled();
+  });
+
+  it('reports a family that is already waiting', async () => {
+    mockDb.joinWaitlist.mockRejectedValue(new MockAlreadyOnWaitlistError());
+
+    const response = await callJoin(signup);
+    const result = await response.json();
+
+    expect(response.status).toBe(409);
+    expect(result.error).toBe('Already on waitlist');
+  });
+});
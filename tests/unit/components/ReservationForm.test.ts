@@ -32,6 +32,31 @@ const mockMagazines = [
   },
 ];
 
+const mockPickupSlots = [
+  {
+    id: 'b1b2c3d4-0000-4000-8000-000000000001',
+    location: 'BRK Haus für Kinder - Leuchtturm',
+    startsAt: '2099-03-12T13:00:00Z',
+    endsAt: '2099-03-12T15:00:00Z',
+    capacity: 20,
+    bookedFamilies: 5,
+    isActive: true,
+    createdAt: '2024-01-01T00:00:00Z',
+    updatedAt: '2024-01-01T00:00:00Z',
+  },
+  {
+    id: 'b1b2c3d4-0000-4000-8000-000000000002',
+    location: 'BRK Haus für Kinder - Leuchtturm',
+    startsAt: '2099-03-13T13:00:00Z',
+    endsAt: '2099-03-13T15:00:00Z',
+    capacity: 10,
+    bookedFamilies: 10,
+    isActive: true,
+    createdAt: '2024-01-01T00:00:00Z',
+    updatedAt: '2024-01-01T00:00:00Z',
+  },
+];
+
 const validFormDataPickup = {
   firstName: 'John',
   lastName: 'Doe',
@@ -39,7 +64,7 @@ const validFormDataPickup = {
   magazineId: '123e4567-e89b-12d3-a456-426614174000',
   quantity: 1,
   deliveryMethod: 'pickup',
-  pickupLocation: '', // Pickup location is hardcoded in component
+  pickupSlotId: 'b1b2c3d4-0000-4000-8000-000000000001',
   consents: { essential: true },
 };
 
@@ -87,7 +112,7 @@ describe('ReservationForm.vue', () => {
   describe('Component Rendering', () => {
     it('renders the form with all required fields', () => {
       const wrapper = mount(ReservationForm, {
-        props: { magazines: mockMagazines },
+        props: { magazines: mockMagazines, pickupSlots: mockPickupSlots },
       });
 
       // Check main form elements
@@ -109,7 +134,7 @@ describe('ReservationForm.vue', () => {
 
     it('renders magazine options correctly', () => {
       const wrapper = mount(ReservationForm, {
-        props: { magazines: mockMagazines },
+        props: { magazines: mockMagazines, pickupSlots: mockPickupSlots },
       });
 
       const magazineSelect = wrapper.find('select[id="magazineId"]');
@@ -122,22 +147,26 @@ describe('ReservationForm.vue', () => {
       expect(options[2].text()).toContain('Flaschenpost - 2024-02');
     });
 
-    it('shows pickup location when delivery method is pickup', async () => {
+    it('shows the pickup slots when delivery method is pickup', async () => {
       const wrapper = mount(ReservationForm, {
-        props: { magazines: mockMagazines },
+        props: { magazines: mockMagazines, pickupSlots: mockPickupSlots },
       });
 
       const deliverySelect = wrapper.find('select[id="deliveryMethod"]');
       await deliverySelect.setValue('pickup');
       await nextTick();
 
-      expect(wrapper.find('input[id="pickupLocation"]').exists()).toBe(true);
+      const slots = wrapper.findAll('input[name="pickupSlotId"]');
+      expect(slots).toHaveLength(2);
+      expect(slots[1].attributes('disabled')).toBeDefined();
+      expect(wrapper.text()).toContain('noch 15 Plätze frei');
+      expect(wrapper.text()).toContain('ausgebucht');
       expect(wrapper.find('fieldset').text()).not.toContain('Lieferadresse');
     });
 
     it('shows address fields when delivery method is shipping', async () => {
       const wrapper = mount(ReservationForm, {
-        props: { magazines: mockMagazines },
+        props: { magazines: mockMagazines, pickupSlots: mockPickupSlots },
       });
 
       const deliverySelect = wrapper.find('select[id="deliveryMethod"]');
@@ -156,7 +185,7 @@ describe('ReservationForm.vue', () => {
   describe('Form Validation', () => {
     it('validates required fields', async () => {
       const wrapper = mount(ReservationForm, {
-        props: { magazines: mockMagazines },
+        props: { magazines: mockMagazines, pickupSlots: mockPickupSlots },
       });
 
       // Try to submit empty form by triggering form submit event
@@ -176,7 +205,7 @@ describe('ReservationForm.vue', () => {
 
     it('validates email format', async () => {
       const wrapper = mount(ReservationForm, {
-        props: { magazines: mockMagazines },
+        props: { magazines: mockMagazines, pickupSlots: mockPickupSlots },
       });
 
       const emailInput = wrapper.find('input[id="email"]');
@@ -198,7 +227,7 @@ describe('ReservationForm.vue', () => {
 
     it('validates required consent', async () => {
       const wrapper = mount(ReservationForm, {
-        props: { magazines: mockMagazines },
+        props: { magazines: mockMagazines, pickupSlots: mockPickupSlots },
       });
 
       // Fill form with valid data except consent
@@ -220,25 +249,27 @@ describe('ReservationForm.vue', () => {
       expect(hasValidationErrors).toBe(true);
     });
 
-    it('validates pickup location when delivery method is pickup', async () => {
+    it('requires a pickup slot when delivery method is pickup', async () => {
       const wrapper = mount(ReservationForm, {
-        props: { magazines: mockMagazines },
+        props: { magazines: mockMagazines, pickupSlots: mockPickupSlots },
       });
 
-      await fillValidForm(wrapper, validFormDataPickup);
+      await fillValidForm(wrapper, {
+        ...validFormDataPickup,
+        pickupSlotId: '',
+      });
+      await wrapper.find('#consent-essential').setValue(true);
 
-      // Pickup location is pre-filled and readonly, so it should be valid
-      const pickupInput = wrapper.find('input[id="pickupLocation"]');
-      expect(pickupInput.exists()).toBe(true);
-      expect((pickupInput.element as HTMLInputElement).disabled).toBe(true);
-      expect((pickupInput.element as HTMLInputElement).value).toContain(
-        'Leuchtturm',
-      );
+      await wrapper.find('form').trigger('submit.prevent');
+      await nextTick();
+
+      expect(wrapper.text()).toContain('Bitte wählen Sie einen Abholtermin');
+      expect(fetch).not.toHaveBeenCalled();
     });
 
     it('validates address fields when delivery method is shipping', async () => {
       const wrapper = mount(ReservationForm, {
-        props: { magazines: mockMagazines },
+        props: { magazines: mockMagazines, pickupSlots: mockPickupSlots },
       });
 
       const deliverySelect = wrapper.find('select[id="deliveryMethod"]');
@@ -270,7 +301,7 @@ describe('ReservationForm.vue', () => {
   describe('Form Submission', () => {
     it('submits form with pickup data successfully', async () => {
       const wrapper = mount(ReservationForm, {
-        props: { magazines: mockMagazines },
+        props: { magazines: mockMagazines, pickupSlots: mockPickupSlots },
       });
 
       // Fill form manually for pickup
@@ -284,7 +315,7 @@ describe('ReservationForm.vue', () => {
       await wrapper.find('#deliveryMethod').setValue('pickup');
       await nextTick();
 
-      // Pickup location is hardcoded and readonly, no date field needed
+      await wrapper.find('input[name="pickupSlotId"]').setValue(true);
       await wrapper.find('#consent-essential').setValue(true);
       await nextTick();
 
@@ -306,11 +337,12 @@ describe('ReservationForm.vue', () => {
 
       const requestBody = JSON.parse((fetch as any).mock.calls[0][1].body);
       expect(requestBody.deliveryMethod).toBe('pickup');
+      expect(requestBody.pickupSlotId).toBe(mockPickupSlots[0].id);
     });
 
     it('submits form with shipping data successfully', async () => {
       const wrapper = mount(ReservationForm, {
-        props: { magazines: mockMagazines },
+        props: { magazines: mockMagazines, pickupSlots: mockPickupSlots },
       });
 
       // Fill form manually for shipping
@@ -372,7 +404,7 @@ describe('ReservationForm.vue', () => {
       });
 
       const wrapper = mount(ReservationForm, {
-        props: { magazines: mockMagazines },
+        props: { magazines: mockMagazines, pickupSlots: mockPickupSlots },
       });
 
       // Fill form with valid data
@@ -385,7 +417,7 @@ describe('ReservationForm.vue', () => {
       await wrapper.find('#deliveryMethod').setValue('pickup');
       await nextTick();
 
-      // Pickup location is hardcoded and readonly, no date field needed
+      await wrapper.find('input[name="pickupSlotId"]').setValue(true);
       await wrapper.find('#consent-essential').setValue(true);
       await nextTick();
 
@@ -412,7 +444,7 @@ describe('ReservationForm.vue', () => {
       (global.fetch as any).mockReturnValue(fetchPromise);
 
       const wrapper = mount(ReservationForm, {
-        props: { magazines: mockMagazines },
+        props: { magazines: mockMagazines, pickupSlots: mockPickupSlots },
       });
 
       // Fill form with valid data
@@ -425,7 +457,7 @@ describe('ReservationForm.vue', () => {
       await wrapper.find('#deliveryMethod').setValue('pickup');
       await nextTick();
 
-      // Pickup location is hardcoded and readonly, no date field needed
+      await wrapper.find('input[name="pickupSlotId"]').setValue(true);
       await wrapper.find('#consent-essential').setValue(true);
       await nextTick();
 
@@ -456,10 +488,141 @@ describe('ReservationForm.vue', () => {
     });
   });
 
+  describe('Picture Orders', () => {
+    it('submits one entry per child and loads the groups once', async () => {
+      (global.fetch as any).mockImplementation((url: string) =>
+        Promise.resolve({
+          ok: true,
+          json: () =>
+            Promise.resolve(
+              url === '/api/groups'
+                ? {
+                    success: true,
+                    data: [
+                      { id: 'group-1', name: 'Seesterne' },
+                      { id: 'group-2', name: 'Sonnengruppe' },
+                    ],
+                  }
+                : mockApiResponse,
+            ),
+        }),
+      );
+      const wrapper = mount(ReservationForm, {
+        props: { magazines: mockMagazines, pickupSlots: mockPickupSlots },
+      });
+      const addChild = () =>
+        wrapper
+          .findAll('button[type="button"]')
+          .find((button) => button.text().includes('Kind'))!
+          .trigger('click');
+
+      await addChild();
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      await addChild();
+      await nextTick();
+
+      await wrapper.find('#child-name-0').setValue('Mia Müller');
+      await wrapper.find('#child-group-0').setValue('Sonnengruppe');
+      await wrapper.find('#child-is-vorschueler-0').setValue(true);
+      await wrapper.find('#order-vorschul-picture-0').setValue(true);
+      await wrapper.find('#child-name-1').setValue('Ben Müller');
+      await wrapper.find('#child-group-1').setValue('Seesterne');
+
+      await wrapper.find('#firstName').setValue('John');
+      await wrapper.find('#lastName').setValue('Doe');
+      await wrapper.find('#email').setValue('john@example.com');
+      await wrapper
+        .find('#magazineId')
+        .setValue('123e4567-e89b-12d3-a456-426614174000');
+      await wrapper.find('input[name="pickupSlotId"]').setValue(true);
+      await wrapper.find('#consent-essential').setValue(true);
+      await wrapper.find('form').trigger('submit.prevent');
+      await new Promise((resolve) => setTimeout(resolve, 10));
+
+      const calls = (fetch as any).mock.calls;
+      expect(
+        calls.filter(([url]: [string]) => url === '/api/groups'),
+      ).toHaveLength(1);
+      const [, request] = calls.find(
+        ([url]: [string]) => url === '/api/reservations',
+      );
+      expect(JSON.parse(request.body).children).toEqual([
+        {
+          name: 'Mia Müller',
+          groupName: 'Sonnengruppe',
+          isVorschueler: true,
+          orderGroupPicture: true,
+          orderVorschulPicture: true,
+        },
+        {
+          name: 'Ben Müller',
+          groupName: 'Seesterne',
+          isVorschueler: false,
+          orderGroupPicture: true,
+          orderVorschulPicture: false,
+        },
+      ]);
+    });
+
+    it('disables the pictures a child has claimed already', async () => {
+      (global.fetch as any).mockImplementation((url: string) =>
+        Promise.resolve({
+          ok: true,
+          json: () =>
+            Promise.resolve(
+              url.startsWith('/api/picture-claims')
+                ? {
+                    success: true,
+                    data: [
+                      {
+                        groupName: 'Seesterne',
+                        pictureType: 'group',
+                        childName: 'Emma Müller',
+                      },
+                    ],
+                  }
+                : { success: true, data: [{ id: 'g', name: 'Seesterne' }] },
+            ),
+        }),
+      );
+      const wrapper = mount(ReservationForm, {
+        props: { magazines: mockMagazines, pickupSlots: mockPickupSlots },
+      });
+      const addChild = () =>
+        wrapper
+          .findAll('button[type="button"]')
+          .find((button) => button.text().includes('Kind'))!
+          .trigger('click');
+
+      // Twins in the same group: only Emma's group picture is taken
+      await addChild();
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      await addChild();
+      await wrapper.find('#child-name-0').setValue('emma müller');
+      await wrapper.find('#child-group-0').setValue('Seesterne');
+      await wrapper.find('#child-name-1').setValue('Lena Müller');
+      await wrapper.find('#child-group-1').setValue('Seesterne');
+      await wrapper.find('#email').setValue('John@Example.com');
+      await new Promise((resolve) => setTimeout(resolve, 10));
+
+      const emmaPicture = wrapper.find('#order-group-picture-0');
+      const lenaPicture = wrapper.find('#order-group-picture-1');
+      expect(
+        (fetch as any).mock.calls.some(
+          ([url]: [string]) =>
+            url === '/api/picture-claims?email=john%40example.com',
+        ),
+      ).toBe(true);
+      expect(emmaPicture.attributes('disabled')).toBeDefined();
+      expect((emmaPicture.element as HTMLInputElement).checked).toBe(false);
+      expect(lenaPicture.attributes('disabled')).toBeUndefined();
+    });
+  });
+
   describe('Delivery Method Switching', () => {
     it('clears pickup location when switching to shipping', async () => {
       const wrapper = mount(ReservationForm, {
-        props: { magazines: mockMagazines },
+        props: { magazines: mockMagazines, pickupSlots: mockPickupSlots },
       });
 
       // Start with pickup method (default)
@@ -476,7 +639,7 @@ describe('ReservationForm.vue', () => {
 
     it('clears address when switching to pickup', async () => {
       const wrapper = mount(ReservationForm, {
-        props: { magazines: mockMagazines },
+        props: { magazines: mockMagazines, pickupSlots: mockPickupSlots },
       });
 
       // Switch to shipping and fill address
@@ -503,12 +666,14 @@ describe('ReservationForm.vue', () => {
   describe('Form Reset', () => {
     it('resets form to initial state', async () => {
       const wrapper = mount(ReservationForm, {
-        props: { magazines: mockMagazines },
+        props: { magazines: mockMagazines, pickupSlots: mockPickupSlots },
       });
 
       await fillValidForm(wrapper, validFormDataPickup);
 
-      const resetButton = wrapper.find('button[type="button"]');
+      const resetButton = wrapper
+        .findAll('button[type="button"]')
+        .find((button) => button.text().includes('Zurücksetzen'))!;
       await resetButton.trigger('click');
       await nextTick();
 
@@ -528,7 +693,7 @@ describe('ReservationForm.vue', () => {
   describe('Magazine Selection', () => {
     it('quantity is fixed to 1 exemplar per family', async () => {
       const wrapper = mount(ReservationForm, {
-        props: { magazines: mockMagazines },
+        props: { magazines: mockMagazines, pickupSlots: mockPickupSlots },
       });
 
       // Select first magazine (95 available)
@@ -547,7 +712,7 @@ describe('ReservationForm.vue', () => {
 
     it('shows magazine details when selected', async () => {
       const wrapper = mount(ReservationForm, {
-        props: { magazines: mockMagazines },
+        props: { magazines: mockMagazines, pickupSlots: mockPickupSlots },
       });
 
       const magazineSelect = wrapper.find('select[id="magazineId"]');
@@ -565,7 +730,7 @@ describe('ReservationForm.vue', () => {
   describe('Accessibility', () => {
     it('has proper form labels and ARIA attributes', () => {
       const wrapper = mount(ReservationForm, {
-        props: { magazines: mockMagazines },
+        props: { magazines: mockMagazines, pickupSlots: mockPickupSlots },
       });
 
       // Check that form fields have labels
@@ -580,7 +745,7 @@ describe('ReservationForm.vue', () => {
 
     it('has proper fieldset and legend elements', () => {
       const wrapper = mount(ReservationForm, {
-        props: { magazines: mockMagazines },
+        props: { magazines: mockMagazines, pickupSlots: mockPickupSlots },
       });
 
       const fieldsets = wrapper.findAll('fieldset');
@@ -616,7 +781,10 @@ async function fillValidForm(wrapper: any, formData: any) {
   // Handle delivery-specific fields
   if (formData.deliveryMethod === 'pickup') {
     await nextTick(); // Wait for pickup fields to appear
-    // Pickup location is readonly/disabled, no need to set it
+    const slot = wrapper.find(`input[value="${formData.pickupSlotId}"]`);
+    if (formData.pickupSlotId && slot.exists()) {
+      await slot.setValue(true);
+    }
   }
 
   if (formData.deliveryMethod === 'shipping' && formData.address) {
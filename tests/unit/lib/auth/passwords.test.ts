@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getDummyPasswordHash,
+  hashPassword,
+  verifyPassword,
+} from '@/lib/auth/passwords';
+
+describe('Password Hashing', () => {
+  it('verifies the password a hash was created from', async () => {
+    const hash = await hashPassword('correct horse battery');
+
+    expect(hash).toMatch(/^scrypt\$[\w-]+\$[\w-]+$/);
+    await expect(verifyPassword('correct horse battery', hash)).resolves.toBe(
+      true,
+    );
+  });
+
+  it('rejects a wrong password', async () => {
+    const hash = await hashPassword('correct horse battery');
+
+    await expect(verifyPassword('correct horse battery!', hash)).resolves.toBe(
+      false,
+    );
+  });
+
+  it('salts every hash', async () => {
+    const [first, second] = await Promise.all([
+      hashPassword('correct horse battery'),
+      hashPassword('correct horse battery'),
+    ]);
+
+    expect(first).not.toBe(second);
+  });
+
+  it('never matches malformed hashes', async () => {
+    await expect(verifyPassword('secret', '')).resolves.toBe(false);
+    await expect(verifyPassword('secret', 'plain-text')).resolves.toBe(false);
+    await expect(verifyPassword('secret', 'scrypt$c2FsdA$a2V5')).resolves.toBe(
+      false,
+    );
+  });
+
+  it('reuses one dummy hash for unknown accounts', async () => {
+    expect(await getDummyPasswordHash()).toBe(await getDummyPasswordHash());
+  });
+});
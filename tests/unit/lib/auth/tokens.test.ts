@@ -0,0 +1,70 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createToken, verifyToken, TOKEN_TTL } from '@/lib/auth/tokens';
+
+describe('Signed Tokens', () => {
+  beforeEach(() => {
+    vi.stubEnv('JWT_SECRET', 'test-jwt-secret-with-at-least-32-characters');
+    vi.stubEnv('SESSION_SECRET', 'test-session-secret-with-32-characters');
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('round-trips the user ID for the same purpose', () => {
+    const token = createToken('login', 'user-123');
+
+    expect(verifyToken(token, 'login')).toMatchObject({
+      purpose: 'login',
+      sub: 'user-123',
+    });
+  });
+
+  it('rejects tokens issued for another purpose', () => {
+    const token = createToken('login', 'user-123');
+
+    expect(verifyToken(token, 'session')).toBeNull();
+  });
+
+  it('rejects expired tokens', () => {
+    const issuedAt = new Date('2024-01-01T10:00:00Z');
+    const token = createToken('login', 'user-123', issuedAt);
+    const later = new Date(issuedAt.getTime() + TOKEN_TTL.login * 1000 + 1);
+
+    expect(verifyToken(token, 'login', later)).toBeNull();
+  });
+
+  it('rejects tampered payloads', () => {
+    const token = createToken('session', 'user-123');
+    const [, signature] = token.split('.');
+    const forged = Buffer.from(
+      JSON.stringify({ purpose: 'session', sub: 'user-999', exp: 9999999999 }),
+    ).toString('base64url');
+
+    expect(verifyToken(`${forged}.${signature}`, 'session')).toBeNull();
+  });
+
+  it('rejects tokens signed with a different secret', () => {
+    const token = createToken('session', 'user-123');
+    vi.stubEnv('JWT_SECRET', 'another-secret-with-at-least-32-characters');
+
+    expect(verifyToken(token, 'session')).toBeNull();
+  });
+
+  it('signs admin sessions with the session secret', () => {
+    const token = createToken('admin', 'admin-123');
+    vi.stubEnv('JWT_SECRET', 'another-secret-with-at-least-32-characters');
+
+    expect(verifyToken(token, 'admin')?.sub).toBe('admin-123');
+
+    vi.stubEnv('SESSION_SECRET', 'another-secret-with-at-least-32-characters');
+
+    expect(verifyToken(token, 'admin')).toBeNull();
+  });
+
+  it('rejects missing or malformed tokens', () => {
+    expect(verifyToken(undefined, 'session')).toBeNull();
+    expect(verifyToken('', 'session')).toBeNull();
+    expect(verifyToken('not-a-token', 'session')).toBeNull();
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createToken } from '@/lib/auth/tokens';
+import {
+  createCheckInToken,
+  parseCheckInCode,
+  renderCheckInQrPng,
+} from '@/lib/check-in';
+
+const RESERVATION_ID = '1a2b3c4d-0000-4000-8000-000000000001';
+
+describe('Pickup Check-in', () => {
+  beforeEach(() => {
+    vi.stubEnv('JWT_SECRET', 'test-jwt-secret-with-at-least-32-characters');
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('reads the reservation ID from a scanned token', () => {
+    const token = createCheckInToken(RESERVATION_ID);
+
+    expect(parseCheckInCode(token)).toEqual({ id: RESERVATION_ID });
+  });
+
+  it('rejects tokens issued for another purpose', () => {
+    const token = createToken('reservation', RESERVATION_ID);
+
+    expect(parseCheckInCode(token)).toBeNull();
+  });
+
+  it('accepts a full reservation ID', () => {
+    expect(parseCheckInCode(RESERVATION_ID.toUpperCase())).toEqual({
+      id: RESERVATION_ID,
+    });
+  });
+
+  it('accepts the typed reservation number with or without prefix', () => {
+    expect(parseCheckInCode(' 1A2B3C4D ')).toEqual({ number: '1a2b3c4d' });
+    expect(parseCheckInCode('FP-1A2B3C4D')).toEqual({ number: '1a2b3c4d' });
+  });
+
+  it('rejects anything else', () => {
+    expect(parseCheckInCode('')).toBeNull();
+    expect(parseCheckInCode('1A2B3C')).toBeNull();
+    expect(parseCheckInCode('https://example.com')).toBeNull();
+  });
+
+  it('renders the token as a PNG QR code', async () => {
+    const png = await renderCheckInQrPng(RESERVATION_ID);
+
+    expect(png.subarray(1, 4).toString()).toBe('PNG');
+  });
+});
@@ -136,6 +136,19 @@ describe('Environment Configuration', () => {
       );
     });
 
+    it('requires SITE_URL in production', async () => {
+      global.process = {
+        env: { ...mockProcessEnv, NODE_ENV: 'production', SITE_URL: undefined },
+      } as any;
+
+      delete (global as any).window;
+      vi.stubGlobal('import', { meta: undefined });
+
+      await expect(() => import('@/lib/config/environment')).rejects.toThrow(
+        'Invalid server environment configuration',
+      );
+    });
+
     it('logs error but continues on invalid server environment in development', async () => {
       const invalidEnv = {
         ...mockProcessEnv,
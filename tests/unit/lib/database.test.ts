@@ -1,5 +1,24 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { DatabaseService } from '@/lib/database';
+import {
+  AdminUserExistsError,
+  AlreadyOnWaitlistError,
+  DatabaseService,
+  FamilyLimitExceededError,
+  InsufficientCopiesError,
+  KindergartenGroupExistsError,
+  MagazineCopiesReservedError,
+  MagazineNotFoundError,
+  PickupSlotUnavailableError,
+  PictureAlreadyClaimedError,
+  PictureChildNotListedError,
+  ReservationNotFoundError,
+  ReservationNotEditableError,
+  ReservationNotDispatchableError,
+  ReservationNotPickupError,
+  WaitlistOfferExpiredError,
+} from '@/lib/database';
+import { InvalidStatusTransitionError } from '@/lib/reservation-status';
+import { calculateTotalCost } from '@/config/payment';
 // Using inline test data instead of mock fixtures
 // const mockUser = {
 //   id: 'user-123',
@@ -74,6 +93,7 @@ const createMockChain = (): any => {
   const chain: any = {
     select: vi.fn(() => chain),
     insert: vi.fn(() => chain),
+    upsert: vi.fn(() => chain),
     update: vi.fn(() => chain),
     delete: vi.fn(() => chain),
     eq: vi.fn(() => chain),
@@ -86,6 +106,7 @@ const createMockChain = (): any => {
     ilike: vi.fn(() => chain),
     is: vi.fn(() => chain),
     in: vi.fn(() => chain),
+    or: vi.fn(() => chain),
     order: vi.fn(() => chain),
     limit: vi.fn(() => chain),
     range: vi.fn(() => chain),
@@ -99,8 +120,23 @@ const createMockChain = (): any => {
   return chain;
 };
 
+// Chain whose awaited result is the given rows (for queries without .single())
+const resultChain = (rows: any[]) => {
+  const chain = createMockChain();
+  const result = Promise.resolve({ data: rows, error: null });
+  chain.then = result.then.bind(result);
+  return chain;
+};
+
+const apiKeyActor = { changedBy: 'admin:api-key' };
+const distributor = {
+  changedBy: 'admin:admin-123',
+  processorId: 'admin-123',
+};
+
 const mockSupabaseClient = {
   from: vi.fn(() => createMockChain()),
+  rpc: vi.fn(() => Promise.resolve({ data: 9, error: null })),
 };
 
 vi.mock('@/lib/supabase', () => ({
@@ -259,6 +295,29 @@ describe('DatabaseService', () => {
     });
   });
 
+  describe('User Lookup', () => {
+    it('gets a user by ID', async () => {
+      mockFromChain.single.mockResolvedValue({
+        data: { id: 'user-123', email: 'test@example.com', first_name: 'Max' },
+        error: null,
+      });
+
+      const user = await db.getUserById('user-123');
+
+      expect(mockFromChain.eq).toHaveBeenCalledWith('id', 'user-123');
+      expect(user?.firstName).toBe('Max');
+    });
+
+    it('returns null for an unknown user ID', async () => {
+      mockFromChain.single.mockResolvedValue({
+        data: null,
+        error: { code: 'PGRST116' },
+      });
+
+      expect(await db.getUserById('missing')).toBeNull();
+    });
+  });
+
   describe('Magazine Operations', () => {
     it('gets active magazines', async () => {
       mockFromChain.order.mockResolvedValue({
@@ -278,11 +337,19 @@ describe('DatabaseService', () => {
         error: null,
       });
 
-      const magazines = await db.getActiveMagazines();
+      const now = new Date('2024-01-10T12:00:00Z');
+      const magazines = await db.getActiveMagazines(now);
 
       expect(mockSupabaseClient.from).toHaveBeenCalledWith('magazines');
-      // No is_active check in actual implementation
-      expect(mockFromChain.gt).toHaveBeenCalledWith('available_copies', 0);
+      expect(mockFromChain.eq).toHaveBeenCalledWith('is_active', true);
+      // Sold-out issues stay listed so families can join the waitlist
+      expect(mockFromChain.gt).not.toHaveBeenCalled();
+      expect(mockFromChain.or).toHaveBeenCalledWith(
+        'reservations_open_at.is.null,reservations_open_at.lte.2024-01-10T12:00:00.000Z',
+      );
+      expect(mockFromChain.or).toHaveBeenCalledWith(
+        'reservations_close_at.is.null,reservations_close_at.gt.2024-01-10T12:00:00.000Z',
+      );
       expect(mockFromChain.order).toHaveBeenCalledWith('publish_date', {
         ascending: false,
       });
@@ -305,7 +372,6 @@ describe('DatabaseService', () => {
       const magazine = await db.getMagazineById(magazineId);
 
       expect(mockFromChain.eq).toHaveBeenCalledWith('id', magazineId);
-      // No is_active check in actual implementation
       expect(magazine).toBeDefined();
       expect(magazine?.id).toBe(magazineId);
     });
@@ -319,6 +385,91 @@ describe('DatabaseService', () => {
       const magazine = await db.getMagazineById('nonexistent');
       expect(magazine).toBeNull();
     });
+
+    it('maps the catalogue columns of an issue', async () => {
+      mockFromChain.single.mockResolvedValue({
+        data: {
+          id: 'mag-123',
+          title: 'Test Magazine',
+          is_active: false,
+          reservations_close_at: '2024-02-01T00:00:00+00:00',
+          contents: ['Gruppenfotos'],
+          page_count: 44,
+          format: 'DIN A5',
+          paper_weight: null,
+        },
+        error: null,
+      });
+
+      const magazine = await db.getMagazineById('mag-123');
+
+      expect(magazine).toMatchObject({
+        isActive: false,
+        reservationsOpenAt: undefined,
+        reservationsCloseAt: '2024-02-01T00:00:00+00:00',
+        contents: ['Gruppenfotos'],
+        pageCount: 44,
+        format: 'DIN A5',
+        paperWeight: undefined,
+      });
+    });
+
+    it('creates an issue with its whole print run available', async () => {
+      mockFromChain.single.mockResolvedValue({
+        data: { id: 'mag-123', title: 'Flaschenpost' },
+        error: null,
+      });
+
+      await db.createMagazine({
+        title: 'Flaschenpost',
+        issueNumber: '2025 / 2026',
+        publishDate: '2026-07-01',
+        totalCopies: 120,
+        reservationsCloseAt: null,
+      });
+
+      expect(mockFromChain.insert).toHaveBeenCalledWith({
+        title: 'Flaschenpost',
+        issue_number: '2025 / 2026',
+        publish_date: '2026-07-01',
+        reservations_close_at: null,
+        total_copies: 120,
+        available_copies: 120,
+      });
+    });
+
+    it('updates only the given fields of an issue', async () => {
+      mockFromChain.single.mockResolvedValue({
+        data: { id: 'mag-123', is_active: false },
+        error: null,
+      });
+
+      await db.updateMagazine('mag-123', {
+        isActive: false,
+        format: undefined,
+      });
+
+      expect(mockFromChain.update).toHaveBeenCalledWith({
+        is_active: false,
+        updated_at: expect.any(String),
+      });
+    });
+
+    it('refuses a print run below the reserved copies', async () => {
+      mockSupabaseClient.rpc.mockResolvedValueOnce({
+        data: null,
+        error: { code: 'P0001', message: 'copies_reserved', details: '30' },
+      } as any);
+
+      const promise = db.setMagazineTotalCopies('mag-123', 20);
+
+      await expect(promise).rejects.toBeInstanceOf(MagazineCopiesReservedError);
+      await expect(promise).rejects.toMatchObject({ reservedCopies: 30 });
+      expect(mockSupabaseClient.rpc).toHaveBeenCalledWith(
+        'set_magazine_total_copies',
+        { p_magazine_id: 'mag-123', p_total_copies: 20 },
+      );
+    });
   });
 
   describe('Reservation Operations', () => {
@@ -328,8 +479,12 @@ describe('DatabaseService', () => {
         data: { id: 'user-123' },
         error: null,
       });
+      mockSupabaseClient.rpc.mockResolvedValueOnce({
+        data: 'reservation-123',
+        error: null,
+      } as any);
 
-      // Mock reservation creation
+      // Mock loading the created reservation
       mockFromChain.single.mockResolvedValueOnce({
         data: {
           id: 'reservation-123',
@@ -344,34 +499,36 @@ describe('DatabaseService', () => {
         error: null,
       });
 
-      // const reservation = await db.createReservation(validFormDataPickup);
       await db.createReservation(validFormDataPickup);
 
       expect(mockSupabaseClient.from).toHaveBeenCalledWith('users');
       expect(mockSupabaseClient.from).toHaveBeenCalledWith('reservations');
+      expect(mockFromChain.eq).toHaveBeenCalledWith('id', 'reservation-123');
 
-      expect(mockFromChain.insert).toHaveBeenCalledWith(
-        expect.objectContaining({
-          user_id: 'user-123',
-          magazine_id: validFormDataPickup.magazineId,
-          quantity: validFormDataPickup.quantity,
-          delivery_method: 'pickup',
-          pickup_location: validFormDataPickup.pickupLocation,
-          // consent_reference and expires_at columns don't exist
-          payment_method: null, // null for pickup
-          street: null,
-          house_number: null,
-          address_line2: null,
-          postal_code: null,
-          city: null,
-          country: null,
-          notes: null,
-          order_group_picture: false,
-          child_group_name: null,
-          order_vorschul_picture: false,
-          child_is_vorschueler: false,
-          child_name: null,
-        }),
+      expect(mockSupabaseClient.rpc).toHaveBeenCalledWith(
+        'create_reservation',
+        {
+          p_reservation: expect.objectContaining({
+            user_id: 'user-123',
+            magazine_id: validFormDataPickup.magazineId,
+            quantity: validFormDataPickup.quantity,
+            delivery_method: 'pickup',
+            pickup_location: validFormDataPickup.pickupLocation,
+            // consent_reference column doesn't exist
+            payment_method: null, // null for pickup
+            expires_at: null, // pickup is paid on collection
+            street: null,
+            house_number: null,
+            address_line2: null,
+            postal_code: null,
+            city: null,
+            country: null,
+            notes: null,
+          }),
+          p_children: [],
+          p_waitlist_entry_id: null,
+          p_default_copies_per_family: 1,
+        },
       );
     });
 
@@ -382,7 +539,7 @@ describe('DatabaseService', () => {
         error: null,
       });
 
-      // Mock reservation creation
+      // Mock loading the created reservation
       mockFromChain.single.mockResolvedValueOnce({
         data: {
           id: 'reservation-123',
@@ -394,29 +551,63 @@ describe('DatabaseService', () => {
 
       await db.createReservation(validFormDataShipping);
 
-      expect(mockFromChain.insert).toHaveBeenCalledWith(
+      expect(mockSupabaseClient.rpc).toHaveBeenCalledWith(
+        'create_reservation',
         expect.objectContaining({
-          user_id: 'user-123',
-          magazine_id: validFormDataShipping.magazineId,
-          quantity: validFormDataShipping.quantity,
-          delivery_method: 'shipping',
-          // Address fields use direct names, not shipping_ prefix
-          street: validFormDataShipping.address?.street,
-          house_number: validFormDataShipping.address?.houseNumber,
-          postal_code: validFormDataShipping.address?.postalCode,
-          city: validFormDataShipping.address?.city,
-          country: validFormDataShipping.address?.country,
-          address_line2: validFormDataShipping.address?.addressLine2,
-          payment_method: 'paypal', // PayPal for shipping
-          pickup_location: null, // null for shipping
-          pickup_date: null,
-          notes: null,
-          order_group_picture: false,
-          child_group_name: null,
-          order_vorschul_picture: false,
-          child_is_vorschueler: false,
-          child_name: null,
+          p_reservation: expect.objectContaining({
+            user_id: 'user-123',
+            magazine_id: validFormDataShipping.magazineId,
+            quantity: validFormDataShipping.quantity,
+            delivery_method: 'shipping',
+            // Address fields use direct names, not shipping_ prefix
+            street: validFormDataShipping.address?.street,
+            house_number: validFormDataShipping.address?.houseNumber,
+            postal_code: validFormDataShipping.address?.postalCode,
+            city: validFormDataShipping.address?.city,
+            country: validFormDataShipping.address?.country,
+            address_line2: validFormDataShipping.address?.addressLine2,
+            payment_method: 'paypal', // PayPal for shipping
+            expires_at: expect.any(String), // payment deadline
+            pickup_location: null, // null for shipping
+            pickup_date: null,
+            notes: null,
+          }),
+        }),
+      );
+      expect(mockFromChain.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          reservation_id: 'reservation-123',
+          amount_due: calculateTotalCost(true, validFormDataShipping.quantity),
+          method: 'paypal',
         }),
+        { onConflict: 'reservation_id' },
+      );
+    });
+
+    it('stores bank transfer as payment method for shipping', async () => {
+      mockFromChain.single
+        .mockResolvedValueOnce({ data: { id: 'user-123' }, error: null })
+        .mockResolvedValueOnce({
+          data: { id: 'reservation-123', delivery_method: 'shipping' },
+          error: null,
+        });
+
+      await db.createReservation({
+        ...validFormDataShipping,
+        paymentMethod: 'bank_transfer',
+      });
+
+      expect(mockSupabaseClient.rpc).toHaveBeenCalledWith(
+        'create_reservation',
+        expect.objectContaining({
+          p_reservation: expect.objectContaining({
+            payment_method: 'bank_transfer',
+          }),
+        }),
+      );
+      expect(mockFromChain.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({ method: 'bank_transfer' }),
+        { onConflict: 'reservation_id' },
       );
     });
 
@@ -441,7 +632,7 @@ describe('DatabaseService', () => {
         error: null,
       });
 
-      // Mock successful reservation creation
+      // Mock loading the created reservation
       mockFromChain.single.mockResolvedValueOnce({
         data: {
           id: 'reservation-123',
@@ -460,6 +651,336 @@ describe('DatabaseService', () => {
       expect(reservation.userId).toBe('new-user-123');
     });
 
+    it('reserves the copies in the same call as the reservation', async () => {
+      mockFromChain.single.mockResolvedValueOnce({
+        data: { id: 'user-123' },
+        error: null,
+      });
+      mockFromChain.single.mockResolvedValueOnce({
+        data: { id: 'reservation-123', user_id: 'user-123' },
+        error: null,
+      });
+
+      await db.createReservation(validFormDataPickup);
+
+      expect(mockSupabaseClient.rpc).toHaveBeenCalledTimes(1);
+      expect(mockSupabaseClient.rpc).toHaveBeenCalledWith(
+        'create_reservation',
+        expect.anything(),
+      );
+      expect(mockSupabaseClient.from).not.toHaveBeenCalledWith(
+        'reservation_children',
+      );
+    });
+
+    it('rejects the reservation when copies are sold out', async () => {
+      mockFromChain.single.mockResolvedValueOnce({
+        data: { id: 'user-123' },
+        error: null,
+      });
+      mockSupabaseClient.rpc.mockResolvedValueOnce({
+        data: null,
+        error: { code: 'P0001', message: 'insufficient_copies', details: '0' },
+      } as any);
+
+      const promise = db.createReservation(validFormDataPickup);
+
+      await expect(promise).rejects.toBeInstanceOf(InsufficientCopiesError);
+      await expect(promise).rejects.toMatchObject({ availableCopies: 0 });
+      expect(mockSupabaseClient.from).not.toHaveBeenCalledWith('reservations');
+    });
+
+    it('rejects the reservation when the family reached its limit', async () => {
+      mockFromChain.single.mockResolvedValueOnce({
+        data: { id: 'user-123' },
+        error: null,
+      });
+      mockSupabaseClient.rpc.mockResolvedValueOnce({
+        data: null,
+        error: {
+          code: 'P0001',
+          message: 'family_limit_exceeded',
+          details: '2',
+          hint: '1',
+        },
+      } as any);
+
+      const promise = db.createReservation({
+        ...validFormDataPickup,
+        quantity: 2,
+      });
+
+      await expect(promise).rejects.toBeInstanceOf(FamilyLimitExceededError);
+      await expect(promise).rejects.toMatchObject({
+        copiesPerFamily: 2,
+        remainingCopies: 1,
+      });
+    });
+
+    it('rejects the reservation when the magazine is gone', async () => {
+      mockFromChain.single.mockResolvedValueOnce({
+        data: { id: 'user-123' },
+        error: null,
+      });
+      mockSupabaseClient.rpc.mockResolvedValueOnce({
+        data: null,
+        error: { code: 'P0002', message: 'magazine_not_found' },
+      } as any);
+
+      await expect(
+        db.createReservation(validFormDataPickup),
+      ).rejects.toBeInstanceOf(MagazineNotFoundError);
+      expect(mockSupabaseClient.from).not.toHaveBeenCalledWith('reservations');
+    });
+
+    it('leaves the stock to the rollback when the reservation fails', async () => {
+      mockFromChain.single.mockResolvedValueOnce({
+        data: { id: 'user-123' },
+        error: null,
+      });
+      mockSupabaseClient.rpc.mockResolvedValueOnce({
+        data: null,
+        error: { message: 'insert failed' },
+      } as any);
+
+      await expect(db.createReservation(validFormDataPickup)).rejects.toThrow(
+        'Failed to create reservation: insert failed',
+      );
+      expect(mockSupabaseClient.rpc).toHaveBeenCalledTimes(1);
+    });
+
+    it('keeps the copies when the created reservation cannot be loaded', async () => {
+      mockFromChain.single.mockResolvedValueOnce({
+        data: { id: 'user-123' },
+        error: null,
+      });
+      mockFromChain.single.mockResolvedValueOnce({
+        data: null,
+        error: { message: 'connection lost' },
+      });
+
+      await expect(db.createReservation(validFormDataPickup)).rejects.toThrow(
+        'Failed to load created reservation: connection lost',
+      );
+      expect(mockSupabaseClient.rpc).not.toHaveBeenCalledWith(
+        'release_magazine_copies',
+        expect.anything(),
+      );
+      expect(mockFromChain.delete).not.toHaveBeenCalled();
+    });
+
+    it('rejects a booking for a full pickup slot', async () => {
+      const pickupSlotId = '5a1b2c3d-0000-4000-8000-000000000001';
+      mockFromChain.single.mockResolvedValueOnce({
+        data: { id: 'user-123' },
+        error: null,
+      });
+      mockSupabaseClient.rpc.mockResolvedValueOnce({
+        data: null,
+        error: { code: 'P0001', message: 'pickup_slot_full' },
+      } as any);
+
+      const promise = db.createReservation({
+        ...validFormDataPickup,
+        pickupSlotId,
+      });
+
+      await expect(promise).rejects.toBeInstanceOf(PickupSlotUnavailableError);
+      await expect(promise).rejects.toMatchObject({ reason: 'full' });
+      expect(mockSupabaseClient.rpc).toHaveBeenCalledTimes(1);
+    });
+
+    it('stores the children with the pictures ordered for them', async () => {
+      mockFromChain.single.mockResolvedValueOnce({
+        data: { id: 'user-123' },
+        error: null,
+      });
+      mockFromChain.single.mockResolvedValueOnce({
+        data: {
+          id: 'reservation-123',
+          user_id: 'user-123',
+          reservation_children: [
+            {
+              id: 'child-1',
+              reservation_id: 'reservation-123',
+              child_name: 'Mia',
+              group_name: 'Sonnengruppe',
+              is_vorschueler: true,
+              order_group_picture: true,
+              order_vorschul_picture: true,
+            },
+            {
+              id: 'child-2',
+              reservation_id: 'reservation-123',
+              child_name: 'Ben',
+              group_name: 'Seesterne',
+              is_vorschueler: false,
+              order_group_picture: true,
+              order_vorschul_picture: false,
+            },
+          ],
+        },
+        error: null,
+      });
+
+      const reservation = await db.createReservation({
+        ...validFormDataPickup,
+        children: [
+          {
+            name: 'Mia',
+            groupName: 'Sonnengruppe',
+            isVorschueler: true,
+            orderGroupPicture: true,
+            orderVorschulPicture: true,
+          },
+          {
+            name: 'Ben',
+            groupName: 'Seesterne',
+            isVorschueler: false,
+            orderGroupPicture: true,
+            orderVorschulPicture: false,
+          },
+        ],
+      });
+
+      expect(mockSupabaseClient.rpc).toHaveBeenCalledWith(
+        'create_reservation',
+        expect.objectContaining({
+          p_children: [
+            {
+              child_name: 'Mia',
+              group_name: 'Sonnengruppe',
+              is_vorschueler: true,
+              order_group_picture: true,
+              order_vorschul_picture: true,
+            },
+            {
+              child_name: 'Ben',
+              group_name: 'Seesterne',
+              is_vorschueler: false,
+              order_group_picture: true,
+              order_vorschul_picture: false,
+            },
+          ],
+        }),
+      );
+      expect(reservation.children?.map((child) => child.groupName)).toEqual([
+        'Sonnengruppe',
+        'Seesterne',
+      ]);
+    });
+
+    it('rejects a reservation whose free picture was claimed already', async () => {
+      mockFromChain.single.mockResolvedValueOnce({
+        data: { id: 'user-123' },
+        error: null,
+      });
+      mockSupabaseClient.rpc.mockResolvedValueOnce({
+        data: null,
+        error: {
+          code: 'P0001',
+          message: 'picture_already_claimed',
+          details: 'vorschul',
+          hint: 'Sonnengruppe',
+        },
+      } as any);
+
+      const promise = db.createReservation({
+        ...validFormDataPickup,
+        children: [
+          {
+            name: 'Mia',
+            groupName: 'Sonnengruppe',
+            isVorschueler: true,
+            orderGroupPicture: false,
+            orderVorschulPicture: true,
+          },
+        ],
+      });
+
+      await expect(promise).rejects.toBeInstanceOf(PictureAlreadyClaimedError);
+      await expect(promise).rejects.toMatchObject({
+        pictureType: 'vorschul',
+        groupName: 'Sonnengruppe',
+      });
+      // The whole reservation was rolled back, nothing to withdraw
+      expect(mockFromChain.delete).not.toHaveBeenCalled();
+      expect(mockSupabaseClient.rpc).toHaveBeenCalledTimes(1);
+    });
+
+    it('rejects a picture for a child the roster does not list', async () => {
+      mockFromChain.single.mockResolvedValueOnce({
+        data: { id: 'user-123' },
+        error: null,
+      });
+      mockSupabaseClient.rpc.mockResolvedValueOnce({
+        data: null,
+        error: {
+          code: 'P0001',
+          message: 'picture_child_not_listed',
+          details: 'group',
+          hint: 'Seesterne',
+        },
+      } as any);
+
+      const promise = db.createReservation({
+        ...validFormDataPickup,
+        children: [
+          {
+            name: 'Erfundenes Kind',
+            groupName: 'Seesterne',
+            isVorschueler: false,
+            orderGroupPicture: true,
+            orderVorschulPicture: false,
+          },
+        ],
+      });
+
+      await expect(promise).rejects.toBeInstanceOf(PictureChildNotListedError);
+      await expect(promise).rejects.toMatchObject({
+        pictureType: 'group',
+        groupName: 'Seesterne',
+      });
+    });
+
+    it('takes the copies held by a waitlist offer instead of the stock', async () => {
+      mockFromChain.single.mockResolvedValueOnce({
+        data: { id: 'user-123' },
+        error: null,
+      });
+      mockFromChain.single.mockResolvedValueOnce({
+        data: { id: 'reservation-123', user_id: 'user-123' },
+        error: null,
+      });
+
+      await db.createReservation(validFormDataPickup, {
+        waitlistEntryId: 'entry-123',
+      });
+
+      expect(mockSupabaseClient.rpc).toHaveBeenCalledWith(
+        'create_reservation',
+        expect.objectContaining({ p_waitlist_entry_id: 'entry-123' }),
+      );
+    });
+
+    it('rejects a reservation from a lapsed waitlist offer', async () => {
+      mockFromChain.single.mockResolvedValueOnce({
+        data: { id: 'user-123' },
+        error: null,
+      });
+      mockSupabaseClient.rpc.mockResolvedValueOnce({
+        data: null,
+        error: { code: 'P0001', message: 'waitlist_offer_expired' },
+      } as any);
+
+      await expect(
+        db.createReservation(validFormDataPickup, {
+          waitlistEntryId: 'entry-123',
+        }),
+      ).rejects.toBeInstanceOf(WaitlistOfferExpiredError);
+      expect(mockSupabaseClient.from).not.toHaveBeenCalledWith('reservations');
+    });
+
     it('gets user reservations', async () => {
       const userId = 'user-123';
 
@@ -489,19 +1010,1483 @@ describe('DatabaseService', () => {
       const reservationId = 'reservation-123';
       const userId = 'user-123';
 
-      // Mock the promise resolution for the entire chain
-      Object.assign(mockFromChain, {
-        then: vi.fn((onResolve) => onResolve({ data: {}, error: null })),
+      mockFromChain.single.mockResolvedValueOnce({
+        data: {
+          id: reservationId,
+          user_id: userId,
+          magazine_id: 'mag-123',
+          quantity: 1,
+          status: 'pending',
+        },
+        error: null,
       });
+      mockSupabaseClient.rpc.mockResolvedValueOnce({
+        data: { id: reservationId, user_id: userId, status: 'cancelled' },
+        error: null,
+      } as any);
 
       await db.cancelReservation(reservationId, userId);
 
       expect(mockSupabaseClient.from).toHaveBeenCalledWith('reservations');
-      expect(mockFromChain.update).toHaveBeenCalledWith({
-        status: 'cancelled',
-      });
       expect(mockFromChain.eq).toHaveBeenCalledWith('id', reservationId);
-      expect(mockFromChain.eq).toHaveBeenCalledWith('user_id', userId);
+      expect(mockSupabaseClient.rpc).toHaveBeenCalledWith(
+        'transition_reservation_status',
+        {
+          p_reservation_id: reservationId,
+          p_from: 'pending',
+          p_to: 'cancelled',
+          p_changed_by: `user:${userId}`,
+          p_release_copies: true,
+        },
+      );
+    });
+
+    it('returns copies to stock when cancelling', async () => {
+      mockFromChain.single.mockResolvedValueOnce({
+        data: {
+          id: 'reservation-123',
+          user_id: 'user-123',
+          magazine_id: 'mag-123',
+          quantity: 2,
+          status: 'confirmed',
+        },
+        error: null,
+      });
+      mockSupabaseClient.rpc.mockResolvedValueOnce({
+        data: { id: 'reservation-123', status: 'cancelled' },
+        error: null,
+      } as any);
+
+      await db.cancelReservation('reservation-123', 'user-123');
+
+      // Status change and stock release run in one transaction
+      expect(mockSupabaseClient.rpc).toHaveBeenCalledTimes(1);
+      expect(mockSupabaseClient.rpc).toHaveBeenCalledWith(
+        'transition_reservation_status',
+        expect.objectContaining({
+          p_from: 'confirmed',
+          p_to: 'cancelled',
+          p_release_copies: true,
+        }),
+      );
+    });
+
+    it("refuses to cancel another user's reservation", async () => {
+      mockFromChain.single.mockResolvedValueOnce({
+        data: {
+          id: 'reservation-123',
+          user_id: 'someone-else',
+          magazine_id: 'mag-123',
+          quantity: 1,
+          status: 'pending',
+        },
+        error: null,
+      });
+
+      await expect(
+        db.cancelReservation('reservation-123', 'user-123'),
+      ).rejects.toBeInstanceOf(ReservationNotFoundError);
+      expect(mockFromChain.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Family Reservation Limits', () => {
+    it('returns null when the family has no exception', async () => {
+      mockFromChain.single.mockResolvedValueOnce({
+        data: null,
+        error: { code: 'PGRST116' },
+      });
+
+      const limit = await db.getFamilyReservationLimit(
+        'mag-123',
+        'Zwillinge@Example.com',
+      );
+
+      expect(limit).toBeNull();
+      expect(mockFromChain.eq).toHaveBeenCalledWith(
+        'family_email',
+        'zwillinge@example.com',
+      );
+    });
+
+    it('logs a new exception with the admin account', async () => {
+      mockFromChain.single.mockResolvedValueOnce({
+        data: {
+          id: 'limit-1',
+          magazine_id: 'mag-123',
+          family_email: 'zwillinge@example.com',
+          copies_per_family: 2,
+          reason: null,
+        },
+        error: null,
+      });
+
+      const limit = await db.setFamilyReservationLimit(
+        'mag-123',
+        { familyEmail: 'Zwillinge@Example.com', copiesPerFamily: 2 },
+        distributor,
+      );
+
+      expect(limit).toEqual(
+        expect.objectContaining({
+          magazineId: 'mag-123',
+          familyEmail: 'zwillinge@example.com',
+          copiesPerFamily: 2,
+        }),
+      );
+      expect(mockFromChain.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          magazine_id: 'mag-123',
+          family_email: 'zwillinge@example.com',
+          copies_per_family: 2,
+        }),
+        { onConflict: 'magazine_id,family_email' },
+      );
+      expect(mockFromChain.insert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: 'updated',
+          data_type: 'reservation',
+          processor_id: 'admin-123',
+        }),
+      );
+    });
+
+    it('returns null for an unknown issue', async () => {
+      mockFromChain.single.mockResolvedValueOnce({
+        data: null,
+        error: { code: '23503', message: 'foreign key violation' },
+      });
+
+      const limit = await db.setFamilyReservationLimit(
+        'mag-404',
+        { familyEmail: 'zwillinge@example.com', copiesPerFamily: 2 },
+        distributor,
+      );
+
+      expect(limit).toBeNull();
+      expect(mockFromChain.insert).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Reservation Status Transitions', () => {
+    const currentRow = (status: string) => ({
+      data: {
+        id: 'reservation-123',
+        user_id: 'user-123',
+        magazine_id: 'mag-123',
+        quantity: 1,
+        status,
+      },
+      error: null,
+    });
+
+    it('confirms a pending reservation and logs the change', async () => {
+      mockFromChain.single.mockResolvedValueOnce(currentRow('pending'));
+      mockSupabaseClient.rpc.mockResolvedValueOnce({
+        data: {
+          id: 'reservation-123',
+          status: 'confirmed',
+          status_changed_by: 'admin:admin-1',
+        },
+        error: null,
+      } as any);
+
+      const reservation = await db.transitionReservationStatus(
+        'reservation-123',
+        'confirmed',
+        { changedBy: 'admin:admin-1', processorId: 'admin-1' },
+      );
+
+      expect(reservation.status).toBe('confirmed');
+      expect(reservation.statusChangedBy).toBe('admin:admin-1');
+      expect(mockSupabaseClient.rpc).toHaveBeenCalledWith(
+        'transition_reservation_status',
+        expect.objectContaining({
+          p_from: 'pending',
+          p_to: 'confirmed',
+          p_release_copies: false,
+        }),
+      );
+      expect(mockFromChain.insert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: 'reservation_updated',
+          processor_id: 'admin-1',
+          details: expect.stringContaining('"from":"pending"'),
+        }),
+      );
+    });
+
+    it('rejects illegal transitions', async () => {
+      mockFromChain.single.mockResolvedValueOnce(currentRow('completed'));
+
+      await expect(
+        db.transitionReservationStatus('reservation-123', 'pending', {
+          changedBy: 'system',
+        }),
+      ).rejects.toBeInstanceOf(InvalidStatusTransitionError);
+      expect(mockSupabaseClient.rpc).not.toHaveBeenCalled();
+    });
+
+    it('reports a status changed in the meantime', async () => {
+      mockFromChain.single.mockResolvedValueOnce(currentRow('pending'));
+      mockSupabaseClient.rpc.mockResolvedValueOnce({
+        data: null,
+        error: { code: 'P0001', message: 'reservation_status_changed' },
+      } as any);
+
+      await expect(
+        db.transitionReservationStatus('reservation-123', 'cancelled', {
+          changedBy: 'system',
+        }),
+      ).rejects.toThrow('changed concurrently');
+      expect(mockFromChain.insert).not.toHaveBeenCalled();
+    });
+
+    it('throws when the reservation does not exist', async () => {
+      mockFromChain.single.mockResolvedValueOnce({
+        data: null,
+        error: { code: 'PGRST116' },
+      });
+
+      await expect(
+        db.transitionReservationStatus('missing', 'confirmed', {
+          changedBy: 'system',
+        }),
+      ).rejects.toBeInstanceOf(ReservationNotFoundError);
+    });
+  });
+
+  describe('Reservation Details', () => {
+    it('loads a reservation with its user and magazine', async () => {
+      mockFromChain.single.mockResolvedValue({
+        data: {
+          id: 'reservation-123',
+          user_id: 'user-123',
+          status: 'pending',
+          users: { id: 'user-123', email: 'test@example.com' },
+          magazines: { id: 'mag-123', title: 'Test Magazine' },
+        },
+        error: null,
+      });
+
+      const details = await db.getReservationDetails('reservation-123');
+
+      expect(mockFromChain.eq).toHaveBeenCalledWith('id', 'reservation-123');
+      expect(details?.reservation.id).toBe('reservation-123');
+      expect(details?.user.email).toBe('test@example.com');
+      expect(details?.magazine.title).toBe('Test Magazine');
+    });
+
+    it('returns null for an unknown reservation', async () => {
+      mockFromChain.single.mockResolvedValue({
+        data: null,
+        error: { code: 'PGRST116' },
+      });
+
+      expect(await db.getReservationDetails('missing')).toBeNull();
+    });
+  });
+
+  describe('Reservation Delivery Update', () => {
+    const currentRow = (status: string, deliveryMethod: string) => ({
+      data: {
+        id: 'reservation-123',
+        user_id: 'user-123',
+        status,
+        delivery_method: deliveryMethod,
+        expires_at:
+          deliveryMethod === 'shipping' ? '2024-01-08T00:00:00.000Z' : null,
+      },
+      error: null,
+    });
+
+    const address = {
+      street: 'Test Street',
+      houseNumber: '123',
+      postalCode: '10115',
+      city: 'Berlin',
+      country: 'DE',
+    };
+
+    it('switches pickup to shipping with a new payment deadline', async () => {
+      mockFromChain.single
+        .mockResolvedValueOnce(currentRow('pending', 'pickup'))
+        .mockResolvedValueOnce({
+          data: {
+            id: 'reservation-123',
+            delivery_method: 'shipping',
+            street: 'Test Street',
+          },
+          error: null,
+        });
+
+      const reservation = await db.updateReservationDelivery(
+        'reservation-123',
+        { deliveryMethod: 'shipping', address },
+        'user-123',
+      );
+
+      expect(reservation.deliveryMethod).toBe('shipping');
+      expect(mockFromChain.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          delivery_method: 'shipping',
+          pickup_location: null,
+          payment_method: 'paypal',
+          street: 'Test Street',
+          postal_code: '10115',
+          expires_at: expect.any(String),
+        }),
+      );
+      expect(mockFromChain.eq).toHaveBeenCalledWith('status', 'pending');
+      expect(mockFromChain.insert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: 'reservation_updated',
+          details: expect.stringContaining('"previousDeliveryMethod":"pickup"'),
+        }),
+      );
+    });
+
+    it('keeps the payment deadline when only the address changes', async () => {
+      mockFromChain.single
+        .mockResolvedValueOnce(currentRow('pending', 'shipping'))
+        .mockResolvedValueOnce({
+          data: { id: 'reservation-123' },
+          error: null,
+        });
+
+      await db.updateReservationDelivery('reservation-123', {
+        deliveryMethod: 'shipping',
+        address,
+      });
+
+      expect(mockFromChain.update).toHaveBeenCalledWith(
+        expect.objectContaining({ expires_at: '2024-01-08T00:00:00.000Z' }),
+      );
+    });
+
+    it('keeps the payment method chosen for shipping', async () => {
+      const current = currentRow('pending', 'shipping');
+      mockFromChain.single
+        .mockResolvedValueOnce({
+          ...current,
+          data: { ...current.data, payment_method: 'bank_transfer' },
+        })
+        .mockResolvedValueOnce({
+          data: { id: 'reservation-123', quantity: 1 },
+          error: null,
+        });
+
+      await db.updateReservationDelivery('reservation-123', {
+        deliveryMethod: 'shipping',
+        address,
+      });
+
+      expect(mockFromChain.update).toHaveBeenCalledWith(
+        expect.objectContaining({ payment_method: 'bank_transfer' }),
+      );
+    });
+
+    it('clears shipping columns and the deadline when switching to pickup', async () => {
+      mockFromChain.single
+        .mockResolvedValueOnce(currentRow('pending', 'shipping'))
+        .mockResolvedValueOnce({
+          data: { id: 'reservation-123' },
+          error: null,
+        });
+
+      await db.updateReservationDelivery('reservation-123', {
+        deliveryMethod: 'pickup',
+        pickupLocation: 'Kindergarten',
+      });
+
+      expect(mockFromChain.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          delivery_method: 'pickup',
+          pickup_location: 'Kindergarten',
+          payment_method: null,
+          street: null,
+          city: null,
+          expires_at: null,
+        }),
+      );
+    });
+
+    it('sends a new pickup reminder only when the pickup slot changes', async () => {
+      const slotA = '5a1b2c3d-0000-4000-8000-00000000000a';
+      const slotB = '5a1b2c3d-0000-4000-8000-00000000000b';
+      const current = currentRow('pending', 'pickup');
+      const bookedRow = {
+        ...current,
+        data: {
+          ...current.data,
+          pickup_date: '2024-01-07',
+          pickup_slot_id: slotA,
+        },
+      };
+      mockFromChain.single
+        .mockResolvedValueOnce(bookedRow)
+        .mockResolvedValueOnce({ data: { id: 'reservation-123' }, error: null })
+        .mockResolvedValueOnce(bookedRow)
+        .mockResolvedValueOnce({
+          data: { id: 'reservation-123' },
+          error: null,
+        });
+
+      await db.updateReservationDelivery('reservation-123', {
+        deliveryMethod: 'pickup',
+        pickupSlotId: slotB,
+      });
+      await db.updateReservationDelivery('reservation-123', {
+        deliveryMethod: 'pickup',
+        pickupSlotId: slotA,
+        notes: 'Holt die Oma ab',
+      });
+
+      expect(mockFromChain.update).toHaveBeenNthCalledWith(
+        1,
+        expect.objectContaining({
+          pickup_slot_id: slotB,
+          pickup_reminder_sent_at: null,
+        }),
+      );
+      expect(mockFromChain.update).toHaveBeenNthCalledWith(
+        2,
+        expect.not.objectContaining({ pickup_reminder_sent_at: null }),
+      );
+    });
+
+    it('rejects reservations that are no longer pending', async () => {
+      mockFromChain.single.mockResolvedValueOnce(
+        currentRow('confirmed', 'pickup'),
+      );
+
+      await expect(
+        db.updateReservationDelivery('reservation-123', {
+          deliveryMethod: 'shipping',
+          address,
+        }),
+      ).rejects.toBeInstanceOf(ReservationNotEditableError);
+      expect(mockFromChain.update).not.toHaveBeenCalled();
+    });
+
+    it('hides reservations of other users', async () => {
+      mockFromChain.single.mockResolvedValueOnce(
+        currentRow('pending', 'pickup'),
+      );
+
+      await expect(
+        db.updateReservationDelivery(
+          'reservation-123',
+          { deliveryMethod: 'pickup', pickupLocation: 'Kindergarten' },
+          'someone-else',
+        ),
+      ).rejects.toBeInstanceOf(ReservationNotFoundError);
+    });
+  });
+
+  describe('Payment Operations', () => {
+    const lineRow = {
+      id: 'line-1',
+      import_id: 'import-1',
+      source: 'bank_csv',
+      external_id: 'TX1',
+      booking_date: '2024-01-05',
+      amount: '8.49',
+      currency: 'EUR',
+      payer_name: 'Erika Mustermann',
+      reference: 'FP-1A2B3C4D',
+      status: 'unmatched',
+      reservation_id: null,
+      review_note: null,
+      created_at: '2024-01-05T00:00:00Z',
+    };
+
+    it('records a received payment on the reservation', async () => {
+      mockFromChain.single.mockResolvedValueOnce({
+        data: {
+          id: 'payment-1',
+          reservation_id: 'reservation-123',
+          amount_due: '8.49',
+          amount_received: '8.49',
+          method: 'bank_transfer',
+          paid_at: '2024-01-05',
+        },
+        error: null,
+      });
+
+      const payment = await db.recordPayment('reservation-123', {
+        amountDue: 8.49,
+        amountReceived: 8.49,
+        method: 'bank_transfer',
+        paidAt: '2024-01-05',
+      });
+
+      expect(mockFromChain.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          reservation_id: 'reservation-123',
+          amount_received: 8.49,
+          paid_at: '2024-01-05',
+        }),
+        { onConflict: 'reservation_id' },
+      );
+      expect(payment.amountReceived).toBe(8.49);
+    });
+
+    it('skips statement lines that were imported before', async () => {
+      mockFromChain.select.mockResolvedValueOnce({
+        data: [lineRow],
+        error: null,
+      });
+
+      const lines = await db.savePaymentImportLines('import-1', 'bank_csv', [
+        {
+          externalId: 'TX1',
+          bookingDate: '2024-01-05',
+          amount: 8.49,
+          currency: 'EUR',
+          reference: 'FP-1A2B3C4D',
+        },
+      ]);
+
+      expect(mockFromChain.upsert).toHaveBeenCalledWith(
+        [
+          expect.objectContaining({
+            import_id: 'import-1',
+            external_id: 'TX1',
+          }),
+        ],
+        { onConflict: 'source,external_id', ignoreDuplicates: true },
+      );
+      expect(lines[0]).toMatchObject({
+        id: 'line-1',
+        amount: 8.49,
+        payerName: 'Erika Mustermann',
+        status: 'unmatched',
+      });
+    });
+
+    it('only updates lines that are still in review', async () => {
+      await db.updatePaymentImportLine('line-1', {
+        status: 'ignored',
+        reviewNote: 'Spende',
+      });
+
+      expect(mockFromChain.update).toHaveBeenCalledWith({
+        status: 'ignored',
+        review_note: 'Spende',
+      });
+      expect(mockFromChain.eq).toHaveBeenCalledWith('status', 'unmatched');
+    });
+  });
+
+  describe('Reservation Expiry', () => {
+    const overdueRow = {
+      id: 'reservation-123',
+      user_id: 'user-123',
+      magazine_id: 'mag-123',
+      quantity: 2,
+      status: 'pending',
+      delivery_method: 'shipping',
+      expires_at: '2024-01-08T00:00:00Z',
+      users: { id: 'user-123', email: 'test@example.com', first_name: 'Max' },
+      magazines: { id: 'mag-123', title: 'Test Magazine' },
+    };
+
+    const overdueChain = (rows: any[]) => {
+      const chain = createMockChain();
+      const result = Promise.resolve({ data: rows, error: null });
+      chain.then = result.then.bind(result);
+      return chain;
+    };
+
+    it('selects pending reservations past their deadline', async () => {
+      const chain = overdueChain([overdueRow]);
+      mockSupabaseClient.from.mockReturnValueOnce(chain);
+      const now = new Date('2024-01-09T00:00:00Z');
+
+      const overdue = await db.getOverdueReservations(now);
+
+      expect(chain.eq).toHaveBeenCalledWith('status', 'pending');
+      expect(chain.lt).toHaveBeenCalledWith('expires_at', now.toISOString());
+      expect(overdue).toHaveLength(1);
+      expect(overdue[0].reservation.expiresAt).toBe('2024-01-08T00:00:00Z');
+      expect(overdue[0].user.email).toBe('test@example.com');
+      expect(overdue[0].magazine.title).toBe('Test Magazine');
+    });
+
+    it('expires overdue reservations and returns their copies', async () => {
+      mockSupabaseClient.from.mockReturnValueOnce(overdueChain([overdueRow]));
+      mockFromChain.single.mockResolvedValueOnce({
+        data: overdueRow,
+        error: null,
+      });
+      mockSupabaseClient.rpc.mockResolvedValueOnce({
+        data: { ...overdueRow, status: 'expired' },
+        error: null,
+      } as any);
+
+      const expired = await db.expireOverdueReservations();
+
+      expect(expired).toHaveLength(1);
+      expect(expired[0].reservation.status).toBe('expired');
+      expect(mockSupabaseClient.rpc).toHaveBeenCalledWith(
+        'transition_reservation_status',
+        {
+          p_reservation_id: overdueRow.id,
+          p_from: 'pending',
+          p_to: 'expired',
+          p_changed_by: 'system',
+          p_release_copies: true,
+        },
+      );
+    });
+
+    it('skips reservations that changed status in the meantime', async () => {
+      mockSupabaseClient.from.mockReturnValueOnce(overdueChain([overdueRow]));
+      mockFromChain.single.mockResolvedValueOnce({
+        data: { ...overdueRow, status: 'confirmed' },
+        error: null,
+      });
+
+      const expired = await db.expireOverdueReservations();
+
+      expect(expired).toHaveLength(0);
+      expect(mockSupabaseClient.rpc).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Shipping Dispatch', () => {
+    it('stores the dispatch and completes the reservation', async () => {
+      mockFromChain.single
+        .mockResolvedValueOnce({
+          data: {
+            id: 'reservation-123',
+            status: 'confirmed',
+            delivery_method: 'shipping',
+          },
+          error: null,
+        })
+        .mockResolvedValueOnce({
+          data: { id: 'reservation-123', status: 'confirmed' },
+          error: null,
+        });
+      mockSupabaseClient.rpc.mockResolvedValueOnce({
+        data: {
+          id: 'reservation-123',
+          status: 'completed',
+          tracking_number: 'RR123456789DE',
+        },
+        error: null,
+      } as any);
+      const dispatchedAt = new Date('2024-01-10T09:00:00Z');
+
+      const reservation = await db.markReservationDispatched(
+        'reservation-123',
+        { trackingNumber: 'RR123456789DE' },
+        distributor,
+        dispatchedAt,
+      );
+
+      expect(mockFromChain.update).toHaveBeenCalledWith({
+        dispatched_at: dispatchedAt.toISOString(),
+        tracking_number: 'RR123456789DE',
+      });
+      expect(mockSupabaseClient.rpc).toHaveBeenCalledWith(
+        'transition_reservation_status',
+        expect.objectContaining({
+          p_to: 'completed',
+          p_changed_by: 'admin:admin-123',
+        }),
+      );
+      expect(mockFromChain.insert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: 'reservation_updated',
+          processor_id: 'admin-123',
+        }),
+      );
+      expect(reservation.trackingNumber).toBe('RR123456789DE');
+    });
+
+    it('refuses pickup reservations', async () => {
+      mockFromChain.single.mockResolvedValueOnce({
+        data: {
+          id: 'reservation-123',
+          status: 'confirmed',
+          delivery_method: 'pickup',
+        },
+        error: null,
+      });
+
+      await expect(
+        db.markReservationDispatched('reservation-123', {}, apiKeyActor),
+      ).rejects.toBeInstanceOf(ReservationNotDispatchableError);
+      expect(mockFromChain.update).not.toHaveBeenCalled();
+    });
+
+    it('refuses reservations that are not paid yet', async () => {
+      mockFromChain.single.mockResolvedValueOnce({
+        data: {
+          id: 'reservation-123',
+          status: 'pending',
+          delivery_method: 'shipping',
+        },
+        error: null,
+      });
+
+      await expect(
+        db.markReservationDispatched('reservation-123', {}, apiKeyActor),
+      ).rejects.toBeInstanceOf(InvalidStatusTransitionError);
+    });
+  });
+
+  describe('Admin Reservations', () => {
+    const row = (id: string, payments: any) => ({
+      id,
+      status: 'confirmed',
+      delivery_method: 'pickup',
+      users: { id: 'user-123', email: 'test@example.com' },
+      magazines: { id: 'mag-123', title: 'Test Magazine' },
+      payments,
+    });
+
+    it('filters by issue, status and delivery method', async () => {
+      const chain = resultChain([]);
+      mockSupabaseClient.from.mockReturnValueOnce(chain);
+
+      await db.getAdminReservations(
+        {
+          magazineId: 'mag-123',
+          status: 'pending',
+          deliveryMethod: 'shipping',
+          group: 'seesterne',
+        },
+        distributor,
+      );
+
+      expect(chain.eq).toHaveBeenCalledWith('magazine_id', 'mag-123');
+
+      expect(chain.eq).toHaveBeenCalledWith('status', 'pending');
+      expect(chain.eq).toHaveBeenCalledWith('delivery_method', 'shipping');
+      expect(chain.order).toHaveBeenCalledWith('created_at', {
+        ascending: false,
+      });
+      expect(mockFromChain.insert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: 'accessed',
+          data_type: 'reservation',
+          processor_id: 'admin-123',
+        }),
+      );
+    });
+
+    it('finds a group among the children and in older reservations', async () => {
+      mockSupabaseClient.from.mockReturnValue(
+        resultChain([
+          {
+            ...row('siblings', null),
+            reservation_children: [
+              { id: 'child-1', child_name: 'Mia', group_name: 'Sonnengruppe' },
+              { id: 'child-2', child_name: 'Ben', group_name: 'Seesterne' },
+            ],
+          },
+          {
+            ...row('legacy', null),
+            child_name: 'Emma',
+            child_group_name: 'Seesterne',
+            order_group_picture: true,
+            reservation_children: [],
+          },
+          {
+            ...row('other', null),
+            reservation_children: [
+              { id: 'child-3', child_name: 'Lea', group_name: 'Sonnengruppe' },
+            ],
+          },
+        ]),
+      );
+
+      const details = await db.getAdminReservations(
+        { group: 'Seesterne' },
+        apiKeyActor,
+      );
+
+      expect(details.map((detail) => detail.reservation.id)).toEqual([
+        'siblings',
+        'legacy',
+      ]);
+    });
+
+    it('treats reservations without payment record as unpaid', async () => {
+      mockSupabaseClient.from.mockReturnValue(
+        resultChain([
+          row('paid', {
+            reservation_id: 'paid',
+            amount_due: '2.50',
+            amount_received: '2.50',
+            method: 'cash',
+            paid_at: '2024-01-05T10:00:00Z',
+          }),
+          row('due', [
+            {
+              reservation_id: 'due',
+              amount_due: '2.50',
+              amount_received: '0',
+              method: 'cash',
+            },
+          ]),
+          row('legacy', null),
+        ]),
+      );
+
+      const paid = await db.getAdminReservations(
+        { paymentState: 'paid' },
+        apiKeyActor,
+      );
+      const unpaid = await db.getAdminReservations(
+        { paymentState: 'unpaid' },
+        apiKeyActor,
+      );
+
+      expect(paid.map((details) => details.reservation.id)).toEqual(['paid']);
+      expect(paid[0].payment?.amountReceived).toBe(2.5);
+      expect(unpaid.map((details) => details.reservation.id)).toEqual([
+        'due',
+        'legacy',
+      ]);
+    });
+
+    it('confirms a payment by hand and records the amount due', async () => {
+      mockFromChain.single
+        .mockResolvedValueOnce({
+          data: { id: 'reservation-123', status: 'pending', quantity: 2 },
+          error: null,
+        })
+        .mockResolvedValueOnce({
+          data: { id: 'payment-123', reservation_id: 'reservation-123' },
+          error: null,
+        });
+      mockSupabaseClient.rpc.mockResolvedValueOnce({
+        data: {
+          id: 'reservation-123',
+          status: 'confirmed',
+          quantity: 2,
+          delivery_method: 'shipping',
+          payment_method: 'bank_transfer',
+        },
+        error: null,
+      } as any);
+
+      await db.confirmReservationPayment(
+        'reservation-123',
+        apiKeyActor,
+        new Date('2024-01-05T10:00:00Z'),
+      );
+
+      expect(mockFromChain.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          reservation_id: 'reservation-123',
+          amount_due: calculateTotalCost(true, 2),
+          amount_received: calculateTotalCost(true, 2),
+          method: 'bank_transfer',
+          paid_at: '2024-01-05T10:00:00.000Z',
+        }),
+        { onConflict: 'reservation_id' },
+      );
+    });
+
+    it('collects the cash payment when an open pickup is picked up', async () => {
+      mockFromChain.single
+        .mockResolvedValueOnce({
+          data: {
+            id: 'reservation-123',
+            status: 'pending',
+            delivery_method: 'pickup',
+          },
+          error: null,
+        })
+        .mockResolvedValueOnce({
+          data: { id: 'reservation-123', status: 'pending', quantity: 1 },
+          error: null,
+        })
+        .mockResolvedValueOnce({
+          data: { id: 'payment-123', reservation_id: 'reservation-123' },
+          error: null,
+        })
+        .mockResolvedValueOnce({
+          data: { id: 'reservation-123', status: 'confirmed', quantity: 1 },
+          error: null,
+        });
+      mockSupabaseClient.rpc
+        .mockResolvedValueOnce({
+          data: { id: 'reservation-123', status: 'confirmed', quantity: 1 },
+          error: null,
+        } as any)
+        .mockResolvedValueOnce({
+          data: { id: 'reservation-123', status: 'completed', quantity: 1 },
+          error: null,
+        } as any);
+
+      const reservation = await db.markReservationPickedUp(
+        'reservation-123',
+        distributor,
+      );
+
+      expect(reservation.status).toBe('completed');
+      expect(mockFromChain.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({ method: 'cash', amount_received: 2.5 }),
+        { onConflict: 'reservation_id' },
+      );
+      expect(mockSupabaseClient.rpc).toHaveBeenLastCalledWith(
+        'transition_reservation_status',
+        expect.objectContaining({ p_from: 'confirmed', p_to: 'completed' }),
+      );
+    });
+
+    it('refuses to pick up shipping reservations', async () => {
+      mockFromChain.single.mockResolvedValueOnce({
+        data: {
+          id: 'reservation-123',
+          status: 'confirmed',
+          delivery_method: 'shipping',
+        },
+        error: null,
+      });
+
+      await expect(
+        db.markReservationPickedUp('reservation-123', apiKeyActor),
+      ).rejects.toBeInstanceOf(ReservationNotPickupError);
+      expect(mockFromChain.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Pickup Check-in', () => {
+    const row = {
+      id: '1a2b3c4d-0000-4000-8000-000000000001',
+      status: 'confirmed',
+      delivery_method: 'pickup',
+      users: { id: 'user-123', email: 'test@example.com' },
+      magazines: { id: 'mag-123', title: 'Test Magazine' },
+      payments: null,
+    };
+
+    it('finds a reservation by its typed number', async () => {
+      const chain = resultChain([row]);
+      mockSupabaseClient.from.mockReturnValueOnce(chain);
+
+      const details = await db.getCheckInReservation(
+        { number: '1a2b3c4d' },
+        distributor,
+      );
+
+      expect(details?.reservation.id).toBe(row.id);
+      expect(chain.gte).toHaveBeenCalledWith(
+        'id',
+        '1a2b3c4d-0000-0000-0000-000000000000',
+      );
+      expect(chain.lte).toHaveBeenCalledWith(
+        'id',
+        '1a2b3c4d-ffff-ffff-ffff-ffffffffffff',
+      );
+      expect(mockFromChain.insert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          user_id: 'user-123',
+          action: 'accessed',
+          data_type: 'reservation',
+          processor_id: 'admin-123',
+        }),
+      );
+    });
+
+    it('returns null when a number matches more than one reservation', async () => {
+      mockSupabaseClient.from.mockReturnValueOnce(
+        resultChain([
+          row,
+          { ...row, id: '1a2b3c4d-0000-4000-8000-000000000002' },
+        ]),
+      );
+
+      await expect(
+        db.getCheckInReservation({ number: '1a2b3c4d' }, apiKeyActor),
+      ).resolves.toBeNull();
+      expect(mockFromChain.insert).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Pickup Slots', () => {
+    const slotRow = {
+      id: '5a1b2c3d-0000-4000-8000-000000000001',
+      location: 'Kita Sonnenschein',
+      starts_at: '2024-01-15T13:00:00+00:00',
+      ends_at: '2024-01-15T15:00:00+00:00',
+      capacity: 20,
+      booked_families: 7,
+      is_active: true,
+      created_at: '2024-01-01T00:00:00Z',
+      updated_at: '2024-01-01T00:00:00Z',
+    };
+
+    it('lists only open slots for the reservation form', async () => {
+      const chain = resultChain([slotRow]);
+      mockSupabaseClient.from.mockReturnValueOnce(chain);
+      const now = new Date('2024-01-10T00:00:00Z');
+
+      const slots = await db.getPickupSlots({ openOnly: true, now });
+
+      expect(mockSupabaseClient.from).toHaveBeenCalledWith(
+        'pickup_slot_availability',
+      );
+      expect(chain.eq).toHaveBeenCalledWith('is_active', true);
+      expect(chain.gt).toHaveBeenCalledWith('starts_at', now.toISOString());
+      expect(slots[0]).toMatchObject({
+        id: slotRow.id,
+        startsAt: slotRow.starts_at,
+        capacity: 20,
+        bookedFamilies: 7,
+        isActive: true,
+      });
+    });
+
+    it('returns null when updating an unknown slot', async () => {
+      mockFromChain.single.mockResolvedValueOnce({
+        data: null,
+        error: { code: 'PGRST116', message: 'No rows found' },
+      });
+
+      await expect(
+        db.updatePickupSlot(slotRow.id, { isActive: false }),
+      ).resolves.toBeNull();
+      expect(mockFromChain.update).toHaveBeenCalledWith(
+        expect.objectContaining({ is_active: false }),
+      );
+    });
+  });
+
+  describe('Kindergarten Roster', () => {
+    const groupRow = (name: string, year: string) => ({
+      id: `group-${name}-${year}`,
+      name,
+      year,
+      created_at: '2024-01-01T00:00:00Z',
+      updated_at: '2024-01-01T00:00:00Z',
+    });
+
+    it('offers only the groups of the latest year', async () => {
+      const chain = resultChain([
+        groupRow('Seeigel', '2024/2025'),
+        groupRow('Seesterne', '2024/2025'),
+        groupRow('Seesterne', '2023/2024'),
+      ]);
+      mockSupabaseClient.from.mockReturnValueOnce(chain);
+
+      const groups = await db.getCurrentKindergartenGroups();
+
+      expect(chain.select).toHaveBeenCalledWith('*');
+      expect(chain.order).toHaveBeenCalledWith('year', { ascending: false });
+      expect(groups.map((group) => group.name)).toEqual([
+        'Seeigel',
+        'Seesterne',
+      ]);
+      expect(groups[0].children).toBeUndefined();
+    });
+
+    it('maps the children of a group in alphabetical order', async () => {
+      const chain = resultChain([
+        {
+          ...groupRow('Seesterne', '2024/2025'),
+          kindergarten_children: [
+            {
+              id: 'child-2',
+              group_id: 'g',
+              name: 'Paul',
+              is_vorschueler: false,
+            },
+            {
+              id: 'child-1',
+              group_id: 'g',
+              name: 'Emma',
+              is_vorschueler: true,
+            },
+          ],
+        },
+      ]);
+      mockSupabaseClient.from.mockReturnValueOnce(chain);
+
+      const [group] = await db.getCurrentKindergartenGroups({
+        withChildren: true,
+      });
+
+      expect(chain.select).toHaveBeenCalledWith('*, kindergarten_children (*)');
+      expect(group.children).toMatchObject([
+        { id: 'child-1', name: 'Emma', isVorschueler: true },
+        { id: 'child-2', name: 'Paul', isVorschueler: false },
+      ]);
+    });
+
+    it('reports a group that exists for the year already', async () => {
+      mockFromChain.single.mockResolvedValueOnce({
+        data: null,
+        error: { code: '23505', message: 'duplicate key value' },
+      });
+
+      await expect(
+        db.createKindergartenGroup(
+          { name: 'Seesterne', year: '2024/2025' },
+          distributor,
+        ),
+      ).rejects.toBeInstanceOf(KindergartenGroupExistsError);
+    });
+
+    it('returns null when adding a child to an unknown group', async () => {
+      mockFromChain.single.mockResolvedValueOnce({
+        data: null,
+        error: { code: '23503', message: 'foreign key violation' },
+      });
+
+      await expect(
+        db.addKindergartenChild(
+          'group-unknown',
+          { name: 'Emma', isVorschueler: true },
+          distributor,
+        ),
+      ).resolves.toBeNull();
+      expect(mockFromChain.insert).toHaveBeenCalledWith({
+        group_id: 'group-unknown',
+        name: 'Emma',
+        is_vorschueler: true,
+      });
+    });
+
+    it('logs changes to the children with the admin account', async () => {
+      const logChain = createMockChain();
+      mockSupabaseClient.from
+        .mockReturnValueOnce(mockFromChain)
+        .mockReturnValueOnce(logChain);
+      mockFromChain.single.mockResolvedValueOnce({
+        data: {
+          id: 'child-1',
+          group_id: 'group-1',
+          name: 'Emma',
+          is_vorschueler: true,
+        },
+        error: null,
+      });
+
+      await db.updateKindergartenChild(
+        'child-1',
+        { isVorschueler: true },
+        distributor,
+      );
+
+      expect(logChain.insert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: 'updated',
+          data_type: 'kindergarten_roster',
+          processor_id: 'admin-123',
+        }),
+      );
+    });
+
+    it('logs removed children but not unknown ones', async () => {
+      const logChain = createMockChain();
+      mockSupabaseClient.from
+        .mockReturnValueOnce(resultChain([{ id: 'child-1' }]))
+        .mockReturnValueOnce(logChain)
+        .mockReturnValueOnce(resultChain([]));
+
+      await expect(
+        db.deleteKindergartenChild('child-1', distributor),
+      ).resolves.toBe(true);
+      await expect(
+        db.deleteKindergartenChild('child-unknown', distributor),
+      ).resolves.toBe(false);
+
+      expect(logChain.insert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: 'deleted',
+          processor_id: 'admin-123',
+          details: expect.stringContaining('child-1'),
+        }),
+      );
+      expect(mockSupabaseClient.from).toHaveBeenCalledTimes(3);
+    });
+  });
+
+  describe('Admin Accounts', () => {
+    const adminRow = {
+      id: 'admin-123',
+      email: 'kasse@example.com',
+      name: 'Kasse',
+      role: 'treasurer',
+      password_hash: 'scrypt$salt$key',
+      is_active: true,
+      created_at: '2024-01-01T00:00:00Z',
+      updated_at: '2024-01-01T00:00:00Z',
+    };
+
+    it('looks up logins by lowercased email', async () => {
+      mockFromChain.single.mockResolvedValueOnce({
+        data: adminRow,
+        error: null,
+      });
+
+      const login = await db.getAdminLogin('Kasse@Example.com');
+
+      expect(mockSupabaseClient.from).toHaveBeenCalledWith('admin_users');
+      expect(mockFromChain.eq).toHaveBeenCalledWith(
+        'email',
+        'kasse@example.com',
+      );
+      expect(login?.passwordHash).toBe('scrypt$salt$key');
+      expect(login?.adminUser).not.toHaveProperty('passwordHash');
+      expect(login?.adminUser.role).toBe('treasurer');
+    });
+
+    it('returns null for unknown logins', async () => {
+      mockFromChain.single.mockResolvedValueOnce({
+        data: null,
+        error: { code: 'PGRST116', message: 'No rows' },
+      });
+
+      await expect(db.getAdminLogin('nobody@example.com')).resolves.toBeNull();
+    });
+
+    it('refuses a second account for the same email', async () => {
+      mockFromChain.single.mockResolvedValueOnce({
+        data: null,
+        error: { code: '23505', message: 'duplicate key value' },
+      });
+
+      await expect(
+        db.createAdminUser({
+          email: 'kasse@example.com',
+          name: 'Kasse',
+          role: 'treasurer',
+          passwordHash: 'scrypt$salt$key',
+        }),
+      ).rejects.toBeInstanceOf(AdminUserExistsError);
+    });
+
+    it('filters the processing log by admin and logs the access', async () => {
+      const chain = resultChain([
+        {
+          id: 'log-1',
+          action: 'reservation_updated',
+          data_type: 'reservation',
+          legal_basis: 'contract',
+          processor_id: 'admin-123',
+          timestamp: '2024-01-05T10:00:00Z',
+        },
+      ]);
+      mockSupabaseClient.from.mockReturnValueOnce(chain);
+
+      const entries = await db.getDataProcessingLogs(
+        { processorId: 'admin-123' },
+        { changedBy: 'admin:admin-456', processorId: 'admin-456' },
+      );
+
+      expect(chain.eq).toHaveBeenCalledWith('processor_id', 'admin-123');
+      expect(chain.limit).toHaveBeenCalledWith(200);
+      expect(entries[0]).toMatchObject({
+        action: 'reservation_updated',
+        processorId: 'admin-123',
+      });
+      expect(mockFromChain.insert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: 'accessed',
+          data_type: 'processing_log',
+          processor_id: 'admin-456',
+        }),
+      );
+    });
+  });
+
+  describe('Payment Reminders', () => {
+    it('selects unreminded shipping reservations close to their deadline', async () => {
+      const chain = resultChain([
+        {
+          id: 'reservation-123',
+          status: 'pending',
+          delivery_method: 'shipping',
+          expires_at: '2024-01-08T00:00:00Z',
+          users: { id: 'user-123', email: 'test@example.com' },
+          magazines: { id: 'mag-123', title: 'Test Magazine' },
+        },
+      ]);
+      mockSupabaseClient.from.mockReturnValueOnce(chain);
+      const now = new Date('2024-01-06T08:00:00Z');
+
+      const due = await db.getReservationsDueForPaymentReminder(now);
+
+      expect(chain.eq).toHaveBeenCalledWith('status', 'pending');
+      expect(chain.eq).toHaveBeenCalledWith('delivery_method', 'shipping');
+      expect(chain.is).toHaveBeenCalledWith('payment_reminder_sent_at', null);
+      expect(chain.gt).toHaveBeenCalledWith('expires_at', now.toISOString());
+      expect(chain.lte).toHaveBeenCalledWith(
+        'expires_at',
+        '2024-01-08T08:00:00.000Z',
+      );
+      expect(due[0].user.email).toBe('test@example.com');
+    });
+
+    it('claims a reminder only once', async () => {
+      const chain = resultChain([]);
+      mockSupabaseClient.from.mockReturnValueOnce(chain);
+
+      const claimed = await db.claimPaymentReminder('reservation-123');
+
+      expect(claimed).toBe(false);
+      expect(chain.update).toHaveBeenCalledWith({
+        payment_reminder_sent_at: expect.any(String),
+      });
+      expect(chain.is).toHaveBeenCalledWith('payment_reminder_sent_at', null);
+    });
+  });
+
+  describe('Pickup Reminders', () => {
+    it('selects unreminded pickups for the next day', async () => {
+      const chain = resultChain([
+        {
+          id: 'reservation-123',
+          status: 'confirmed',
+          delivery_method: 'pickup',
+          pickup_date: '2024-01-07',
+          users: { id: 'user-123', email: 'test@example.com' },
+          magazines: { id: 'mag-123', title: 'Test Magazine' },
+          pickup_slots: null,
+        },
+      ]);
+      mockSupabaseClient.from.mockReturnValueOnce(chain);
+
+      const due = await db.getReservationsDueForPickupReminder(
+        new Date('2024-01-06T16:00:00Z'),
+      );
+
+      expect(chain.in).toHaveBeenCalledWith('status', ['pending', 'confirmed']);
+      expect(chain.eq).toHaveBeenCalledWith('delivery_method', 'pickup');
+      expect(chain.is).toHaveBeenCalledWith('pickup_reminder_sent_at', null);
+      expect(chain.eq).toHaveBeenCalledWith('pickup_date', '2024-01-07');
+      expect(due[0].reservation.pickupDate).toBe('2024-01-07');
+    });
+
+    it('does not claim reminders of cancelled reservations', async () => {
+      const chain = resultChain([]);
+      mockSupabaseClient.from.mockReturnValueOnce(chain);
+
+      const claimed = await db.claimPickupReminder('reservation-123');
+
+      expect(claimed).toBe(false);
+      expect(chain.update).toHaveBeenCalledWith({
+        pickup_reminder_sent_at: expect.any(String),
+      });
+      expect(chain.in).toHaveBeenCalledWith('status', ['pending', 'confirmed']);
+    });
+  });
+
+  describe('Waitlist', () => {
+    const consents = {
+      essential: true,
+      functional: false,
+      analytics: false,
+      marketing: false,
+    };
+    const entryRow = {
+      id: 'entry-123',
+      magazine_id: 'mag-123',
+      email: 'john@example.com',
+      first_name: 'John',
+      last_name: 'Doe',
+      quantity: 1,
+      status: 'offered',
+      offered_at: '2024-01-10T12:00:00Z',
+      offer_expires_at: '2024-01-12T12:00:00Z',
+      created_at: '2024-01-01T00:00:00Z',
+      updated_at: '2024-01-10T12:00:00Z',
+    };
+
+    it('refuses a second open entry for the same issue', async () => {
+      mockFromChain.single.mockResolvedValueOnce({
+        data: null,
+        error: { code: '23505', message: 'duplicate key value' },
+      });
+
+      await expect(
+        db.joinWaitlist(
+          {
+            magazineId: 'mag-123',
+            email: 'john@example.com',
+            firstName: 'John',
+            lastName: 'Doe',
+            quantity: 1,
+          },
+          { consents },
+        ),
+      ).rejects.toBeInstanceOf(AlreadyOnWaitlistError);
+    });
+
+    it('logs the consents of a new entry with the client address', async () => {
+      mockFromChain.single.mockResolvedValueOnce({
+        data: { ...entryRow, status: 'waiting' },
+        error: null,
+      });
+
+      await db.joinWaitlist(
+        {
+          magazineId: 'mag-123',
+          email: 'john@example.com',
+          firstName: 'John',
+          lastName: 'Doe',
+          quantity: 1,
+        },
+        { consents, ipAddress: '203.0.113.7' },
+      );
+
+      expect(mockFromChain.insert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: 'consent_given',
+          data_type: 'consent',
+          ip_address: '203.0.113.7',
+          details: expect.stringContaining('"waitlistEntryId":"entry-123"'),
+        }),
+      );
+    });
+
+    it('offers copies through the database function', async () => {
+      mockSupabaseClient.rpc.mockResolvedValueOnce({
+        data: [entryRow],
+        error: null,
+      } as any);
+      const offerExpiresAt = new Date('2024-01-12T12:00:00Z');
+
+      const offers = await db.offerWaitlistCopies('mag-123', offerExpiresAt);
+
+      expect(mockSupabaseClient.rpc).toHaveBeenCalledWith(
+        'offer_waitlist_copies',
+        {
+          p_magazine_id: 'mag-123',
+          p_offer_expires_at: '2024-01-12T12:00:00.000Z',
+        },
+      );
+      expect(offers).toEqual([
+        expect.objectContaining({
+          id: 'entry-123',
+          magazineId: 'mag-123',
+          firstName: 'John',
+          status: 'offered',
+          offerExpiresAt: '2024-01-12T12:00:00Z',
+        }),
+      ]);
+    });
+
+    it('lists each waitlisted issue once', async () => {
+      mockSupabaseClient.from.mockReturnValueOnce(
+        resultChain([
+          { magazine_id: 'mag-1' },
+          { magazine_id: 'mag-2' },
+          { magazine_id: 'mag-1' },
+        ]),
+      );
+
+      expect(await db.getWaitlistedMagazineIds()).toEqual(['mag-1', 'mag-2']);
     });
   });
 
@@ -38,10 +38,16 @@ vi.mock('@/config/content', () => ({
       from: 'test@example.com',
       replyTo: 'noreply@example.com',
       signature: 'Test Signature',
+      subjects: {
+        paymentReminder: 'Zahlungserinnerung - Test Magazine',
+        shippingConfirmation: 'Ihr Magazin wurde versandt',
+      },
     },
     pricing: {
       magazinePrice: 5.99,
       shippingCost: 2.5,
+      shippingMethod: 'Deutsche Post Grossbrief',
+      trackingUrl: 'https://tracking.example.com/?piececode=',
     },
   },
 }));
@@ -52,11 +58,26 @@ vi.mock('@/config/payment', () => ({
       enabled: true,
       paypalMeLink: 'https://paypal.me/test',
     },
+    bankTransfer: {
+      accountHolder: 'Test Elternbeirat',
+      iban: 'DE89 3704 0044 0532 0130 00',
+      bic: 'COBADEFFXXX',
+      bankName: 'Test Bank',
+    },
   },
   generatePaymentReference: vi.fn(() => 'PAY-123456'),
   formatCurrency: vi.fn((amount) => `€${amount.toFixed(2)}`),
 }));
 
+vi.mock('@/lib/payments/girocode', () => ({
+  reservationGiroCode: vi.fn(() => 'BCD\n002'),
+  renderGiroCodePng: vi.fn(async () => Buffer.from('png')),
+}));
+
+vi.mock('@/lib/check-in', () => ({
+  renderCheckInQrPng: vi.fn(async () => Buffer.from('png')),
+}));
+
 // Mock import.meta.env
 vi.stubGlobal('import', {
   meta: {
@@ -240,6 +261,24 @@ describe('EmailService - Real Implementation', () => {
       expect(emailArgs.html).toContain(mockUser.firstName);
     });
 
+    it('attaches the check-in QR code for pickups', async () => {
+      await emailService.sendReservationConfirmation({
+        reservation: mockReservationPickup,
+        user: mockUser,
+        magazine: mockMagazine,
+      });
+
+      const emailArgs = mockTransporter.sendMail.mock.calls[0][0];
+      expect(emailArgs.attachments).toEqual([
+        expect.objectContaining({
+          filename: 'abholcode.png',
+          cid: 'checkin@flaschenpost',
+        }),
+      ]);
+      expect(emailArgs.html).toContain('src="cid:checkin@flaschenpost"');
+      expect(emailArgs.text).toContain('Reservierungsnummer');
+    });
+
     it('sends shipping confirmation email', async () => {
       await emailService.sendReservationConfirmation({
         reservation: mockReservationShipping,
@@ -253,6 +292,27 @@ describe('EmailService - Real Implementation', () => {
       expect(emailArgs.subject).toContain('Reservierung');
       expect(emailArgs.html).toContain('Versand');
       expect(emailArgs.html).toContain('PayPal');
+      expect(emailArgs.attachments).toEqual([]);
+    });
+
+    it('attaches a GiroCode for bank transfer payments', async () => {
+      await emailService.sendReservationConfirmation({
+        reservation: {
+          ...mockReservationShipping,
+          paymentMethod: 'bank_transfer',
+        },
+        user: mockUser,
+        magazine: mockMagazine,
+      });
+
+      const emailArgs = mockTransporter.sendMail.mock.calls[0][0];
+      expect(emailArgs.html).toContain('DE89 3704 0044 0532 0130 00');
+      expect(emailArgs.html).toContain('PAY-123456');
+      expect(emailArgs.text).toContain('DE89 3704 0044 0532 0130 00');
+      expect(emailArgs.attachments).toHaveLength(1);
+      expect(emailArgs.html).toContain(
+        `src="cid:${emailArgs.attachments[0].cid}"`,
+      );
     });
 
     it('includes reservation details in confirmation email', async () => {
@@ -270,6 +330,33 @@ describe('EmailService - Real Implementation', () => {
       );
     });
 
+    it('includes the cancellation link when provided', async () => {
+      const cancelUrl =
+        'https://example.com/reservierung-stornieren?id=res-123&token=abc';
+
+      await emailService.sendReservationConfirmation({
+        reservation: mockReservationPickup,
+        user: mockUser,
+        magazine: mockMagazine,
+        cancelUrl,
+      });
+
+      const emailArgs = mockTransporter.sendMail.mock.calls[0][0];
+      expect(emailArgs.html).toContain(`href="${cancelUrl}"`);
+      expect(emailArgs.text).toContain(cancelUrl);
+    });
+
+    it('omits the cancellation section without a link', async () => {
+      await emailService.sendReservationConfirmation({
+        reservation: mockReservationPickup,
+        user: mockUser,
+        magazine: mockMagazine,
+      });
+
+      const emailArgs = mockTransporter.sendMail.mock.calls[0][0];
+      expect(emailArgs.html).not.toContain('Reservierung stornieren');
+    });
+
     it('handles email sending errors', async () => {
       mockTransporter.sendMail.mockRejectedValue(new Error('Send failed'));
 
@@ -283,6 +370,39 @@ describe('EmailService - Real Implementation', () => {
     });
   });
 
+  describe('Reservation Update Emails', () => {
+    it('sends the updated confirmation with the new amount due', async () => {
+      await emailService.sendReservationUpdate({
+        reservation: { ...mockReservationShipping, status: 'pending' },
+        user: mockUser,
+        magazine: mockMagazine,
+      });
+
+      expect(mockTransporter.sendMail).toHaveBeenCalledTimes(1);
+
+      const emailArgs = mockTransporter.sendMail.mock.calls[0][0];
+      const totalCost = '€8.49'; // 5.99 + 2.50 shipping
+      expect(emailArgs.subject).toContain('geändert');
+      expect(emailArgs.html).toContain('Reservierung geändert');
+      expect(emailArgs.html).not.toContain('Reservierung bestätigt!');
+      expect(emailArgs.html).toContain(totalCost);
+      expect(emailArgs.text).toContain('Reservierung geändert');
+      expect(emailArgs.text).toContain(totalCost);
+    });
+
+    it('handles update email errors', async () => {
+      mockTransporter.sendMail.mockRejectedValue(new Error('Send failed'));
+
+      await expect(
+        emailService.sendReservationUpdate({
+          reservation: mockReservationPickup,
+          user: mockUser,
+          magazine: mockMagazine,
+        }),
+      ).rejects.toThrow('Failed to send reservation update email');
+    });
+  });
+
   describe('Reservation Cancellation Emails', () => {
     it('sends cancellation email successfully', async () => {
       await emailService.sendCancellationConfirmation({
@@ -329,6 +449,33 @@ describe('EmailService - Real Implementation', () => {
       expect(emailArgs.html).toContain(mockReservationPickup.pickupLocation);
     });
 
+    it('names the booked pickup slot', async () => {
+      await emailService.sendPickupReminder({
+        reservation: {
+          ...mockReservationPickup,
+          pickupLocation: 'Turnhalle',
+          pickupSlot: {
+            id: 'slot-123',
+            location: 'Turnhalle',
+            startsAt: '2024-01-15T13:00:00Z',
+            endsAt: '2024-01-15T15:00:00Z',
+            capacity: 20,
+            isActive: true,
+            createdAt: '2024-01-01T00:00:00Z',
+            updatedAt: '2024-01-01T00:00:00Z',
+          },
+        },
+        user: mockUser,
+        magazine: mockMagazine,
+      });
+
+      const emailArgs = mockTransporter.sendMail.mock.calls[0][0];
+      expect(emailArgs.html).toContain(
+        'am Montag, 15.01.2024, 14:00–16:00 Uhr',
+      );
+      expect(emailArgs.text).toContain('Abholort: Turnhalle');
+    });
+
     it('sends reminder for all reservations', async () => {
       await emailService.sendPickupReminder({
         reservation: mockReservationShipping,
@@ -356,6 +503,101 @@ describe('EmailService - Real Implementation', () => {
     });
   });
 
+  describe('Expiry Notice Emails', () => {
+    it('tells the family that the unpaid reservation lapsed', async () => {
+      await emailService.sendExpiryNotice({
+        reservation: mockReservationShipping,
+        user: mockUser,
+        magazine: mockMagazine,
+      });
+
+      expect(mockTransporter.sendMail).toHaveBeenCalledTimes(1);
+
+      const emailArgs = mockTransporter.sendMail.mock.calls[0][0];
+      expect(emailArgs.subject).toContain('Reservierung abgelaufen');
+      expect(emailArgs.html).toContain('Ablauf der Zahlungsfrist am');
+      expect(emailArgs.text).toContain('wieder freigegeben');
+    });
+
+    it('handles expiry email errors gracefully', async () => {
+      mockTransporter.sendMail.mockRejectedValue(new Error('Send failed'));
+
+      await expect(
+        emailService.sendExpiryNotice({
+          reservation: mockReservationShipping,
+          user: mockUser,
+          magazine: mockMagazine,
+        }),
+      ).rejects.toThrow('Failed to send expiry email');
+    });
+  });
+
+  describe('Shipping Confirmation Emails', () => {
+    it('includes the tracking link', async () => {
+      await emailService.sendShippingConfirmation({
+        reservation: {
+          ...mockReservationShipping,
+          status: 'completed',
+          trackingNumber: 'RR123456789DE',
+        },
+        user: mockUser,
+        magazine: mockMagazine,
+      });
+
+      const emailArgs = mockTransporter.sendMail.mock.calls[0][0];
+      const trackingUrl =
+        'https://tracking.example.com/?piececode=RR123456789DE';
+      expect(emailArgs.subject).toBe('Ihr Magazin wurde versandt');
+      expect(emailArgs.html).toContain(`href="${trackingUrl}"`);
+      expect(emailArgs.html).toContain('10115 Berlin');
+      expect(emailArgs.text).toContain(trackingUrl);
+    });
+
+    it('leaves out tracking without a tracking number', async () => {
+      await emailService.sendShippingConfirmation({
+        reservation: { ...mockReservationShipping, status: 'completed' },
+        user: mockUser,
+        magazine: mockMagazine,
+      });
+
+      const emailArgs = mockTransporter.sendMail.mock.calls[0][0];
+      expect(emailArgs.html).not.toContain('Sendung verfolgen');
+      expect(emailArgs.text).not.toContain('Sendungsnummer');
+    });
+  });
+
+  describe('Payment Reminder Emails', () => {
+    it('repeats the payment details of the confirmation', async () => {
+      await emailService.sendPaymentReminder({
+        reservation: { ...mockReservationShipping, status: 'pending' },
+        user: mockUser,
+        magazine: mockMagazine,
+      });
+
+      const emailArgs = mockTransporter.sendMail.mock.calls[0][0];
+      expect(emailArgs.subject).toBe('Zahlungserinnerung - Test Magazine');
+      expect(emailArgs.html).toContain('bis zum');
+      expect(emailArgs.html).toContain('https://paypal.me/test/8,49EUR');
+      expect(emailArgs.text).toContain('Verwendungszweck: PAY-123456');
+      expect(emailArgs.attachments).toEqual([]);
+    });
+
+    it('attaches the GiroCode for bank transfers', async () => {
+      await emailService.sendPaymentReminder({
+        reservation: {
+          ...mockReservationShipping,
+          paymentMethod: 'bank_transfer',
+        },
+        user: mockUser,
+        magazine: mockMagazine,
+      });
+
+      const emailArgs = mockTransporter.sendMail.mock.calls[0][0];
+      expect(emailArgs.text).toContain('IBAN: DE89 3704 0044 0532 0130 00');
+      expect(emailArgs.attachments).toHaveLength(1);
+    });
+  });
+
   describe('Email Content Validation', () => {
     it('includes user name in all emails', async () => {
       await emailService.sendReservationConfirmation({
@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import { PDFDocument } from 'pdf-lib';
+import {
+  buildPictureOrderReport,
+  pictureOrderFilename,
+  renderPictureOrderPdf,
+  toPictureOrderCsv,
+} from '@/lib/exports/picture-orders';
+import type { PictureClaim } from '@/types';
+
+const claim = (
+  childName: string,
+  groupName: string,
+  pictureType: PictureClaim['pictureType'] = 'group',
+): PictureClaim => ({
+  id: `claim-${childName}-${pictureType}`,
+  familyEmail: 'family@example.com',
+  groupName,
+  pictureType,
+  childName,
+  claimedAt: '2024-09-01T00:00:00Z',
+  reservationId: 'reservation-123',
+});
+
+const claims = [
+  claim('Paul', 'Seesterne'),
+  claim('Emma', 'Seesterne'),
+  claim('Emma', 'Seesterne', 'vorschul'),
+  claim('Mia', 'Delfine', 'vorschul'),
+];
+
+describe('Picture Order Report', () => {
+  describe('buildPictureOrderReport', () => {
+    it('counts the pictures per group and lists the children', () => {
+      expect(buildPictureOrderReport(claims)).toEqual([
+        {
+          groupName: 'Delfine',
+          groupPictures: 0,
+          vorschulPictures: 1,
+          children: [
+            { name: 'Mia', groupPicture: false, vorschulPicture: true },
+          ],
+        },
+        {
+          groupName: 'Seesterne',
+          groupPictures: 2,
+          vorschulPictures: 1,
+          children: [
+            { name: 'Emma', groupPicture: true, vorschulPicture: true },
+            { name: 'Paul', groupPicture: true, vorschulPicture: false },
+          ],
+        },
+      ]);
+    });
+  });
+
+  describe('toPictureOrderCsv', () => {
+    it('writes a row per child and the total of each group', () => {
+      const csv = toPictureOrderCsv(buildPictureOrderReport(claims));
+
+      expect(csv.split('\r\n')).toEqual([
+        '\uFEFFGruppe;Kind;Gruppenbild;Vorschüler-Bild',
+        'Delfine;Mia;;1',
+        'Delfine;Summe;0;1',
+        'Seesterne;Emma;1;1',
+        'Seesterne;Paul;1;',
+        'Seesterne;Summe;2;1',
+        '',
+      ]);
+    });
+  });
+
+  describe('renderPictureOrderPdf', () => {
+    it('continues long lists on further A4 pages', async () => {
+      const many = Array.from({ length: 80 }, (_, index) =>
+        claim(`Kind ${index}`, 'Seesterne'),
+      );
+
+      const pdf = await PDFDocument.load(
+        await renderPictureOrderPdf(buildPictureOrderReport(many)),
+      );
+
+      expect(pdf.getPageCount()).toBe(2);
+      const { width, height } = pdf.getPage(0).getSize();
+      expect(Math.round(width)).toBe(595);
+      expect(Math.round(height)).toBe(842);
+    });
+  });
+
+  it('names the file after the day', () => {
+    expect(pictureOrderFilename('pdf', new Date('2024-01-05T10:00:00Z'))).toBe(
+      'bildbestellungen-2024-01-05.pdf',
+    );
+  });
+});
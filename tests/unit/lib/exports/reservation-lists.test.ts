@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildReservationList,
+  exportFilename,
+  toCsv,
+  toXlsx,
+} from '@/lib/exports/reservation-lists';
+import type { ReservationDetails } from '@/types';
+
+const details = (
+  firstName: string,
+  lastName: string,
+  reservation: Record<string, unknown> = {},
+): ReservationDetails =>
+  ({
+    reservation: {
+      id: `res-${lastName}`,
+      quantity: 1,
+      status: 'confirmed',
+      deliveryMethod: 'pickup',
+      ...reservation,
+    },
+    user: { id: `user-${lastName}`, firstName, lastName },
+    magazine: { id: 'mag-1', title: 'Leuchtturm', issueNumber: '2024-1' },
+  }) as ReservationDetails;
+
+describe('Reservation Lists', () => {
+  describe('buildReservationList', () => {
+    it('sorts the pickup list by last name and lists picture orders', () => {
+      const list = buildReservationList('pickup', [
+        details('Jonas', 'Özdemir'),
+        details('Mia', 'Becker', {
+          quantity: 2,
+          orderGroupPicture: true,
+          childGroupName: 'seesterne',
+          orderVorschulPicture: true,
+          childName: 'Lotta',
+        }),
+        details('Paul', 'Schmidt', { deliveryMethod: 'shipping' }),
+      ]);
+
+      expect(list.rows.map((row) => row[0])).toEqual(['Becker', 'Özdemir']);
+      expect(list.rows[0]).toEqual([
+        'Becker',
+        'Mia',
+        'Leuchtturm (2024-1)',
+        2,
+        'Gruppenfoto Seesterne, Vorschulfoto',
+        'Lotta',
+        'Bezahlt',
+      ]);
+    });
+
+    it('puts the full shipping address on the shipping list', () => {
+      const list = buildReservationList('shipping', [
+        details('Paul', 'Schmidt', {
+          deliveryMethod: 'shipping',
+          shippingAddress: {
+            street: 'Hafenstraße',
+            houseNumber: '7a',
+            addressLine2: 'Hinterhaus',
+            postalCode: '18055',
+            city: 'Rostock',
+            country: 'DE',
+          },
+          trackingNumber: 'RR123456789DE',
+        }),
+        details('Mia', 'Becker'),
+      ]);
+
+      expect(list.rows).toHaveLength(1);
+      expect(list.rows[0]).toEqual(
+        expect.arrayContaining([
+          'Hafenstraße',
+          '7a',
+          'Hinterhaus',
+          '18055',
+          'Rostock',
+          'DE',
+          'RR123456789DE',
+        ]),
+      );
+    });
+  });
+
+  describe('toCsv', () => {
+    it('writes semicolon separated UTF-8 with BOM for Excel', () => {
+      const csv = toCsv(
+        buildReservationList('pickup', [details('Jürgen', 'Groß; Klein')]),
+      );
+
+      expect(csv.startsWith('\uFEFFNachname;Vorname;')).toBe(true);
+      expect(csv.split('\r\n')[1]).toMatch(/^"Groß; Klein";Jürgen;/);
+      expect(csv.endsWith('\r\n')).toBe(true);
+    });
+
+    it('keeps Excel from running names as formulas', () => {
+      const csv = toCsv(
+        buildReservationList('pickup', [details('=HYPERLINK("x")', 'Becker')]),
+      );
+
+      expect(csv).toContain(';"\'=HYPERLINK(""x"")";');
+    });
+  });
+
+  describe('toXlsx', () => {
+    it('creates an XLSX workbook', async () => {
+      const xlsx = await toXlsx(
+        buildReservationList('pickup', [details('Mia', 'Becker')]),
+      );
+
+      // XLSX files are ZIP archives
+      expect(Buffer.from(xlsx.subarray(0, 2)).toString()).toBe('PK');
+    });
+  });
+
+  it('names the file after the list and the day', () => {
+    expect(
+      exportFilename('shipping', 'xlsx', new Date('2024-01-05T10:00:00Z')),
+    ).toBe('versandliste-2024-01-05.xlsx');
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import { PDFDocument } from 'pdf-lib';
+import {
+  renderAddressLabelsPdf,
+  shippingBatchFilename,
+  toInternetmarkeCsv,
+} from '@/lib/exports/shipping-labels';
+import type { ReservationDetails } from '@/types';
+
+const details = (
+  lastName: string,
+  shippingAddress: Record<string, string> = {
+    street: 'Hafenstraße',
+    houseNumber: '7a',
+    postalCode: '18055',
+    city: 'Rostock',
+    country: 'DE',
+  },
+): ReservationDetails =>
+  ({
+    reservation: {
+      id: `res-${lastName}`,
+      deliveryMethod: 'shipping',
+      status: 'confirmed',
+      shippingAddress,
+    },
+    user: { id: `user-${lastName}`, firstName: 'Mia', lastName },
+    magazine: { id: 'mag-1', title: 'Leuchtturm', issueNumber: '2024-1' },
+  }) as ReservationDetails;
+
+describe('Shipping Labels', () => {
+  describe('toInternetmarkeCsv', () => {
+    it('writes the Internetmarke address import in Windows-1252', () => {
+      const withoutAddress = details('Ohne');
+      delete withoutAddress.reservation.shippingAddress;
+
+      const csv = Buffer.from(
+        toInternetmarkeCsv([
+          details('Weiß'),
+          details('Becker', {
+            street: 'Ringstraße',
+            houseNumber: '1',
+            addressLine2: 'c/o Huber; 2. OG',
+            postalCode: '1010',
+            city: 'Wien',
+            country: 'AT',
+          }),
+          withoutAddress,
+        ]),
+      ).toString('latin1');
+
+      expect(csv.split('\r\n')).toEqual([
+        'NAME;ZUSATZ;STRASSE;NUMMER;PLZ;STADT;LAND;ADRESS_TYP',
+        'Mia Becker;c/o Huber  2. OG;Ringstraße;1;1010;Wien;AUT;HOUSE',
+        'Mia Weiß;;Hafenstraße;7a;18055;Rostock;DEU;HOUSE',
+        '',
+      ]);
+    });
+  });
+
+  describe('renderAddressLabelsPdf', () => {
+    it('puts 24 labels on each A4 page', async () => {
+      const reservations = Array.from({ length: 25 }, (_, index) =>
+        details(`Familie ${index}`),
+      );
+
+      const pdf = await PDFDocument.load(
+        await renderAddressLabelsPdf(reservations),
+      );
+
+      expect(pdf.getPageCount()).toBe(2);
+      const { width, height } = pdf.getPage(0).getSize();
+      expect(Math.round(width)).toBe(595);
+      expect(Math.round(height)).toBe(842);
+    });
+
+    it('replaces characters the PDF font cannot print', async () => {
+      await expect(
+        renderAddressLabelsPdf([details('Nguyễn')]),
+      ).resolves.toBeInstanceOf(Uint8Array);
+    });
+  });
+
+  it('names the files after their purpose and the day', () => {
+    const date = new Date('2024-01-05T10:00:00Z');
+
+    expect(shippingBatchFilename('csv', date)).toBe(
+      'internetmarke-2024-01-05.csv',
+    );
+    expect(shippingBatchFilename('pdf', date)).toBe(
+      'adressetiketten-2024-01-05.pdf',
+    );
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { runExpireReservationsJob } from '@/lib/jobs/expire-reservations';
+import { getEmailService } from '@/lib/email/email-service';
+
+const mockExpireOverdueReservations = vi.fn();
+
+vi.mock('@/lib/database', () => ({
+  DatabaseService: class {
+    expireOverdueReservations = mockExpireOverdueReservations;
+  },
+}));
+
+const details = (id: string) => ({
+  reservation: { id, status: 'expired', quantity: 1 },
+  user: { id: 'user-123', email: 'test@example.com' },
+  magazine: { id: 'mag-123', title: 'Test Magazine' },
+});
+
+describe('Reservation Expiry Job', () => {
+  const sendExpiryNotice = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    sendExpiryNotice.mockResolvedValue(undefined);
+    vi.mocked(getEmailService).mockReturnValue({
+      sendExpiryNotice,
+    } as any);
+  });
+
+  it('notifies every family whose reservation expired', async () => {
+    mockExpireOverdueReservations.mockResolvedValue([
+      details('res-1'),
+      details('res-2'),
+    ]);
+
+    const result = await runExpireReservationsJob();
+
+    expect(result).toEqual({
+      expired: 2,
+      notified: 2,
+      failedNotifications: 0,
+    });
+    expect(sendExpiryNotice).toHaveBeenCalledWith(details('res-1'));
+  });
+
+  it('passes the reference time to the database', async () => {
+    mockExpireOverdueReservations.mockResolvedValue([]);
+    const now = new Date('2024-01-09T00:00:00Z');
+
+    const result = await runExpireReservationsJob(now);
+
+    expect(mockExpireOverdueReservations).toHaveBeenCalledWith(now);
+    expect(result.expired).toBe(0);
+    expect(sendExpiryNotice).not.toHaveBeenCalled();
+  });
+
+  it('counts failed notices without stopping the run', async () => {
+    mockExpireOverdueReservations.mockResolvedValue([
+      details('res-1'),
+      details('res-2'),
+    ]);
+    sendExpiryNotice.mockRejectedValueOnce(new Error('SMTP down'));
+
+    const result = await runExpireReservationsJob();
+
+    expect(result.notified).toBe(1);
+    expect(result.failedNotifications).toBe(1);
+  });
+
+  it('still expires reservations when email is not configured', async () => {
+    mockExpireOverdueReservations.mockResolvedValue([details('res-1')]);
+    vi.mocked(getEmailService).mockImplementation(() => {
+      throw new Error('SMTP configuration missing');
+    });
+
+    const result = await runExpireReservationsJob();
+
+    expect(result).toEqual({
+      expired: 1,
+      notified: 0,
+      failedNotifications: 1,
+    });
+  });
+});
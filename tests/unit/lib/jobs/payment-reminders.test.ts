@@ -0,0 +1,103 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { runPaymentRemindersJob } from '@/lib/jobs/payment-reminders';
+import { getEmailService } from '@/lib/email/email-service';
+
+const { mockDb } = vi.hoisted(() => ({
+  mockDb: {
+    getReservationsDueForPaymentReminder: vi.fn(),
+    claimPaymentReminder: vi.fn(),
+    releasePaymentReminder: vi.fn(),
+  },
+}));
+
+vi.mock('@/lib/database', () => ({
+  DatabaseService: class {
+    getReservationsDueForPaymentReminder =
+      mockDb.getReservationsDueForPaymentReminder;
+    claimPaymentReminder = mockDb.claimPaymentReminder;
+    releasePaymentReminder = mockDb.releasePaymentReminder;
+  },
+}));
+
+const details = (id: string) => ({
+  reservation: {
+    id,
+    status: 'pending',
+    quantity: 1,
+    deliveryMethod: 'shipping',
+    paymentMethod: 'bank_transfer',
+  },
+  user: { id: 'user-123', email: 'test@example.com' },
+  magazine: { id: 'mag-123', title: 'Test Magazine' },
+});
+
+describe('Payment Reminder Job', () => {
+  const sendPaymentReminder = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    sendPaymentReminder.mockResolvedValue(undefined);
+    mockDb.claimPaymentReminder.mockResolvedValue(true);
+    mockDb.releasePaymentReminder.mockResolvedValue(undefined);
+    vi.mocked(getEmailService).mockReturnValue({
+      sendPaymentReminder,
+    } as any);
+  });
+
+  it('reminds every family with an unpaid reservation', async () => {
+    mockDb.getReservationsDueForPaymentReminder.mockResolvedValue([
+      details('res-1'),
+      details('res-2'),
+    ]);
+    const now = new Date('2024-01-06T08:00:00Z');
+
+    const result = await runPaymentRemindersJob(now);
+
+    expect(result).toEqual({ due: 2, sent: 2, failed: 0 });
+    expect(mockDb.getReservationsDueForPaymentReminder).toHaveBeenCalledWith(
+      now,
+    );
+    expect(mockDb.claimPaymentReminder).toHaveBeenCalledWith('res-1', now);
+    expect(sendPaymentReminder).toHaveBeenCalledWith(details('res-1'));
+  });
+
+  it('skips reminders another run already claimed', async () => {
+    mockDb.getReservationsDueForPaymentReminder.mockResolvedValue([
+      details('res-1'),
+    ]);
+    mockDb.claimPaymentReminder.mockResolvedValue(false);
+
+    const result = await runPaymentRemindersJob();
+
+    expect(result).toEqual({ due: 1, sent: 0, failed: 0 });
+    expect(sendPaymentReminder).not.toHaveBeenCalled();
+  });
+
+  it('releases the claim when the email fails so it is retried', async () => {
+    mockDb.getReservationsDueForPaymentReminder.mockResolvedValue([
+      details('res-1'),
+      details('res-2'),
+    ]);
+    sendPaymentReminder.mockRejectedValueOnce(new Error('SMTP down'));
+
+    const result = await runPaymentRemindersJob();
+
+    expect(result).toEqual({ due: 2, sent: 1, failed: 1 });
+    expect(mockDb.releasePaymentReminder).toHaveBeenCalledWith('res-1');
+    expect(mockDb.releasePaymentReminder).toHaveBeenCalledTimes(1);
+  });
+
+  it('claims nothing when email is not configured', async () => {
+    mockDb.getReservationsDueForPaymentReminder.mockResolvedValue([
+      details('res-1'),
+    ]);
+    vi.mocked(getEmailService).mockImplementation(() => {
+      throw new Error('SMTP configuration missing');
+    });
+
+    const result = await runPaymentRemindersJob();
+
+    expect(result).toEqual({ due: 1, sent: 0, failed: 1 });
+    expect(mockDb.claimPaymentReminder).not.toHaveBeenCalled();
+  });
+});
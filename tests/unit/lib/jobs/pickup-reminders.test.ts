@@ -0,0 +1,103 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { runPickupRemindersJob } from '@/lib/jobs/pickup-reminders';
+import { getEmailService } from '@/lib/email/email-service';
+
+const { mockDb } = vi.hoisted(() => ({
+  mockDb: {
+    getReservationsDueForPickupReminder: vi.fn(),
+    claimPickupReminder: vi.fn(),
+    releasePickupReminder: vi.fn(),
+  },
+}));
+
+vi.mock('@/lib/database', () => ({
+  DatabaseService: class {
+    getReservationsDueForPickupReminder =
+      mockDb.getReservationsDueForPickupReminder;
+    claimPickupReminder = mockDb.claimPickupReminder;
+    releasePickupReminder = mockDb.releasePickupReminder;
+  },
+}));
+
+const details = (id: string) => ({
+  reservation: {
+    id,
+    status: 'confirmed',
+    quantity: 1,
+    deliveryMethod: 'pickup',
+    pickupDate: '2024-01-07',
+  },
+  user: { id: 'user-123', email: 'test@example.com' },
+  magazine: { id: 'mag-123', title: 'Test Magazine' },
+});
+
+describe('Pickup Reminder Job', () => {
+  const sendPickupReminder = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    sendPickupReminder.mockResolvedValue(undefined);
+    mockDb.claimPickupReminder.mockResolvedValue(true);
+    mockDb.releasePickupReminder.mockResolvedValue(undefined);
+    vi.mocked(getEmailService).mockReturnValue({
+      sendPickupReminder,
+    } as any);
+  });
+
+  it('reminds every family collecting tomorrow', async () => {
+    mockDb.getReservationsDueForPickupReminder.mockResolvedValue([
+      details('res-1'),
+      details('res-2'),
+    ]);
+    const now = new Date('2024-01-06T16:00:00Z');
+
+    const result = await runPickupRemindersJob(now);
+
+    expect(result).toEqual({ due: 2, sent: 2, failed: 0 });
+    expect(mockDb.getReservationsDueForPickupReminder).toHaveBeenCalledWith(
+      now,
+    );
+    expect(mockDb.claimPickupReminder).toHaveBeenCalledWith('res-1', now);
+    expect(sendPickupReminder).toHaveBeenCalledWith(details('res-1'));
+  });
+
+  it('skips reminders another run claimed or a cancellation overtook', async () => {
+    mockDb.getReservationsDueForPickupReminder.mockResolvedValue([
+      details('res-1'),
+    ]);
+    mockDb.claimPickupReminder.mockResolvedValue(false);
+
+    const result = await runPickupRemindersJob();
+
+    expect(result).toEqual({ due: 1, sent: 0, failed: 0 });
+    expect(sendPickupReminder).not.toHaveBeenCalled();
+  });
+
+  it('releases the claim when the email fails so it is retried', async () => {
+    mockDb.getReservationsDueForPickupReminder.mockResolvedValue([
+      details('res-1'),
+      details('res-2'),
+    ]);
+    sendPickupReminder.mockRejectedValueOnce(new Error('SMTP down'));
+
+    const result = await runPickupRemindersJob();
+
+    expect(result).toEqual({ due: 2, sent: 1, failed: 1 });
+    expect(mockDb.releasePickupReminder).toHaveBeenCalledWith('res-1');
+    expect(mockDb.releasePickupReminder).toHaveBeenCalledTimes(1);
+  });
+
+  it('claims nothing when email is not configured', async () => {
+    mockDb.getReservationsDueForPickupReminder.mockResolvedValue([
+      details('res-1'),
+    ]);
+    vi.mocked(getEmailService).mockImplementation(() => {
+      throw new Error('SMTP configuration missing');
+    });
+
+    const result = await runPickupRemindersJob();
+
+    expect(result).toEqual({ due: 1, sent: 0, failed: 1 });
+    expect(mockDb.claimPickupReminder).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { runWaitlistOffersJob } from '@/lib/jobs/waitlist-offers';
+import { offerReturnedCopies } from '@/lib/waitlist';
+
+const { mockDb } = vi.hoisted(() => ({
+  mockDb: {
+    expireWaitlistOffers: vi.fn(),
+    getWaitlistedMagazineIds: vi.fn(),
+  },
+}));
+
+vi.mock('@/lib/database', () => ({
+  DatabaseService: class {
+    expireWaitlistOffers = mockDb.expireWaitlistOffers;
+    getWaitlistedMagazineIds = mockDb.getWaitlistedMagazineIds;
+  },
+}));
+
+vi.mock('@/lib/waitlist', () => ({
+  offerReturnedCopies: vi.fn(),
+}));
+
+describe('Waitlist Offers Job', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockDb.expireWaitlistOffers.mockResolvedValue([{ id: 'entry-1' }]);
+    mockDb.getWaitlistedMagazineIds.mockResolvedValue(['mag-1', 'mag-2']);
+    vi.mocked(offerReturnedCopies).mockResolvedValue({
+      offered: 1,
+      notified: 1,
+      failedNotifications: 0,
+    });
+  });
+
+  it('lapses unclaimed offers and offers copies of every waitlisted issue', async () => {
+    const now = new Date('2024-01-10T12:00:00Z');
+
+    const result = await runWaitlistOffersJob(now);
+
+    expect(result).toEqual({
+      expiredOffers: 1,
+      offered: 2,
+      notified: 2,
+      failedNotifications: 0,
+    });
+    expect(offerReturnedCopies).toHaveBeenCalledWith('mag-1', now);
+    expect(offerReturnedCopies).toHaveBeenCalledWith('mag-2', now);
+  });
+
+  it('continues with the next issue when one fails', async () => {
+    vi.mocked(offerReturnedCopies).mockRejectedValueOnce(
+      new Error('Database unavailable'),
+    );
+
+    const result = await runWaitlistOffersJob();
+
+    expect(result.offered).toBe(1);
+    expect(offerReturnedCopies).toHaveBeenCalledTimes(2);
+  });
+});
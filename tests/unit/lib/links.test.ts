@@ -0,0 +1,22 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { getSiteUrl, reservationCancelUrl } from '@/lib/links';
+
+describe('Links', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('builds links from SITE_URL', () => {
+    vi.stubEnv('SITE_URL', 'https://flaschenpost.example/');
+
+    expect(reservationCancelUrl('res 1', 'token')).toBe(
+      'https://flaschenpost.example/reservierung-stornieren?id=res%201&token=token',
+    );
+  });
+
+  it('refuses to build links without SITE_URL', () => {
+    vi.stubEnv('SITE_URL', '');
+
+    expect(() => getSiteUrl()).toThrow('SITE_URL is not configured');
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import {
+  copiesPerFamily,
+  formatPublicationDate,
+  isMagazineOpen,
+  remainingFamilyCopies,
+} from '@/lib/magazines';
+
+describe('Magazine Issues', () => {
+  const now = new Date('2024-06-15T10:00:00Z');
+
+  it('is open while active and inside the reservation window', () => {
+    expect(isMagazineOpen({ isActive: true }, now)).toBe(true);
+    expect(
+      isMagazineOpen(
+        {
+          isActive: true,
+          reservationsOpenAt: '2024-06-01T00:00:00Z',
+          reservationsCloseAt: '2024-07-01T00:00:00Z',
+        },
+        now,
+      ),
+    ).toBe(true);
+  });
+
+  it('is closed when inactive or outside the window', () => {
+    expect(isMagazineOpen({ isActive: false }, now)).toBe(false);
+    expect(
+      isMagazineOpen(
+        { isActive: true, reservationsOpenAt: '2024-06-16T00:00:00Z' },
+        now,
+      ),
+    ).toBe(false);
+    expect(
+      isMagazineOpen(
+        { isActive: true, reservationsCloseAt: '2024-06-15T10:00:00Z' },
+        now,
+      ),
+    ).toBe(false);
+  });
+
+  it('limits families to one copy unless the issue sets its own limit', () => {
+    expect(copiesPerFamily({})).toBe(1);
+    expect(copiesPerFamily({ copiesPerFamily: 3 })).toBe(3);
+  });
+
+  it('applies the exception set for a family instead', () => {
+    expect(copiesPerFamily({ copiesPerFamily: 3 }, 5)).toBe(5);
+    expect(copiesPerFamily({ copiesPerFamily: 3 }, null)).toBe(3);
+    expect(
+      remainingFamilyCopies(
+        { id: 'magazine-1' },
+        [{ magazineId: 'magazine-1', quantity: 1, status: 'confirmed' }],
+        2,
+      ),
+    ).toBe(1);
+  });
+
+  it('counts held and received copies of the issue against the limit', () => {
+    const magazine = { id: 'magazine-1', copiesPerFamily: 3 };
+
+    expect(remainingFamilyCopies(magazine, [])).toBe(3);
+    expect(
+      remainingFamilyCopies(magazine, [
+        { magazineId: 'magazine-1', quantity: 1, status: 'pending' },
+        { magazineId: 'magazine-1', quantity: 1, status: 'completed' },
+        { magazineId: 'magazine-1', quantity: 2, status: 'cancelled' },
+        { magazineId: 'magazine-1', quantity: 2, status: 'expired' },
+        { magazineId: 'magazine-2', quantity: 2, status: 'confirmed' },
+      ]),
+    ).toBe(1);
+    expect(
+      remainingFamilyCopies({ id: 'magazine-1' }, [
+        { magazineId: 'magazine-1', quantity: 1, status: 'confirmed' },
+      ]),
+    ).toBe(0);
+  });
+
+  it('writes the publication month in German', () => {
+    expect(formatPublicationDate({ publishDate: '2024-08-01' })).toBe(
+      'August 2024',
+    );
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildGiroCodePayload,
+  renderGiroCodePng,
+  renderGiroCodeSvg,
+  reservationGiroCode,
+} from '@/lib/payments/girocode';
+import { calculateTotalCost, paymentConfig } from '@/config/payment';
+
+describe('GiroCode', () => {
+  describe('buildGiroCodePayload', () => {
+    it('builds an EPC069-12 payload with remittance text', () => {
+      const payload = buildGiroCodePayload({
+        name: 'Elternbeirat Leuchtturm',
+        iban: 'de89 3704 0044 0532 0130 00',
+        bic: 'COBADEFFXXX',
+        amount: 8.5,
+        reference: 'FP-1A2B3C4D',
+      });
+
+      expect(payload.split('\n')).toEqual([
+        'BCD',
+        '002',
+        '1',
+        'SCT',
+        'COBADEFFXXX',
+        'Elternbeirat Leuchtturm',
+        'DE89370400440532013000',
+        'EUR8.50',
+        '',
+        '',
+        'FP-1A2B3C4D',
+      ]);
+    });
+
+    it('leaves the BIC empty when none is configured', () => {
+      const payload = buildGiroCodePayload({
+        name: 'Elternbeirat',
+        iban: 'DE89370400440532013000',
+        amount: 5.99,
+        reference: 'FP-1A2B3C4D',
+      });
+
+      expect(payload.split('\n')[4]).toBe('');
+    });
+
+    it('truncates fields to the lengths allowed by the standard', () => {
+      const payload = buildGiroCodePayload({
+        name: 'N'.repeat(80),
+        iban: 'DE89370400440532013000',
+        amount: 1,
+        reference: 'R'.repeat(200),
+      });
+      const lines = payload.split('\n');
+
+      expect(lines[5]).toHaveLength(70);
+      expect(lines[10]).toHaveLength(140);
+    });
+  });
+
+  describe('reservationGiroCode', () => {
+    it('uses the configured account, amount due and payment reference', () => {
+      const payload = reservationGiroCode({
+        id: '1a2b3c4d-0000-0000-0000-000000000000',
+        quantity: 1,
+        deliveryMethod: 'shipping',
+      });
+      const lines = payload.split('\n');
+
+      expect(lines[5]).toBe(paymentConfig.bankTransfer.accountHolder);
+      expect(lines[7]).toBe(`EUR${calculateTotalCost(true, 1).toFixed(2)}`);
+      expect(lines[10]).toBe('FP-1A2B3C4D');
+    });
+  });
+
+  describe('rendering', () => {
+    it('renders SVG and PNG images', async () => {
+      const payload = reservationGiroCode({
+        id: '1a2b3c4d-0000-0000-0000-000000000000',
+        quantity: 1,
+        deliveryMethod: 'shipping',
+      });
+
+      expect(await renderGiroCodeSvg(payload)).toContain('<svg');
+
+      const png = await renderGiroCodePng(payload);
+      expect(png.subarray(1, 4).toString()).toBe('PNG');
+    });
+  });
+});
@@ -0,0 +1,343 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  assignPaymentImportLine,
+  extractPaymentReferences,
+  importPaymentStatement,
+  matchStatementLine,
+  PaymentAssignmentError,
+} from '@/lib/payments/reconciliation';
+import { calculateTotalCost } from '@/config/payment';
+import { InvalidStatusTransitionError } from '@/lib/reservation-status';
+import type { Reservation, StatementLine } from '@/types';
+
+const treasurer = {
+  changedBy: 'admin:treasurer-1',
+  processorId: 'treasurer-1',
+};
+
+const { mockDb, mockParseStatement } = vi.hoisted(() => ({
+  mockDb: {
+    createPaymentImport: vi.fn(),
+    savePaymentImportLines: vi.fn(),
+    getPendingReservations: vi.fn(),
+    transitionReservationStatus: vi.fn(),
+    recordPayment: vi.fn(),
+    updatePaymentImportLine: vi.fn(),
+    completePaymentImport: vi.fn(),
+    getPaymentImportLine: vi.fn(),
+    getReservationDetails: vi.fn(),
+  },
+  mockParseStatement: vi.fn(),
+}));
+
+vi.mock('@/lib/database', () => ({
+  DatabaseService: class {
+    createPaymentImport = mockDb.createPaymentImport;
+    savePaymentImportLines = mockDb.savePaymentImportLines;
+    getPendingReservations = mockDb.getPendingReservations;
+    transitionReservationStatus = mockDb.transitionReservationStatus;
+    recordPayment = mockDb.recordPayment;
+    updatePaymentImportLine = mockDb.updatePaymentImportLine;
+    completePaymentImport = mockDb.completePaymentImport;
+    getPaymentImportLine = mockDb.getPaymentImportLine;
+    getReservationDetails = mockDb.getReservationDetails;
+  },
+}));
+
+vi.mock('@/lib/payments/statement-parsers', () => ({
+  parseStatement: mockParseStatement,
+}));
+
+const reservation = (
+  id: string,
+  overrides: Partial<Reservation> = {},
+): Reservation =>
+  ({
+    id,
+    status: 'pending',
+    quantity: 1,
+    deliveryMethod: 'shipping',
+    ...overrides,
+  }) as Reservation;
+
+const shippingTotal = calculateTotalCost(true, 1);
+
+const line = (overrides: Partial<StatementLine> = {}): StatementLine => ({
+  externalId: 'TX1',
+  bookingDate: '2024-01-05',
+  amount: shippingTotal,
+  currency: 'EUR',
+  reference: 'Flaschenpost FP-1A2B3C4D',
+  ...overrides,
+});
+
+describe('Payment Reconciliation', () => {
+  describe('extractPaymentReferences', () => {
+    it('normalizes references written without hyphen or in lower case', () => {
+      expect(extractPaymentReferences('fp 1a2b3c4d, FP1A2B3C4E')).toEqual([
+        'FP-1A2B3C4D',
+        'FP-1A2B3C4E',
+      ]);
+    });
+
+    it('ignores codes that are too long or missing', () => {
+      expect(extractPaymentReferences('FP-1A2B3C4D5 Danke')).toEqual([]);
+      expect(extractPaymentReferences('Magazin Flaschenpost')).toEqual([]);
+    });
+  });
+
+  describe('matchStatementLine', () => {
+    const byReference = new Map([
+      ['FP-1A2B3C4D', reservation('1a2b3c4d-0000-0000-0000-000000000000')],
+      [
+        'FP-99999999',
+        reservation('99999999-0000-0000-0000-000000000000', {
+          quantity: 2,
+          deliveryMethod: 'pickup',
+        }),
+      ],
+    ]);
+
+    it('matches on reference and amount due', () => {
+      const match = matchStatementLine(line(), byReference);
+
+      expect(match).toMatchObject({
+        matched: true,
+        reservation: { id: '1a2b3c4d-0000-0000-0000-000000000000' },
+      });
+    });
+
+    it('explains why a line could not be matched', () => {
+      expect(
+        matchStatementLine(line({ reference: 'Spende' }), byReference),
+      ).toEqual({ matched: false, reason: 'no_reference' });
+      expect(
+        matchStatementLine(line({ reference: 'FP-00000000' }), byReference),
+      ).toEqual({ matched: false, reason: 'unknown_reference' });
+      expect(
+        matchStatementLine(
+          line({ reference: 'FP-1A2B3C4D FP-99999999' }),
+          byReference,
+        ),
+      ).toEqual({ matched: false, reason: 'ambiguous_reference' });
+      expect(matchStatementLine(line({ amount: 5 }), byReference)).toEqual({
+        matched: false,
+        reason: 'amount_mismatch',
+      });
+      expect(
+        matchStatementLine(line({ currency: 'CHF' }), byReference),
+      ).toEqual({ matched: false, reason: 'currency_mismatch' });
+    });
+
+    it('uses quantity and delivery method for the amount due', () => {
+      const match = matchStatementLine(
+        line({
+          reference: 'FP-99999999',
+          amount: calculateTotalCost(false, 2),
+        }),
+        byReference,
+      );
+
+      expect(match.matched).toBe(true);
+    });
+  });
+
+  describe('importPaymentStatement', () => {
+    const savedLine = (id: string, overrides: Partial<StatementLine> = {}) => ({
+      ...line(overrides),
+      id,
+      importId: 'import-1',
+      source: 'bank_csv',
+      status: 'unmatched',
+      createdAt: '2024-01-05T00:00:00Z',
+    });
+
+    beforeEach(() => {
+      vi.clearAllMocks();
+      mockDb.createPaymentImport.mockResolvedValue('import-1');
+      mockDb.getPendingReservations.mockResolvedValue([
+        reservation('1a2b3c4d-0000-0000-0000-000000000000'),
+      ]);
+      mockDb.transitionReservationStatus.mockResolvedValue({});
+      mockDb.recordPayment.mockResolvedValue({});
+      mockDb.updatePaymentImportLine.mockResolvedValue(undefined);
+      mockDb.completePaymentImport.mockResolvedValue(undefined);
+    });
+
+    it('confirms matched reservations and queues the rest for review', async () => {
+      mockParseStatement.mockReturnValue([line(), line({ externalId: 'TX2' })]);
+      mockDb.savePaymentImportLines.mockResolvedValue([
+        savedLine('line-1'),
+        savedLine('line-2', { reference: 'Spende' }),
+      ]);
+
+      const result = await importPaymentStatement({
+        source: 'bank_csv',
+        content: 'csv',
+        filename: 'umsaetze.csv',
+        importedBy: treasurer,
+      });
+
+      expect(result).toEqual({
+        importId: 'import-1',
+        lines: 2,
+        duplicates: 0,
+        matched: 1,
+        unmatched: 1,
+      });
+      expect(mockDb.transitionReservationStatus).toHaveBeenCalledWith(
+        '1a2b3c4d-0000-0000-0000-000000000000',
+        'confirmed',
+        expect.objectContaining({
+          changedBy: 'system',
+          processorId: 'treasurer-1',
+          reason: 'payment_import:import-1',
+        }),
+      );
+      expect(mockDb.recordPayment).toHaveBeenCalledWith(
+        '1a2b3c4d-0000-0000-0000-000000000000',
+        {
+          amountDue: shippingTotal,
+          amountReceived: shippingTotal,
+          method: 'bank_transfer',
+          paidAt: '2024-01-05',
+        },
+      );
+      expect(mockDb.updatePaymentImportLine).toHaveBeenCalledWith('line-1', {
+        status: 'matched',
+        reservationId: '1a2b3c4d-0000-0000-0000-000000000000',
+      });
+      expect(mockDb.updatePaymentImportLine).toHaveBeenCalledWith('line-2', {
+        status: 'unmatched',
+        reviewNote: 'no_reference',
+      });
+      expect(mockDb.completePaymentImport).toHaveBeenCalledWith('import-1', {
+        lineCount: 2,
+        matchedCount: 1,
+      });
+    });
+
+    it('reports lines that were imported before as duplicates', async () => {
+      mockParseStatement.mockReturnValue([line()]);
+      mockDb.savePaymentImportLines.mockResolvedValue([]);
+
+      const result = await importPaymentStatement({
+        source: 'paypal_csv',
+        content: 'csv',
+        importedBy: treasurer,
+      });
+
+      expect(result).toMatchObject({ lines: 0, duplicates: 1, matched: 0 });
+      expect(mockDb.transitionReservationStatus).not.toHaveBeenCalled();
+    });
+
+    it('sends a second payment for the same reservation to review', async () => {
+      mockParseStatement.mockReturnValue([line(), line({ externalId: 'TX2' })]);
+      mockDb.savePaymentImportLines.mockResolvedValue([
+        savedLine('line-1'),
+        savedLine('line-2'),
+      ]);
+
+      const result = await importPaymentStatement({
+        source: 'bank_csv',
+        content: 'csv',
+        importedBy: treasurer,
+      });
+
+      expect(result.matched).toBe(1);
+      expect(mockDb.updatePaymentImportLine).toHaveBeenCalledWith('line-2', {
+        status: 'unmatched',
+        reviewNote: 'unknown_reference',
+      });
+    });
+
+    it('keeps a line for review when the confirmation fails', async () => {
+      mockParseStatement.mockReturnValue([line()]);
+      mockDb.savePaymentImportLines.mockResolvedValue([savedLine('line-1')]);
+      mockDb.transitionReservationStatus.mockRejectedValue(
+        new Error('Failed to update reservation status'),
+      );
+
+      const result = await importPaymentStatement({
+        source: 'bank_csv',
+        content: 'csv',
+        importedBy: treasurer,
+      });
+
+      expect(result).toMatchObject({ matched: 0, unmatched: 1 });
+      expect(mockDb.updatePaymentImportLine).toHaveBeenCalledWith('line-1', {
+        status: 'unmatched',
+        reviewNote: 'confirmation_failed',
+      });
+    });
+  });
+
+  describe('assignPaymentImportLine', () => {
+    beforeEach(() => {
+      vi.clearAllMocks();
+      mockDb.transitionReservationStatus.mockResolvedValue({});
+      mockDb.recordPayment.mockResolvedValue({});
+      mockDb.updatePaymentImportLine.mockResolvedValue(undefined);
+      mockDb.getPaymentImportLine.mockResolvedValue({
+        ...line({ amount: 10 }),
+        id: 'line-1',
+        source: 'paypal_csv',
+        status: 'unmatched',
+      });
+      mockDb.getReservationDetails.mockResolvedValue({
+        reservation: reservation('res-1'),
+      });
+    });
+
+    it('confirms the chosen reservation and resolves the line', async () => {
+      await assignPaymentImportLine('line-1', 'res-1', treasurer);
+
+      expect(mockDb.transitionReservationStatus).toHaveBeenCalledWith(
+        'res-1',
+        'confirmed',
+        expect.objectContaining(treasurer),
+      );
+      expect(mockDb.recordPayment).toHaveBeenCalledWith(
+        'res-1',
+        expect.objectContaining({ amountReceived: 10, method: 'paypal' }),
+      );
+      expect(mockDb.updatePaymentImportLine).toHaveBeenCalledWith('line-1', {
+        status: 'resolved',
+        reservationId: 'res-1',
+      });
+    });
+
+    it('only records the payment for confirmed reservations', async () => {
+      mockDb.getReservationDetails.mockResolvedValue({
+        reservation: reservation('res-1', { status: 'confirmed' }),
+      });
+
+      await assignPaymentImportLine('line-1', 'res-1', treasurer);
+
+      expect(mockDb.transitionReservationStatus).not.toHaveBeenCalled();
+      expect(mockDb.recordPayment).toHaveBeenCalled();
+    });
+
+    it('refuses reservations that can no longer be confirmed', async () => {
+      mockDb.transitionReservationStatus.mockRejectedValue(
+        new InvalidStatusTransitionError('cancelled', 'confirmed'),
+      );
+
+      await expect(
+        assignPaymentImportLine('line-1', 'res-1', treasurer),
+      ).rejects.toBeInstanceOf(PaymentAssignmentError);
+      expect(mockDb.updatePaymentImportLine).not.toHaveBeenCalled();
+    });
+
+    it('refuses lines that are no longer in review', async () => {
+      mockDb.getPaymentImportLine.mockResolvedValue({
+        id: 'line-1',
+        status: 'matched',
+      });
+
+      await expect(
+        assignPaymentImportLine('line-1', 'res-1', treasurer),
+      ).rejects.toBeInstanceOf(PaymentAssignmentError);
+    });
+  });
+});
@@ -0,0 +1,175 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseAmount,
+  parseBankCsv,
+  parseCamt053,
+  parseDate,
+  parsePayPalCsv,
+  parseStatement,
+  StatementParseError,
+} from '@/lib/payments/statement-parsers';
+
+const camt053 = `<?xml version="1.0" encoding="UTF-8"?>
+<Document xmlns="urn:iso:std:iso:20022:tech:xsd:camt.053.001.02">
+  <BkToCstmrStmt>
+    <Stmt>
+      <Ntry>
+        <NtryRef>ENTRY-1</NtryRef>
+        <Amt Ccy="EUR">8.49</Amt>
+        <CdtDbtInd>CRDT</CdtDbtInd>
+        <BookgDt><Dt>2024-01-05</Dt></BookgDt>
+        <AcctSvcrRef>BANK-REF-1</AcctSvcrRef>
+        <NtryDtls><TxDtls>
+          <Amt Ccy="EUR">8.49</Amt>
+          <RltdPties><Dbtr><Nm>Erika Mustermann &amp; Max</Nm></Dbtr></RltdPties>
+          <RmtInf><Ustrd>Flaschenpost FP-1A2B3C4D</Ustrd><Ustrd>Danke</Ustrd></RmtInf>
+        </TxDtls></NtryDtls>
+      </Ntry>
+      <Ntry>
+        <Amt Ccy="EUR">50.00</Amt>
+        <CdtDbtInd>DBIT</CdtDbtInd>
+        <BookgDt><Dt>2024-01-06</Dt></BookgDt>
+        <AcctSvcrRef>BANK-REF-2</AcctSvcrRef>
+      </Ntry>
+    </Stmt>
+  </BkToCstmrStmt>
+</Document>`;
+
+const sparkasseCsv = [
+  '"Auftragskonto";"Buchungstag";"Valutadatum";"Buchungstext";"Verwendungszweck";"Beguenstigter/Zahlungspflichtiger";"Betrag";"Waehrung"',
+  '"DE001";"05.01.24";"05.01.24";"GUTSCHR. UEBERWEISUNG";"FP-1A2B3C4D Flaschenpost";"Erika Mustermann";"8,49";"EUR"',
+  '"DE001";"06.01.24";"06.01.24";"LASTSCHRIFT";"Druckerei";"Druck GmbH";"-120,00";"EUR"',
+  '"DE001";"07.01.24";"07.01.24";"GUTSCHR. UEBERWEISUNG";"Spende";"Max Muster";"1.000,00";"EUR"',
+].join('\r\n');
+
+const paypalCsv = [
+  '\uFEFF"Datum","Uhrzeit","Zeitzone","Name","Typ","Status","Währung","Brutto","Gebühr","Netto","Transaktionscode","Betreff","Hinweis"',
+  '"05.01.2024","10:00:00","CET","Erika Mustermann","Zahlung erhalten","Abgeschlossen","EUR","8,49","-0,35","8,14","7AB12345CD678901E","","FP-1A2B3C4D"',
+  '"06.01.2024","11:00:00","CET","Max Muster","Zahlung erhalten","Ausstehend","EUR","5,99","0,00","5,99","8AB12345CD678901E","",""',
+].join('\n');
+
+describe('Statement Parsers', () => {
+  describe('parseCamt053', () => {
+    it('returns credit entries with reference, payer and bank id', () => {
+      const lines = parseCamt053(camt053);
+
+      expect(lines).toEqual([
+        {
+          externalId: 'BANK-REF-1',
+          bookingDate: '2024-01-05',
+          amount: 8.49,
+          currency: 'EUR',
+          payerName: 'Erika Mustermann & Max',
+          reference: 'Flaschenpost FP-1A2B3C4D Danke',
+        },
+      ]);
+    });
+
+    it('rejects files that are not CAMT.053 statements', () => {
+      expect(() => parseCamt053('<Document></Document>')).toThrow(
+        StatementParseError,
+      );
+    });
+  });
+
+  describe('parseBankCsv', () => {
+    it('reads credits from a German bank export', () => {
+      const lines = parseBankCsv(sparkasseCsv);
+
+      expect(lines).toHaveLength(2);
+      expect(lines[0]).toMatchObject({
+        bookingDate: '2024-01-05',
+        amount: 8.49,
+        currency: 'EUR',
+        payerName: 'Erika Mustermann',
+        reference: 'FP-1A2B3C4D Flaschenpost',
+      });
+      expect(lines[1].amount).toBe(1000);
+    });
+
+    it('skips account information above the header row', () => {
+      const lines = parseBankCsv(
+        `"Kontonummer:";"DE001"\n"Zeitraum:";"01.01.2024 - 31.01.2024"\n\n${sparkasseCsv}`,
+      );
+
+      expect(lines).toHaveLength(2);
+    });
+
+    it('derives stable ids that tell identical bookings apart', () => {
+      const duplicateRow =
+        '"DE001";"05.01.24";"05.01.24";"GUTSCHR.";"Spende";"Max";"5,00";"EUR"';
+      const csv = [
+        sparkasseCsv.split('\r\n')[0],
+        duplicateRow,
+        duplicateRow,
+      ].join('\n');
+
+      const first = parseBankCsv(csv);
+      const second = parseBankCsv(csv);
+
+      expect(first[0].externalId).not.toBe(first[1].externalId);
+      expect(first.map((line) => line.externalId)).toEqual(
+        second.map((line) => line.externalId),
+      );
+    });
+
+    it('rejects CSV files without date and amount columns', () => {
+      expect(() => parseBankCsv('a;b\n1;2')).toThrow(StatementParseError);
+    });
+  });
+
+  describe('parsePayPalCsv', () => {
+    it('reads completed incoming payments with the gross amount', () => {
+      const lines = parsePayPalCsv(paypalCsv);
+
+      expect(lines).toEqual([
+        {
+          externalId: '7AB12345CD678901E',
+          bookingDate: '2024-01-05',
+          amount: 8.49,
+          currency: 'EUR',
+          payerName: 'Erika Mustermann',
+          reference: 'FP-1A2B3C4D',
+        },
+      ]);
+    });
+
+    it('reads the English export', () => {
+      const csv = [
+        '"Date","Time","TimeZone","Name","Type","Status","Currency","Gross","Fee","Net","Transaction ID","Subject","Note"',
+        '"01/05/2024","10:00:00","PST","Erika","Payment","Completed","EUR","8.49","-0.35","8.14","TX1","","FP-1A2B3C4D"',
+      ].join('\n');
+
+      expect(parsePayPalCsv(csv)[0]).toMatchObject({
+        externalId: 'TX1',
+        bookingDate: '2024-01-05',
+        amount: 8.49,
+      });
+    });
+  });
+
+  describe('parseStatement', () => {
+    it('dispatches on the source', () => {
+      expect(parseStatement('paypal_csv', paypalCsv)).toHaveLength(1);
+      expect(parseStatement('camt053', camt053)).toHaveLength(1);
+    });
+  });
+
+  describe('value parsing', () => {
+    it('parses German and English amounts', () => {
+      expect(parseAmount('1.234,56')).toBe(1234.56);
+      expect(parseAmount('-12,50')).toBe(-12.5);
+      expect(parseAmount('12.50')).toBe(12.5);
+      expect(parseAmount('€ 5,99')).toBe(5.99);
+      expect(parseAmount('')).toBeNaN();
+    });
+
+    it('parses the usual date formats', () => {
+      expect(parseDate('31.12.2024')).toBe('2024-12-31');
+      expect(parseDate('1.2.24')).toBe('2024-02-01');
+      expect(parseDate('2024-12-31')).toBe('2024-12-31');
+      expect(parseDate('12/31/2024')).toBe('2024-12-31');
+      expect(parseDate('gestern')).toBeUndefined();
+    });
+  });
+});
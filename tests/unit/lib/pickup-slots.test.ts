@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import {
+  formatPickupSlot,
+  isPickupSlotOpen,
+  remainingCapacity,
+  toPickupDate,
+} from '@/lib/pickup-slots';
+import type { PickupSlot } from '@/types';
+
+const slot = (overrides: Partial<PickupSlot> = {}): PickupSlot => ({
+  id: 'slot-123',
+  location: 'BRK Haus für Kinder - Leuchtturm',
+  startsAt: '2024-03-14T13:00:00Z',
+  endsAt: '2024-03-14T15:30:00Z',
+  capacity: 10,
+  bookedFamilies: 4,
+  isActive: true,
+  createdAt: '2024-01-01T00:00:00Z',
+  updatedAt: '2024-01-01T00:00:00Z',
+  ...overrides,
+});
+
+describe('Pickup Slots', () => {
+  it('counts the places left', () => {
+    expect(remainingCapacity(slot())).toBe(6);
+    expect(remainingCapacity(slot({ capacity: 3 }))).toBe(0);
+    expect(remainingCapacity(slot({ bookedFamilies: undefined }))).toBe(10);
+  });
+
+  it('is open while active and not started', () => {
+    const before = new Date('2024-03-14T12:59:00Z');
+
+    expect(isPickupSlotOpen(slot(), before)).toBe(true);
+    expect(isPickupSlotOpen(slot({ isActive: false }), before)).toBe(false);
+    expect(isPickupSlotOpen(slot(), new Date('2024-03-14T13:00:00Z'))).toBe(
+      false,
+    );
+  });
+
+  it('writes the window in German local time', () => {
+    expect(formatPickupSlot(slot())).toBe(
+      'Donnerstag, 14.03.2024, 14:00–16:30 Uhr',
+    );
+    // Summer time
+    expect(
+      formatPickupSlot({
+        startsAt: '2024-07-04T13:00:00Z',
+        endsAt: '2024-07-04T14:00:00Z',
+      }),
+    ).toBe('Donnerstag, 04.07.2024, 15:00–16:00 Uhr');
+  });
+
+  it('takes the pickup date from the German calendar', () => {
+    expect(toPickupDate(new Date('2024-03-14T22:30:00Z'))).toBe('2024-03-14');
+    expect(toPickupDate(new Date('2024-03-14T23:30:00Z'))).toBe('2024-03-15');
+  });
+});
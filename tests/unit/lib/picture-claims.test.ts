@@ -0,0 +1,332 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  isRosterVorschueler,
+  PictureClaimsService,
+} from '@/lib/picture-claims';
+
+const { mockDb, mockClaimLookup } = vi.hoisted(() => ({
+  mockDb: {
+    getCurrentKindergartenGroups: vi.fn(),
+    logDataProcessing: vi.fn(),
+  },
+  mockClaimLookup: vi.fn(),
+}));
+
+vi.mock('@/lib/database', () => ({
+  DatabaseService: class {
+    getCurrentKindergartenGroups = mockDb.getCurrentKindergartenGroups;
+    logDataProcessing = mockDb.logDataProcessing;
+  },
+}));
+
+vi.mock('@/lib/supabase', () => ({
+  createServerSupabaseClient: () => {
+    const chain: any = {
+      select: () => chain,
+      eq: () => chain,
+      order: mockClaimLookup,
+    };
+    return { from: () => chain };
+  },
+}));
+
+const child = (name: string, isVorschueler: boolean) => ({
+  id: `child-${name}`,
+  groupId: 'group-123',
+  name,
+  isVorschueler,
+  createdAt: '2024-09-01T00:00:00Z',
+  updatedAt: '2024-09-01T00:00:00Z',
+});
+
+const seesterne = {
+  id: 'group-123',
+  name: 'Seesterne',
+  year: '2024/2025',
+  children: [child('Emma Müller', true), child('Paul Schmidt', false)],
+  createdAt: '2024-09-01T00:00:00Z',
+  updatedAt: '2024-09-01T00:00:00Z',
+};
+
+const order = (
+  name: string,
+  groupName: string,
+  pictures: {
+    orderGroupPicture?: boolean;
+    orderVorschulPicture?: boolean;
+  } = {},
+) => ({
+  name,
+  groupName,
+  isVorschueler: !!pictures.orderVorschulPicture,
+  orderGroupPicture: pictures.orderGroupPicture ?? true,
+  orderVorschulPicture: pictures.orderVorschulPicture ?? false,
+});
+
+const claimRow = (
+  groupName: string,
+  pictureType: string,
+  childName = 'Emma Müller',
+) => ({
+  id: `claim-${groupName}-${pictureType}`,
+  family_email: 'family@example.com',
+  group_name: groupName,
+  picture_type: pictureType,
+  child_name: childName,
+  reservation_id: 'reservation-123',
+  claimed_at: '2024-09-01T00:00:00Z',
+});
+
+describe('Picture Claims', () => {
+  describe('isRosterVorschueler', () => {
+    it('accepts children marked as Vorschüler, ignoring case and spacing', () => {
+      expect(isRosterVorschueler(seesterne, '  emma   MÜLLER ')).toBe(true);
+      expect(isRosterVorschueler(seesterne, 'Paul Schmidt')).toBe(false);
+      expect(isRosterVorschueler(seesterne, 'Unbekannt')).toBe(false);
+    });
+
+    it('relies on the parents for groups without children', () => {
+      expect(isRosterVorschueler({ children: [] }, 'Emma Müller')).toBe(true);
+      expect(isRosterVorschueler({}, 'Emma Müller')).toBe(true);
+    });
+  });
+
+  describe('checkMultipleClaims', () => {
+    beforeEach(() => {
+      vi.clearAllMocks();
+    });
+
+    it('answers all checks from one query', async () => {
+      mockClaimLookup.mockResolvedValue({
+        data: [claimRow('Seesterne', 'group'), claimRow('Delfine', 'vorschul')],
+        error: null,
+      });
+
+      const results = await new PictureClaimsService().checkMultipleClaims(
+        'Family@Example.com',
+        [
+          {
+            groupName: 'Seesterne',
+            pictureType: 'group',
+            childName: 'Emma Müller',
+          },
+          {
+            groupName: 'Seesterne',
+            pictureType: 'vorschul',
+            childName: 'Emma Müller',
+          },
+          {
+            groupName: 'Seesterne',
+            pictureType: 'group',
+            childName: 'Lena Müller',
+          },
+          {
+            groupName: 'Delfine',
+            pictureType: 'vorschul',
+            childName: 'Emma Müller',
+          },
+        ],
+      );
+
+      expect(results).toEqual(
+        new Map([
+          ['Seesterne-Emma Müller-group', true],
+          ['Seesterne-Emma Müller-vorschul', false],
+          ['Seesterne-Lena Müller-group', false],
+          ['Delfine-Emma Müller-vorschul', true],
+        ]),
+      );
+      expect(mockClaimLookup).toHaveBeenCalledTimes(1);
+    });
+
+    it('reports failed lookups instead of treating them as unclaimed', async () => {
+      mockClaimLookup.mockResolvedValue({
+        data: null,
+        error: { code: '57014', message: 'canceling statement' },
+      });
+
+      await expect(
+        new PictureClaimsService().checkMultipleClaims('family@example.com', [
+          {
+            groupName: 'Seesterne',
+            pictureType: 'group',
+            childName: 'Emma Müller',
+          },
+        ]),
+      ).rejects.toThrow('Fehler beim Abrufen der Bildbestellungen');
+    });
+  });
+
+  describe('getAllClaims', () => {
+    beforeEach(() => {
+      vi.clearAllMocks();
+    });
+
+    it('logs the report with the admin account', async () => {
+      // Sorted by group, then by child
+      mockClaimLookup.mockReturnValueOnce({
+        order: () =>
+          Promise.resolve({
+            data: [claimRow('Seesterne', 'group')],
+            error: null,
+          }),
+      });
+
+      const claims = await new PictureClaimsService().getAllClaims({
+        changedBy: 'admin:admin-123',
+        processorId: 'admin-123',
+      });
+
+      expect(claims).toHaveLength(1);
+      expect(mockDb.logDataProcessing).toHaveBeenCalledWith({
+        action: 'accessed',
+        dataType: 'reservation',
+        legalBasis: 'contract',
+        processorId: 'admin-123',
+        details: JSON.stringify({
+          accessedBy: 'admin:admin-123',
+          report: 'picture_orders',
+          count: 1,
+        }),
+      });
+    });
+  });
+
+  describe('validatePictureOrder', () => {
+    let service: PictureClaimsService;
+
+    beforeEach(() => {
+      vi.clearAllMocks();
+      service = new PictureClaimsService();
+      mockDb.getCurrentKindergartenGroups.mockResolvedValue([seesterne]);
+      mockClaimLookup.mockResolvedValue({ data: [], error: null });
+    });
+
+    it('accepts a Vorschüler on the roster', async () => {
+      const result = await service.validatePictureOrder('family@example.com', [
+        order('Emma Müller', 'Seesterne', { orderVorschulPicture: true }),
+      ]);
+
+      expect(result).toEqual({ valid: true, errors: [] });
+      expect(mockDb.getCurrentKindergartenGroups).toHaveBeenCalledWith({
+        withChildren: true,
+      });
+    });
+
+    it('rejects the Vorschüler picture for children not listed as Vorschüler', async () => {
+      const result = await service.validatePictureOrder('family@example.com', [
+        order('Paul Schmidt', 'Seesterne', {
+          orderGroupPicture: false,
+          orderVorschulPicture: true,
+        }),
+      ]);
+
+      expect(result.valid).toBe(false);
+      expect(result.errors[0]).toContain('nicht als Vorschüler eingetragen');
+    });
+
+    it('rejects groups that are not on the current roster', async () => {
+      const result = await service.validatePictureOrder('family@example.com', [
+        order('Emma Müller', 'Seepferdchen'),
+      ]);
+
+      expect(result.valid).toBe(false);
+      expect(result.errors[0]).toContain('"Seepferdchen" ist nicht bekannt');
+    });
+
+    it('rejects pictures the family claimed already', async () => {
+      mockClaimLookup.mockResolvedValue({
+        data: [claimRow('Seesterne', 'group')],
+        error: null,
+      });
+
+      const result = await service.validatePictureOrder('family@example.com', [
+        order('Emma Müller', 'Seesterne'),
+      ]);
+
+      expect(result.valid).toBe(false);
+      expect(result.errors[0]).toContain(
+        'für Emma Müller bereits ein Gruppenbild',
+      );
+    });
+
+    it('lets a sibling in the same group order the pictures as well', async () => {
+      mockClaimLookup.mockResolvedValue({
+        data: [claimRow('Seesterne', 'group', 'emma  müller')],
+        error: null,
+      });
+
+      const result = await service.validatePictureOrder('family@example.com', [
+        order('Emma Müller', 'Seesterne'),
+        order('Paul Schmidt', 'Seesterne'),
+      ]);
+
+      expect(result.valid).toBe(false);
+      expect(result.errors).toHaveLength(1);
+      expect(result.errors[0]).toContain('für Emma Müller');
+    });
+
+    it('rejects group pictures for children the roster does not list', async () => {
+      const result = await service.validatePictureOrder('family@example.com', [
+        order('Emma Müller', 'Seesterne'),
+        order('Erfundenes Kind', 'Seesterne'),
+      ]);
+
+      expect(result.valid).toBe(false);
+      expect(result.errors).toEqual([
+        expect.stringContaining(
+          'Erfundenes Kind ist in der Gruppe "Seesterne" nicht eingetragen',
+        ),
+      ]);
+    });
+
+    it('allows one picture per family in groups without a roster', async () => {
+      mockDb.getCurrentKindergartenGroups.mockResolvedValue([
+        { ...seesterne, children: [] },
+      ]);
+      mockClaimLookup.mockResolvedValue({
+        data: [claimRow('Seesterne', 'group', 'Emma Müller')],
+        error: null,
+      });
+
+      const result = await service.validatePictureOrder('family@example.com', [
+        order('Paul Schmidt', 'Seesterne'),
+      ]);
+
+      expect(result.valid).toBe(false);
+      expect(result.errors[0]).toContain('pro Familie nur ein Gruppenbild');
+    });
+
+    it('counts the pictures of the same order in groups without a roster', async () => {
+      mockDb.getCurrentKindergartenGroups.mockResolvedValue([
+        { ...seesterne, children: [] },
+      ]);
+
+      const result = await service.validatePictureOrder('family@example.com', [
+        order('Emma Müller', 'Seesterne', { orderVorschulPicture: true }),
+        order('Paul Schmidt', 'Seesterne', { orderVorschulPicture: true }),
+      ]);
+
+      expect(result.valid).toBe(false);
+      expect(result.errors).toHaveLength(2);
+      expect(result.errors[0]).toContain('nur ein Gruppenbild');
+      expect(result.errors[1]).toContain('nur ein Vorschüler-Bild');
+    });
+
+    it('checks the children of every group', async () => {
+      mockDb.getCurrentKindergartenGroups.mockResolvedValue([
+        seesterne,
+        { ...seesterne, id: 'group-456', name: 'Sonnengruppe', children: [] },
+      ]);
+
+      const result = await service.validatePictureOrder('family@example.com', [
+        order('Emma Müller', 'Seesterne', { orderVorschulPicture: true }),
+        order('Ben Müller', 'Sonnengruppe'),
+      ]);
+
+      expect(result).toEqual({ valid: true, errors: [] });
+      expect(mockDb.getCurrentKindergartenGroups).toHaveBeenCalledTimes(1);
+      expect(mockClaimLookup).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createRateLimit, getClientIp } from '@/lib/rate-limit';
+
+describe('Rate Limit', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('refuses requests over the limit until the window has passed', () => {
+    vi.useFakeTimers();
+    const rateLimit = createRateLimit({ windowMs: 60_000, max: 2 });
+
+    expect(rateLimit.check('a')).toBe(true);
+    expect(rateLimit.check('a')).toBe(true);
+    expect(rateLimit.check('a')).toBe(false);
+    expect(rateLimit.check('b')).toBe(true);
+
+    vi.advanceTimersByTime(60_001);
+    expect(rateLimit.check('a')).toBe(true);
+  });
+
+  it('does not extend the window with refused requests', () => {
+    vi.useFakeTimers();
+    const rateLimit = createRateLimit({ windowMs: 60_000, max: 1 });
+
+    expect(rateLimit.check('a')).toBe(true);
+    vi.advanceTimersByTime(50_000);
+    expect(rateLimit.check('a')).toBe(false);
+
+    vi.advanceTimersByTime(10_000);
+    expect(rateLimit.check('a')).toBe(true);
+  });
+
+  it('counts recorded requests only', () => {
+    const rateLimit = createRateLimit({ windowMs: 60_000, max: 2 });
+
+    expect(rateLimit.isLimited('a')).toBe(false);
+    expect(rateLimit.isLimited('a')).toBe(false);
+    rateLimit.record('a');
+    rateLimit.record('a');
+
+    expect(rateLimit.isLimited('a')).toBe(true);
+  });
+
+  it('forgets a key on reset', () => {
+    const rateLimit = createRateLimit({ windowMs: 60_000, max: 1 });
+
+    rateLimit.check('a');
+    rateLimit.reset('a');
+
+    expect(rateLimit.check('a')).toBe(true);
+  });
+
+  it('takes the first forwarded address as the client', () => {
+    const request = new Request('http://localhost/', {
+      headers: { 'x-forwarded-for': '203.0.113.7, 10.0.0.1' },
+    });
+
+    expect(getClientIp(request)).toBe('203.0.113.7');
+    expect(getClientIp(new Request('http://localhost/'))).toBe('unknown');
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import {
+  hasPictureOrder,
+  reservationChildren,
+} from '@/lib/reservation-children';
+import type { Reservation } from '@/types';
+
+const reservation = (fields: Partial<Reservation> = {}): Reservation => ({
+  id: 'reservation-123',
+  userId: 'user-123',
+  magazineId: 'mag-123',
+  quantity: 1,
+  status: 'pending',
+  reservationDate: '2024-01-01',
+  deliveryMethod: 'pickup',
+  consentReference: 'legacy',
+  createdAt: '2024-01-01T00:00:00Z',
+  updatedAt: '2024-01-01T00:00:00Z',
+  ...fields,
+});
+
+const mia = {
+  id: 'child-1',
+  reservationId: 'reservation-123',
+  name: 'Mia',
+  groupName: 'Sonnengruppe',
+  isVorschueler: true,
+  orderGroupPicture: true,
+  orderVorschulPicture: true,
+};
+
+describe('Reservation Children', () => {
+  it('lists the children stored with the reservation', () => {
+    const ben = { ...mia, id: 'child-2', name: 'Ben', groupName: 'Seesterne' };
+
+    expect(reservationChildren(reservation({ children: [mia, ben] }))).toEqual([
+      mia,
+      ben,
+    ]);
+  });
+
+  it('falls back to the child of older reservations', () => {
+    expect(
+      reservationChildren(
+        reservation({
+          children: [],
+          childName: 'Emma',
+          childGroupName: 'seesterne',
+          orderGroupPicture: true,
+        }),
+      ),
+    ).toEqual([
+      {
+        name: 'Emma',
+        groupName: 'seesterne',
+        isVorschueler: false,
+        orderGroupPicture: true,
+        orderVorschulPicture: false,
+      },
+    ]);
+  });
+
+  it('knows whether any picture was ordered', () => {
+    expect(hasPictureOrder(reservation({ children: [mia] }))).toBe(true);
+    expect(hasPictureOrder(reservation())).toBe(false);
+    expect(
+      hasPictureOrder(
+        reservation({ children: [], orderGroupPicture: false, childName: '' }),
+      ),
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import {
+  assertTransition,
+  canTransition,
+  releasesCopies,
+  InvalidStatusTransitionError,
+} from '@/lib/reservation-status';
+
+describe('Reservation Status Transitions', () => {
+  describe('canTransition', () => {
+    it('allows the documented lifecycle moves', () => {
+      expect(canTransition('pending', 'confirmed')).toBe(true);
+      expect(canTransition('pending', 'expired')).toBe(true);
+      expect(canTransition('pending', 'cancelled')).toBe(true);
+      expect(canTransition('confirmed', 'completed')).toBe(true);
+      expect(canTransition('confirmed', 'cancelled')).toBe(true);
+    });
+
+    it('rejects skipping or reversing steps', () => {
+      expect(canTransition('pending', 'completed')).toBe(false);
+      expect(canTransition('confirmed', 'pending')).toBe(false);
+      expect(canTransition('confirmed', 'expired')).toBe(false);
+    });
+
+    it('treats final statuses as terminal', () => {
+      for (const status of ['completed', 'cancelled', 'expired'] as const) {
+        expect(canTransition(status, 'pending')).toBe(false);
+        expect(canTransition(status, 'confirmed')).toBe(false);
+      }
+    });
+  });
+
+  describe('assertTransition', () => {
+    it('throws InvalidStatusTransitionError for illegal moves', () => {
+      expect(() => assertTransition('expired', 'confirmed')).toThrow(
+        InvalidStatusTransitionError,
+      );
+    });
+
+    it('exposes both statuses on the error', () => {
+      try {
+        assertTransition('cancelled', 'completed');
+      } catch (error) {
+        expect(error).toMatchObject({ from: 'cancelled', to: 'completed' });
+      }
+    });
+
+    it('does not throw for legal moves', () => {
+      expect(() => assertTransition('pending', 'confirmed')).not.toThrow();
+    });
+  });
+
+  describe('releasesCopies', () => {
+    it('returns stock when an active reservation is cancelled or expires', () => {
+      expect(releasesCopies('pending', 'cancelled')).toBe(true);
+      expect(releasesCopies('pending', 'expired')).toBe(true);
+      expect(releasesCopies('confirmed', 'cancelled')).toBe(true);
+    });
+
+    it('keeps stock taken for confirmations and handovers', () => {
+      expect(releasesCopies('pending', 'confirmed')).toBe(false);
+      expect(releasesCopies('confirmed', 'completed')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,150 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createToken } from '@/lib/auth/tokens';
+import { findWaitlistOffer, offerReturnedCopies } from '@/lib/waitlist';
+import { getEmailService } from '@/lib/email/email-service';
+
+const { mockDb } = vi.hoisted(() => ({
+  mockDb: {
+    offerWaitlistCopies: vi.fn(),
+    getMagazineById: vi.fn(),
+    getWaitlistEntryById: vi.fn(),
+  },
+}));
+
+vi.mock('@/lib/database', () => ({
+  DatabaseService: class {
+    offerWaitlistCopies = mockDb.offerWaitlistCopies;
+    getMagazineById = mockDb.getMagazineById;
+    getWaitlistEntryById = mockDb.getWaitlistEntryById;
+  },
+}));
+
+const ENTRY_ID = '7a1b2c3d-0000-4000-8000-000000000001';
+const now = new Date('2024-01-10T12:00:00Z');
+
+const entry = (overrides: Record<string, unknown> = {}) => ({
+  id: ENTRY_ID,
+  magazineId: 'mag-123',
+  email: 'john@example.com',
+  firstName: 'John',
+  lastName: 'Doe',
+  quantity: 1,
+  status: 'offered',
+  offerExpiresAt: '2024-01-12T12:00:00.000Z',
+  ...overrides,
+});
+
+describe('Waitlist', () => {
+  const sendWaitlistOffer = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.stubEnv('JWT_SECRET', 'test-jwt-secret-with-at-least-32-characters');
+    vi.stubEnv('SITE_URL', 'https://flaschenpost.example');
+    sendWaitlistOffer.mockResolvedValue(undefined);
+    vi.mocked(getEmailService).mockReturnValue({ sendWaitlistOffer } as any);
+    mockDb.getMagazineById.mockResolvedValue({
+      id: 'mag-123',
+      title: 'Test Magazine',
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  describe('offerReturnedCopies', () => {
+    it('holds the copies for two days and sends a claim link', async () => {
+      mockDb.offerWaitlistCopies.mockResolvedValue([entry()]);
+
+      const result = await offerReturnedCopies('mag-123', now);
+
+      expect(result).toEqual({
+        offered: 1,
+        notified: 1,
+        failedNotifications: 0,
+      });
+      expect(mockDb.offerWaitlistCopies).toHaveBeenCalledWith(
+        'mag-123',
+        new Date('2024-01-12T12:00:00Z'),
+      );
+      expect(sendWaitlistOffer).toHaveBeenCalledWith({
+        entry: entry(),
+        magazine: expect.objectContaining({ id: 'mag-123' }),
+        claimUrl: expect.stringMatching(
+          /^https:\/\/flaschenpost\.example\/\?warteliste=.+#reservation-form$/,
+        ),
+      });
+    });
+
+    it('sends nothing when no family got an offer', async () => {
+      mockDb.offerWaitlistCopies.mockResolvedValue([]);
+
+      const result = await offerReturnedCopies('mag-123', now);
+
+      expect(result.offered).toBe(0);
+      expect(sendWaitlistOffer).not.toHaveBeenCalled();
+    });
+
+    it('counts failed emails without stopping', async () => {
+      mockDb.offerWaitlistCopies.mockResolvedValue([
+        entry(),
+        entry({ id: 'entry-2' }),
+      ]);
+      sendWaitlistOffer.mockRejectedValueOnce(new Error('SMTP down'));
+
+      const result = await offerReturnedCopies('mag-123', now);
+
+      expect(result.notified).toBe(1);
+      expect(result.failedNotifications).toBe(1);
+    });
+
+    it('sends nothing when the issue is missing', async () => {
+      mockDb.offerWaitlistCopies.mockResolvedValue([entry()]);
+      mockDb.getMagazineById.mockResolvedValue(null);
+
+      const result = await offerReturnedCopies('mag-123', now);
+
+      expect(result).toEqual({
+        offered: 1,
+        notified: 0,
+        failedNotifications: 1,
+      });
+      expect(sendWaitlistOffer).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('findWaitlistOffer', () => {
+    it('returns the open offer behind a claim link', async () => {
+      mockDb.getWaitlistEntryById.mockResolvedValue(entry());
+
+      const offer = await findWaitlistOffer(
+        createToken('waitlist', ENTRY_ID, now),
+        now,
+      );
+
+      expect(offer?.id).toBe(ENTRY_ID);
+      expect(mockDb.getWaitlistEntryById).toHaveBeenCalledWith(ENTRY_ID);
+    });
+
+    it('rejects tokens issued for another purpose', async () => {
+      const offer = await findWaitlistOffer(
+        createToken('reservation', ENTRY_ID, now),
+        now,
+      );
+
+      expect(offer).toBeNull();
+      expect(mockDb.getWaitlistEntryById).not.toHaveBeenCalled();
+    });
+
+    it('rejects offers that were claimed already', async () => {
+      mockDb.getWaitlistEntryById.mockResolvedValue(
+        entry({ status: 'claimed' }),
+      );
+
+      expect(
+        await findWaitlistOffer(createToken('waitlist', ENTRY_ID, now), now),
+      ).toBeNull();
+    });
+  });
+});
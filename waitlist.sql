@@ -0,0 +1,123 @@
+-- Waitlist for sold-out issues
+-- Run this in Supabase SQL editor
+
+-- Families waiting for copies of an issue. When copies come back the oldest
+-- entries are offered them: the copies are held for the family until
+-- offer_expires_at and either claimed through the link in the email or
+-- released again for the next entry.
+CREATE TABLE IF NOT EXISTS waitlist_entries (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  magazine_id UUID NOT NULL REFERENCES magazines(id),
+  email VARCHAR(255) NOT NULL,
+  first_name VARCHAR(100) NOT NULL,
+  last_name VARCHAR(100) NOT NULL,
+  quantity INTEGER NOT NULL CHECK (quantity BETWEEN 1 AND 5),
+  status VARCHAR(20) NOT NULL DEFAULT 'waiting'
+    CHECK (status IN ('waiting', 'offered', 'claimed', 'expired')),
+  offered_at TIMESTAMPTZ,
+  offer_expires_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- No policies: only the service role (server-side API) can read or write
+ALTER TABLE waitlist_entries ENABLE ROW LEVEL SECURITY;
+
+-- One open entry per family and issue (addresses are stored lowercase)
+CREATE UNIQUE INDEX IF NOT EXISTS idx_waitlist_entries_open_email
+ON waitlist_entries(magazine_id, email)
+WHERE status IN ('waiting', 'offered');
+
+-- Offers go out in the order families joined
+CREATE INDEX IF NOT EXISTS idx_waitlist_entries_waiting
+ON waitlist_entries(magazine_id, created_at)
+WHERE status = 'waiting';
+
+CREATE INDEX IF NOT EXISTS idx_waitlist_entries_offer_expires_at
+ON waitlist_entries(offer_expires_at)
+WHERE status = 'offered';
+
+-- Offers the available copies of an issue to the waiting families, oldest
+-- first. Strictly first come, first served: when the next family wants more
+-- copies than are left, nobody behind them is offered any. The offered
+-- copies leave the stock so a regular reservation cannot take them.
+CREATE OR REPLACE FUNCTION offer_waitlist_copies(
+  p_magazine_id UUID,
+  p_offer_expires_at TIMESTAMPTZ
+) RETURNS SETOF waitlist_entries
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_available INTEGER;
+  v_offered INTEGER := 0;
+  v_entry waitlist_entries%ROWTYPE;
+BEGIN
+  -- Locks the issue against concurrent reservations and offers
+  SELECT available_copies INTO v_available
+  FROM magazines
+  WHERE id = p_magazine_id
+    AND is_active
+    AND (reservations_close_at IS NULL OR reservations_close_at > NOW())
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  FOR v_entry IN
+    SELECT * FROM waitlist_entries
+    WHERE magazine_id = p_magazine_id
+      AND status = 'waiting'
+    ORDER BY created_at
+    FOR UPDATE
+  LOOP
+    EXIT WHEN v_entry.quantity > v_available - v_offered;
+
+    UPDATE waitlist_entries
+    SET status = 'offered',
+        offered_at = NOW(),
+        offer_expires_at = p_offer_expires_at,
+        updated_at = NOW()
+    WHERE id = v_entry.id
+    RETURNING * INTO v_entry;
+
+    v_offered := v_offered + v_entry.quantity;
+    RETURN NEXT v_entry;
+  END LOOP;
+
+  IF v_offered > 0 THEN
+    UPDATE magazines
+    SET available_copies = available_copies - v_offered,
+        updated_at = NOW()
+    WHERE id = p_magazine_id;
+  END IF;
+END;
+$$;
+
+-- Expires the offers nobody claimed in time and returns their copies to
+-- stock, ready for the next family on the waitlist
+CREATE OR REPLACE FUNCTION expire_waitlist_offers()
+RETURNS SETOF waitlist_entries
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_entry waitlist_entries%ROWTYPE;
+BEGIN
+  FOR v_entry IN
+    UPDATE waitlist_entries
+    SET status = 'expired',
+        updated_at = NOW()
+    WHERE status = 'offered'
+      AND offer_expires_at <= NOW()
+    RETURNING *
+  LOOP
+    PERFORM release_magazine_copies(v_entry.magazine_id, v_entry.quantity);
+    RETURN NEXT v_entry;
+  END LOOP;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION offer_waitlist_copies(UUID, TIMESTAMPTZ) FROM PUBLIC;
+REVOKE ALL ON FUNCTION expire_waitlist_offers() FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION offer_waitlist_copies(UUID, TIMESTAMPTZ) TO service_role;
+GRANT EXECUTE ON FUNCTION expire_waitlist_offers() TO service_role;